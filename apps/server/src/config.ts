@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DEFAULT_SESSION_TTL_SECONDS } from './service/session-tokens';
 
 const rawEnvSchema = z.object({
   PORT: z.coerce.number().int().min(1).max(65535).default(3001),
@@ -7,6 +8,8 @@ const rawEnvSchema = z.object({
   ENABLE_DB_PERSISTENCE: z.enum(['true', 'false', '1', '0']).default('true'),
   ALLOW_IN_MEMORY_ROOM_STORE: z.enum(['true', 'false', '1', '0']).default('false'),
   CORS_ORIGINS: z.string().optional(),
+  SESSION_SECRET: z.string().trim().min(32).optional(),
+  SESSION_TTL_SECONDS: z.coerce.number().int().min(60).default(DEFAULT_SESSION_TTL_SECONDS),
   NODE_ENV: z.string().default('development'),
 });
 
@@ -63,6 +66,8 @@ export interface AppConfig {
   nodeEnv: string;
   isProduction: boolean;
   corsOrigins: string[];
+  sessionSecret: string | undefined;
+  sessionTtlSeconds: number;
 }
 
 export const parseConfigFromEnv = (env: NodeJS.ProcessEnv): AppConfig => {
@@ -79,6 +84,11 @@ export const parseConfigFromEnv = (env: NodeJS.ProcessEnv): AppConfig => {
     throw new Error('DATABASE_URL is required when ENABLE_DB_PERSISTENCE=true');
   }
 
+  const corsOrigins = parseCorsOrigins(raw.CORS_ORIGINS, isProduction);
+  if (isProduction && !raw.SESSION_SECRET) {
+    throw new Error('SESSION_SECRET is required in production');
+  }
+
   return {
     port: raw.PORT,
     redisUrl: raw.REDIS_URL,
@@ -87,6 +97,8 @@ export const parseConfigFromEnv = (env: NodeJS.ProcessEnv): AppConfig => {
     allowInMemoryRoomStore,
     nodeEnv: raw.NODE_ENV,
     isProduction,
-    corsOrigins: parseCorsOrigins(raw.CORS_ORIGINS, isProduction),
+    corsOrigins,
+    sessionSecret: raw.SESSION_SECRET,
+    sessionTtlSeconds: raw.SESSION_TTL_SECONDS,
   };
 };
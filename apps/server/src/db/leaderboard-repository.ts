@@ -0,0 +1,222 @@
+import type { LeaderboardMetric, MatchListing } from '@slaphard/shared';
+import { withDbClient } from './client';
+import type {
+  HallOfFameRow,
+  LeaderboardQuery,
+  LeaderboardReadRepository,
+  LeaderboardRow,
+  MatchListingQuery,
+  MatchSummary,
+} from './types';
+
+const LEADERBOARD_ORDER: Record<LeaderboardMetric, string> = {
+  WINS: 't.wins DESC, t.matches ASC',
+  WIN_RATE: 't.wins::numeric / t.matches DESC, t.matches DESC',
+  REACTION: 'rx.avg_reaction_ms ASC, t.matches DESC',
+  PENALTIES: 'COALESCE(pe.penalties, 0)::numeric / t.matches ASC, t.matches DESC',
+};
+
+const leaderboardSql = (metric: LeaderboardMetric) => `
+WITH completed AS (
+  SELECT mp.player_id, mp.user_id, m.id AS match_id, m.winner_user_id
+  FROM match_players mp
+  JOIN matches m ON m.id = mp.match_id
+  WHERE m.ended_at IS NOT NULL
+    AND m.winner_user_id IS NOT NULL
+    AND ($1::timestamptz IS NULL OR m.ended_at >= $1)
+),
+totals AS (
+  SELECT
+    player_id,
+    COUNT(*) AS matches,
+    COUNT(*) FILTER (WHERE winner_user_id = user_id) AS wins
+  FROM completed
+  GROUP BY player_id
+),
+reactions AS (
+  SELECT
+    c.player_id,
+    AVG((e.payload->'reactionMsByUserId'->>c.user_id::text)::numeric) AS avg_reaction_ms
+  FROM completed c
+  JOIN match_events e ON e.match_id = c.match_id AND e.event_type = 'SLAP_RESULT'
+  WHERE e.payload->'reactionMsByUserId' ? c.user_id::text
+  GROUP BY c.player_id
+),
+penalties AS (
+  SELECT c.player_id, COUNT(*) AS penalties
+  FROM completed c
+  JOIN match_events e ON e.match_id = c.match_id AND e.event_type IN ('PENALTY', 'TIMEOUT')
+  WHERE e.payload->>'userId' = c.user_id::text
+  GROUP BY c.player_id
+)
+SELECT
+  t.player_id,
+  p.username,
+  t.matches,
+  t.wins,
+  rx.avg_reaction_ms,
+  COALESCE(pe.penalties, 0) AS penalties
+FROM totals t
+JOIN players p ON p.id = t.player_id
+LEFT JOIN reactions rx ON rx.player_id = t.player_id
+LEFT JOIN penalties pe ON pe.player_id = t.player_id
+WHERE t.matches >= $2
+  ${metric === 'REACTION' ? 'AND rx.avg_reaction_ms IS NOT NULL' : ''}
+ORDER BY ${LEADERBOARD_ORDER[metric]}, p.username ASC
+LIMIT $3;
+`;
+
+const hallOfFameSql = `
+WITH room AS (
+  SELECT id
+  FROM rooms
+  WHERE room_code = $1
+  ORDER BY updated_at DESC
+  LIMIT 1
+),
+seats AS (
+  SELECT
+    m.ended_at,
+    m.winner_user_id,
+    seat->>'userId' AS user_id,
+    seat->>'displayName' AS display_name
+  FROM matches m
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(m.summary->'players', '[]'::jsonb)) seat
+  WHERE m.room_id = (SELECT id FROM room)
+    AND m.ended_at IS NOT NULL
+    AND m.winner_user_id IS NOT NULL
+),
+reactions AS (
+  SELECT reaction.key AS user_id, AVG(reaction.value::numeric) AS avg_reaction_ms
+  FROM matches m
+  JOIN match_events e ON e.match_id = m.id AND e.event_type = 'SLAP_RESULT'
+  CROSS JOIN LATERAL jsonb_each_text(
+    COALESCE(e.payload->'reactionMsByUserId', '{}'::jsonb)
+  ) reaction
+  WHERE m.room_id = (SELECT id FROM room) AND m.winner_user_id IS NOT NULL
+  GROUP BY reaction.key
+)
+SELECT
+  s.user_id,
+  (array_agg(s.display_name ORDER BY s.ended_at DESC))[1] AS display_name,
+  COUNT(*) AS matches,
+  COUNT(*) FILTER (WHERE s.winner_user_id::text = s.user_id) AS wins,
+  MAX(rx.avg_reaction_ms) AS avg_reaction_ms
+FROM seats s
+LEFT JOIN reactions rx ON rx.user_id = s.user_id
+GROUP BY s.user_id
+ORDER BY wins DESC, matches ASC, display_name ASC
+LIMIT $2;
+`;
+
+const selectRoomByCodeSql = `
+SELECT 1
+FROM rooms
+WHERE room_code = $1
+LIMIT 1;
+`;
+
+const listMatchesSql = `
+SELECT
+  m.id,
+  r.room_code,
+  m.started_at,
+  m.ended_at,
+  m.summary->>'reason' AS reason,
+  m.winner_user_id,
+  m.summary->'players' AS players
+FROM matches m
+JOIN rooms r ON r.id = m.room_id
+WHERE m.ended_at IS NOT NULL
+  AND ($1::text IS NULL OR r.room_code = $1)
+  AND ($2::timestamptz IS NULL OR (m.ended_at, m.id) < ($2, $3::uuid))
+ORDER BY m.ended_at DESC, m.id DESC
+LIMIT $4;
+`;
+
+const toNullableNumber = (value: string | number | null): number | null =>
+  value === null ? null : Number(value);
+
+export class LeaderboardRepository implements LeaderboardReadRepository {
+  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardRow[]> {
+    return withDbClient(async (client) => {
+      const result = await client.query<{
+        player_id: string;
+        username: string;
+        matches: string;
+        wins: string;
+        avg_reaction_ms: string | null;
+        penalties: string;
+      }>(leaderboardSql(query.metric), [
+        query.since?.toISOString() ?? null,
+        query.minMatches,
+        query.limit,
+      ]);
+      return result.rows.map((row) => ({
+        playerId: row.player_id,
+        username: row.username,
+        matches: Number(row.matches),
+        wins: Number(row.wins),
+        avgReactionMs: toNullableNumber(row.avg_reaction_ms),
+        penalties: Number(row.penalties),
+      }));
+    });
+  }
+
+  async getRoomHallOfFame(roomCode: string, limit: number): Promise<HallOfFameRow[] | null> {
+    return withDbClient(async (client) => {
+      const room = await client.query(selectRoomByCodeSql, [roomCode]);
+      if (!room.rowCount) {
+        return null;
+      }
+
+      const result = await client.query<{
+        user_id: string;
+        display_name: string;
+        matches: string;
+        wins: string;
+        avg_reaction_ms: string | null;
+      }>(hallOfFameSql, [roomCode, limit]);
+      return result.rows.map((row) => ({
+        userId: row.user_id,
+        displayName: row.display_name,
+        matches: Number(row.matches),
+        wins: Number(row.wins),
+        avgReactionMs: toNullableNumber(row.avg_reaction_ms),
+      }));
+    });
+  }
+
+  async listMatches(query: MatchListingQuery): Promise<MatchListing[]> {
+    return withDbClient(async (client) => {
+      const result = await client.query<{
+        id: string;
+        room_code: string;
+        started_at: Date;
+        ended_at: Date;
+        reason: string | null;
+        winner_user_id: string | null;
+        players: MatchSummary['players'] | null;
+      }>(listMatchesSql, [
+        query.roomCode ?? null,
+        query.before?.endedAt.toISOString() ?? null,
+        query.before?.matchId ?? null,
+        query.limit,
+      ]);
+      return result.rows.map((row) => ({
+        matchId: row.id,
+        roomCode: row.room_code,
+        startedAt: row.started_at.getTime(),
+        endedAt: row.ended_at.getTime(),
+        reason: row.reason,
+        winnerUserId: row.winner_user_id,
+        players: (row.players ?? []).map((player) => ({
+          userId: player.userId,
+          displayName: player.displayName,
+          seatIndex: player.seatIndex,
+          handCount: player.handCount,
+        })),
+      }));
+    });
+  }
+}
@@ -1,10 +1,24 @@
+import type { CreateInitialStateConfig, ReplayLogEntry } from '@slaphard/engine';
 import { randomUUID } from 'crypto';
 import { withDbClient } from './client';
-import type { MatchEventType, MatchSummary } from './types';
+import type {
+  MatchEventType,
+  MatchSeat,
+  MatchSummary,
+  OpenMatch,
+  SlapAttemptRecord,
+  StoredMatchReplay,
+} from './types';
 
 const insertMatchSql = `
-INSERT INTO matches (id, room_id, winner_user_id, started_at, ended_at, summary)
-VALUES ($1, $2, NULL, $3, NULL, NULL);
+INSERT INTO matches (id, room_id, winner_user_id, started_at, ended_at, summary, replay_init)
+VALUES ($1, $2, NULL, $3, NULL, NULL, $4::jsonb);
+`;
+
+const insertMatchPlayerSql = `
+INSERT INTO match_players (match_id, player_id, user_id, display_name, seat_index)
+VALUES ($1, $2, $3, $4, $5)
+ON CONFLICT (match_id, player_id) DO NOTHING;
 `;
 
 const finishMatchSql = `
@@ -20,11 +34,82 @@ INSERT INTO match_events (match_id, event_type, payload, created_at)
 VALUES ($1, $2, $3::jsonb, NOW());
 `;
 
+const appendReplayEntrySql = `
+INSERT INTO match_replay_events (match_id, seq, entry_type, server_time, payload, created_at)
+VALUES ($1, $2, $3, $4, $5::jsonb, NOW());
+`;
+
+const insertSlapAttemptSql = `
+INSERT INTO slap_attempts (
+  match_id,
+  slap_event_id,
+  user_id,
+  player_id,
+  position,
+  won,
+  reaction_ms,
+  client_time,
+  offset_ms,
+  rtt_ms,
+  received_at_server_time
+)
+VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+ON CONFLICT (match_id, slap_event_id, user_id) DO NOTHING;
+`;
+
+const selectReplayMatchSql = `
+SELECT id, winner_user_id, summary, replay_init
+FROM matches
+WHERE id = $1;
+`;
+
+const selectReplayEntriesSql = `
+SELECT payload
+FROM match_replay_events
+WHERE match_id = $1
+ORDER BY seq ASC;
+`;
+
+const selectOpenMatchesSql = `
+SELECT m.id, m.room_id, r.room_code, COALESCE(MAX(e.seq) + 1, 0) AS next_replay_seq
+FROM matches m
+JOIN rooms r ON r.id = m.room_id
+LEFT JOIN match_replay_events e ON e.match_id = m.id
+WHERE m.ended_at IS NULL AND m.started_at < $1
+GROUP BY m.id, m.room_id, r.room_code;
+`;
+
 export class MatchRepository {
-  async startMatch(roomId: string, startedAt: Date): Promise<string> {
+  async startMatch(
+    roomId: string,
+    startedAt: Date,
+    replayInit?: CreateInitialStateConfig,
+    seats: MatchSeat[] = [],
+  ): Promise<string> {
     const matchId = randomUUID();
     await withDbClient(async (client) => {
-      await client.query(insertMatchSql, [matchId, roomId, startedAt.toISOString()]);
+      await client.query('BEGIN');
+      try {
+        await client.query(insertMatchSql, [
+          matchId,
+          roomId,
+          startedAt.toISOString(),
+          replayInit ? JSON.stringify(replayInit) : null,
+        ]);
+        for (const seat of seats) {
+          await client.query(insertMatchPlayerSql, [
+            matchId,
+            seat.playerId,
+            seat.userId,
+            seat.displayName,
+            seat.seatIndex,
+          ]);
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
     });
     return matchId;
   }
@@ -50,4 +135,88 @@ export class MatchRepository {
       await client.query(appendEventSql, [matchId, eventType, JSON.stringify(payload)]);
     });
   }
+
+  async appendReplayEntry(matchId: string, entry: ReplayLogEntry): Promise<void> {
+    await withDbClient(async (client) => {
+      await client.query(appendReplayEntrySql, [
+        matchId,
+        entry.seq,
+        entry.type,
+        entry.nowServerTime,
+        JSON.stringify(entry),
+      ]);
+    });
+  }
+
+  async recordSlapAttempts(matchId: string, attempts: SlapAttemptRecord[]): Promise<void> {
+    await withDbClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        for (const attempt of attempts) {
+          await client.query(insertSlapAttemptSql, [
+            matchId,
+            attempt.slapEventId,
+            attempt.userId,
+            attempt.playerId ?? null,
+            attempt.position,
+            attempt.won,
+            Math.round(attempt.reactionMs),
+            attempt.clientTime,
+            attempt.offsetMs,
+            attempt.rttMs,
+            attempt.receivedAtServerTime,
+          ]);
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async getMatchReplay(matchId: string): Promise<StoredMatchReplay | null> {
+    return withDbClient(async (client) => {
+      const match = await client.query<{
+        id: string;
+        winner_user_id: string | null;
+        summary: MatchSummary | null;
+        replay_init: CreateInitialStateConfig | null;
+      }>(selectReplayMatchSql, [matchId]);
+      const row = match.rows[0];
+      if (!row?.replay_init) {
+        return null;
+      }
+
+      const entries = await client.query<{ payload: ReplayLogEntry }>(selectReplayEntriesSql, [
+        matchId,
+      ]);
+      return {
+        matchId: row.id,
+        winnerUserId: row.winner_user_id,
+        summary: row.summary,
+        log: {
+          initial: row.replay_init,
+          entries: entries.rows.map((entry) => entry.payload),
+        },
+      };
+    });
+  }
+
+  async listOpenMatches(startedBefore: Date): Promise<OpenMatch[]> {
+    return withDbClient(async (client) => {
+      const result = await client.query<{
+        id: string;
+        room_id: string;
+        room_code: string;
+        next_replay_seq: number;
+      }>(selectOpenMatchesSql, [startedBefore.toISOString()]);
+      return result.rows.map((row) => ({
+        matchId: row.id,
+        roomId: row.room_id,
+        roomCode: row.room_code,
+        nextReplaySeq: Number(row.next_replay_seq),
+      }));
+    });
+  }
 }
@@ -0,0 +1,12 @@
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS replay_init jsonb NULL;
+
+CREATE TABLE IF NOT EXISTS match_replay_events (
+  id bigserial PRIMARY KEY,
+  match_id uuid NOT NULL REFERENCES matches(id),
+  seq integer NOT NULL,
+  entry_type text NOT NULL,
+  server_time bigint NOT NULL,
+  payload jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (match_id, seq)
+);
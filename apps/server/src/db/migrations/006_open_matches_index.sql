@@ -0,0 +1,3 @@
+CREATE INDEX IF NOT EXISTS idx_matches_open_started
+  ON matches(started_at)
+  WHERE ended_at IS NULL;
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS players (
+  id uuid PRIMARY KEY,
+  username text NOT NULL,
+  secret_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_players_username_lower ON players(lower(username));
+
+CREATE TABLE IF NOT EXISTS match_players (
+  match_id uuid NOT NULL REFERENCES matches(id),
+  player_id uuid NOT NULL REFERENCES players(id),
+  user_id uuid NOT NULL,
+  display_name text NOT NULL,
+  seat_index integer NOT NULL,
+  PRIMARY KEY (match_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_players_player ON match_players(player_id);
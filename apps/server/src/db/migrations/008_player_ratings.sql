@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS player_ratings (
+  player_id uuid PRIMARY KEY REFERENCES players(id),
+  rating integer NOT NULL,
+  matches_rated integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS player_rating_history (
+  id bigserial PRIMARY KEY,
+  player_id uuid NOT NULL REFERENCES players(id),
+  match_id uuid NOT NULL REFERENCES matches(id),
+  rating_before integer NOT NULL,
+  rating_after integer NOT NULL,
+  place integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (match_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_rating_history_player_created_desc
+  ON player_rating_history(player_id, created_at DESC);
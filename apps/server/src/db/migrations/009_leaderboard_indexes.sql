@@ -0,0 +1,6 @@
+CREATE INDEX IF NOT EXISTS idx_matches_ended_id_desc
+  ON matches(ended_at DESC, id DESC)
+  WHERE ended_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_match_events_match_type
+  ON match_events(match_id, event_type);
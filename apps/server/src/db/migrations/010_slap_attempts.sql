@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS slap_attempts (
+  id bigserial PRIMARY KEY,
+  match_id uuid NOT NULL REFERENCES matches(id),
+  slap_event_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  player_id uuid REFERENCES players(id),
+  position integer NOT NULL,
+  won boolean NOT NULL,
+  reaction_ms integer NOT NULL,
+  client_time bigint NOT NULL,
+  offset_ms double precision NOT NULL,
+  rtt_ms double precision NOT NULL,
+  received_at_server_time bigint NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  UNIQUE (match_id, slap_event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slap_attempts_player
+  ON slap_attempts(player_id)
+  WHERE player_id IS NOT NULL;
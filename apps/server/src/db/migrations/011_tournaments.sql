@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS tournaments (
+  id uuid PRIMARY KEY,
+  code text NOT NULL,
+  name text NOT NULL,
+  status text NOT NULL CHECK (status IN ('REGISTRATION', 'RUNNING', 'FINISHED')),
+  room_size integer NOT NULL,
+  advance_per_room integer NOT NULL,
+  rounds jsonb NOT NULL DEFAULT '[]'::jsonb,
+  champion_entrant_id uuid NULL,
+  created_at timestamptz NOT NULL,
+  updated_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_code ON tournaments(code);
+
+CREATE TABLE IF NOT EXISTS tournament_entrants (
+  tournament_id uuid NOT NULL REFERENCES tournaments(id),
+  entrant_id uuid NOT NULL,
+  player_id uuid REFERENCES players(id),
+  display_name text NOT NULL,
+  registered_at timestamptz NOT NULL,
+  PRIMARY KEY (tournament_id, entrant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_entrants_player
+  ON tournament_entrants(player_id)
+  WHERE player_id IS NOT NULL;
@@ -0,0 +1,150 @@
+import type { PlayerMatch } from '@slaphard/shared';
+import { randomUUID } from 'crypto';
+import { withDbClient } from './client';
+import type { PlayerAccountRepository, PlayerMatchTotals, PlayerRecord } from './types';
+
+const insertPlayerSql = `
+INSERT INTO players (id, username, secret_hash, created_at)
+VALUES ($1, $2, $3, NOW())
+ON CONFLICT DO NOTHING
+RETURNING id, username, secret_hash, created_at;
+`;
+
+const selectPlayerByUsernameSql = `
+SELECT id, username, secret_hash, created_at
+FROM players
+WHERE lower(username) = lower($1);
+`;
+
+const selectPlayerSql = `
+SELECT id, username, secret_hash, created_at
+FROM players
+WHERE id = $1;
+`;
+
+const selectPlayerMatchesSql = `
+SELECT
+  m.id,
+  r.room_code,
+  mp.display_name,
+  mp.seat_index,
+  m.started_at,
+  m.ended_at,
+  m.summary->>'reason' AS reason,
+  COALESCE(m.winner_user_id = mp.user_id, false) AS won,
+  GREATEST(jsonb_array_length(COALESCE(m.summary->'players', '[]'::jsonb)) - 1, 0) AS opponents,
+  (
+    SELECT COUNT(*)
+    FROM match_events e
+    WHERE e.match_id = m.id
+      AND e.event_type IN ('PENALTY', 'TIMEOUT')
+      AND e.payload->>'userId' = mp.user_id::text
+  ) AS penalties,
+  (
+    SELECT COUNT(*)
+    FROM match_events e
+    WHERE e.match_id = m.id
+      AND e.event_type = 'SLAP_RESULT'
+      AND e.payload->>'loserUserId' = mp.user_id::text
+  ) AS slaps_lost
+FROM match_players mp
+JOIN matches m ON m.id = mp.match_id
+JOIN rooms r ON r.id = m.room_id
+WHERE mp.player_id = $1 AND m.ended_at IS NOT NULL
+ORDER BY m.ended_at DESC
+LIMIT $2;
+`;
+
+const selectPlayerTotalsSql = `
+SELECT
+  COUNT(*) AS matches,
+  COUNT(*) FILTER (WHERE m.winner_user_id = mp.user_id) AS wins
+FROM match_players mp
+JOIN matches m ON m.id = mp.match_id
+WHERE mp.player_id = $1 AND m.ended_at IS NOT NULL;
+`;
+
+interface PlayerRow {
+  id: string;
+  username: string;
+  secret_hash: string;
+  created_at: Date;
+}
+
+const toPlayerRecord = (row: PlayerRow): PlayerRecord => ({
+  playerId: row.id,
+  username: row.username,
+  secretHash: row.secret_hash,
+  createdAt: row.created_at,
+});
+
+export class PlayerRepository implements PlayerAccountRepository {
+  async createPlayer(username: string, secretHash: string): Promise<PlayerRecord | null> {
+    return withDbClient(async (client) => {
+      const result = await client.query<PlayerRow>(insertPlayerSql, [
+        randomUUID(),
+        username,
+        secretHash,
+      ]);
+      const row = result.rows[0];
+      return row ? toPlayerRecord(row) : null;
+    });
+  }
+
+  async findPlayerByUsername(username: string): Promise<PlayerRecord | null> {
+    return withDbClient(async (client) => {
+      const result = await client.query<PlayerRow>(selectPlayerByUsernameSql, [username]);
+      const row = result.rows[0];
+      return row ? toPlayerRecord(row) : null;
+    });
+  }
+
+  async getPlayer(playerId: string): Promise<PlayerRecord | null> {
+    return withDbClient(async (client) => {
+      const result = await client.query<PlayerRow>(selectPlayerSql, [playerId]);
+      const row = result.rows[0];
+      return row ? toPlayerRecord(row) : null;
+    });
+  }
+
+  async listPlayerMatches(playerId: string, limit: number): Promise<PlayerMatch[]> {
+    return withDbClient(async (client) => {
+      const result = await client.query<{
+        id: string;
+        room_code: string;
+        display_name: string;
+        seat_index: number;
+        started_at: Date;
+        ended_at: Date;
+        reason: string | null;
+        won: boolean;
+        opponents: number;
+        penalties: string;
+        slaps_lost: string;
+      }>(selectPlayerMatchesSql, [playerId, limit]);
+      return result.rows.map((row) => ({
+        matchId: row.id,
+        roomCode: row.room_code,
+        displayName: row.display_name,
+        seatIndex: row.seat_index,
+        startedAt: row.started_at.getTime(),
+        endedAt: row.ended_at.getTime(),
+        reason: row.reason,
+        won: row.won,
+        opponents: Number(row.opponents),
+        penalties: Number(row.penalties),
+        slapsLost: Number(row.slaps_lost),
+      }));
+    });
+  }
+
+  async countPlayerMatches(playerId: string): Promise<PlayerMatchTotals> {
+    return withDbClient(async (client) => {
+      const result = await client.query<{ matches: string; wins: string }>(selectPlayerTotalsSql, [
+        playerId,
+      ]);
+      const row = result.rows[0];
+      return { matches: Number(row?.matches ?? 0), wins: Number(row?.wins ?? 0) };
+    });
+  }
+}
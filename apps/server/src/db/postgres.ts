@@ -1,12 +1,27 @@
 import { MatchRepository } from './match-repository';
+import { RatingRepository } from './rating-repository';
 import { RoomRepository } from './room-repository';
-import type { MatchEventType, MatchSummary, PersistenceRepository, RoomTransitionType } from './types';
-import type { RoomState } from '@slaphard/shared';
+import { TournamentRepository } from './tournament-repository';
+import type {
+  MatchEventType,
+  MatchSeat,
+  MatchSummary,
+  OpenMatch,
+  PersistenceRepository,
+  RoomTransitionType,
+  SlapAttemptRecord,
+  StoredMatchReplay,
+} from './types';
+import type { CreateInitialStateConfig, ReplayLogEntry } from '@slaphard/engine';
+import type { RoomState, Tournament } from '@slaphard/shared';
+import type { RatingChange, RatingStanding } from '../service/ratings';
 
 export class PostgresPersistenceRepository implements PersistenceRepository {
   constructor(
     private readonly roomRepo: RoomRepository = new RoomRepository(),
     private readonly matchRepo: MatchRepository = new MatchRepository(),
+    private readonly ratingRepo: RatingRepository = new RatingRepository(),
+    private readonly tournamentRepo: TournamentRepository = new TournamentRepository(),
   ) {}
 
   async upsertRoomMetadata(room: RoomState): Promise<void> {
@@ -21,8 +36,13 @@ export class PostgresPersistenceRepository implements PersistenceRepository {
     await this.roomRepo.markRoomDeleted(roomId, deletedAt);
   }
 
-  async startMatch(roomId: string, startedAt: Date): Promise<string> {
-    return this.matchRepo.startMatch(roomId, startedAt);
+  async startMatch(
+    roomId: string,
+    startedAt: Date,
+    replayInit?: CreateInitialStateConfig,
+    seats?: MatchSeat[],
+  ): Promise<string> {
+    return this.matchRepo.startMatch(roomId, startedAt, replayInit, seats);
   }
 
   async finishMatch(
@@ -37,6 +57,34 @@ export class PostgresPersistenceRepository implements PersistenceRepository {
   async appendMatchEvent(matchId: string, eventType: MatchEventType, payload: unknown): Promise<void> {
     await this.matchRepo.appendMatchEvent(matchId, eventType, payload);
   }
+
+  async appendReplayEntry(matchId: string, entry: ReplayLogEntry): Promise<void> {
+    await this.matchRepo.appendReplayEntry(matchId, entry);
+  }
+
+  async recordSlapAttempts(matchId: string, attempts: SlapAttemptRecord[]): Promise<void> {
+    await this.matchRepo.recordSlapAttempts(matchId, attempts);
+  }
+
+  async getMatchReplay(matchId: string): Promise<StoredMatchReplay | null> {
+    return this.matchRepo.getMatchReplay(matchId);
+  }
+
+  async listOpenMatches(startedBefore: Date): Promise<OpenMatch[]> {
+    return this.matchRepo.listOpenMatches(startedBefore);
+  }
+
+  async getPlayerRatings(playerIds: string[]): Promise<Map<string, number>> {
+    return this.ratingRepo.getPlayerRatings(playerIds);
+  }
+
+  async recordMatchRatings(matchId: string, standings: RatingStanding[]): Promise<RatingChange[]> {
+    return this.ratingRepo.recordMatchRatings(matchId, standings);
+  }
+
+  async saveTournament(tournament: Tournament): Promise<void> {
+    await this.tournamentRepo.saveTournament(tournament);
+  }
 }
 
 export class NoopPersistenceRepository implements PersistenceRepository {
@@ -51,9 +99,16 @@ export class NoopPersistenceRepository implements PersistenceRepository {
     void roomId;
     void deletedAt;
   }
-  async startMatch(roomId: string, startedAt: Date): Promise<string> {
+  async startMatch(
+    roomId: string,
+    startedAt: Date,
+    replayInit?: CreateInitialStateConfig,
+    seats?: MatchSeat[],
+  ): Promise<string> {
     void roomId;
     void startedAt;
+    void replayInit;
+    void seats;
     return 'noop';
   }
   async finishMatch(
@@ -72,4 +127,32 @@ export class NoopPersistenceRepository implements PersistenceRepository {
     void eventType;
     void payload;
   }
+  async appendReplayEntry(matchId: string, entry: ReplayLogEntry): Promise<void> {
+    void matchId;
+    void entry;
+  }
+  async recordSlapAttempts(matchId: string, attempts: SlapAttemptRecord[]): Promise<void> {
+    void matchId;
+    void attempts;
+  }
+  async getMatchReplay(matchId: string): Promise<StoredMatchReplay | null> {
+    void matchId;
+    return null;
+  }
+  async listOpenMatches(startedBefore: Date): Promise<OpenMatch[]> {
+    void startedBefore;
+    return [];
+  }
+  async getPlayerRatings(playerIds: string[]): Promise<Map<string, number>> {
+    void playerIds;
+    return new Map();
+  }
+  async recordMatchRatings(matchId: string, standings: RatingStanding[]): Promise<RatingChange[]> {
+    void matchId;
+    void standings;
+    return [];
+  }
+  async saveTournament(tournament: Tournament): Promise<void> {
+    void tournament;
+  }
 }
@@ -0,0 +1,96 @@
+import { withDbClient } from './client';
+import { computeRatingChanges, type RatingChange, type RatingStanding } from '../service/ratings';
+
+const selectRatingsSql = `
+SELECT player_id, rating
+FROM player_ratings
+WHERE player_id = ANY($1::uuid[]);
+`;
+
+const selectRatingsForUpdateSql = `
+SELECT player_id, rating
+FROM player_ratings
+WHERE player_id = ANY($1::uuid[])
+FOR UPDATE;
+`;
+
+const selectMatchRatedSql = `
+SELECT 1
+FROM player_rating_history
+WHERE match_id = $1
+LIMIT 1;
+`;
+
+const upsertRatingSql = `
+INSERT INTO player_ratings (player_id, rating, matches_rated, updated_at)
+VALUES ($1, $2, 1, NOW())
+ON CONFLICT (player_id)
+DO UPDATE SET
+  rating = EXCLUDED.rating,
+  matches_rated = player_ratings.matches_rated + 1,
+  updated_at = EXCLUDED.updated_at;
+`;
+
+const insertRatingHistorySql = `
+INSERT INTO player_rating_history (player_id, match_id, rating_before, rating_after, place, created_at)
+VALUES ($1, $2, $3, $4, $5, NOW());
+`;
+
+export class RatingRepository {
+  async getPlayerRatings(playerIds: string[]): Promise<Map<string, number>> {
+    if (playerIds.length === 0) {
+      return new Map();
+    }
+    return withDbClient(async (client) => {
+      const result = await client.query<{ player_id: string; rating: number }>(selectRatingsSql, [
+        playerIds,
+      ]);
+      return new Map(result.rows.map((row) => [row.player_id, row.rating]));
+    });
+  }
+
+  /** Rates a match once; a retried call for an already rated match changes nothing. */
+  async recordMatchRatings(matchId: string, standings: RatingStanding[]): Promise<RatingChange[]> {
+    const playerIds = standings.flatMap((standing) =>
+      standing.playerId ? [standing.playerId] : [],
+    );
+    if (playerIds.length === 0) {
+      return [];
+    }
+
+    return withDbClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        const rated = await client.query(selectMatchRatedSql, [matchId]);
+        if (rated.rowCount) {
+          await client.query('ROLLBACK');
+          return [];
+        }
+
+        const current = await client.query<{ player_id: string; rating: number }>(
+          selectRatingsForUpdateSql,
+          [playerIds],
+        );
+        const changes = computeRatingChanges(
+          standings,
+          new Map(current.rows.map((row) => [row.player_id, row.rating])),
+        );
+        for (const change of changes) {
+          await client.query(upsertRatingSql, [change.playerId, change.ratingAfter]);
+          await client.query(insertRatingHistorySql, [
+            change.playerId,
+            matchId,
+            change.ratingBefore,
+            change.ratingAfter,
+            change.place,
+          ]);
+        }
+        await client.query('COMMIT');
+        return changes;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+}
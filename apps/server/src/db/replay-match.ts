@@ -0,0 +1,29 @@
+import { MatchReplayService } from '../service/match-replay';
+import { closeDbPool } from './client';
+import { PostgresPersistenceRepository } from './postgres';
+
+const run = async (): Promise<void> => {
+  const matchId = process.argv[2];
+  if (!matchId) {
+    throw new Error('usage: db:replay <matchId>');
+  }
+
+  const report = await new MatchReplayService(new PostgresPersistenceRepository()).replayMatch(
+    matchId,
+  );
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify(report, null, 2));
+  if (!report.ok) {
+    process.exitCode = 1;
+  }
+};
+
+void run()
+  .catch((error) => {
+    // eslint-disable-next-line no-console
+    console.error('match replay failed', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeDbPool();
+  });
@@ -7,8 +7,16 @@ const run = async (): Promise<void> => {
 
   await withDbClient(async (client) => {
     await client.query(`
+      DROP TABLE IF EXISTS tournament_entrants;
+      DROP TABLE IF EXISTS tournaments;
+      DROP TABLE IF EXISTS slap_attempts;
+      DROP TABLE IF EXISTS player_rating_history;
+      DROP TABLE IF EXISTS player_ratings;
+      DROP TABLE IF EXISTS match_players;
+      DROP TABLE IF EXISTS match_replay_events;
       DROP TABLE IF EXISTS match_events;
       DROP TABLE IF EXISTS matches;
+      DROP TABLE IF EXISTS players;
       DROP TABLE IF EXISTS room_snapshots;
       DROP TABLE IF EXISTS rooms;
       DROP TABLE IF EXISTS schema_migrations;
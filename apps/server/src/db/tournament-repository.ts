@@ -0,0 +1,60 @@
+import type { Tournament } from '@slaphard/shared';
+import { withDbClient } from './client';
+
+const upsertTournamentSql = `
+INSERT INTO tournaments (
+  id, code, name, status, room_size, advance_per_room, rounds, champion_entrant_id, created_at,
+  updated_at
+)
+VALUES (
+  $1, $2, $3, $4, $5, $6, $7::jsonb, $8, to_timestamp($9 / 1000.0), to_timestamp($10 / 1000.0)
+)
+ON CONFLICT (id)
+DO UPDATE SET
+  status = EXCLUDED.status,
+  rounds = EXCLUDED.rounds,
+  champion_entrant_id = EXCLUDED.champion_entrant_id,
+  updated_at = EXCLUDED.updated_at;
+`;
+
+const insertEntrantSql = `
+INSERT INTO tournament_entrants (tournament_id, entrant_id, player_id, display_name, registered_at)
+VALUES ($1, $2, $3, $4, to_timestamp($5 / 1000.0))
+ON CONFLICT (tournament_id, entrant_id) DO NOTHING;
+`;
+
+export class TournamentRepository {
+  /** Writes the bracket as it stands; entrants are only ever added, so they are inserted once. */
+  async saveTournament(tournament: Tournament): Promise<void> {
+    await withDbClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        await client.query(upsertTournamentSql, [
+          tournament.tournamentId,
+          tournament.code,
+          tournament.name,
+          tournament.status,
+          tournament.roomSize,
+          tournament.advancePerRoom,
+          JSON.stringify(tournament.rounds),
+          tournament.championEntrantId ?? null,
+          tournament.createdAt,
+          tournament.updatedAt,
+        ]);
+        for (const entrant of tournament.entrants) {
+          await client.query(insertEntrantSql, [
+            tournament.tournamentId,
+            entrant.entrantId,
+            entrant.playerId ?? null,
+            entrant.displayName,
+            entrant.registeredAt,
+          ]);
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+}
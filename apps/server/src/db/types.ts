@@ -1,4 +1,13 @@
-import type { RoomState } from '@slaphard/shared';
+import type { CreateInitialStateConfig, MatchReplayLog, ReplayLogEntry } from '@slaphard/engine';
+import type {
+  LeaderboardMetric,
+  MatchListing,
+  PlayerMatch,
+  RoomState,
+  SeriesFormat,
+  Tournament,
+} from '@slaphard/shared';
+import type { RatingChange, RatingStanding } from '../service/ratings';
 
 export type RoomTransitionType =
   | 'CREATE'
@@ -7,26 +16,160 @@ export type RoomTransitionType =
   | 'START'
   | 'STOP'
   | 'FINISH'
-  | 'DELETE';
+  | 'DELETE'
+  | 'KICK'
+  | 'BAN'
+  | 'UNBAN'
+  | 'LOCK'
+  | 'UNLOCK'
+  | 'HOST_TRANSFER'
+  | 'HOST_MIGRATION';
 
-export type MatchEventType = 'SLAP_RESULT' | 'PENALTY' | 'TIMEOUT' | 'WIN';
+export type MatchEventType =
+  | 'SLAP_RESULT'
+  | 'PENALTY'
+  | 'TIMEOUT'
+  | 'ELIMINATION'
+  | 'WIN'
+  | 'ANTI_CHEAT';
 
 export interface MatchSummary {
   roomCode: string;
   reason: string;
+  finalVersion?: number;
   players: Array<{
     userId: string;
     displayName: string;
     seatIndex: number;
     handCount: number;
+    /** Set in team play. */
+    teamId?: number;
+    /** Knocked out under elimination play; their cards were dealt away. */
+    eliminated?: boolean;
+    playerId?: string;
   }>;
+  winnerTeamId?: number;
+  series?: {
+    format: SeriesFormat;
+    round: number;
+    scores: Record<string, number>;
+    winnerUserId: string | null;
+  };
+}
+
+export interface StoredMatchReplay {
+  matchId: string;
+  winnerUserId: string | null;
+  summary: MatchSummary | null;
+  log: MatchReplayLog;
+}
+
+export interface OpenMatch {
+  matchId: string;
+  roomId: string;
+  roomCode: string;
+  /** Next free replay sequence number, so a relinked match keeps appending in order. */
+  nextReplaySeq: number;
+}
+
+/** A signed-in player's seat in a match, linking their account to the room-scoped userId. */
+export interface MatchSeat {
+  playerId: string;
+  userId: string;
+  displayName: string;
+  seatIndex: number;
+}
+
+/** One slap from a resolved window, kept per match for reaction analytics. */
+export interface SlapAttemptRecord {
+  slapEventId: string;
+  userId: string;
+  playerId?: string | undefined;
+  /** 1-based place in the window's resolved order. */
+  position: number;
+  won: boolean;
+  reactionMs: number;
+  clientTime: number;
+  offsetMs: number;
+  rttMs: number;
+  receivedAtServerTime: number;
+}
+
+export interface PlayerRecord {
+  playerId: string;
+  username: string;
+  secretHash: string;
+  createdAt: Date;
+}
+
+export interface PlayerMatchTotals {
+  matches: number;
+  wins: number;
+}
+
+export interface PlayerAccountRepository {
+  /** Resolves to null when the username is already taken (case-insensitively). */
+  createPlayer(username: string, secretHash: string): Promise<PlayerRecord | null>;
+  findPlayerByUsername(username: string): Promise<PlayerRecord | null>;
+  getPlayer(playerId: string): Promise<PlayerRecord | null>;
+  listPlayerMatches(playerId: string, limit: number): Promise<PlayerMatch[]>;
+  countPlayerMatches(playerId: string): Promise<PlayerMatchTotals>;
+}
+
+export interface LeaderboardQuery {
+  metric: LeaderboardMetric;
+  /** Only matches that ended at or after this time count; null for all time. */
+  since: Date | null;
+  minMatches: number;
+  limit: number;
+}
+
+export interface LeaderboardRow {
+  playerId: string;
+  username: string;
+  matches: number;
+  wins: number;
+  avgReactionMs: number | null;
+  penalties: number;
+}
+
+export interface HallOfFameRow {
+  userId: string;
+  displayName: string;
+  matches: number;
+  wins: number;
+  avgReactionMs: number | null;
+}
+
+export interface MatchListingCursor {
+  endedAt: Date;
+  matchId: string;
+}
+
+export interface MatchListingQuery {
+  roomCode?: string | undefined;
+  before?: MatchListingCursor | undefined;
+  limit: number;
+}
+
+/** Read side for leaderboards; only completed matches (with a winner) are ranked. */
+export interface LeaderboardReadRepository {
+  getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardRow[]>;
+  /** Resolves to null when no room ever used the code. */
+  getRoomHallOfFame(roomCode: string, limit: number): Promise<HallOfFameRow[] | null>;
+  listMatches(query: MatchListingQuery): Promise<MatchListing[]>;
 }
 
 export interface PersistenceRepository {
   upsertRoomMetadata(room: RoomState): Promise<void>;
   writeRoomSnapshot(room: RoomState, transitionType: RoomTransitionType): Promise<void>;
   markRoomDeleted(roomId: string, deletedAt: Date): Promise<void>;
-  startMatch(roomId: string, startedAt: Date): Promise<string>;
+  startMatch(
+    roomId: string,
+    startedAt: Date,
+    replayInit?: CreateInitialStateConfig,
+    seats?: MatchSeat[],
+  ): Promise<string>;
   finishMatch(
     matchId: string,
     winnerUserId: string | null,
@@ -34,6 +177,13 @@ export interface PersistenceRepository {
     endedAt: Date,
   ): Promise<void>;
   appendMatchEvent(matchId: string, eventType: MatchEventType, payload: unknown): Promise<void>;
+  appendReplayEntry(matchId: string, entry: ReplayLogEntry): Promise<void>;
+  recordSlapAttempts(matchId: string, attempts: SlapAttemptRecord[]): Promise<void>;
+  getMatchReplay(matchId: string): Promise<StoredMatchReplay | null>;
+  listOpenMatches(startedBefore: Date): Promise<OpenMatch[]>;
+  getPlayerRatings(playerIds: string[]): Promise<Map<string, number>>;
+  recordMatchRatings(matchId: string, standings: RatingStanding[]): Promise<RatingChange[]>;
+  saveTournament(tournament: Tournament): Promise<void>;
 }
 
 export const sanitizeRoomSnapshot = (room: RoomState): Record<string, unknown> => ({
@@ -48,7 +198,15 @@ export const sanitizeRoomSnapshot = (room: RoomState): Record<string, unknown> =
     seatIndex: player.seatIndex,
     connected: player.connected,
     ready: player.ready,
+    playerId: player.playerId ?? null,
+  })),
+  spectators: room.spectators.map((spectator) => ({
+    userId: spectator.userId,
+    displayName: spectator.displayName,
+    connected: spectator.connected,
   })),
+  rules: room.rules,
+  series: room.series ?? null,
   game: room.gameState
     ? {
         status: room.gameState.status,
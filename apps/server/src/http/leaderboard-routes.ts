@@ -0,0 +1,93 @@
+import {
+  MAX_LEADERBOARD_ENTRIES,
+  leaderboardMetricSchema,
+  leaderboardPeriodSchema,
+  leaderboardSchema,
+  matchListingPageSchema,
+  roomCodeSchema,
+  roomHallOfFameSchema,
+} from '@slaphard/shared';
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { decodeMatchCursor, type Leaderboards } from '../service/leaderboards';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const limitSchema = z.coerce.number().int().positive().max(MAX_LEADERBOARD_ENTRIES);
+
+const leaderboardQuerySchema = z.object({
+  metric: leaderboardMetricSchema.default('WINS'),
+  period: leaderboardPeriodSchema.default('ALL_TIME'),
+  limit: limitSchema.default(DEFAULT_PAGE_SIZE),
+});
+
+const hallOfFameParamsSchema = z.object({
+  code: z
+    .string()
+    .transform((code) => code.toUpperCase())
+    .pipe(roomCodeSchema),
+});
+const hallOfFameQuerySchema = z.object({ limit: limitSchema.default(10) });
+
+const matchesQuerySchema = z.object({
+  roomCode: z
+    .string()
+    .transform((code) => code.toUpperCase())
+    .pipe(roomCodeSchema)
+    .optional(),
+  cursor: z.string().max(128).optional(),
+  limit: limitSchema.default(DEFAULT_PAGE_SIZE),
+});
+
+/** Read-only stats over completed matches; every response is checked against the shared schema. */
+export const leaderboardRoutes: FastifyPluginAsync<{ leaderboards: Leaderboards }> = async (
+  app,
+  { leaderboards },
+) => {
+  app.get('/leaderboards', async (request, reply) => {
+    const query = leaderboardQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply
+        .status(400)
+        .send({ code: 'INVALID_TARGET', message: 'invalid metric, period or limit' });
+    }
+
+    const { metric, period, limit } = query.data;
+    return reply.send(
+      leaderboardSchema.parse(await leaderboards.leaderboard(metric, period, limit)),
+    );
+  });
+
+  app.get('/rooms/:code/hall-of-fame', async (request, reply) => {
+    const params = hallOfFameParamsSchema.safeParse(request.params);
+    const query = hallOfFameQuerySchema.safeParse(request.query);
+    if (!params.success || !query.success) {
+      return reply
+        .status(400)
+        .send({ code: 'INVALID_TARGET', message: 'invalid room code or limit' });
+    }
+
+    const hallOfFame = await leaderboards.hallOfFame(params.data.code, query.data.limit);
+    if (!hallOfFame) {
+      return reply.status(404).send({ code: 'ROOM_NOT_FOUND', message: 'room does not exist' });
+    }
+    return reply.send(roomHallOfFameSchema.parse(hallOfFame));
+  });
+
+  app.get('/matches', async (request, reply) => {
+    const query = matchesQuerySchema.safeParse(request.query);
+    const before =
+      query.success && query.data.cursor ? decodeMatchCursor(query.data.cursor) : undefined;
+    if (!query.success || (query.data.cursor && !before)) {
+      return reply
+        .status(400)
+        .send({ code: 'INVALID_TARGET', message: 'invalid room code, cursor or limit' });
+    }
+
+    const page = await leaderboards.listMatches(query.data.limit, {
+      roomCode: query.data.roomCode,
+      before,
+    });
+    return reply.send(matchListingPageSchema.parse(page));
+  });
+};
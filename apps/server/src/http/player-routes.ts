@@ -0,0 +1,68 @@
+import { playerAccountSchema, playerMatchHistorySchema, type ErrorCode } from '@slaphard/shared';
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import {
+  DEFAULT_MATCH_HISTORY_LIMIT,
+  PlayerAccountError,
+  type PlayerAccounts,
+} from '../service/player-accounts';
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  USERNAME_TAKEN: 409,
+  INVALID_CREDENTIALS: 401,
+  PLAYER_NOT_FOUND: 404,
+};
+
+const playerParamsSchema = z.object({ id: z.string().uuid() });
+const matchesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().default(DEFAULT_MATCH_HISTORY_LIMIT),
+});
+
+const sendError = (reply: FastifyReply, error: unknown): FastifyReply => {
+  if (error instanceof PlayerAccountError) {
+    return reply
+      .status(STATUS_BY_CODE[error.code] ?? 400)
+      .send({ code: error.code, message: error.message });
+  }
+  throw error;
+};
+
+export const playerRoutes: FastifyPluginAsync<{ accounts: PlayerAccounts }> = async (
+  app,
+  { accounts },
+) => {
+  app.post('/players', async (request, reply) => {
+    try {
+      return reply
+        .status(201)
+        .send(playerAccountSchema.parse(await accounts.register(request.body)));
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  app.post('/players/login', async (request, reply) => {
+    try {
+      return reply.send(playerAccountSchema.parse(await accounts.login(request.body)));
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  app.get('/players/:id/matches', async (request, reply) => {
+    const params = playerParamsSchema.safeParse(request.params);
+    const query = matchesQuerySchema.safeParse(request.query);
+    if (!params.success || !query.success) {
+      return reply
+        .status(400)
+        .send({ code: 'INVALID_TARGET', message: 'invalid player id or limit' });
+    }
+
+    try {
+      const history = await accounts.matchHistory(params.data.id, query.data.limit);
+      return reply.send(playerMatchHistorySchema.parse(history));
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
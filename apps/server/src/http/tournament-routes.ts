@@ -0,0 +1,94 @@
+import {
+  roomCodeSchema,
+  sessionTokenSchema,
+  tournamentCredentialsSchema,
+  tournamentSchema,
+  type ErrorCode,
+} from '@slaphard/shared';
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ServiceError, type GameService } from '../service/game-service';
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  TOURNAMENT_NOT_FOUND: 404,
+  NOT_ORGANIZER: 403,
+  REGISTRATION_CLOSED: 409,
+  INVALID_CREDENTIALS: 401,
+  ROOM_BUSY: 503,
+};
+
+const codeParamsSchema = z.object({
+  code: z
+    .string()
+    .transform((code) => code.toUpperCase())
+    .pipe(roomCodeSchema),
+});
+const startBodySchema = z.object({ token: sessionTokenSchema });
+
+const sendError = (reply: FastifyReply, error: unknown): FastifyReply => {
+  if (error instanceof ServiceError) {
+    return reply
+      .status(STATUS_BY_CODE[error.code] ?? 400)
+      .send({ code: error.code, message: error.message });
+  }
+  throw error;
+};
+
+/** Organizer and registration endpoints; the bracket itself updates live over `v1:tournament.*`. */
+export const tournamentRoutes: FastifyPluginAsync<{ gameService: GameService }> = async (
+  app,
+  { gameService },
+) => {
+  app.post('/tournaments', async (request, reply) => {
+    try {
+      const created = await gameService.createTournament(request.body);
+      return reply.status(201).send(tournamentCredentialsSchema.parse(created));
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  app.get('/tournaments/:code', async (request, reply) => {
+    const params = codeParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ code: 'INVALID_TARGET', message: 'invalid tournament code' });
+    }
+
+    try {
+      return reply.send(tournamentSchema.parse(await gameService.getTournament(params.data.code)));
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  app.post('/tournaments/:code/entrants', async (request, reply) => {
+    const params = codeParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ code: 'INVALID_TARGET', message: 'invalid tournament code' });
+    }
+
+    try {
+      const registered = await gameService.registerForTournament(params.data.code, request.body);
+      return reply.status(201).send(tournamentCredentialsSchema.parse(registered));
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  app.post('/tournaments/:code/start', async (request, reply) => {
+    const params = codeParamsSchema.safeParse(request.params);
+    const body = startBodySchema.safeParse(request.body);
+    if (!params.success || !body.success) {
+      return reply
+        .status(400)
+        .send({ code: 'INVALID_TARGET', message: 'invalid tournament code or token' });
+    }
+
+    try {
+      const started = await gameService.startTournament(params.data.code, body.data.token);
+      return reply.send(tournamentSchema.parse(started));
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
@@ -1,19 +1,43 @@
+import cors from '@fastify/cors';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { randomBytes } from 'crypto';
 import Fastify from 'fastify';
 import Redis from 'ioredis';
 import { Server as SocketIOServer } from 'socket.io';
 import { config } from './runtime-config';
 import { closeDbPool } from './db/client';
+import { LeaderboardRepository } from './db/leaderboard-repository';
+import { PlayerRepository } from './db/player-repository';
 import { NoopPersistenceRepository, PostgresPersistenceRepository } from './db/postgres';
+import { leaderboardRoutes } from './http/leaderboard-routes';
+import { playerRoutes } from './http/player-routes';
+import { tournamentRoutes } from './http/tournament-routes';
 import { logger } from './logger';
 import { GameService } from './service/game-service';
+import { Leaderboards } from './service/leaderboards';
+import { PlayerAccounts } from './service/player-accounts';
+import { SessionTokens } from './service/session-tokens';
 import { InMemoryRoomStore } from './store/in-memory-room-store';
 import { RedisRoomStore } from './store/redis-room-store';
 import { attachSocketHandlers } from './socket';
 
 const app = Fastify({ loggerInstance: logger });
+void app.register(cors, { origin: config.corsOrigins, methods: ['GET', 'POST'] });
 
-const roomStore = (() => {
+const redis = (() => {
   if (!config.redisUrl) {
+    return undefined;
+  }
+
+  const client = new Redis(config.redisUrl);
+  client.on('error', (error) => {
+    logger.error({ error }, 'redis error');
+  });
+  return client;
+})();
+
+const roomStore = (() => {
+  if (!redis) {
     if (!config.allowInMemoryRoomStore) {
       throw new Error('REDIS_URL is required unless ALLOW_IN_MEMORY_ROOM_STORE=true');
     }
@@ -21,10 +45,6 @@ const roomStore = (() => {
     return new InMemoryRoomStore();
   }
 
-  const redis = new Redis(config.redisUrl);
-  redis.on('error', (error) => {
-    logger.error({ error }, 'redis error');
-  });
   return new RedisRoomStore(redis);
 })();
 
@@ -48,14 +68,46 @@ const io = new SocketIOServer(app.server, {
   },
 });
 
-const gameService = new GameService(io, roomStore, persistenceRepo, logger);
+if (redis) {
+  // Room broadcasts and peer room-change notices cross instances over Redis pub/sub.
+  const subClient = redis.duplicate();
+  subClient.on('error', (error) => {
+    logger.error({ error }, 'redis adapter subscriber error');
+  });
+  io.adapter(createAdapter(redis, subClient));
+}
+
+const sessionTokens = (() => {
+  if (!config.sessionSecret) {
+    logger.warn('SESSION_SECRET missing, using a per-process secret (sessions end on restart)');
+    return new SessionTokens(randomBytes(32).toString('hex'), config.sessionTtlSeconds);
+  }
+  return new SessionTokens(config.sessionSecret, config.sessionTtlSeconds);
+})();
+
+const gameService = new GameService(io, roomStore, persistenceRepo, logger, sessionTokens, {
+  clustered: !!redis,
+});
 attachSocketHandlers(io, gameService, logger);
+void app.register(tournamentRoutes, { gameService });
+
+if (config.enableDbPersistence) {
+  void app.register(playerRoutes, {
+    accounts: new PlayerAccounts(new PlayerRepository(), sessionTokens),
+  });
+  void app.register(leaderboardRoutes, {
+    leaderboards: new Leaderboards(new LeaderboardRepository()),
+  });
+} else {
+  logger.warn('player accounts and leaderboards disabled (requires ENABLE_DB_PERSISTENCE=true)');
+}
 
 app.get('/health', async () => ({ ok: true, now: Date.now() }));
 app.get('/version', async () => ({ name: 'slaphard-server', version: '0.1.0' }));
 
 const start = async (): Promise<void> => {
   try {
+    await gameService.recoverRooms();
     await app.listen({ host: '0.0.0.0', port: config.port });
     logger.info({ port: config.port }, 'server listening');
   } catch (error) {
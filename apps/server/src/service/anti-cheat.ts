@@ -0,0 +1,98 @@
+import type { SlapSuspicion } from '@slaphard/shared';
+import type { ClockEstimate } from './clock-sync';
+
+/** Network jitter and clock-sync error tolerated on top of the RTT credit. */
+export const TIMING_JITTER_TOLERANCE_MS = 80;
+/** Ceiling on the RTT credited to excuse a tap that landed long before receipt. */
+export const MAX_CREDITED_RTT_MS = 500;
+export const SUSPICION_PER_SLAP = 2;
+export const SUSPICION_FLAG_THRESHOLD = 4;
+
+export type SlapTimingVerdict =
+  | 'PLAUSIBLE'
+  | 'BEFORE_NETWORK_ALLOWS'
+  | 'AFTER_RECEIPT'
+  | 'CLOCK_MISMATCH';
+
+export interface SlapTimingClaim {
+  clientTime: number;
+  offsetMs: number;
+  rttMs: number;
+}
+
+export interface SlapTimingAssessment {
+  verdict: SlapTimingVerdict;
+  claimedReactionMs: number;
+  receivedReactionMs: number;
+  /** Time between the claimed tap and the server receiving it. */
+  transitMs: number;
+  allowedTransitMs: number;
+}
+
+/**
+ * A genuine tap reaches the server within about one round trip of when the client says it
+ * happened. Claims from further back than that are timestamps shifted to look faster; claims
+ * after receipt come from a clock that was never synced. A timing that passes still counts as a
+ * `CLOCK_MISMATCH` when the offset the client sent disagreed with the server's own estimate.
+ *
+ * The round trip credited is never more than the server measured itself plus its jitter, and
+ * nothing without a measurement.
+ */
+export const assessSlapTiming = (
+  claim: SlapTimingClaim,
+  windowStartServerTime: number,
+  receivedAtServerTime: number,
+  measured: Pick<ClockEstimate, 'rttMs' | 'jitterMs'> | undefined,
+  clientClockConsistent = true,
+): SlapTimingAssessment => {
+  const claimedTapServerTime = claim.clientTime + claim.offsetMs;
+  const transitMs = receivedAtServerTime - claimedTapServerTime;
+  const measuredRttMs = measured ? measured.rttMs + measured.jitterMs : 0;
+  const allowedTransitMs =
+    Math.min(Math.max(claim.rttMs, 0), measuredRttMs, MAX_CREDITED_RTT_MS) +
+    TIMING_JITTER_TOLERANCE_MS;
+
+  let verdict: SlapTimingVerdict = 'PLAUSIBLE';
+  if (transitMs > allowedTransitMs) {
+    verdict = 'BEFORE_NETWORK_ALLOWS';
+  } else if (transitMs < -TIMING_JITTER_TOLERANCE_MS) {
+    verdict = 'AFTER_RECEIPT';
+  } else if (!clientClockConsistent) {
+    verdict = 'CLOCK_MISMATCH';
+  }
+
+  return {
+    verdict,
+    claimedReactionMs: claimedTapServerTime - windowStartServerTime,
+    receivedReactionMs: receivedAtServerTime - windowStartServerTime,
+    transitMs,
+    allowedTransitMs,
+  };
+};
+
+/**
+ * Each implausible slap adds `SUSPICION_PER_SLAP` and each plausible one pays back a point, so a
+ * lone network hiccup fades while steady forging crosses the threshold within two windows.
+ */
+export const recordSlapAssessment = (
+  suspicion: SlapSuspicion | undefined,
+  assessment: SlapTimingAssessment,
+): SlapSuspicion => {
+  const suspicious = assessment.verdict !== 'PLAUSIBLE';
+  const previous = suspicion ?? { score: 0, suspiciousSlaps: 0, flagged: false };
+  const score = suspicious ? previous.score + SUSPICION_PER_SLAP : Math.max(0, previous.score - 1);
+  return {
+    score,
+    suspiciousSlaps: previous.suspiciousSlaps + (suspicious ? 1 : 0),
+    flagged: score >= SUSPICION_FLAG_THRESHOLD,
+  };
+};
+
+/** Drops the client's timing claim so the slap ranks as if tapped when the server received it. */
+export const serverReceiveTiming = <T extends SlapTimingClaim>(
+  claim: T,
+  receivedAtServerTime: number,
+): T => ({
+  ...claim,
+  offsetMs: receivedAtServerTime - claim.clientTime,
+});
@@ -0,0 +1,25 @@
+import { MIN_PLAYERS, type RoomPlayer, type UnreadyPlayerPolicy } from '@slaphard/shared';
+
+/**
+ * The players an auto-start would seat, or undefined when it should not count down: a connected
+ * player is still unready, a disconnected one holds it up under `BLOCK`, or too few are left. Under
+ * `EXCLUDE` only disconnected players can be unready here, and they are left out.
+ */
+export const autoStartRoster = (
+  players: readonly RoomPlayer[],
+  policy: UnreadyPlayerPolicy,
+): RoomPlayer[] | undefined => {
+  const unready = players.filter((player) => !player.ready);
+  if (unready.some((player) => player.connected) || (policy === 'BLOCK' && unready.length > 0)) {
+    return undefined;
+  }
+
+  const roster = players.filter((player) => player.ready);
+  if (
+    roster.length < MIN_PLAYERS ||
+    !roster.some((player) => player.connected && !player.botDifficulty)
+  ) {
+    return undefined;
+  }
+  return roster;
+};
@@ -0,0 +1,114 @@
+import { ACTION_CARDS, type BotDifficulty, type GameState, type Gesture } from '@slaphard/shared';
+import { v4 as uuidv4 } from 'uuid';
+
+interface BotProfile {
+  reactionMeanMs: number;
+  reactionStdDevMs: number;
+  minFlipDelayMs: number;
+  maxFlipDelayMs: number;
+  falseSlapChance: number;
+  wrongGestureChance: number;
+}
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  EASY: {
+    reactionMeanMs: 950,
+    reactionStdDevMs: 250,
+    minFlipDelayMs: 1200,
+    maxFlipDelayMs: 2200,
+    falseSlapChance: 0.08,
+    wrongGestureChance: 0.2,
+  },
+  NORMAL: {
+    reactionMeanMs: 620,
+    reactionStdDevMs: 150,
+    minFlipDelayMs: 700,
+    maxFlipDelayMs: 1400,
+    falseSlapChance: 0.04,
+    wrongGestureChance: 0.08,
+  },
+  HARD: {
+    reactionMeanMs: 380,
+    reactionStdDevMs: 80,
+    minFlipDelayMs: 400,
+    maxFlipDelayMs: 800,
+    falseSlapChance: 0.01,
+    wrongGestureChance: 0.02,
+  },
+};
+
+const MIN_BOT_REACTION_MS = 120;
+
+export type BotMove =
+  | { type: 'FLIP'; delayMs: number }
+  | { type: 'SLAP'; delayMs: number; eventId: string; gesture?: Gesture };
+
+const sampleReactionMs = (profile: BotProfile, random: () => number): number => {
+  // Box-Muller; 1 - random() keeps the log argument away from zero.
+  const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return Math.max(
+    MIN_BOT_REACTION_MS,
+    Math.round(profile.reactionMeanMs + gaussian * profile.reactionStdDevMs),
+  );
+};
+
+/**
+ * Identifies the decision a bot faces in this state. A bot decides at most once per key, so
+ * unrelated reschedules (joins, disconnects) do not re-roll its reaction time.
+ */
+export const botDecisionKey = (state: GameState, botUserId: string): string | undefined => {
+  if (state.status !== 'IN_GAME' || !state.players.some((player) => player.userId === botUserId)) {
+    return undefined;
+  }
+
+  const window = state.slapWindow;
+  if (window.active && !window.resolved && window.eventId) {
+    const alreadySlapped = window.attempts.some((attempt) => attempt.userId === botUserId);
+    return alreadySlapped ? undefined : `slap:${window.eventId}`;
+  }
+
+  if (state.players[state.currentTurnSeat]?.userId === botUserId) {
+    return `flip:${state.version}`;
+  }
+
+  return state.lastRevealed ? `idle:${state.version}` : undefined;
+};
+
+export const planBotMove = (
+  state: GameState,
+  botUserId: string,
+  difficulty: BotDifficulty,
+  random: () => number = Math.random,
+): BotMove | undefined => {
+  const key = botDecisionKey(state, botUserId);
+  if (!key) {
+    return undefined;
+  }
+
+  const profile = BOT_PROFILES[difficulty];
+  const window = state.slapWindow;
+  if (key.startsWith('slap:') && window.eventId) {
+    const delayMs = sampleReactionMs(profile, random);
+    if (window.reason !== 'ACTION' || !window.actionCard) {
+      return { type: 'SLAP', delayMs, eventId: window.eventId };
+    }
+
+    const wrongGestures = ACTION_CARDS.filter((gesture) => gesture !== window.actionCard);
+    const gesture =
+      random() < profile.wrongGestureChance
+        ? wrongGestures[Math.floor(random() * wrongGestures.length)]!
+        : window.actionCard;
+    return { type: 'SLAP', delayMs, eventId: window.eventId, gesture };
+  }
+
+  if (key.startsWith('flip:')) {
+    const spread = profile.maxFlipDelayMs - profile.minFlipDelayMs;
+    return { type: 'FLIP', delayMs: Math.round(profile.minFlipDelayMs + random() * spread) };
+  }
+
+  if (random() < profile.falseSlapChance) {
+    // A twitch on a card that opened no window; the engine scores it as a false slap.
+    return { type: 'SLAP', delayMs: sampleReactionMs(profile, random), eventId: uuidv4() };
+  }
+  return undefined;
+};
@@ -0,0 +1,72 @@
+import { CHAT_HISTORY_LIMIT, type ChatMessage } from '@slaphard/shared';
+
+/** Messages (text or emote) one user may send per `CHAT_RATE_WINDOW_MS`. */
+export const CHAT_RATE_LIMIT = 6;
+export const CHAT_RATE_WINDOW_MS = 10_000;
+
+const PROFANE_STEMS = [
+  'fuck',
+  'shit',
+  'bitch',
+  'cunt',
+  'asshole',
+  'bastard',
+  'dick',
+  'cock',
+  'pussy',
+  'slut',
+  'whore',
+  'wanker',
+  'twat',
+];
+const PROFANE_SUFFIXES = ['', 's', 'es', 'ed', 'er', 'ers', 'ing', 'y'];
+const LEET_LETTERS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+};
+
+/** Folds look-alike digits and stretched letters so `sh1iiit` reads as `shit`. */
+const normalizeWord = (word: string): string =>
+  word
+    .toLowerCase()
+    .replace(/[0134579@$]/g, (char) => LEET_LETTERS[char] ?? char)
+    .replace(/(.)\1+/g, '$1');
+
+const PROFANE_WORDS = new Set(
+  PROFANE_STEMS.flatMap((stem) => PROFANE_SUFFIXES.map((suffix) => normalizeWord(stem + suffix))),
+);
+
+/**
+ * Masks whole words that are a listed stem plus a common ending. Matching whole words rather than
+ * substrings keeps names like "Dickens" or "Scunthorpe" intact.
+ */
+export const filterProfanity = (text: string): string =>
+  text.replace(/[A-Za-z0-9@$]+/g, (word) =>
+    PROFANE_WORDS.has(normalizeWord(word)) ? '*'.repeat(word.length) : word,
+  );
+
+/**
+ * Sliding-window limit, separate from the gameplay input gap: returns the send times to keep with
+ * this message counted, or undefined when the user already sent `CHAT_RATE_LIMIT` in the window.
+ */
+export const admitChatMessage = (
+  recentSentAt: readonly number[],
+  now: number,
+): number[] | undefined => {
+  const inWindow = recentSentAt.filter((sentAt) => now - sentAt < CHAT_RATE_WINDOW_MS);
+  if (inWindow.length >= CHAT_RATE_LIMIT) {
+    return undefined;
+  }
+  return [...inWindow, now];
+};
+
+export const appendChatMessage = (
+  history: readonly ChatMessage[] | undefined,
+  message: ChatMessage,
+): ChatMessage[] => [...(history ?? []), message].slice(-CHAT_HISTORY_LIMIT);
@@ -0,0 +1,100 @@
+/** Recent exchanges kept per socket; older ones fall out as the connection changes. */
+export const CLOCK_SYNC_WINDOW = 8;
+/** Below this the server doesn't trust its estimate and ranks slaps by receive time. */
+export const CLOCK_SYNC_MIN_CONFIDENCE = 0.5;
+/** How long an honest client takes to answer a pong with its echo. */
+export const MAX_CLIENT_HOLD_MS = 10;
+const FULL_CONFIDENCE_SAMPLES = 4;
+const MAX_USABLE_JITTER_MS = 200;
+const CLIENT_DRIFT_SLACK_MS = 50;
+
+export interface ClockSample {
+  /** Server clock minus client clock. */
+  offsetMs: number;
+  rttMs: number;
+}
+
+export interface ClockSync {
+  samples: ClockSample[];
+  /** `serverTime` of the last pong, which only counts if its echo comes back. */
+  pendingPongServerTime?: number | undefined;
+}
+
+export interface ClockEstimate {
+  offsetMs: number;
+  rttMs: number;
+  jitterMs: number;
+  samples: number;
+  /** 0 to 1: grows with samples, shrinks as RTT jitter widens. */
+  confidence: number;
+}
+
+export const createClockSync = (): ClockSync => ({ samples: [] });
+
+/**
+ * NTP's four timestamps, read from the server's side: pong sent (server clock), pong received and
+ * echo sent (client clock), echo received (server clock). The RTT is the round trip the server saw
+ * itself, so a client can only make it longer. The client stamps only place the offset, and an echo
+ * held longer than `MAX_CLIENT_HOLD_MS` or stamped out of order is dropped.
+ */
+export const clockSampleFromExchange = (
+  pongSentAt: number,
+  pongReceivedAt: number,
+  echoSentAt: number,
+  echoReceivedAt: number,
+): ClockSample | undefined => {
+  const holdMs = echoSentAt - pongReceivedAt;
+  const rttMs = echoReceivedAt - pongSentAt;
+  if (holdMs < 0 || holdMs > MAX_CLIENT_HOLD_MS || rttMs < 0) {
+    return undefined;
+  }
+  return {
+    offsetMs: (pongSentAt - pongReceivedAt + (echoReceivedAt - echoSentAt)) / 2,
+    rttMs,
+  };
+};
+
+export const recordClockSample = (sync: ClockSync, sample: ClockSample): void => {
+  sync.samples = [...sync.samples, sample].slice(-CLOCK_SYNC_WINDOW);
+};
+
+/**
+ * Takes the offset from the fastest recent exchange, which had the least room for one-way
+ * asymmetry, and the mean RTT as the connection's typical round trip.
+ */
+export const estimateClock = (sync: ClockSync): ClockEstimate | undefined => {
+  const count = sync.samples.length;
+  if (count === 0) {
+    return undefined;
+  }
+
+  const fastest = sync.samples.reduce((best, sample) =>
+    sample.rttMs < best.rttMs ? sample : best,
+  );
+  const meanRttMs = sync.samples.reduce((sum, sample) => sum + sample.rttMs, 0) / count;
+  const jitterMs = Math.sqrt(
+    sync.samples.reduce((sum, sample) => sum + (sample.rttMs - meanRttMs) ** 2, 0) / count,
+  );
+  const confidence =
+    Math.min(1, count / FULL_CONFIDENCE_SAMPLES) * Math.max(0, 1 - jitterMs / MAX_USABLE_JITTER_MS);
+
+  return {
+    offsetMs: Math.round(fastest.offsetMs),
+    rttMs: Math.round(meanRttMs),
+    jitterMs: Math.round(jitterMs),
+    samples: count,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+};
+
+/**
+ * The client estimates its offset assuming a symmetric path, so it may sit up to half an RTT
+ * (plus jitter) from ours. Anything further off comes from a broken or doctored client clock.
+ */
+export const isClientClockConsistent = (
+  estimate: ClockEstimate,
+  client: { offsetMs: number; rttMs: number },
+): boolean => {
+  const slackMs = estimate.rttMs / 2 + 2 * estimate.jitterMs + CLIENT_DRIFT_SLACK_MS;
+  return Math.abs(client.offsetMs - estimate.offsetMs) <= slackMs;
+};
@@ -1,19 +1,86 @@
-import { applyEvent, buildGameStateView, createInitialState } from '@slaphard/engine';
+import {
+  applyEvent,
+  buildDeckFromSpec,
+  buildGameStateView,
+  buildSpectatorGameStateView,
+  createInitialState,
+  isValidDeck,
+  validateTeamPlayerCount,
+} from '@slaphard/engine';
 import {
   ACTION_CARDS,
+  AUTO_START_COUNTDOWN_MS,
+  DEFAULT_ROOM_RULES,
   MAX_PLAYERS,
+  MAX_SPECTATORS,
+  MAX_TOURNAMENT_ENTRANTS,
   MIN_PLAYERS,
+  MIN_TEAM_PLAYERS,
+  QUICK_MATCH_COUNTDOWN_MS,
+  TOURNAMENT_START_COUNTDOWN_MS,
   clientEventsSchemas,
+  diffGameStateView,
   serverEventsSchemas,
+  tournamentRegistrationSchema,
+  tournamentSettingsSchema,
+  type ChatMessage,
   type ErrorCode,
+  type GameStateView,
+  type PublicRoomListing,
+  type RoomPlayer,
+  type RoomRules,
+  type RoomSpectator,
   type RoomState,
+  type SlapSuspicion,
+  type Tournament,
+  type TournamentCredentials,
+  type TournamentRoomLink,
 } from '@slaphard/shared';
-import type { EngineEffect, EngineEvent } from '@slaphard/engine';
+import type {
+  CreateInitialStateConfig,
+  EngineEffect,
+  EngineEvent,
+  EngineResult,
+  ReplayLogEntry,
+} from '@slaphard/engine';
+import { randomBytes } from 'crypto';
 import type { Logger } from 'pino';
 import type { Server, Socket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
 import type { MatchEventType, MatchSummary, PersistenceRepository, RoomTransitionType } from '../db/types';
 import type { RoomStore } from '../store/room-store';
+import {
+  assessSlapTiming,
+  recordSlapAssessment,
+  serverReceiveTiming,
+  type SlapTimingAssessment,
+  type SlapTimingClaim,
+} from './anti-cheat';
+import { autoStartRoster } from './auto-start';
+import { botDecisionKey, planBotMove, type BotMove } from './bot-players';
+import { admitChatMessage, appendChatMessage, filterProfanity } from './chat';
+import {
+  CLOCK_SYNC_MIN_CONFIDENCE,
+  clockSampleFromExchange,
+  createClockSync,
+  estimateClock,
+  isClientClockConsistent,
+  recordClockSample,
+  type ClockEstimate,
+  type ClockSync,
+} from './clock-sync';
+import { createMatchStats, isSlapWon, recordMatchEffect } from './match-stats';
+import {
+  dequeueQuickMatch,
+  enqueueQuickMatch,
+  waitingForSize,
+  type QuickMatchEntry,
+  type QuickMatchQueue,
+} from './matchmaking';
+import { DEFAULT_RATING, placeStandings } from './ratings';
+import { createSeries, isSeriesInProgress, recordSeriesRound } from './series';
+import { SessionTokens } from './session-tokens';
+import { advanceTournament, decideMatch, rankFinishers, seedRound } from './tournament-bracket';
 
 interface SocketContext {
   userId: string;
@@ -26,13 +93,59 @@ interface RoomTimers {
   generation: number;
 }
 
+interface BotTimer {
+  key: string;
+  timer?: NodeJS.Timeout;
+}
+
+interface EngineInput {
+  event: EngineEvent;
+  nowServerTime: number;
+}
+
+/** A slap's timing for the engine, and the verdict to record once the engine takes the slap. */
+interface SlapScreening {
+  timing: SlapTimingClaim;
+  assessment?: SlapTimingAssessment;
+  suspicion?: SlapSuspicion;
+  clientOffsetMs?: number;
+}
+
 interface RecentResolvedSlap {
   eventId: string;
   resolvedAt: number;
   participantUserIds: Set<string>;
 }
 
+interface RoomChangedMessage {
+  roomId: string;
+  kicked?: { userId: string; byUserId: string };
+  /** Quick-match sockets seated in the room by another instance; their holder attaches them. */
+  seated?: Array<{ socketId: string; userId: string }>;
+  /** Users an automatic start left with neither a seat nor a spectator place. */
+  unseated?: string[];
+}
+
+export interface GameServiceOptions {
+  /** Names this instance in room lock tokens and timer leases; unique per process. */
+  nodeId?: string;
+  /** Set when Socket.IO runs on a cluster adapter, so saved rooms are pushed to peer instances. */
+  clustered?: boolean;
+}
+
 const RESOLVED_SLAP_DUPLICATE_GRACE_MS = 250;
+const ROOM_LOCK_TTL_MS = 10_000;
+const ROOM_LOCK_WAIT_MS = 5_000;
+const ROOM_LOCK_RETRY_MS = 15;
+const ROOM_CHANGED_EVENT = 'room:changed';
+/** Socket.IO room of sockets watching the public room browser. */
+const PUBLIC_ROOMS_CHANNEL = 'rooms:public';
+const tournamentChannel = (tournamentId: string) => `tournament:${tournamentId}`;
+/** Mutation lock id the shared quick-match queue is changed under. */
+const QUICK_MATCH_LOCK_ID = 'quick-match';
+
+/** Quick-match and tournament rooms count down from when they open, then start ready or not. */
+const startsOnCountdown = (room: RoomState): boolean => !!room.quickMatch || !!room.tournament;
 const TIMER_NOOP_ERROR_CODES = new Set<ErrorCode>(['SLAP_WINDOW_ACTIVE', 'NO_SLAP_WINDOW', 'NOT_IN_GAME']);
 const RECOVERABLE_RESYNC_ERROR_CODES = new Set<ErrorCode>([
   'NOT_YOUR_TURN',
@@ -51,7 +164,7 @@ const randomCode = (): string => {
   return code;
 };
 
-class ServiceError extends Error {
+export class ServiceError extends Error {
   constructor(
     readonly code: ErrorCode,
     message: string,
@@ -64,22 +177,113 @@ class ServiceError extends Error {
 const isGesture = (value: string | undefined): value is (typeof ACTION_CARDS)[number] =>
   !!value && (ACTION_CARDS as readonly string[]).includes(value);
 
+/** The connected human with the longest-held connection inherits the host; seat breaks ties. */
+const longestConnectedPlayer = (room: RoomState): RoomPlayer | undefined =>
+  room.players
+    .filter(
+      (player) =>
+        player.userId !== room.hostUserId &&
+        player.connected &&
+        !player.botDifficulty &&
+        !player.kicked,
+    )
+    .sort(
+      (a, b) =>
+        (a.connectedSince ?? room.createdAt) - (b.connectedSince ?? room.createdAt) ||
+        a.seatIndex - b.seatIndex,
+    )[0];
+
+const teamSeatingProblem = (rules: RoomRules, playerCount: number): string | undefined =>
+  rules.teamMode !== 'OFF' && !validateTeamPlayerCount(playerCount)
+    ? `team play needs an even number of players, at least ${MIN_TEAM_PLAYERS}`
+    : undefined;
+
+/**
+ * Why the rules cannot deal to `playerCount` seats, if they cannot. Checked before an automatic
+ * start changes the roster, as well as by every start.
+ */
+const seatingProblem = (rules: RoomRules, playerCount: number): string | undefined =>
+  'custom' in rules.deck &&
+  !isValidDeck(buildDeckFromSpec(rules.deck, playerCount), playerCount)
+    ? `deck has too few cards for ${playerCount} players`
+    : teamSeatingProblem(rules, playerCount);
+
+/**
+ * The lobby an automatic start plays with: only `roster` keeps a seat and everyone else watches,
+ * or is `unseated` once the spectator places run out. `room` itself is left as it was, so a start
+ * that fails has nothing to undo.
+ */
+const seatRosterOnly = (
+  room: RoomState,
+  roster: RoomPlayer[],
+): { seated: RoomState; unseated: RoomPlayer[] } => {
+  const seated = structuredClone(room);
+  seated.players = roster.map((player, seatIndex) => ({ ...structuredClone(player), seatIndex }));
+  const unseated: RoomPlayer[] = [];
+  for (const player of room.players.filter((entry) => !roster.includes(entry))) {
+    if (seated.spectators.length < MAX_SPECTATORS) {
+      seated.spectators.push({
+        userId: player.userId,
+        displayName: player.displayName,
+        connected: player.connected,
+      });
+    } else {
+      unseated.push(player);
+    }
+  }
+  if (!roster.some((player) => player.userId === room.hostUserId)) {
+    seated.hostUserId = roster.find((player) => !player.botDifficulty)?.userId ?? room.hostUserId;
+  }
+  return { seated, unseated };
+};
+
+/** Team play deals two equal sides of at least two, so every round's seating is checked first. */
+const assertTeamSeating = (room: RoomState): void => {
+  const problem = teamSeatingProblem(room.rules, room.players.length);
+  if (problem) {
+    throw new ServiceError('INVALID_RULES', problem);
+  }
+};
+
 export class GameService {
   private readonly socketContext = new Map<string, SocketContext>();
   private readonly socketsByUserId = new Map<string, Set<string>>();
   private readonly timersByRoomId = new Map<string, RoomTimers>();
+  private readonly botTimersByRoomId = new Map<string, Map<string, BotTimer>>();
+  private readonly graceTimersByRoomId = new Map<string, Map<string, NodeJS.Timeout>>();
+  private readonly hostMigrationTimerByRoomId = new Map<string, NodeJS.Timeout>();
+  private readonly startCountdownTimerByRoomId = new Map<string, NodeJS.Timeout>();
+  /** Sockets this instance has queued for quick match, so only they touch the shared queue. */
+  private readonly quickMatchSocketIds = new Set<string>();
   private readonly timerGenerationByRoomId = new Map<string, number>();
   private readonly lastInputAtBySocketId = new Map<string, number>();
-  private readonly activeMatchByRoomId = new Map<string, string>();
   private readonly recentResolvedSlapByRoomId = new Map<string, RecentResolvedSlap>();
   private readonly roomMutationQueueByRoomId = new Map<string, Promise<void>>();
+  private readonly lastGameViewBySocketId = new Map<string, GameStateView>();
+  private readonly clockSyncBySocketId = new Map<string, ClockSync>();
+  private readonly chatSentAtByUserId = new Map<string, number[]>();
+  private readonly peerSyncedVersionByRoomId = new Map<string, number>();
+  private readonly nodeId: string;
+  private readonly clustered: boolean;
 
   constructor(
     private readonly io: Server,
     private readonly roomStore: RoomStore,
     private readonly persistenceRepo: PersistenceRepository,
     private readonly logger: Logger,
-  ) {}
+    private readonly sessionTokens = new SessionTokens(randomBytes(32).toString('hex')),
+    options: GameServiceOptions = {},
+  ) {
+    this.nodeId = options.nodeId ?? uuidv4();
+    this.clustered = options.clustered ?? false;
+    if (this.clustered) {
+      this.io.on(ROOM_CHANGED_EVENT, (message: RoomChangedMessage) => {
+        void this.syncRoomFromPeer(message).catch((error: unknown) => {
+          this.logger.error({ roomId: message.roomId, error }, 'peer room sync failed');
+        });
+      });
+    }
+  }
 
   private async withRoomMutationLock<T>(roomId: string, task: () => Promise<T>): Promise<T> {
     const previous = this.roomMutationQueueByRoomId.get(roomId) ?? Promise.resolve();
@@ -91,9 +295,16 @@ export class GameService {
     this.roomMutationQueueByRoomId.set(roomId, queued);
 
     await previous;
+    let lockToken: string | undefined;
     try {
+      lockToken = await this.acquireRoomLock(roomId);
       return await task();
     } finally {
+      if (lockToken) {
+        await this.roomStore.releaseRoomLock(roomId, lockToken).catch((error: unknown) => {
+          this.logger.warn({ roomId, error }, 'room lock release failed');
+        });
+      }
       release?.();
       if (this.roomMutationQueueByRoomId.get(roomId) === queued) {
         this.roomMutationQueueByRoomId.delete(roomId);
@@ -101,6 +312,87 @@ export class GameService {
     }
   }
 
+  /**
+   * The local queue orders this instance's mutations; the store lock then keeps other instances
+   * out while the task reads, changes and saves the room.
+   */
+  private async acquireRoomLock(roomId: string): Promise<string> {
+    const token = `${this.nodeId}:${uuidv4()}`;
+    const giveUpAt = Date.now() + ROOM_LOCK_WAIT_MS;
+    while (!(await this.roomStore.acquireRoomLock(roomId, token, ROOM_LOCK_TTL_MS))) {
+      if (Date.now() >= giveUpAt) {
+        throw new ServiceError('ROOM_BUSY', 'room is busy, try again');
+      }
+      await new Promise((resolve) => setTimeout(resolve, ROOM_LOCK_RETRY_MS));
+    }
+    return token;
+  }
+
+  /**
+   * Startup pass over the live rooms. Games in progress get their timers back, counted from the
+   * stored deadlines, and keep recording into their open match. Matches left open by anything
+   * else are closed as SERVER_RESTART.
+   */
+  async recoverRooms(now = Date.now()): Promise<void> {
+    const openMatches =
+      (await this.persistWithRetry(() => this.persistenceRepo.listOpenMatches(new Date(now)), {
+        action: 'listOpenMatches',
+      })) ?? [];
+    const roomsById = new Map<string, RoomState>();
+    const relinkedMatchIds = new Set<string>();
+
+    for (const roomId of await this.roomStore.listRoomIds()) {
+      await this.withRoomMutationLock(roomId, async () => {
+        const room = await this.roomStore.getRoomById(roomId);
+        if (!room) {
+          return;
+        }
+        roomsById.set(roomId, room);
+        if (room.status === 'LOBBY' && room.startCountdownEndsAt !== undefined) {
+          this.armStartCountdown(roomId, room.startCountdownEndsAt - now);
+        }
+        if (room.status !== 'IN_GAME' || !room.gameState) {
+          return;
+        }
+
+        if (!room.activeMatch) {
+          const open = openMatches.find((match) => match.roomId === roomId);
+          if (open) {
+            room.activeMatch = { matchId: open.matchId, replaySeq: open.nextReplaySeq };
+            await this.saveRoom(room);
+          }
+        }
+        if (room.activeMatch) {
+          relinkedMatchIds.add(room.activeMatch.matchId);
+        }
+        await this.rescheduleTimers(room, room.updatedAt);
+      });
+    }
+
+    const orphaned = openMatches.filter((match) => !relinkedMatchIds.has(match.matchId));
+    for (const match of orphaned) {
+      const room = roomsById.get(match.roomId);
+      await this.persistWithRetry(
+        async () => {
+          await this.persistenceRepo.finishMatch(
+            match.matchId,
+            room?.gameState?.winnerUserId ?? null,
+            room
+              ? this.buildMatchSummary(room, 'SERVER_RESTART')
+              : { roomCode: match.roomCode, reason: 'SERVER_RESTART', players: [] },
+            new Date(now),
+          );
+        },
+        { roomId: match.roomId, matchId: match.matchId, action: 'finishMatch' },
+      );
+    }
+
+    this.logger.info(
+      { rooms: roomsById.size, resumedMatches: relinkedMatchIds.size, closedMatches: orphaned.length },
+      'room recovery complete',
+    );
+  }
+
   async createRoom(socket: Socket, payload: unknown): Promise<void> {
     const parsed = clientEventsSchemas['v1:room.create'].safeParse(payload);
     if (!parsed.success) {
@@ -109,157 +401,567 @@ export class GameService {
 
     const now = Date.now();
     const userId = uuidv4();
-    const roomCode = await this.allocateRoomCode();
-    const roomId = uuidv4();
-
-    const room: RoomState = {
-      roomId,
-      roomCode,
-      status: 'LOBBY',
-      hostUserId: userId,
-      players: [
+    const playerId = this.playerIdFromAccount(parsed.data.accountToken);
+    const room = await this.newLobbyRoom(
+      [
         {
           userId,
           displayName: parsed.data.displayName,
           seatIndex: 0,
           connected: true,
+          connectedSince: now,
           ready: false,
+          ...(await this.accountSeatFields(playerId)),
         },
       ],
-      version: 1,
-      createdAt: now,
-      updatedAt: now,
-    };
+      now,
+    );
+    if (parsed.data.public) {
+      room.public = true;
+    }
 
-    await this.roomStore.saveRoom(room);
+    await this.saveRoom(room);
     await this.persistRoomTransition(room, 'CREATE', { userId });
     await this.attachSocket(socket, room, userId);
     await this.emitRoomState(room);
   }
 
+  /** Subscribes the socket to the public room browser and sends the current listing. */
+  async watchPublicRooms(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:rooms.list'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid room list payload', parsed.error.issues);
+    }
+
+    socket.join(PUBLIC_ROOMS_CHANNEL);
+    this.emitValidated(socket, 'v1:rooms.list', { rooms: await this.listOpenPublicRooms() });
+  }
+
+  async queueQuickMatch(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:match.queue'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INVALID_NAME', 'invalid quick match payload', parsed.error.issues);
+    }
+    if (this.socketContext.has(socket.id)) {
+      throw new ServiceError('INVALID_TARGET', 'leave the room before queueing');
+    }
+
+    const { displayName, size, accountToken } = parsed.data;
+    const playerId = this.playerIdFromAccount(accountToken);
+    this.quickMatchSocketIds.add(socket.id);
+    const group = await this.withQuickMatchQueue((queue) => {
+      const formed = enqueueQuickMatch(queue, {
+        socketId: socket.id,
+        nodeId: this.nodeId,
+        displayName,
+        size,
+        queuedAt: Date.now(),
+        ...(playerId ? { playerId } : {}),
+      });
+      if (!formed) {
+        this.emitQuickMatchWaiting(queue, size);
+      }
+      return formed;
+    });
+    if (!group) {
+      return;
+    }
+    for (const entry of group) {
+      this.quickMatchSocketIds.delete(entry.socketId);
+    }
+    await this.startQuickMatchRoom(group);
+  }
+
+  async cancelQuickMatch(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:match.cancel'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid quick match payload', parsed.error.issues);
+    }
+
+    await this.leaveQuickMatch(socket.id);
+  }
+
+  /** Opens registration; the returned token is the organizer's. */
+  async createTournament(payload: unknown): Promise<TournamentCredentials> {
+    const parsed = tournamentSettingsSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INVALID_RULES', 'invalid tournament settings', parsed.error.issues);
+    }
+
+    const now = Date.now();
+    const tournament: Tournament = {
+      tournamentId: uuidv4(),
+      code: await this.allocateTournamentCode(),
+      status: 'REGISTRATION',
+      ...parsed.data,
+      entrants: [],
+      rounds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.saveTournament(tournament);
+    return { tournament, token: this.sessionTokens.issueTournament(tournament.tournamentId, null) };
+  }
+
+  async registerForTournament(code: string, payload: unknown): Promise<TournamentCredentials> {
+    const parsed = tournamentRegistrationSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INVALID_NAME', 'invalid registration', parsed.error.issues);
+    }
+
+    const playerId = this.playerIdFromAccount(parsed.data.accountToken);
+    const { tournamentId } = await this.tournamentByCode(code);
+    return this.withRoomMutationLock(tournamentId, async () => {
+      const tournament = await this.tournamentById(tournamentId);
+      if (tournament.status !== 'REGISTRATION') {
+        throw new ServiceError('REGISTRATION_CLOSED', 'tournament has already started');
+      }
+      if (tournament.entrants.length >= MAX_TOURNAMENT_ENTRANTS) {
+        throw new ServiceError('REGISTRATION_CLOSED', 'tournament is full');
+      }
+      if (playerId && tournament.entrants.some((entrant) => entrant.playerId === playerId)) {
+        throw new ServiceError('INVALID_TARGET', 'account is already registered');
+      }
+
+      const entrantId = uuidv4();
+      tournament.entrants.push({
+        entrantId,
+        displayName: parsed.data.displayName,
+        registeredAt: Date.now(),
+        ...(playerId ? { playerId } : {}),
+      });
+      await this.saveTournament(tournament);
+      return {
+        tournament,
+        token: this.sessionTokens.issueTournament(tournamentId, entrantId),
+        entrantId,
+      };
+    });
+  }
+
+  /** Closes registration and seeds the first round, in registration order. */
+  async startTournament(code: string, token: string): Promise<Tournament> {
+    const { tournamentId } = await this.tournamentByCode(code);
+    const claims = this.sessionTokens.verifyTournament(token);
+    if (!claims || claims.tournamentId !== tournamentId || claims.entrantId !== null) {
+      throw new ServiceError('NOT_ORGANIZER', 'only the organizer can start the tournament');
+    }
+
+    return this.withRoomMutationLock(tournamentId, async () => {
+      const tournament = await this.tournamentById(tournamentId);
+      if (tournament.status !== 'REGISTRATION') {
+        throw new ServiceError('REGISTRATION_CLOSED', 'tournament has already started');
+      }
+      if (tournament.entrants.length < MIN_PLAYERS) {
+        throw new ServiceError('INVALID_RULES', 'not enough entrants to start');
+      }
+
+      tournament.status = 'RUNNING';
+      tournament.rounds.push(
+        seedRound(
+          tournament.entrants.map((entrant) => entrant.entrantId),
+          tournament.roomSize,
+        ),
+      );
+      await this.openTournamentRound(tournament);
+      await this.saveTournament(tournament);
+      return tournament;
+    });
+  }
+
+  async getTournament(code: string): Promise<Tournament> {
+    return this.tournamentByCode(code);
+  }
+
+  /** Subscribes the socket to the bracket and sends it as it stands. */
+  async watchTournament(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:tournament.watch'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('TOURNAMENT_NOT_FOUND', 'invalid tournament', parsed.error.issues);
+    }
+
+    const tournament = await this.tournamentByCode(parsed.data.code);
+    socket.join(tournamentChannel(tournament.tournamentId));
+    this.emitValidated(socket, 'v1:tournament.state', { tournament });
+  }
+
+  /** Seats an entrant in their room of the current round, as a rejoin of the seat kept for them. */
+  async joinTournamentMatch(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:tournament.join'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('NOT_AN_ENTRANT', 'invalid tournament join', parsed.error.issues);
+    }
+
+    const tournament = await this.tournamentByCode(parsed.data.code);
+    const claims = this.sessionTokens.verifyTournament(parsed.data.token);
+    const entrant = tournament.entrants.find(
+      (entry) =>
+        claims?.tournamentId === tournament.tournamentId && entry.entrantId === claims.entrantId,
+    );
+    if (!entrant) {
+      throw new ServiceError('NOT_AN_ENTRANT', 'token does not belong to an entrant');
+    }
+
+    const match = tournament.rounds[tournament.rounds.length - 1]?.matches.find(
+      (entry) => !entry.advancedEntrantIds && entry.entrantIds.includes(entrant.entrantId),
+    );
+    const userId = match?.seats?.[entrant.entrantId];
+    if (!match?.roomId || !match.roomCode || !userId) {
+      throw new ServiceError('NOT_AN_ENTRANT', 'entrant has no room in the current round');
+    }
+    await this.joinRoom(socket, {
+      roomCode: match.roomCode,
+      displayName: entrant.displayName,
+      sessionToken: this.sessionTokens.issue(userId, match.roomId),
+    });
+  }
+
   async joinRoom(socket: Socket, payload: unknown): Promise<void> {
     const parsed = clientEventsSchemas['v1:room.join'].safeParse(payload);
     if (!parsed.success) {
       throw new ServiceError('INVALID_NAME', 'invalid join payload', parsed.error.issues);
     }
 
-    const { roomCode, displayName, userId: candidateUserId } = parsed.data;
-    const room = await this.roomStore.getRoomByCode(roomCode);
-    if (!room) {
+    const { roomCode, displayName, sessionToken, accountToken } = parsed.data;
+    const roomId = (await this.roomStore.getRoomByCode(roomCode))?.roomId;
+    if (!roomId) {
       throw new ServiceError('ROOM_NOT_FOUND', 'room does not exist');
     }
+    await this.withRoomMutationLock(roomId, async () => {
+      const room = await this.roomStore.getRoomById(roomId);
+      if (!room) {
+        throw new ServiceError('ROOM_NOT_FOUND', 'room does not exist');
+      }
+      const candidateUserId = sessionToken ? this.userIdFromSession(sessionToken, room) : undefined;
+      const playerId = this.playerIdFromAccount(accountToken, room, candidateUserId);
+      this.assertNotBanned(room, candidateUserId, playerId);
+
+      const existingSpectator = candidateUserId
+        ? room.spectators.find((spectator) => spectator.userId === candidateUserId)
+        : undefined;
+      if (existingSpectator) {
+        await this.attachSpectator(socket, room, existingSpectator, displayName);
+        return;
+      }
 
-    const now = Date.now();
-    let userId = candidateUserId;
-    const existingSeat = candidateUserId
-      ? room.players.findIndex((player) => player.userId === candidateUserId)
-      : -1;
-
-    if (existingSeat >= 0) {
-      const player = room.players[existingSeat]!;
-      player.connected = true;
-      player.displayName = displayName;
-      if (room.gameState) {
-        const gamePlayer = room.gameState.players[existingSeat];
+      const now = Date.now();
+      let userId = candidateUserId;
+      const existingSeat = candidateUserId
+        ? room.players.findIndex((player) => player.userId === candidateUserId && !player.kicked)
+        : -1;
+
+      if (existingSeat >= 0) {
+        const player = room.players[existingSeat]!;
+        player.displayName = displayName;
+        if (playerId && !player.playerId) {
+          Object.assign(player, await this.accountSeatFields(playerId));
+        }
+        const gamePlayer = room.gameState?.players[existingSeat];
         if (gamePlayer) {
-          gamePlayer.connected = true;
           gamePlayer.displayName = displayName;
         }
+        await this.setPlayerConnection(room, player.userId, true);
+      } else {
+        if (room.locked) {
+          throw new ServiceError('ROOM_LOCKED', 'room is locked');
+        }
+        if (room.tournament) {
+          throw new ServiceError('ROOM_LOCKED', 'tournament rooms only seat their entrants');
+        }
+        if (room.status !== 'LOBBY') {
+          throw new ServiceError('NOT_IN_LOBBY', 'cannot join as new player while game is active');
+        }
+        if (room.players.length >= MAX_PLAYERS) {
+          throw new ServiceError('ROOM_FULL', 'room is full');
+        }
+
+        userId = uuidv4();
+        room.players.push({
+          userId,
+          displayName,
+          seatIndex: room.players.length,
+          connected: true,
+          connectedSince: now,
+          ready: false,
+          ...(await this.accountSeatFields(playerId)),
+        });
+      }
+
+      if (!userId) {
+        throw new ServiceError('INTERNAL_ERROR', 'unable to assign user id');
+      }
+
+      room.updatedAt = now;
+      room.version += 1;
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'JOIN', { userId });
+      await this.attachSocket(socket, room, userId);
+
+      await this.emitRoomState(room);
+      await this.emitGameState(room);
+      await this.rescheduleTimers(room);
+    });
+  }
+
+  async spectateRoom(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:room.spectate'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INVALID_NAME', 'invalid spectate payload', parsed.error.issues);
+    }
+
+    const { roomCode, displayName, sessionToken } = parsed.data;
+    const roomId = (await this.roomStore.getRoomByCode(roomCode))?.roomId;
+    if (!roomId) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'room does not exist');
+    }
+    await this.withRoomMutationLock(roomId, async () => {
+      const room = await this.roomStore.getRoomById(roomId);
+      if (!room) {
+        throw new ServiceError('ROOM_NOT_FOUND', 'room does not exist');
+      }
+      const candidateUserId = sessionToken ? this.userIdFromSession(sessionToken, room) : undefined;
+      this.assertNotBanned(room, candidateUserId);
+      if (candidateUserId && room.players.some((player) => player.userId === candidateUserId)) {
+        throw new ServiceError('INVALID_TARGET', 'seated players cannot spectate their own room');
+      }
+
+      let spectator = room.spectators.find((entry) => entry.userId === candidateUserId);
+      if (!spectator) {
+        if (room.locked) {
+          throw new ServiceError('ROOM_LOCKED', 'room is locked');
+        }
+        if (room.spectators.length >= MAX_SPECTATORS) {
+          // Make room by dropping spectators whose sockets are gone before refusing a new one.
+          for (const stale of room.spectators.filter((entry) => !entry.connected)) {
+            await this.roomStore.clearUserRoom(stale.userId);
+          }
+          room.spectators = room.spectators.filter((entry) => entry.connected);
+        }
+        if (room.spectators.length >= MAX_SPECTATORS) {
+          throw new ServiceError('ROOM_FULL', 'spectator list is full');
+        }
+
+        spectator = { userId: uuidv4(), displayName, connected: true };
+        room.spectators.push(spectator);
       }
-    } else {
+
+      await this.attachSpectator(socket, room, spectator, displayName);
+    });
+  }
+
+  async takeSeat(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:lobby.takeSeat'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid take seat payload');
+    }
+
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
+    }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
       if (room.status !== 'LOBBY') {
-        throw new ServiceError('NOT_IN_LOBBY', 'cannot join as new player while game is active');
+        throw new ServiceError('NOT_IN_LOBBY', 'seats can only be taken in lobby');
+      }
+
+      const spectatorIndex = room.spectators.findIndex((entry) => entry.userId === userId);
+      if (spectatorIndex < 0) {
+        throw new ServiceError('INVALID_TARGET', 'only spectators can take a seat');
+      }
+      if (room.tournament) {
+        throw new ServiceError('ROOM_LOCKED', 'tournament rooms only seat their entrants');
       }
       if (room.players.length >= MAX_PLAYERS) {
-        throw new ServiceError('ROOM_FULL', 'room is full');
+        throw new ServiceError('ROOM_FULL', 'no free seat');
       }
+      const playerId = this.playerIdFromAccount(parsed.data.accountToken, room, userId);
 
-      userId = uuidv4();
+      const [spectator] = room.spectators.splice(spectatorIndex, 1);
       room.players.push({
         userId,
-        displayName,
+        displayName: spectator!.displayName,
         seatIndex: room.players.length,
         connected: true,
+        connectedSince: Date.now(),
         ready: false,
+        ...(await this.accountSeatFields(playerId)),
       });
+      room.updatedAt = Date.now();
+      room.version += 1;
+
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'JOIN', { userId, fromSpectator: true });
+      await this.emitRoomState(room);
+    });
+  }
+
+  async addBot(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:lobby.addBot'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid add bot payload', parsed.error.issues);
     }
 
-    if (!userId) {
-      throw new ServiceError('INTERNAL_ERROR', 'unable to assign user id');
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
     }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.status !== 'LOBBY') {
+        throw new ServiceError('NOT_IN_LOBBY', 'bots can only be added in lobby');
+      }
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can add bots');
+      }
+      if (room.tournament) {
+        throw new ServiceError('ROOM_LOCKED', 'tournament rooms only seat their entrants');
+      }
+      if (room.players.length >= MAX_PLAYERS) {
+        throw new ServiceError('ROOM_FULL', 'room is full');
+      }
 
-    room.updatedAt = now;
-    room.version += 1;
-    await this.roomStore.saveRoom(room);
-    await this.persistRoomTransition(room, 'JOIN', { userId });
-    await this.attachSocket(socket, room, userId);
+      const { difficulty } = parsed.data;
+      const botNumber = room.players.filter((player) => player.botDifficulty).length + 1;
+      const botUserId = uuidv4();
+      room.players.push({
+        userId: botUserId,
+        displayName: `${difficulty.charAt(0)}${difficulty.slice(1).toLowerCase()} Bot ${botNumber}`,
+        seatIndex: room.players.length,
+        connected: true,
+        ready: true,
+        botDifficulty: difficulty,
+      });
+      room.updatedAt = Date.now();
+      room.version += 1;
 
-    await this.emitRoomState(room);
-    await this.emitGameState(room);
-    this.rescheduleTimers(room);
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'JOIN', { userId: botUserId, byUserId: userId, bot: difficulty });
+      await this.emitRoomState(room);
+    });
   }
 
-  async leaveRoom(socket: Socket): Promise<void> {
+  async configureRoom(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:lobby.configure'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INVALID_RULES', 'invalid room rules', parsed.error.issues);
+    }
+
     const ctx = this.socketContext.get(socket.id);
     if (!ctx) {
-      return;
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
     }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.status !== 'LOBBY') {
+        throw new ServiceError('NOT_IN_LOBBY', 'rules can only be changed in lobby');
+      }
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can change rules');
+      }
 
-    const room = await this.roomStore.getRoomById(ctx.roomId);
-    if (!room) {
-      await this.detachSocket(socket.id, ctx.userId);
-      return;
-    }
+      const rules = parsed.data;
+      room.rules = {
+        slapWindowMs: rules.slapWindowMs ?? room.rules.slapWindowMs,
+        actionSlapWindowMs: rules.actionSlapWindowMs ?? room.rules.actionSlapWindowMs,
+        turnTimeoutMs: rules.turnTimeoutMs ?? room.rules.turnTimeoutMs,
+        minHumanMs: rules.minHumanMs ?? room.rules.minHumanMs,
+        sameCardSlaps: rules.sameCardSlaps ?? room.rules.sameCardSlaps,
+        falseSlapPenalty: rules.falseSlapPenalty ?? room.rules.falseSlapPenalty,
+        teamMode: rules.teamMode ?? room.rules.teamMode,
+        eliminationCardThreshold:
+          rules.eliminationCardThreshold ?? room.rules.eliminationCardThreshold,
+        eliminationRounds: rules.eliminationRounds ?? room.rules.eliminationRounds,
+        deck: rules.deck ?? room.rules.deck,
+        series: rules.series ?? room.rules.series,
+        reconnectGraceMs: rules.reconnectGraceMs ?? room.rules.reconnectGraceMs,
+        graceExpiry: rules.graceExpiry ?? room.rules.graceExpiry,
+        hostMigrationMs: rules.hostMigrationMs ?? room.rules.hostMigrationMs,
+        autoStart: rules.autoStart ?? room.rules.autoStart,
+        unreadyPlayers: rules.unreadyPlayers ?? room.rules.unreadyPlayers,
+      };
+      room.updatedAt = Date.now();
+      room.version += 1;
 
-    const playerIndex = room.players.findIndex((player) => player.userId === ctx.userId);
-    if (playerIndex < 0) {
-      await this.detachSocket(socket.id, ctx.userId);
+      await this.saveRoom(room);
+      await this.emitRoomState(room);
+    });
+  }
+
+  async leaveRoom(socket: Socket): Promise<void> {
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
       return;
     }
 
-    await this.detachSocket(socket.id, ctx.userId);
-    const stillConnected = (this.socketsByUserId.get(ctx.userId)?.size ?? 0) > 0;
-
-    if (room.status === 'LOBBY') {
-      if (!stillConnected) {
-        room.players.splice(playerIndex, 1);
-        await this.roomStore.clearUserRoom(ctx.userId);
-        room.players.forEach((player, index) => {
-          player.seatIndex = index;
-        });
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const room = await this.roomStore.getRoomById(ctx.roomId);
+      if (!room) {
+        await this.detachSocket(socket.id, ctx.userId);
+        return;
       }
 
-      if (room.players.length === 0) {
-        await this.persistRoomTransition(room, 'DELETE', { userId: ctx.userId });
-        await this.persistWithRetry(
-          async () => {
-            await this.persistenceRepo.markRoomDeleted(room.roomId, new Date());
-          },
-          { roomId: room.roomId, userId: ctx.userId, action: 'markRoomDeleted' },
-        );
-        await this.roomStore.deleteRoom(room.roomId);
-        this.activeMatchByRoomId.delete(room.roomId);
-        this.recentResolvedSlapByRoomId.delete(room.roomId);
-        this.clearTimers(room.roomId);
+      const playerIndex = room.players.findIndex((player) => player.userId === ctx.userId);
+      if (playerIndex < 0) {
+        await this.detachSocket(socket.id, ctx.userId);
+        const spectatorIndex = room.spectators.findIndex((entry) => entry.userId === ctx.userId);
+        if (spectatorIndex >= 0 && !this.socketsByUserId.has(ctx.userId)) {
+          room.spectators.splice(spectatorIndex, 1);
+          await this.roomStore.clearUserRoom(ctx.userId);
+          room.updatedAt = Date.now();
+          room.version += 1;
+          await this.saveRoom(room);
+          await this.persistRoomTransition(room, 'LEAVE', { userId: ctx.userId, spectator: true });
+          await this.emitRoomState(room);
+        }
         return;
       }
 
-      if (!room.players.some((player) => player.userId === room.hostUserId)) {
-        room.hostUserId = room.players[0]!.userId;
-      }
-    } else {
-      room.players[playerIndex]!.connected = stillConnected;
-      if (room.gameState) {
-        room.gameState.players[playerIndex]!.connected = stillConnected;
+      await this.detachSocket(socket.id, ctx.userId);
+      const stillConnected = (this.socketsByUserId.get(ctx.userId)?.size ?? 0) > 0;
+
+      // Tournament seats are kept for their entrant, as a game seat is kept for its player.
+      if (room.status === 'LOBBY' && !room.tournament) {
+        if (!stillConnected) {
+          room.players.splice(playerIndex, 1);
+          await this.roomStore.clearUserRoom(ctx.userId);
+          room.players.forEach((player, index) => {
+            player.seatIndex = index;
+          });
+        }
+
+        if (!room.players.some((player) => !player.botDifficulty)) {
+          await this.persistRoomTransition(room, 'DELETE', { userId: ctx.userId });
+          await this.persistWithRetry(
+            async () => {
+              await this.persistenceRepo.markRoomDeleted(room.roomId, new Date());
+            },
+            { roomId: room.roomId, userId: ctx.userId, action: 'markRoomDeleted' },
+          );
+          await this.roomStore.deleteRoom(room.roomId);
+          this.publishRoomChange({ roomId: room.roomId });
+          this.recentResolvedSlapByRoomId.delete(room.roomId);
+          this.clearTimers(room.roomId);
+          if (room.public) {
+            await this.broadcastPublicRooms();
+          }
+          return;
+        }
+
+        if (!room.players.some((player) => player.userId === room.hostUserId)) {
+          room.hostUserId = room.players.find((player) => !player.botDifficulty)!.userId;
+        }
+      } else {
+        await this.setPlayerConnection(room, ctx.userId, stillConnected);
       }
-    }
 
-    room.updatedAt = Date.now();
-    room.version += 1;
-    await this.roomStore.saveRoom(room);
-    await this.persistRoomTransition(room, 'LEAVE', { userId: ctx.userId });
-    await this.emitRoomState(room);
-    await this.emitGameState(room);
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'LEAVE', { userId: ctx.userId });
+      await this.emitRoomState(room);
+      await this.emitGameState(room);
+    });
   }
 
   async setReady(socket: Socket, payload: unknown): Promise<void> {
@@ -268,79 +970,327 @@ export class GameService {
       throw new ServiceError('INTERNAL_ERROR', 'invalid ready payload');
     }
 
-    const { room, userId } = await this.roomAndUserFromSocket(socket.id);
-    if (room.status !== 'LOBBY') {
-      throw new ServiceError('NOT_IN_LOBBY', 'ready can only be changed in lobby');
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
     }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.status !== 'LOBBY') {
+        throw new ServiceError('NOT_IN_LOBBY', 'ready can only be changed in lobby');
+      }
 
-    const player = room.players.find((entry) => entry.userId === userId);
-    if (!player) {
-      throw new ServiceError('ROOM_NOT_FOUND', 'player not found in room');
-    }
+      const player = room.players.find((entry) => entry.userId === userId);
+      if (!player) {
+        throw new ServiceError('ROOM_NOT_FOUND', 'player not found in room');
+      }
 
-    player.ready = parsed.data.ready;
-    room.updatedAt = Date.now();
-    room.version += 1;
-    await this.roomStore.saveRoom(room);
-    await this.emitRoomState(room);
+      player.ready = parsed.data.ready;
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      await this.emitRoomState(room);
+
+      if (
+        startsOnCountdown(room) &&
+        room.startCountdownEndsAt !== undefined &&
+        room.players.every((entry) => entry.ready)
+      ) {
+        await this.startLobbyGame(room, room.hostUserId);
+      }
+    });
   }
 
-  async kickFromLobby(socket: Socket, payload: unknown): Promise<void> {
+  async kickPlayer(socket: Socket, payload: unknown): Promise<void> {
     const parsed = clientEventsSchemas['v1:lobby.kick'].safeParse(payload);
     if (!parsed.success) {
       throw new ServiceError('INTERNAL_ERROR', 'invalid kick payload', parsed.error.issues);
     }
 
-    const { room, userId } = await this.roomAndUserFromSocket(socket.id);
-    if (room.status !== 'LOBBY') {
-      throw new ServiceError('NOT_IN_LOBBY', 'kick can only be used in lobby');
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
+    }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can kick players');
+      }
+
+      const { userId: targetUserId, ban = false, hand = 'PILE' } = parsed.data;
+      const targetIndex = room.players.findIndex(
+        (entry) => entry.userId === targetUserId && !entry.kicked,
+      );
+      if (targetIndex < 0) {
+        throw new ServiceError('INVALID_TARGET', 'kick target is not in room');
+      }
+
+      const target = room.players[targetIndex]!;
+      if (target.userId === userId || target.userId === room.hostUserId) {
+        throw new ServiceError('INVALID_TARGET', 'host cannot kick this target');
+      }
+      if (room.status === 'LOBBY' && !ban && target.ready && !target.botDifficulty) {
+        throw new ServiceError('INVALID_TARGET', 'ready players cannot be kicked');
+      }
+
+      const targetSocketIds = [...(this.socketsByUserId.get(targetUserId) ?? [])];
+      for (const socketId of targetSocketIds) {
+        const targetSocket = this.io.sockets.sockets.get(socketId);
+        if (targetSocket) {
+          this.emitValidated(targetSocket, 'v1:room.kicked', {
+            roomCode: room.roomCode,
+            byUserId: userId,
+          });
+          targetSocket.leave(room.roomId);
+        }
+        await this.detachSocket(socketId, targetUserId);
+      }
+      await this.roomStore.clearUserRoom(targetUserId);
+
+      if (ban && !target.botDifficulty) {
+        const others = (room.bans ?? []).filter((entry) => entry.userId !== targetUserId);
+        room.bans = [
+          ...others,
+          {
+            userId: targetUserId,
+            displayName: target.displayName,
+            ...(target.playerId ? { playerId: target.playerId } : {}),
+            bannedAt: Date.now(),
+          },
+        ];
+      }
+
+      const forfeits =
+        room.status === 'IN_GAME' &&
+        !room.gameState?.players.find((entry) => entry.userId === targetUserId)?.forfeited;
+      if (room.status === 'LOBBY') {
+        room.players.splice(targetIndex, 1);
+        room.players.forEach((player, index) => {
+          player.seatIndex = index;
+        });
+      } else {
+        // Mid-game the seat stays so seat indexes keep matching the game; lobby return drops it.
+        target.kicked = true;
+        target.connected = false;
+        delete target.reconnectDeadline;
+        this.clearGraceTimers(room.roomId, targetUserId);
+      }
+
+      if (forfeits && room.gameState) {
+        const input: EngineInput = {
+          event: { type: 'FORFEIT', userId: targetUserId, hand },
+          nowServerTime: Date.now(),
+        };
+        const result = applyEvent(room.gameState, input.event, input.nowServerTime);
+        await this.consumeEngineResult(room, input, result);
+      } else {
+        room.updatedAt = Date.now();
+        room.version += 1;
+        await this.saveRoom(room);
+      }
+      this.publishRoomChange({
+        roomId: room.roomId,
+        kicked: { userId: targetUserId, byUserId: userId },
+      });
+      await this.persistRoomTransition(room, ban ? 'BAN' : 'KICK', {
+        userId: targetUserId,
+        byUserId: userId,
+        ...(forfeits ? { hand } : {}),
+      });
+      await this.emitRoomState(room);
+    });
+  }
+
+  async unbanPlayer(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:lobby.unban'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid unban payload', parsed.error.issues);
+    }
+
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
+    }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can lift bans');
+      }
+      if (!room.bans?.some((entry) => entry.userId === parsed.data.userId)) {
+        throw new ServiceError('INVALID_TARGET', 'user is not banned');
+      }
+
+      room.bans = room.bans.filter((entry) => entry.userId !== parsed.data.userId);
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'UNBAN', {
+        userId: parsed.data.userId,
+        byUserId: userId,
+      });
+      await this.emitRoomState(room);
+    });
+  }
+
+  async setRoomLock(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:lobby.lock'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid lock payload', parsed.error.issues);
     }
-    if (room.hostUserId !== userId) {
-      throw new ServiceError('NOT_HOST', 'only host can kick players');
+
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
     }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can lock the room');
+      }
+
+      room.locked = parsed.data.locked;
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, parsed.data.locked ? 'LOCK' : 'UNLOCK', { userId });
+      await this.emitRoomState(room);
+    });
+  }
 
-    const targetUserId = parsed.data.userId;
-    const targetIndex = room.players.findIndex((entry) => entry.userId === targetUserId);
-    if (targetIndex < 0) {
-      throw new ServiceError('INVALID_TARGET', 'kick target is not in room');
+  async setRoomVisibility(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:lobby.visibility'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid visibility payload', parsed.error.issues);
     }
 
-    const target = room.players[targetIndex]!;
-    if (target.userId === userId || target.userId === room.hostUserId) {
-      throw new ServiceError('INVALID_TARGET', 'host cannot kick this target');
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
+    }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can change room visibility');
+      }
+
+      room.public = parsed.data.public;
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      if (!room.public) {
+        // saveRoom only refreshes the browser for public rooms; take this one off it too.
+        await this.broadcastPublicRooms();
+      }
+      await this.emitRoomState(room);
+    });
+  }
+
+  async transferHost(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:lobby.transferHost'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid transfer payload', parsed.error.issues);
     }
-    if (target.ready) {
-      throw new ServiceError('INVALID_TARGET', 'ready players cannot be kicked');
+
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
     }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can hand over hosting');
+      }
 
-    const targetSocketIds = [...(this.socketsByUserId.get(targetUserId) ?? [])];
-    for (const socketId of targetSocketIds) {
-      const targetSocket = this.io.sockets.sockets.get(socketId);
-      if (targetSocket) {
-        this.emitValidated(targetSocket, 'v1:room.kicked', {
-          roomCode: room.roomCode,
-          byUserId: userId,
-        });
-        targetSocket.leave(room.roomId);
+      const target = room.players.find((entry) => entry.userId === parsed.data.userId);
+      const eligible = target && !target.botDifficulty && !target.kicked && target.connected;
+      if (!eligible || target.userId === userId) {
+        throw new ServiceError('INVALID_TARGET', 'new host must be another connected human player');
       }
-      await this.detachSocket(socketId, targetUserId);
+
+      room.hostUserId = target.userId;
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'HOST_TRANSFER', {
+        userId: target.userId,
+        byUserId: userId,
+      });
+      await this.emitRoomState(room);
+    });
+  }
+
+  async sendChat(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:chat.send'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid chat payload', parsed.error.issues);
     }
 
-    await this.roomStore.clearUserRoom(targetUserId);
-    room.players.splice(targetIndex, 1);
-    room.players.forEach((player, index) => {
-      player.seatIndex = index;
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
+    }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      const sender = [...room.players, ...room.spectators].find((entry) => entry.userId === userId);
+      if (!sender) {
+        throw new ServiceError('ROOM_NOT_FOUND', 'sender not found in room');
+      }
+      if (room.chatMutedUserIds?.includes(userId)) {
+        throw new ServiceError('CHAT_MUTED', 'host has muted you in chat');
+      }
+
+      const now = Date.now();
+      const sentAt = admitChatMessage(this.chatSentAtByUserId.get(userId) ?? [], now);
+      if (!sentAt) {
+        throw new ServiceError('RATE_LIMITED', 'too many chat messages');
+      }
+      this.chatSentAtByUserId.set(userId, sentAt);
+
+      const content = parsed.data;
+      const message: ChatMessage = {
+        ...(content.kind === 'TEXT' ? { kind: 'TEXT', text: filterProfanity(content.text) } : content),
+        messageId: uuidv4(),
+        userId,
+        displayName: sender.displayName,
+        sentAt: now,
+      };
+      room.chat = appendChatMessage(room.chat, message);
+      await this.saveRoom(room);
+      this.emitRoomBroadcast(room.roomId, 'v1:chat.message', message);
     });
-    room.updatedAt = Date.now();
-    room.version += 1;
+  }
 
-    await this.roomStore.saveRoom(room);
-    await this.persistRoomTransition(room, 'LEAVE', {
-      userId: targetUserId,
-      byUserId: userId,
-      reason: 'HOST_KICK',
+  async setChatMute(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:chat.mute'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid mute payload', parsed.error.issues);
+    }
+
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
+    }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can mute players');
+      }
+
+      const { userId: targetUserId, muted } = parsed.data;
+      const target = [...room.players, ...room.spectators].find(
+        (entry) => entry.userId === targetUserId,
+      );
+      if (!target || targetUserId === userId) {
+        throw new ServiceError('INVALID_TARGET', 'mute target is not another member of the room');
+      }
+
+      const others = (room.chatMutedUserIds ?? []).filter((entry) => entry !== targetUserId);
+      room.chatMutedUserIds = muted ? [...others, targetUserId] : others;
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      await this.emitRoomState(room);
     });
-    await this.emitRoomState(room);
   }
 
   async startGame(socket: Socket): Promise<void> {
@@ -355,44 +1305,141 @@ export class GameService {
         throw new ServiceError('NOT_IN_LOBBY', 'room is not in lobby state');
       }
       if (room.hostUserId !== userId) {
-        throw new ServiceError('NOT_HOST', 'only host can start game');
+        throw new ServiceError('NOT_HOST', 'only host can start game');
+      }
+      await this.startLobbyGame(room, userId);
+    });
+  }
+
+  /** The start path shared by the host's start and automatic starts; `userId` is who started it. */
+  private async startLobbyGame(room: RoomState, userId: string): Promise<void> {
+    if (room.status !== 'LOBBY') {
+      throw new ServiceError('NOT_IN_LOBBY', 'room is not in lobby state');
+    }
+    if (room.players.length < MIN_PLAYERS) {
+      throw new ServiceError('NOT_IN_LOBBY', 'not enough players to start');
+    }
+    const problem = seatingProblem(room.rules, room.players.length);
+    if (problem) {
+      throw new ServiceError('INVALID_RULES', problem);
+    }
+
+    this.clearStartCountdown(room);
+    delete room.quickMatch;
+    room.series =
+      room.rules.series.type === 'SINGLE'
+        ? undefined
+        : createSeries(room.rules.series, room.players.map((player) => player.userId));
+    await this.startRound(room, userId, Math.floor(Math.random() * room.players.length));
+    if (room.public) {
+      await this.broadcastPublicRooms();
+    }
+  }
+
+  async nextRound(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:game.nextRound'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid next round payload');
+    }
+
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
+      throw new ServiceError('ROOM_NOT_FOUND', 'socket has no room context');
+    }
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const { room, userId } = await this.roomAndUserFromSocket(socket.id);
+
+      if (room.status !== 'FINISHED' || !isSeriesInProgress(room.series)) {
+        throw new ServiceError('NOT_IN_GAME', 'no series round to continue');
+      }
+      if (room.hostUserId !== userId) {
+        throw new ServiceError('NOT_HOST', 'only host can start the next round');
       }
+
+      this.dropKickedPlayers(room);
       if (room.players.length < MIN_PLAYERS) {
-        throw new ServiceError('NOT_IN_LOBBY', 'not enough players to start');
+        throw new ServiceError('NOT_IN_GAME', 'not enough players left for another round');
       }
-
-      const now = Date.now();
-      room.gameState = createInitialState({
-        players: room.players.map((player) => ({
-          userId: player.userId,
-          displayName: player.displayName,
-          connected: player.connected,
-          ready: player.ready,
-        })),
-        nowServerTime: now,
-        seed: `${room.roomId}:${room.version}:${now}`,
-      });
-      room.gameState.currentTurnSeat = Math.floor(Math.random() * room.players.length);
-      room.status = 'IN_GAME';
-      room.updatedAt = now;
-      room.version += 1;
-      this.recentResolvedSlapByRoomId.delete(room.roomId);
-
-      await this.roomStore.saveRoom(room);
-      await this.persistRoomTransition(room, 'START', { userId });
-      const matchId = await this.persistWithRetry(
-        () => this.persistenceRepo.startMatch(room.roomId, new Date(now)),
-        { roomId: room.roomId, userId, action: 'startMatch' },
+      assertTeamSeating(room);
+      // The previous round's loser flips first.
+      const lastRound = room.series.rounds[room.series.rounds.length - 1];
+      const loserSeat = room.players.findIndex((player) => player.userId === lastRound?.loserUserId);
+      await this.startRound(
+        room,
+        userId,
+        loserSeat >= 0 ? loserSeat : Math.floor(Math.random() * room.players.length),
       );
-      if (matchId) {
-        this.activeMatchByRoomId.set(room.roomId, matchId);
-      }
-      await this.emitRoomState(room);
-      await this.emitGameState(room);
-      this.rescheduleTimers(room);
     });
   }
 
+  private async startRound(room: RoomState, userId: string, firstTurnSeat: number): Promise<void> {
+    const now = Date.now();
+    const initialConfig: CreateInitialStateConfig = {
+      players: room.players.map((player) => ({
+        userId: player.userId,
+        displayName: player.displayName,
+        connected: player.connected,
+        ready: player.ready,
+      })),
+      nowServerTime: now,
+      seed: `${room.roomId}:${room.version}:${now}`,
+      firstTurnSeat,
+      deckSpec: room.rules.deck,
+      slapWindowMs: room.rules.slapWindowMs,
+      actionSlapWindowMs: room.rules.actionSlapWindowMs,
+      turnTimeoutMs: room.rules.turnTimeoutMs,
+      minHumanMs: room.rules.minHumanMs,
+      sameCardSlaps: room.rules.sameCardSlaps,
+      falseSlapPenalty: room.rules.falseSlapPenalty,
+      teamMode: room.rules.teamMode,
+      eliminationCardThreshold: room.rules.eliminationCardThreshold,
+      eliminationRounds: room.rules.eliminationRounds,
+    };
+    room.gameState = createInitialState(initialConfig);
+    room.matchStats = createMatchStats(room.players.map((player) => player.userId));
+    room.status = 'IN_GAME';
+    for (const player of room.players) {
+      if (!player.connected) {
+        player.reconnectDeadline = now + room.rules.reconnectGraceMs;
+      }
+    }
+    room.updatedAt = now;
+    room.version += 1;
+    this.recentResolvedSlapByRoomId.delete(room.roomId);
+
+    const matchId = await this.persistWithRetry(
+      () =>
+        this.persistenceRepo.startMatch(
+          room.roomId,
+          new Date(now),
+          initialConfig,
+          room.players.flatMap((player) =>
+            player.playerId
+              ? [
+                  {
+                    playerId: player.playerId,
+                    userId: player.userId,
+                    displayName: player.displayName,
+                    seatIndex: player.seatIndex,
+                  },
+                ]
+              : [],
+          ),
+        ),
+      { roomId: room.roomId, userId, action: 'startMatch' },
+    );
+    if (matchId) {
+      room.activeMatch = { matchId, replaySeq: 0 };
+    } else {
+      delete room.activeMatch;
+    }
+    await this.saveRoom(room);
+    await this.persistRoomTransition(room, 'START', { userId });
+    await this.emitRoomState(room);
+    await this.emitGameState(room);
+    await this.rescheduleTimers(room);
+  }
+
   async flip(socket: Socket, payload: unknown): Promise<void> {
     const parsed = clientEventsSchemas['v1:game.flip'].safeParse(payload);
     if (!parsed.success) {
@@ -411,9 +1458,11 @@ export class GameService {
       if (!room.gameState || room.status !== 'IN_GAME') {
         throw new ServiceError('NOT_IN_GAME', 'room not in game');
       }
+      this.assertSeated(room, userId);
 
-      const result = applyEvent(room.gameState, { type: 'FLIP', userId }, Date.now());
-      await this.consumeEngineResult(room, result.state, result.effects, result.error?.code);
+      const input: EngineInput = { event: { type: 'FLIP', userId }, nowServerTime: Date.now() };
+      const result = applyEvent(room.gameState, input.event, input.nowServerTime);
+      await this.consumeEngineResult(room, input, result);
     });
   }
 
@@ -438,16 +1487,22 @@ export class GameService {
 
       room.status = 'LOBBY';
       room.gameState = undefined;
+      room.series = undefined;
+      room.matchStats = undefined;
+      this.dropKickedPlayers(room);
       room.players.forEach((player) => {
-        player.ready = false;
+        player.ready = !!player.botDifficulty;
+        delete player.reconnectDeadline;
       });
+      this.clearHostMigration(room);
       room.updatedAt = Date.now();
       room.version += 1;
 
-      await this.roomStore.saveRoom(room);
+      await this.saveRoom(room);
       await this.persistRoomTransition(room, 'STOP', { userId });
       this.recentResolvedSlapByRoomId.delete(room.roomId);
       this.clearTimers(room.roomId);
+      this.forgetGameViews(room);
       await this.emitRoomState(room);
     });
   }
@@ -474,8 +1529,9 @@ export class GameService {
         throw new ServiceError('NOT_HOST', 'only host can skip slap round');
       }
 
-      const result = applyEvent(room.gameState, { type: 'SKIP_SLAP_WINDOW', userId }, Date.now());
-      await this.consumeEngineResult(room, result.state, result.effects, result.error?.code);
+      const input: EngineInput = { event: { type: 'SKIP_SLAP_WINDOW', userId }, nowServerTime: Date.now() };
+      const result = applyEvent(room.gameState, input.event, input.nowServerTime);
+      await this.consumeEngineResult(room, input, result);
     });
   }
 
@@ -497,6 +1553,7 @@ export class GameService {
       if (!room.gameState || room.status !== 'IN_GAME') {
         throw new ServiceError('NOT_IN_GAME', 'room not in game');
       }
+      this.assertSeated(room, userId);
       const recentResolvedSlap = this.recentResolvedSlapByRoomId.get(room.roomId);
       if (
         recentResolvedSlap &&
@@ -507,97 +1564,230 @@ export class GameService {
         return;
       }
 
-      const event: EngineEvent = {
+      const nowServerTime = Date.now();
+      const sync = this.clockSyncBySocketId.get(socket.id);
+      const estimate = sync ? estimateClock(sync) : undefined;
+      const clock = this.slapClock(estimate, parsed.data, nowServerTime);
+      const screening = this.screenSlapTiming(
+        room,
+        userId,
+        parsed.data.eventId,
+        clock,
+        estimate,
+        nowServerTime,
+      );
+      const { timing } = screening;
+      const slapEvent: EngineEvent = {
         type: 'SLAP',
         userId,
         eventId: parsed.data.eventId,
         clientSeq: parsed.data.clientSeq,
-        clientTime: parsed.data.clientTime,
-        offsetMs: parsed.data.offsetMs,
-        rttMs: parsed.data.rttMs,
+        clientTime: timing.clientTime,
+        offsetMs: timing.offsetMs,
+        rttMs: timing.rttMs,
         ...(isGesture(parsed.data.gesture) ? { gesture: parsed.data.gesture } : {}),
       };
 
-      const result = applyEvent(room.gameState, event, Date.now());
-      await this.consumeEngineResult(room, result.state, result.effects, result.error?.code);
+      const input: EngineInput = { event: slapEvent, nowServerTime };
+      const result = applyEvent(room.gameState, input.event, input.nowServerTime);
+      if (!result.error) {
+        await this.recordSlapScreening(room, userId, parsed.data.eventId, screening);
+      }
+      await this.consumeEngineResult(room, input, result);
     });
   }
 
+  /**
+   * Times a slap with the server's own clock estimate for this socket once it is confident, and by
+   * receive time until then. A client offset that disagrees with a confident estimate is handed on
+   * as `clientOffsetMs` for anti-cheat.
+   */
+  private slapClock(
+    estimate: ClockEstimate | undefined,
+    client: SlapTimingClaim,
+    receivedAtServerTime: number,
+  ): SlapTimingClaim & { clientOffsetMs?: number } {
+    if (!estimate || estimate.confidence < CLOCK_SYNC_MIN_CONFIDENCE) {
+      return serverReceiveTiming(
+        { clientTime: client.clientTime, offsetMs: 0, rttMs: estimate?.rttMs ?? 0 },
+        receivedAtServerTime,
+      );
+    }
+    return {
+      clientTime: client.clientTime,
+      offsetMs: estimate.offsetMs,
+      rttMs: estimate.rttMs,
+      ...(isClientClockConsistent(estimate, client) ? {} : { clientOffsetMs: client.offsetMs }),
+    };
+  }
+
+  /**
+   * Scores a slap's claimed timing against when it arrived, crediting only the round trip the
+   * server measured. A player already flagged, or flagged by this slap, ranks by server receive
+   * time instead. Nothing is recorded here; see `recordSlapScreening`.
+   */
+  private screenSlapTiming(
+    room: RoomState,
+    userId: string,
+    eventId: string,
+    claim: SlapTimingClaim & { clientOffsetMs?: number },
+    measured: ClockEstimate | undefined,
+    receivedAtServerTime: number,
+  ): SlapScreening {
+    const window = room.gameState?.slapWindow;
+    const timing = { clientTime: claim.clientTime, offsetMs: claim.offsetMs, rttMs: claim.rttMs };
+    if (
+      !window?.active ||
+      window.eventId !== eventId ||
+      window.startServerTime === undefined ||
+      window.attempts.some((attempt) => attempt.userId === userId)
+    ) {
+      return { timing };
+    }
+
+    const assessment = assessSlapTiming(
+      timing,
+      window.startServerTime,
+      receivedAtServerTime,
+      measured,
+      claim.clientOffsetMs === undefined,
+    );
+    const suspicion = recordSlapAssessment(room.slapSuspicion?.[userId], assessment);
+    return {
+      timing: suspicion.flagged ? serverReceiveTiming(timing, receivedAtServerTime) : timing,
+      assessment,
+      suspicion,
+      ...(claim.clientOffsetMs === undefined ? {} : { clientOffsetMs: claim.clientOffsetMs }),
+    };
+  }
+
+  /** Keeps a screened slap's suspicion on the room and logs suspicious ones with the match. */
+  private async recordSlapScreening(
+    room: RoomState,
+    userId: string,
+    eventId: string,
+    { timing, assessment, suspicion, clientOffsetMs }: SlapScreening,
+  ): Promise<void> {
+    if (!assessment || !suspicion) {
+      return;
+    }
+
+    const previous = room.slapSuspicion?.[userId];
+    room.slapSuspicion = { ...room.slapSuspicion, [userId]: suspicion };
+    if (suspicion.flagged && !previous?.flagged) {
+      this.logger.warn({ roomId: room.roomId, userId, score: suspicion.score }, 'slap timing flagged');
+    }
+    if (assessment.verdict !== 'PLAUSIBLE' || suspicion.flagged) {
+      await this.appendMatchEvent(room, 'ANTI_CHEAT', {
+        userId,
+        eventId,
+        ...assessment,
+        rttMs: timing.rttMs,
+        ...(clientOffsetMs === undefined ? {} : { clientOffsetMs }),
+        score: suspicion.score,
+        flagged: suspicion.flagged,
+      });
+    }
+  }
+
+  async resyncGameState(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:game.resync'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid resync payload');
+    }
+
+    this.lastGameViewBySocketId.delete(socket.id);
+    await this.emitStateToSocketIfInRoom(socket.id);
+  }
+
   async ping(socket: Socket, payload: unknown): Promise<void> {
     const parsed = clientEventsSchemas['v1:ping'].safeParse(payload);
     if (!parsed.success) {
       throw new ServiceError('INTERNAL_ERROR', 'invalid ping payload');
     }
 
+    const now = Date.now();
+    const sync = this.clockSyncBySocketId.get(socket.id) ?? createClockSync();
+    sync.pendingPongServerTime = now;
+    this.clockSyncBySocketId.set(socket.id, sync);
+
     this.emitValidated(socket, 'v1:pong', {
-      serverTime: Date.now(),
+      serverTime: now,
       clientTimeEcho: parsed.data.clientTime,
     });
   }
 
-  async handleDisconnect(socket: Socket): Promise<void> {
-    const ctx = this.socketContext.get(socket.id);
-    if (!ctx) {
-      return;
+  async echoClock(socket: Socket, payload: unknown): Promise<void> {
+    const parsed = clientEventsSchemas['v1:clock.echo'].safeParse(payload);
+    if (!parsed.success) {
+      throw new ServiceError('INTERNAL_ERROR', 'invalid clock echo payload');
     }
 
-    await this.detachSocket(socket.id, ctx.userId);
-    const room = await this.roomStore.getRoomById(ctx.roomId);
-    if (!room) {
+    const now = Date.now();
+    const sync = this.clockSyncBySocketId.get(socket.id);
+    if (!sync || parsed.data.serverTime !== sync.pendingPongServerTime) {
       return;
     }
-
-    const player = room.players.find((entry) => entry.userId === ctx.userId);
-    if (!player) {
-      return;
+    sync.pendingPongServerTime = undefined;
+    const sample = clockSampleFromExchange(
+      parsed.data.serverTime,
+      parsed.data.receivedAt,
+      parsed.data.sentAt,
+      now,
+    );
+    if (sample) {
+      recordClockSample(sync, sample);
     }
+  }
 
-    const stillConnected = (this.socketsByUserId.get(ctx.userId)?.size ?? 0) > 0;
-    if (stillConnected) {
+  async handleDisconnect(socket: Socket): Promise<void> {
+    this.clockSyncBySocketId.delete(socket.id);
+    await this.leaveQuickMatch(socket.id);
+    const ctx = this.socketContext.get(socket.id);
+    if (!ctx) {
       return;
     }
 
-    player.connected = false;
-    if (room.gameState) {
-      const gamePlayer = room.gameState.players.find((entry) => entry.userId === ctx.userId);
-      if (gamePlayer) {
-        gamePlayer.connected = false;
+    await this.detachSocket(socket.id, ctx.userId);
+    await this.withRoomMutationLock(ctx.roomId, async () => {
+      const room = await this.roomStore.getRoomById(ctx.roomId);
+      if (!room) {
+        return;
       }
 
-      if (room.gameState.slapWindow.active && !room.gameState.slapWindow.resolved) {
-        const reason = room.gameState.slapWindow.reason;
-        const requiresAllConnectedSlaps = reason === 'SAME_CARD' || reason === 'ACTION';
-        if (requiresAllConnectedSlaps) {
-          const connectedPlayers = room.gameState.players.reduce(
-            (count, participant) => count + (participant.connected ? 1 : 0),
-            0,
-          );
-          const requiredSlaps = Math.max(1, connectedPlayers);
-          if (room.gameState.slapWindow.receivedSlapsCount >= requiredSlaps) {
-            const result = applyEvent(room.gameState, { type: 'RESOLVE_SLAP_WINDOW' }, Date.now());
-            await this.consumeEngineResult(room, result.state, result.effects, result.error?.code);
-            return;
-          }
+      const stillConnected = (this.socketsByUserId.get(ctx.userId)?.size ?? 0) > 0;
+      const player = room.players.find((entry) => entry.userId === ctx.userId);
+      if (!player) {
+        const spectator = room.spectators.find((entry) => entry.userId === ctx.userId);
+        if (spectator && !stillConnected) {
+          spectator.connected = false;
+          room.updatedAt = Date.now();
+          room.version += 1;
+          await this.saveRoom(room);
+          await this.emitRoomState(room);
         }
+        return;
       }
-    }
 
-    room.updatedAt = Date.now();
-    room.version += 1;
-    await this.roomStore.saveRoom(room);
-    if (room.status === 'IN_GAME') {
-      await this.persistRoomTransition(room, 'LEAVE', { userId: ctx.userId });
-    }
-    await this.emitRoomState(room);
-    await this.emitGameState(room);
+      if (stillConnected) {
+        return;
+      }
+
+      await this.setPlayerConnection(room, ctx.userId, false);
+
+      room.updatedAt = Date.now();
+      room.version += 1;
+      await this.saveRoom(room);
+      if (room.status === 'IN_GAME') {
+        await this.persistRoomTransition(room, 'LEAVE', { userId: ctx.userId });
+      }
+      await this.emitRoomState(room);
+      await this.emitGameState(room);
+    });
   }
 
-  private async consumeEngineResult(
-    room: RoomState,
-    nextState: RoomState['gameState'],
-    effects: EngineEffect[],
-    errorCode?: ErrorCode,
-  ): Promise<void> {
+  private async consumeEngineResult(room: RoomState, input: EngineInput, result: EngineResult): Promise<void> {
+    const errorCode = result.error?.code;
     if (errorCode === 'ALREADY_SLAPPED') {
       return;
     }
@@ -605,20 +1795,34 @@ export class GameService {
       throw new ServiceError(errorCode, `engine rejected event (${errorCode})`);
     }
 
-    if (!nextState) {
-      throw new ServiceError('INTERNAL_ERROR', 'missing game state');
-    }
-
+    const nextState = result.state;
     room.gameState = nextState;
     if (nextState.status === 'FINISHED') {
       room.status = 'FINISHED';
+      this.clearGraceTimers(room.roomId);
+      room.players.forEach((player) => {
+        delete player.reconnectDeadline;
+      });
+      this.clearHostMigration(room);
+      if (room.series) {
+        recordSeriesRound(room.series, nextState);
+      }
     }
     room.updatedAt = Date.now();
     room.version += 1;
 
-    await this.roomStore.saveRoom(room);
+    await this.appendReplayEntry(room, (seq) => ({
+      type: 'ENGINE_EVENT',
+      seq,
+      nowServerTime: input.nowServerTime,
+      event: input.event,
+    }));
+
+    for (const effect of result.effects) {
+      if (room.matchStats) {
+        recordMatchEffect(room.matchStats, effect);
+      }
 
-    for (const effect of effects) {
       if (effect.type === 'SLAP_WINDOW_OPEN') {
         this.emitRoomBroadcast(room.roomId, 'v1:game.slapWindowOpen', {
           eventId: effect.eventId,
@@ -636,7 +1840,8 @@ export class GameService {
           resolvedAt: Date.now(),
           participantUserIds: new Set([...effect.orderedUserIds, effect.loserUserId]),
         });
-        await this.appendMatchEvent(room.roomId, 'SLAP_RESULT', effect);
+        await this.appendMatchEvent(room, 'SLAP_RESULT', effect);
+        await this.recordSlapAttempts(room, effect);
         this.emitRoomBroadcast(room.roomId, 'v1:game.slapResult', {
           eventId: effect.eventId,
           orderedUserIds: effect.orderedUserIds,
@@ -648,7 +1853,7 @@ export class GameService {
 
       if (effect.type === 'PENALTY') {
         await this.appendMatchEvent(
-          room.roomId,
+          room,
           effect.penaltyType === 'TURN_TIMEOUT' ? 'TIMEOUT' : 'PENALTY',
           effect,
         );
@@ -658,18 +1863,380 @@ export class GameService {
           pileTaken: effect.pileTaken,
         });
       }
+
+      if (effect.type === 'PLAYER_ELIMINATED') {
+        await this.appendMatchEvent(room, 'ELIMINATION', effect);
+      }
     }
 
     if (room.status === 'FINISHED') {
       await this.persistRoomTransition(room, 'FINISH');
-      await this.appendMatchEvent(room.roomId, 'WIN', {
+      await this.appendMatchEvent(room, 'WIN', {
         winnerUserId: room.gameState?.winnerUserId ?? null,
       });
       await this.finishPersistedMatch(room, 'GAME_FINISHED');
+      if (room.tournament && !isSeriesInProgress(room.series)) {
+        await this.recordTournamentResult(room.tournament, this.tournamentFinishers(room));
+      }
     }
 
+    await this.saveRoom(room);
     await this.emitGameState(room);
-    this.rescheduleTimers(room);
+    await this.rescheduleTimers(room);
+  }
+
+  private async saveRoom(room: RoomState): Promise<void> {
+    if (room.status === 'LOBBY') {
+      this.syncAutoStartCountdown(room);
+    }
+    await this.roomStore.saveRoom(room);
+    this.publishRoomChange({ roomId: room.roomId });
+    if (room.public && room.status === 'LOBBY') {
+      await this.broadcastPublicRooms();
+    }
+  }
+
+  /** Open public lobbies, newest first: not started, not locked and with a free seat. */
+  private async listOpenPublicRooms(): Promise<PublicRoomListing[]> {
+    const rooms = await this.roomStore.listPublicRooms();
+    return rooms
+      .filter(
+        (room) => room.status === 'LOBBY' && !room.locked && room.players.length < MAX_PLAYERS,
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((room) => ({
+        roomCode: room.roomCode,
+        hostDisplayName: (
+          room.players.find((player) => player.userId === room.hostUserId) ?? room.players[0]!
+        ).displayName,
+        playerCount: room.players.length,
+        spectatorCount: room.spectators.length,
+        createdAt: room.createdAt,
+      }));
+  }
+
+  private async broadcastPublicRooms(): Promise<void> {
+    this.emitRoomBroadcast(PUBLIC_ROOMS_CHANNEL, 'v1:rooms.list', {
+      rooms: await this.listOpenPublicRooms(),
+    });
+  }
+
+  /** Reads, changes and saves the shared quick-match queue under its lock. */
+  private async withQuickMatchQueue<T>(task: (queue: QuickMatchQueue) => T): Promise<T> {
+    return this.withRoomMutationLock(QUICK_MATCH_LOCK_ID, async () => {
+      const queue = await this.roomStore.getQuickMatchQueue();
+      const result = task(queue);
+      await this.roomStore.saveQuickMatchQueue(queue);
+      return result;
+    });
+  }
+
+  /** Takes a socket this instance queued back out of the queue, if a group has not claimed it. */
+  private async leaveQuickMatch(socketId: string): Promise<void> {
+    if (!this.quickMatchSocketIds.delete(socketId)) {
+      return;
+    }
+    await this.withQuickMatchQueue((queue) => {
+      const entry = dequeueQuickMatch(queue, socketId);
+      if (entry) {
+        this.emitQuickMatchWaiting(queue, entry.size);
+      }
+    });
+  }
+
+  /** Sockets held by other instances are reached through the cluster adapter by their id. */
+  private emitQuickMatchWaiting(queue: QuickMatchQueue, size: number): void {
+    const waiting = waitingForSize(queue, size);
+    const payload = { size, waiting: waiting.length };
+    for (const entry of waiting) {
+      const socket = this.io.sockets.sockets.get(entry.socketId);
+      if (socket) {
+        this.emitValidated(socket, 'v1:match.queued', payload);
+      } else if (this.clustered) {
+        this.emitRoomBroadcast(entry.socketId, 'v1:match.queued', payload);
+      }
+    }
+  }
+
+  /**
+   * Seats a full quick-match group in a new room, hosted by whoever waited longest. The room starts
+   * when everyone is ready or when `QUICK_MATCH_COUNTDOWN_MS` runs out. Sockets queued on other
+   * instances are taken to be connected; their instance attaches them once the room is saved.
+   */
+  private async startQuickMatchRoom(group: QuickMatchEntry[]): Promise<void> {
+    const now = Date.now();
+    const seats = await Promise.all(
+      group.map(async (entry, seatIndex) => {
+        const socket = this.io.sockets.sockets.get(entry.socketId);
+        const connected = !!socket || entry.nodeId !== this.nodeId;
+        const player: RoomPlayer = {
+          userId: uuidv4(),
+          displayName: entry.displayName,
+          seatIndex,
+          connected,
+          ...(connected ? { connectedSince: now } : {}),
+          ready: false,
+          ...(await this.accountSeatFields(entry.playerId)),
+        };
+        return { entry, socket, player };
+      }),
+    );
+    const room = await this.newLobbyRoom(seats.map(({ player }) => player), now);
+    room.quickMatch = true;
+    room.startCountdownEndsAt = now + QUICK_MATCH_COUNTDOWN_MS;
+
+    await this.saveRoom(room);
+    await this.persistRoomTransition(room, 'CREATE', { userId: room.hostUserId, quickMatch: true });
+    for (const { socket, player } of seats) {
+      if (socket) {
+        await this.attachSocket(socket, room, player.userId);
+      }
+    }
+    await this.emitRoomState(room);
+    this.armStartCountdown(room.roomId, QUICK_MATCH_COUNTDOWN_MS);
+    const seated = seats
+      .filter(({ entry, socket }) => !socket && entry.nodeId !== this.nodeId)
+      .map(({ entry, player }) => ({ socketId: entry.socketId, userId: player.userId }));
+    if (seated.length > 0) {
+      this.publishRoomChange({ roomId: room.roomId, seated });
+    }
+  }
+
+  private async tournamentByCode(code: string): Promise<Tournament> {
+    const tournament = await this.roomStore.getTournamentByCode(code);
+    if (!tournament) {
+      throw new ServiceError('TOURNAMENT_NOT_FOUND', 'tournament does not exist');
+    }
+    return tournament;
+  }
+
+  private async tournamentById(tournamentId: string): Promise<Tournament> {
+    const tournament = await this.roomStore.getTournament(tournamentId);
+    if (!tournament) {
+      throw new ServiceError('TOURNAMENT_NOT_FOUND', 'tournament does not exist');
+    }
+    return tournament;
+  }
+
+  private async allocateTournamentCode(): Promise<string> {
+    for (let i = 0; i < 20; i += 1) {
+      const code = randomCode();
+      if (!(await this.roomStore.getTournamentByCode(code))) {
+        return code;
+      }
+    }
+
+    throw new ServiceError('INTERNAL_ERROR', 'unable to allocate tournament code');
+  }
+
+  private async saveTournament(tournament: Tournament): Promise<void> {
+    tournament.updatedAt = Date.now();
+    await this.roomStore.saveTournament(tournament);
+    await this.persistWithRetry(() => this.persistenceRepo.saveTournament(tournament), {
+      tournamentId: tournament.tournamentId,
+      action: 'saveTournament',
+    });
+    this.emitRoomBroadcast(tournamentChannel(tournament.tournamentId), 'v1:tournament.state', {
+      tournament,
+    });
+  }
+
+  /**
+   * Opens a room for each undecided match of the latest round, with a seat kept for every entrant.
+   * Entrants take their seats with `v1:tournament.join`; the room starts once all are ready, or
+   * when its countdown ends with whoever turned up.
+   */
+  private async openTournamentRound(tournament: Tournament): Promise<void> {
+    const roundIndex = tournament.rounds.length - 1;
+    const now = Date.now();
+    for (const [matchIndex, match] of (tournament.rounds[roundIndex]?.matches ?? []).entries()) {
+      if (match.advancedEntrantIds) {
+        continue;
+      }
+
+      const seats = await Promise.all(
+        match.entrantIds.map(async (entrantId, seatIndex) => {
+          const entrant = tournament.entrants.find((entry) => entry.entrantId === entrantId)!;
+          const player: RoomPlayer = {
+            userId: uuidv4(),
+            displayName: entrant.displayName,
+            seatIndex,
+            connected: false,
+            ready: false,
+            ...(await this.accountSeatFields(entrant.playerId)),
+          };
+          return player;
+        }),
+      );
+      const room = await this.newLobbyRoom(seats, now);
+      room.tournament = {
+        tournamentId: tournament.tournamentId,
+        code: tournament.code,
+        round: roundIndex,
+        match: matchIndex,
+      };
+      room.startCountdownEndsAt = now + TOURNAMENT_START_COUNTDOWN_MS;
+      match.roomId = room.roomId;
+      match.roomCode = room.roomCode;
+      match.seats = Object.fromEntries(
+        match.entrantIds.map((entrantId, seatIndex) => [entrantId, seats[seatIndex]!.userId]),
+      );
+
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'CREATE', {
+        userId: room.hostUserId,
+        tournamentId: tournament.tournamentId,
+      });
+      this.armStartCountdown(room.roomId, TOURNAMENT_START_COUNTDOWN_MS);
+    }
+  }
+
+  /** Finishers of a decided tournament room, best first, as `rankFinishers` orders them. */
+  private tournamentFinishers(room: RoomState): string[] {
+    const forfeited = new Set(
+      (room.gameState?.players ?? [])
+        .filter((player) => player.forfeited)
+        .map((player) => player.userId),
+    );
+    return rankFinishers(
+      this.buildMatchSummary(room, 'GAME_FINISHED').players.map((player) => ({
+        ...player,
+        forfeited: forfeited.has(player.userId),
+      })),
+      room.series?.winnerUserId ?? room.gameState?.winnerUserId ?? null,
+    );
+  }
+
+  /**
+   * Decides the room's bracket match and, once the round is complete, seeds the next one. Runs
+   * under the room's lock and takes the tournament's; nothing holds a tournament lock while
+   * waiting on a room, so the two cannot deadlock.
+   */
+  private async recordTournamentResult(
+    link: TournamentRoomLink,
+    rankedUserIds: string[],
+  ): Promise<void> {
+    await this.withRoomMutationLock(link.tournamentId, async () => {
+      const tournament = await this.roomStore.getTournament(link.tournamentId);
+      const seats = tournament?.rounds[link.round]?.matches[link.match]?.seats;
+      if (!tournament || !seats) {
+        return;
+      }
+
+      const entrantIdByUserId = new Map(
+        Object.entries(seats).map(([entrantId, userId]) => [userId, entrantId]),
+      );
+      const ranked = rankedUserIds.flatMap((userId) => entrantIdByUserId.get(userId) ?? []);
+      if (!decideMatch(tournament, link.round, link.match, ranked)) {
+        return;
+      }
+      if (advanceTournament(tournament)) {
+        await this.openTournamentRound(tournament);
+      }
+      await this.saveTournament(tournament);
+    });
+  }
+
+  private publishRoomChange(message: RoomChangedMessage): void {
+    if (this.clustered) {
+      this.io.serverSideEmit(ROOM_CHANGED_EVENT, message);
+    }
+  }
+
+  /**
+   * Runs on the other instances after a room is saved or deleted: they push the stored state to the
+   * sockets they hold, attach the quick-match sockets seated for them and let go of sockets whose
+   * user is no longer in the room.
+   */
+  private async syncRoomFromPeer(message: RoomChangedMessage): Promise<void> {
+    const room = await this.roomStore.getRoomById(message.roomId);
+    const syncedVersion = room ? (this.peerSyncedVersionByRoomId.get(room.roomId) ?? -1) : -1;
+    if (
+      room &&
+      !message.kicked &&
+      !message.seated &&
+      !message.unseated &&
+      room.version <= syncedVersion
+    ) {
+      return;
+    }
+
+    for (const [socketId, ctx] of this.socketContext) {
+      const members = room ? [...room.players, ...room.spectators] : [];
+      const isMember =
+        members.some((entry) => entry.userId === ctx.userId) &&
+        message.kicked?.userId !== ctx.userId;
+      if (ctx.roomId !== message.roomId || isMember) {
+        continue;
+      }
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket && room && message.kicked?.userId === ctx.userId) {
+        this.emitValidated(socket, 'v1:room.kicked', {
+          roomCode: room.roomCode,
+          byUserId: message.kicked.byUserId,
+        });
+      }
+      if (socket && room && message.unseated?.includes(ctx.userId)) {
+        this.emitValidated(socket, 'v1:room.left', { roomCode: room.roomCode, reason: 'NO_SEAT' });
+      }
+      socket?.leave(message.roomId);
+      await this.detachSocket(socketId, ctx.userId);
+    }
+
+    if (!room) {
+      this.peerSyncedVersionByRoomId.delete(message.roomId);
+      return;
+    }
+    for (const { socketId, userId } of message.seated ?? []) {
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket && !this.socketContext.has(socketId)) {
+        await this.attachSocket(socket, room, userId);
+      }
+    }
+    this.peerSyncedVersionByRoomId.set(room.roomId, room.version);
+    await this.emitRoomState(room);
+    await this.emitGameState(room);
+  }
+
+  private userIdFromSession(sessionToken: string, room: RoomState): string {
+    const claims = this.sessionTokens.verify(sessionToken);
+    if (!claims || claims.roomId !== room.roomId) {
+      throw new ServiceError('INVALID_SESSION', 'session is invalid or expired');
+    }
+    return claims.userId;
+  }
+
+  /** Resolves a seat's account; one account holds at most one seat per room. */
+  private playerIdFromAccount(
+    accountToken: string | undefined,
+    room?: RoomState,
+    userId?: string,
+  ): string | undefined {
+    if (!accountToken) {
+      return undefined;
+    }
+    const claims = this.sessionTokens.verifyAccount(accountToken);
+    if (!claims) {
+      throw new ServiceError('INVALID_CREDENTIALS', 'account session is invalid or expired');
+    }
+    const seatHolder = room?.players.find((player) => player.playerId === claims.playerId);
+    if (seatHolder && seatHolder.userId !== userId) {
+      throw new ServiceError('INVALID_TARGET', 'account already holds a seat in this room');
+    }
+    return claims.playerId;
+  }
+
+  private async accountSeatFields(
+    playerId: string | undefined,
+  ): Promise<Pick<RoomPlayer, 'playerId' | 'rating'>> {
+    if (!playerId) {
+      return {};
+    }
+    const ratings = await this.persistWithRetry(
+      () => this.persistenceRepo.getPlayerRatings([playerId]),
+      { playerId, action: 'getPlayerRatings' },
+    );
+    return { playerId, rating: ratings?.get(playerId) ?? DEFAULT_RATING };
   }
 
   private async roomAndUserFromSocket(socketId: string): Promise<{ room: RoomState; userId: string }> {
@@ -683,7 +2250,51 @@ export class GameService {
       throw new ServiceError('ROOM_NOT_FOUND', 'room not found');
     }
 
-    return { room, userId: ctx.userId };
+    return { room, userId: ctx.userId };
+  }
+
+  private assertNotBanned(room: RoomState, userId?: string, playerId?: string): void {
+    const banned = room.bans?.some(
+      (entry) => entry.userId === userId || (!!playerId && entry.playerId === playerId),
+    );
+    if (banned) {
+      throw new ServiceError('BANNED', 'you are banned from this room');
+    }
+  }
+
+  /** Seats of players kicked mid-game are only freed once no game depends on their seat index. */
+  private dropKickedPlayers(room: RoomState): void {
+    if (!room.players.some((player) => player.kicked)) {
+      return;
+    }
+    room.players = room.players.filter((player) => !player.kicked);
+    room.players.forEach((player, index) => {
+      player.seatIndex = index;
+    });
+  }
+
+  private assertSeated(room: RoomState, userId: string): void {
+    if (!room.players.some((player) => player.userId === userId)) {
+      throw new ServiceError('NOT_A_PLAYER', 'spectators cannot play');
+    }
+  }
+
+  private async attachSpectator(
+    socket: Socket,
+    room: RoomState,
+    spectator: RoomSpectator,
+    displayName: string,
+  ): Promise<void> {
+    spectator.connected = true;
+    spectator.displayName = displayName;
+    room.updatedAt = Date.now();
+    room.version += 1;
+
+    await this.saveRoom(room);
+    await this.persistRoomTransition(room, 'JOIN', { userId: spectator.userId, spectator: true });
+    await this.attachSocket(socket, room, spectator.userId);
+    await this.emitRoomState(room);
+    await this.emitGameState(room);
   }
 
   private async allocateRoomCode(): Promise<string> {
@@ -698,24 +2309,48 @@ export class GameService {
     throw new ServiceError('INTERNAL_ERROR', 'unable to allocate room code');
   }
 
+  /** A fresh lobby with default rules, hosted by the first player. */
+  private async newLobbyRoom(players: RoomPlayer[], now: number): Promise<RoomState> {
+    return {
+      roomId: uuidv4(),
+      roomCode: await this.allocateRoomCode(),
+      status: 'LOBBY',
+      hostUserId: players[0]!.userId,
+      players,
+      spectators: [],
+      rules: {
+        ...DEFAULT_ROOM_RULES,
+        deck: { ...DEFAULT_ROOM_RULES.deck },
+        series: { ...DEFAULT_ROOM_RULES.series },
+      },
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
   private async attachSocket(socket: Socket, room: RoomState, userId: string): Promise<void> {
     const previous = this.socketContext.get(socket.id);
     if (previous) {
       socket.leave(previous.roomId);
     }
     socket.join(room.roomId);
+    socket.leave(PUBLIC_ROOMS_CHANNEL);
     this.socketContext.set(socket.id, { roomId: room.roomId, userId });
+    await this.leaveQuickMatch(socket.id);
 
     const sockets = this.socketsByUserId.get(userId) ?? new Set<string>();
     sockets.add(socket.id);
     this.socketsByUserId.set(userId, sockets);
 
     await this.roomStore.setUserRoom(userId, room.roomId);
+    this.emitValidated(socket, 'v1:chat.history', { messages: room.chat ?? [] });
   }
 
   private async detachSocket(socketId: string, userId: string): Promise<void> {
     this.socketContext.delete(socketId);
     this.lastInputAtBySocketId.delete(socketId);
+    this.lastGameViewBySocketId.delete(socketId);
 
     const sockets = this.socketsByUserId.get(userId);
     if (!sockets) {
@@ -724,6 +2359,7 @@ export class GameService {
     sockets.delete(socketId);
     if (sockets.size === 0) {
       this.socketsByUserId.delete(userId);
+      this.chatSentAtByUserId.delete(userId);
     }
   }
 
@@ -747,13 +2383,26 @@ export class GameService {
     this.io.to(roomId).emit(eventName, parsed.data);
   }
 
-  private buildRoomPublic(room: RoomState) {
+  /** The room as `viewerUserId` sees it; only the host gets the ban list, to lift bans from. */
+  private buildRoomPublic(room: RoomState, viewerUserId: string) {
     return {
       roomId: room.roomId,
       roomCode: room.roomCode,
       status: room.status,
       hostUserId: room.hostUserId,
       players: room.players,
+      spectators: room.spectators,
+      rules: room.rules,
+      series: room.series,
+      matchStats: room.matchStats,
+      chatMutedUserIds: room.chatMutedUserIds,
+      locked: room.locked,
+      ...(viewerUserId === room.hostUserId ? { bans: room.bans } : {}),
+      hostMigrationDeadline: room.hostMigrationDeadline,
+      public: room.public,
+      quickMatch: room.quickMatch,
+      startCountdownEndsAt: room.startCountdownEndsAt,
+      tournament: room.tournament,
       version: room.version,
       createdAt: room.createdAt,
       updatedAt: room.updatedAt,
@@ -761,10 +2410,8 @@ export class GameService {
   }
 
   private async emitRoomState(room: RoomState): Promise<void> {
-    const roomPublic = this.buildRoomPublic(room);
-
-    for (const player of room.players) {
-      const socketIds = this.socketsByUserId.get(player.userId);
+    for (const member of [...room.players, ...room.spectators]) {
+      const socketIds = this.socketsByUserId.get(member.userId);
       if (!socketIds) {
         continue;
       }
@@ -775,8 +2422,9 @@ export class GameService {
           continue;
         }
         this.emitValidated(socket, 'v1:room.state', {
-          room: roomPublic,
-          meUserId: player.userId,
+          room: this.buildRoomPublic(room, member.userId),
+          meUserId: member.userId,
+          sessionToken: this.sessionTokens.issue(member.userId, room.roomId),
         });
       }
     }
@@ -796,25 +2444,25 @@ export class GameService {
       return;
     }
     const player = room.players.find((entry) => entry.userId === ctx.userId);
-    if (!player) {
+    const isSpectator = !player && room.spectators.some((entry) => entry.userId === ctx.userId);
+    if (!player && !isSpectator) {
       return;
     }
 
     this.emitValidated(socket, 'v1:room.state', {
-      room: this.buildRoomPublic(room),
-      meUserId: player.userId,
+      room: this.buildRoomPublic(room, ctx.userId),
+      meUserId: ctx.userId,
+      sessionToken: this.sessionTokens.issue(ctx.userId, room.roomId),
     });
 
     if (!room.gameState) {
       return;
     }
 
-    const snapshot = buildGameStateView(room.gameState, player.userId);
-    this.emitValidated(socket, 'v1:game.state', {
-      snapshot,
-      serverTime: Date.now(),
-      version: room.gameState.version,
-    });
+    const view = player
+      ? buildGameStateView(room.gameState, player.userId)
+      : buildSpectatorGameStateView(room.gameState);
+    this.emitGameView(socket, view, true);
   }
 
   private async emitGameState(room: RoomState): Promise<void> {
@@ -835,16 +2483,70 @@ export class GameService {
         if (!socket) {
           continue;
         }
-        this.emitValidated(socket, 'v1:game.state', {
-          snapshot,
-          serverTime: Date.now(),
-          version: room.gameState.version,
-        });
+        this.emitGameView(socket, snapshot);
+      }
+    }
+
+    const spectatorSnapshot = buildSpectatorGameStateView(room.gameState);
+    for (const spectator of room.spectators) {
+      for (const socketId of this.socketsByUserId.get(spectator.userId) ?? []) {
+        const socket = this.io.sockets.sockets.get(socketId);
+        if (!socket) {
+          continue;
+        }
+        this.emitGameView(socket, spectatorSnapshot);
+      }
+    }
+  }
+
+  /**
+   * Deltas are diffed against the last view sent, not one the client acknowledged. Socket.IO keeps
+   * a connection's messages in order, and a dropped connection comes back as a new socket that
+   * starts from a snapshot. Anything else that goes wrong shows up on the client as a `baseVersion`
+   * it doesn't hold, and its `v1:game.resync` clears the baseline here.
+   */
+  private emitGameView(socket: Socket, view: GameStateView, forceSnapshot = false): void {
+    const previous = forceSnapshot ? undefined : this.lastGameViewBySocketId.get(socket.id);
+    this.lastGameViewBySocketId.set(socket.id, view);
+
+    if (previous) {
+      const patch = diffGameStateView(previous, view);
+      if (patch.length === 0) {
+        return;
+      }
+      this.emitValidated(socket, 'v1:game.delta', {
+        patch,
+        baseVersion: previous.version,
+        serverTime: Date.now(),
+        version: view.version,
+      });
+      return;
+    }
+
+    this.emitValidated(socket, 'v1:game.state', {
+      snapshot: view,
+      serverTime: Date.now(),
+      version: view.version,
+    });
+  }
+
+  private forgetGameViews(room: RoomState): void {
+    for (const member of [...room.players, ...room.spectators]) {
+      for (const socketId of this.socketsByUserId.get(member.userId) ?? []) {
+        this.lastGameViewBySocketId.delete(socketId);
       }
     }
   }
 
   private clearTimers(roomId: string, clearGeneration = true): void {
+    if (clearGeneration) {
+      this.clearBotTimers(roomId);
+      this.clearGraceTimers(roomId);
+      clearTimeout(this.hostMigrationTimerByRoomId.get(roomId));
+      this.hostMigrationTimerByRoomId.delete(roomId);
+      clearTimeout(this.startCountdownTimerByRoomId.get(roomId));
+      this.startCountdownTimerByRoomId.delete(roomId);
+    }
     const timers = this.timersByRoomId.get(roomId);
     if (!timers) {
       if (clearGeneration) {
@@ -864,15 +2566,32 @@ export class GameService {
     }
   }
 
-  private rescheduleTimers(room: RoomState): void {
+  private async rescheduleTimers(room: RoomState, turnStartedAt = Date.now()): Promise<void> {
     const generation = (this.timerGenerationByRoomId.get(room.roomId) ?? 0) + 1;
     this.clearTimers(room.roomId, false);
     this.timerGenerationByRoomId.set(room.roomId, generation);
+    if (room.status === 'IN_GAME') {
+      // The instance that applied the latest change takes over the room's timers; timers still
+      // pending elsewhere see the lease moved and do nothing.
+      await this.roomStore.setTimerLease(room.roomId, this.timerLeaseHolder(generation));
+    }
+    this.scheduleBotMoves(room);
 
     if (room.status !== 'IN_GAME' || !room.gameState) {
       return;
     }
 
+    const graceTimers = this.graceTimersByRoomId.get(room.roomId);
+    for (const player of room.players) {
+      if (player.reconnectDeadline !== undefined && !graceTimers?.has(player.userId)) {
+        this.armReconnectGrace(room.roomId, player.userId, player.reconnectDeadline - Date.now());
+      }
+    }
+    const hostMigrationDeadline = room.hostMigrationDeadline;
+    if (hostMigrationDeadline !== undefined && !this.hostMigrationTimerByRoomId.has(room.roomId)) {
+      this.armHostMigration(room.roomId, hostMigrationDeadline - Date.now());
+    }
+
     const timers: RoomTimers = { generation };
     if (room.gameState.slapWindow.active && !room.gameState.slapWindow.resolved) {
       const requireAllSlapsBeforeResolve =
@@ -889,17 +2608,404 @@ export class GameService {
         });
       }, delay);
     } else {
-      const timeoutMs = room.gameState.config.turnTimeoutMs;
+      const delay = Math.max(0, turnStartedAt + room.gameState.config.turnTimeoutMs - Date.now());
       timers.turnTimer = setTimeout(() => {
         void this.resolveTurnTimeout(room.roomId, generation).catch((error: unknown) => {
           this.logger.error({ roomId: room.roomId, generation, error }, 'turn timer callback failed');
         });
-      }, timeoutMs);
+      }, delay);
     }
 
     this.timersByRoomId.set(room.roomId, timers);
   }
 
+  /**
+   * Mirrors a seated player's connection into the game. Mid-game the change goes through the engine,
+   * so turn skipping replays, and a drop starts the reconnect grace period.
+   */
+  private async setPlayerConnection(room: RoomState, userId: string, connected: boolean): Promise<void> {
+    const player = room.players.find((entry) => entry.userId === userId);
+    if (!player) {
+      return;
+    }
+    player.connected = connected;
+    if (connected) {
+      player.connectedSince ??= Date.now();
+    } else {
+      delete player.connectedSince;
+    }
+    if (userId === room.hostUserId) {
+      if (connected) {
+        this.clearHostMigration(room);
+      } else if (room.status === 'IN_GAME') {
+        room.hostMigrationDeadline = Date.now() + room.rules.hostMigrationMs;
+        this.armHostMigration(room.roomId, room.rules.hostMigrationMs);
+      }
+    }
+    if (connected) {
+      this.clearGraceTimers(room.roomId, userId);
+      delete player.reconnectDeadline;
+      if (player.botStandIn) {
+        delete player.botDifficulty;
+        delete player.botStandIn;
+        const botTimers = this.botTimersByRoomId.get(room.roomId);
+        clearTimeout(botTimers?.get(userId)?.timer);
+        botTimers?.delete(userId);
+      }
+    }
+
+    const gamePlayer = room.gameState?.players.find((entry) => entry.userId === userId);
+    if (!room.gameState || !gamePlayer || gamePlayer.connected === connected) {
+      return;
+    }
+    if (room.status !== 'IN_GAME') {
+      gamePlayer.connected = connected;
+      return;
+    }
+
+    const now = Date.now();
+    if (!connected && !gamePlayer.forfeited) {
+      player.reconnectDeadline = now + room.rules.reconnectGraceMs;
+    }
+    const input: EngineInput = { event: { type: 'PLAYER_CONNECTION', userId, connected }, nowServerTime: now };
+    const result = applyEvent(room.gameState, input.event, input.nowServerTime);
+    await this.consumeEngineResult(room, input, result);
+  }
+
+  private timerLeaseHolder(generation: number): string {
+    return `${this.nodeId}:${generation}`;
+  }
+
+  /** Without a generation, any lease this instance holds for the room counts. */
+  private async holdsTimerLease(roomId: string, generation?: number): Promise<boolean> {
+    const holder = await this.roomStore.getTimerLease(roomId);
+    return generation === undefined
+      ? !!holder?.startsWith(`${this.nodeId}:`)
+      : holder === this.timerLeaseHolder(generation);
+  }
+
+  private armReconnectGrace(roomId: string, userId: string, graceMs: number): void {
+    this.clearGraceTimers(roomId, userId);
+    const graceTimers = this.graceTimersByRoomId.get(roomId) ?? new Map<string, NodeJS.Timeout>();
+    this.graceTimersByRoomId.set(roomId, graceTimers);
+    graceTimers.set(
+      userId,
+      setTimeout(() => {
+        void this.expireReconnectGrace(roomId, userId).catch((error: unknown) => {
+          this.logger.error({ roomId, userId, error }, 'reconnect grace callback failed');
+        });
+      }, Math.max(0, graceMs)),
+    );
+  }
+
+  private clearGraceTimers(roomId: string, userId?: string): void {
+    const graceTimers = this.graceTimersByRoomId.get(roomId);
+    for (const [timerUserId, timer] of graceTimers ?? []) {
+      if (userId === undefined || timerUserId === userId) {
+        clearTimeout(timer);
+        graceTimers?.delete(timerUserId);
+      }
+    }
+    if (graceTimers?.size === 0) {
+      this.graceTimersByRoomId.delete(roomId);
+    }
+  }
+
+  private async expireReconnectGrace(roomId: string, userId: string): Promise<void> {
+    await this.withRoomMutationLock(roomId, async () => {
+      this.graceTimersByRoomId.get(roomId)?.delete(userId);
+      if (!(await this.holdsTimerLease(roomId))) {
+        return;
+      }
+      const room = await this.roomStore.getRoomById(roomId);
+      const player = room?.players.find((entry) => entry.userId === userId);
+      if (!room?.gameState || room.status !== 'IN_GAME' || !player || player.connected) {
+        return;
+      }
+      if (player.reconnectDeadline === undefined) {
+        return;
+      }
+      if (player.reconnectDeadline > Date.now()) {
+        // A timer armed for an earlier disconnect; wait out the current deadline instead.
+        this.armReconnectGrace(roomId, userId, player.reconnectDeadline - Date.now());
+        return;
+      }
+
+      delete player.reconnectDeadline;
+      const handToBot = room.rules.graceExpiry === 'BOT';
+      if (handToBot) {
+        player.botDifficulty = 'NORMAL';
+        player.botStandIn = true;
+        player.connected = true;
+      }
+      const input: EngineInput = {
+        // The hand goes under the pile, as on a kick, so no cards stay with the forfeited seat.
+        event: handToBot
+          ? { type: 'PLAYER_CONNECTION', userId, connected: true }
+          : { type: 'FORFEIT', userId, hand: 'PILE' },
+        nowServerTime: Date.now(),
+      };
+      const result = applyEvent(room.gameState, input.event, input.nowServerTime);
+      await this.consumeEngineResult(room, input, result);
+      await this.emitRoomState(room);
+    });
+  }
+
+  private armHostMigration(roomId: string, delayMs: number): void {
+    clearTimeout(this.hostMigrationTimerByRoomId.get(roomId));
+    this.hostMigrationTimerByRoomId.set(
+      roomId,
+      setTimeout(() => {
+        void this.migrateHost(roomId).catch((error: unknown) => {
+          this.logger.error({ roomId, error }, 'host migration callback failed');
+        });
+      }, Math.max(0, delayMs)),
+    );
+  }
+
+  private clearHostMigration(room: RoomState): void {
+    delete room.hostMigrationDeadline;
+    clearTimeout(this.hostMigrationTimerByRoomId.get(room.roomId));
+    this.hostMigrationTimerByRoomId.delete(room.roomId);
+  }
+
+  /**
+   * Only the host can stop the game or skip a slap window that waits on every player, so a host who
+   * stays gone mid-game hands the role on. With nobody to take it, the deadline stays and the next
+   * reconnect re-arms the timer through `rescheduleTimers`.
+   */
+  private async migrateHost(roomId: string): Promise<void> {
+    await this.withRoomMutationLock(roomId, async () => {
+      this.hostMigrationTimerByRoomId.delete(roomId);
+      if (!(await this.holdsTimerLease(roomId))) {
+        return;
+      }
+      const room = await this.roomStore.getRoomById(roomId);
+      if (!room || room.status !== 'IN_GAME' || room.hostMigrationDeadline === undefined) {
+        return;
+      }
+      if (room.hostMigrationDeadline > Date.now()) {
+        this.armHostMigration(roomId, room.hostMigrationDeadline - Date.now());
+        return;
+      }
+      const nextHost = longestConnectedPlayer(room);
+      if (!nextHost) {
+        return;
+      }
+
+      const previousHostUserId = room.hostUserId;
+      room.hostUserId = nextHost.userId;
+      delete room.hostMigrationDeadline;
+      room.updatedAt = Date.now();
+      room.version += 1;
+
+      await this.saveRoom(room);
+      await this.persistRoomTransition(room, 'HOST_MIGRATION', {
+        fromUserId: previousHostUserId,
+        toUserId: nextHost.userId,
+      });
+      await this.emitRoomState(room);
+    });
+  }
+
+  private armStartCountdown(roomId: string, delayMs: number): void {
+    clearTimeout(this.startCountdownTimerByRoomId.get(roomId));
+    this.startCountdownTimerByRoomId.set(
+      roomId,
+      setTimeout(() => {
+        void this.expireStartCountdown(roomId).catch((error: unknown) => {
+          this.logger.error({ roomId, error }, 'start countdown callback failed');
+        });
+      }, Math.max(0, delayMs)),
+    );
+  }
+
+  private clearStartCountdown(room: RoomState): void {
+    delete room.startCountdownEndsAt;
+    clearTimeout(this.startCountdownTimerByRoomId.get(room.roomId));
+    this.startCountdownTimerByRoomId.delete(room.roomId);
+  }
+
+  /**
+   * Starts or cancels the auto-start countdown to match the lobby; every lobby change is saved, so
+   * this runs before each save. Quick-match and tournament rooms keep the countdown they opened
+   * with.
+   */
+  private syncAutoStartCountdown(room: RoomState): void {
+    if (startsOnCountdown(room)) {
+      return;
+    }
+    const roster = room.rules.autoStart
+      ? autoStartRoster(room.players, room.rules.unreadyPlayers)
+      : undefined;
+    if (!roster || seatingProblem(room.rules, roster.length)) {
+      if (room.startCountdownEndsAt !== undefined) {
+        this.clearStartCountdown(room);
+      }
+      return;
+    }
+    if (room.startCountdownEndsAt === undefined) {
+      room.startCountdownEndsAt = Date.now() + AUTO_START_COUNTDOWN_MS;
+      this.armStartCountdown(room.roomId, AUTO_START_COUNTDOWN_MS);
+    }
+  }
+
+  /** Takes players an automatic start left without any place out of the room, and tells them. */
+  private async dropUnseatedPlayers(room: RoomState, unseated: RoomPlayer[]): Promise<void> {
+    for (const player of unseated) {
+      for (const socketId of [...(this.socketsByUserId.get(player.userId) ?? [])]) {
+        const socket = this.io.sockets.sockets.get(socketId);
+        if (socket) {
+          this.emitValidated(socket, 'v1:room.left', {
+            roomCode: room.roomCode,
+            reason: 'NO_SEAT',
+          });
+          socket.leave(room.roomId);
+        }
+        await this.detachSocket(socketId, player.userId);
+      }
+      await this.roomStore.clearUserRoom(player.userId);
+    }
+    if (unseated.length > 0) {
+      this.publishRoomChange({
+        roomId: room.roomId,
+        unseated: unseated.map((player) => player.userId),
+      });
+    }
+  }
+
+  /**
+   * A quick-match room starts whoever is ready, unless too few players are left to play. A
+   * tournament room starts the entrants who turned up. An auto-start room checks its roster once
+   * more and starts without the players it leaves out. A roster the rules cannot deal to cancels
+   * the countdown, as a failed start does, so the lobby never shows one left running.
+   */
+  private async expireStartCountdown(roomId: string): Promise<void> {
+    await this.withRoomMutationLock(roomId, async () => {
+      this.startCountdownTimerByRoomId.delete(roomId);
+      const room = await this.roomStore.getRoomById(roomId);
+      if (!room || room.status !== 'LOBBY' || room.startCountdownEndsAt === undefined) {
+        return;
+      }
+      if (room.startCountdownEndsAt > Date.now()) {
+        this.armStartCountdown(roomId, room.startCountdownEndsAt - Date.now());
+        return;
+      }
+
+      const roster = room.tournament
+        ? room.players.filter((player) => player.connected)
+        : room.quickMatch
+          ? room.players
+          : autoStartRoster(room.players, room.rules.unreadyPlayers);
+      const cancelCountdown = async () => {
+        this.clearStartCountdown(room);
+        room.updatedAt = Date.now();
+        room.version += 1;
+        await this.saveRoom(room);
+        await this.emitRoomState(room);
+      };
+      if (!roster || roster.length < MIN_PLAYERS || seatingProblem(room.rules, roster.length)) {
+        await cancelCountdown();
+        if (room.tournament && roster && roster.length < MIN_PLAYERS) {
+          // Too few entrants turned up to play; whoever did goes through unopposed.
+          await this.recordTournamentResult(
+            room.tournament,
+            roster.map((player) => player.userId),
+          );
+        }
+        return;
+      }
+      const { seated, unseated } = seatRosterOnly(room, roster);
+      try {
+        await this.startLobbyGame(seated, seated.hostUserId);
+      } catch (error) {
+        await cancelCountdown();
+        throw error;
+      }
+      await this.dropUnseatedPlayers(seated, unseated);
+    });
+  }
+
+  private clearBotTimers(roomId: string): void {
+    for (const botTimer of this.botTimersByRoomId.get(roomId)?.values() ?? []) {
+      clearTimeout(botTimer.timer);
+    }
+    this.botTimersByRoomId.delete(roomId);
+  }
+
+  private scheduleBotMoves(room: RoomState): void {
+    const bots = room.players.filter((player) => player.botDifficulty && !player.kicked);
+    if (room.status !== 'IN_GAME' || !room.gameState || bots.length === 0) {
+      this.clearBotTimers(room.roomId);
+      return;
+    }
+
+    const botTimers = this.botTimersByRoomId.get(room.roomId) ?? new Map<string, BotTimer>();
+    this.botTimersByRoomId.set(room.roomId, botTimers);
+    for (const bot of bots) {
+      const key = botDecisionKey(room.gameState, bot.userId);
+      const existing = botTimers.get(bot.userId);
+      if (existing && existing.key === key) {
+        continue;
+      }
+      clearTimeout(existing?.timer);
+      botTimers.delete(bot.userId);
+      if (!key) {
+        continue;
+      }
+
+      const move = planBotMove(room.gameState, bot.userId, bot.botDifficulty!);
+      const botTimer: BotTimer = { key };
+      if (move) {
+        botTimer.timer = setTimeout(() => {
+          void this.runBotMove(room.roomId, bot.userId, key, move).catch((error: unknown) => {
+            this.logger.error({ roomId: room.roomId, botUserId: bot.userId, error }, 'bot move failed');
+          });
+        }, move.delayMs);
+      }
+      botTimers.set(bot.userId, botTimer);
+    }
+  }
+
+  private async runBotMove(roomId: string, botUserId: string, key: string, move: BotMove): Promise<void> {
+    await this.withRoomMutationLock(roomId, async () => {
+      if (!(await this.holdsTimerLease(roomId))) {
+        return;
+      }
+      const room = await this.roomStore.getRoomById(roomId);
+      if (!room || !room.gameState || room.status !== 'IN_GAME') {
+        return;
+      }
+      if (
+        !room.players.some((player) => player.userId === botUserId && player.botDifficulty) ||
+        botDecisionKey(room.gameState, botUserId) !== key
+      ) {
+        return;
+      }
+
+      const nowServerTime = Date.now();
+      const event: EngineEvent =
+        move.type === 'FLIP'
+          ? { type: 'FLIP', userId: botUserId }
+          : {
+              type: 'SLAP',
+              userId: botUserId,
+              eventId: move.eventId,
+              clientSeq: room.gameState.version,
+              clientTime: nowServerTime,
+              offsetMs: 0,
+              rttMs: 0,
+              ...(move.gesture ? { gesture: move.gesture } : {}),
+            };
+      const input: EngineInput = { event, nowServerTime };
+      const result = applyEvent(room.gameState, input.event, input.nowServerTime);
+      if (result.error?.code && TIMER_NOOP_ERROR_CODES.has(result.error.code)) {
+        return;
+      }
+      await this.consumeEngineResult(room, input, result);
+    });
+  }
+
   private async resolveSlapWindowTimeout(roomId: string, generation?: number): Promise<void> {
     if (generation !== undefined && this.timerGenerationByRoomId.get(roomId) !== generation) {
       return;
@@ -908,6 +3014,9 @@ export class GameService {
       if (generation !== undefined && this.timerGenerationByRoomId.get(roomId) !== generation) {
         return;
       }
+      if (!(await this.holdsTimerLease(roomId, generation))) {
+        return;
+      }
       const room = await this.roomStore.getRoomById(roomId);
       if (!room || !room.gameState || !room.gameState.slapWindow.active || room.status !== 'IN_GAME') {
         return;
@@ -918,11 +3027,12 @@ export class GameService {
         return;
       }
 
-      const result = applyEvent(room.gameState, { type: 'RESOLVE_SLAP_WINDOW' }, Date.now());
+      const input: EngineInput = { event: { type: 'RESOLVE_SLAP_WINDOW' }, nowServerTime: Date.now() };
+      const result = applyEvent(room.gameState, input.event, input.nowServerTime);
       if (result.error?.code && TIMER_NOOP_ERROR_CODES.has(result.error.code)) {
         return;
       }
-      await this.consumeEngineResult(room, result.state, result.effects, result.error?.code);
+      await this.consumeEngineResult(room, input, result);
     });
   }
 
@@ -934,16 +3044,20 @@ export class GameService {
       if (generation !== undefined && this.timerGenerationByRoomId.get(roomId) !== generation) {
         return;
       }
+      if (!(await this.holdsTimerLease(roomId, generation))) {
+        return;
+      }
       const room = await this.roomStore.getRoomById(roomId);
       if (!room || !room.gameState || room.status !== 'IN_GAME') {
         return;
       }
 
-      const result = applyEvent(room.gameState, { type: 'TURN_TIMEOUT' }, Date.now());
+      const input: EngineInput = { event: { type: 'TURN_TIMEOUT' }, nowServerTime: Date.now() };
+      const result = applyEvent(room.gameState, input.event, input.nowServerTime);
       if (result.error?.code && TIMER_NOOP_ERROR_CODES.has(result.error.code)) {
         return;
       }
-      await this.consumeEngineResult(room, result.state, result.effects, result.error?.code);
+      await this.consumeEngineResult(room, input, result);
     });
   }
 
@@ -970,17 +3084,37 @@ export class GameService {
     return {
       roomCode: room.roomCode,
       reason,
-      players: (room.gameState?.players ?? []).map((player) => ({
-        userId: player.userId,
-        displayName: player.displayName,
-        seatIndex: player.seatIndex,
-        handCount: player.hand.length,
-      })),
+      finalVersion: room.gameState?.version ?? 0,
+      players: (room.gameState?.players ?? []).map((player) => {
+        const playerId = room.players.find((seat) => seat.userId === player.userId)?.playerId;
+        return {
+          userId: player.userId,
+          displayName: player.displayName,
+          seatIndex: player.seatIndex,
+          handCount: player.hand.length,
+          ...(player.teamId !== undefined ? { teamId: player.teamId } : {}),
+          ...(player.eliminated ? { eliminated: true } : {}),
+          ...(playerId ? { playerId } : {}),
+        };
+      }),
+      ...(room.gameState?.winnerTeamId !== undefined
+        ? { winnerTeamId: room.gameState.winnerTeamId }
+        : {}),
+      ...(room.series
+        ? {
+            series: {
+              format: room.series.format,
+              round: room.series.rounds.length,
+              scores: room.series.scores,
+              winnerUserId: room.series.winnerUserId ?? null,
+            },
+          }
+        : {}),
     };
   }
 
   private async finishPersistedMatch(room: RoomState, reason: string): Promise<void> {
-    const matchId = this.activeMatchByRoomId.get(room.roomId);
+    const matchId = room.activeMatch?.matchId;
     if (!matchId) {
       return;
     }
@@ -996,12 +3130,47 @@ export class GameService {
       },
       { roomId: room.roomId, action: 'finishMatch' },
     );
+    if (reason !== 'GAME_STOPPED') {
+      await this.rateMatch(room, matchId);
+    }
+
+    delete room.activeMatch;
+  }
+
+  /** Updates account ratings from the final placings; guests and bots count as unrated opponents. */
+  private async rateMatch(room: RoomState, matchId: string): Promise<void> {
+    const state = room.gameState;
+    const winnerUserId = state?.winnerUserId;
+    if (!state || !winnerUserId || !room.players.some((player) => player.playerId)) {
+      return;
+    }
+
+    const playerIdByUserId = new Map(room.players.map((player) => [player.userId, player.playerId]));
+    const standings = placeStandings(
+      state.players.map((player) => ({
+        userId: player.userId,
+        handCount: player.hand.length,
+        eliminated: player.eliminated,
+        forfeited: player.forfeited,
+      })),
+      (player) => player.userId === winnerUserId,
+    ).map(({ userId, place }) => ({ playerId: playerIdByUserId.get(userId), place }));
+    const changes = await this.persistWithRetry(
+      () => this.persistenceRepo.recordMatchRatings(matchId, standings),
+      { roomId: room.roomId, matchId, action: 'recordMatchRatings' },
+    );
 
-    this.activeMatchByRoomId.delete(room.roomId);
+    for (const change of changes ?? []) {
+      for (const player of room.players) {
+        if (player.playerId === change.playerId) {
+          player.rating = change.ratingAfter;
+        }
+      }
+    }
   }
 
-  private async appendMatchEvent(roomId: string, eventType: MatchEventType, payload: unknown): Promise<void> {
-    const matchId = this.activeMatchByRoomId.get(roomId);
+  private async appendMatchEvent(room: RoomState, eventType: MatchEventType, payload: unknown): Promise<void> {
+    const matchId = room.activeMatch?.matchId;
     if (!matchId) {
       return;
     }
@@ -1010,7 +3179,57 @@ export class GameService {
       async () => {
         await this.persistenceRepo.appendMatchEvent(matchId, eventType, payload);
       },
-      { roomId, matchId, action: 'appendMatchEvent', eventType },
+      { roomId: room.roomId, matchId, action: 'appendMatchEvent', eventType },
+    );
+  }
+
+  private async recordSlapAttempts(
+    room: RoomState,
+    effect: Extract<EngineEffect, { type: 'SLAP_RESULT' }>,
+  ): Promise<void> {
+    const matchId = room.activeMatch?.matchId;
+    if (!matchId || effect.attempts.length === 0) {
+      return;
+    }
+
+    const attempts = effect.attempts.map((attempt, index) => {
+      const playerId = room.players.find((player) => player.userId === attempt.userId)?.playerId;
+      return {
+        slapEventId: effect.eventId,
+        userId: attempt.userId,
+        ...(playerId ? { playerId } : {}),
+        position: index + 1,
+        won: isSlapWon(effect, attempt.userId),
+        reactionMs: attempt.reactionMs,
+        clientTime: attempt.clientTime,
+        offsetMs: attempt.offsetMs,
+        rttMs: attempt.rttMs,
+        receivedAtServerTime: attempt.receivedAtServerTime,
+      };
+    });
+    await this.persistWithRetry(
+      () => this.persistenceRepo.recordSlapAttempts(matchId, attempts),
+      { roomId: room.roomId, matchId, action: 'recordSlapAttempts' },
+    );
+  }
+
+  private async appendReplayEntry(room: RoomState, buildEntry: (seq: number) => ReplayLogEntry): Promise<void> {
+    const match = room.activeMatch;
+    if (!match) {
+      return;
+    }
+
+    // The sequence lives on the room and is claimed before it is saved, so whichever instance
+    // applies the next event continues the same log.
+    const seq = match.replaySeq;
+    match.replaySeq += 1;
+    const entry = buildEntry(seq);
+
+    await this.persistWithRetry(
+      async () => {
+        await this.persistenceRepo.appendReplayEntry(match.matchId, entry);
+      },
+      { roomId: room.roomId, matchId: match.matchId, action: 'appendReplayEntry', seq },
     );
   }
 
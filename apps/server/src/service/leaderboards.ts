@@ -0,0 +1,111 @@
+import type {
+  Leaderboard,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  MatchListingPage,
+  RoomHallOfFame,
+} from '@slaphard/shared';
+import type { LeaderboardReadRepository, MatchListingCursor } from '../db/types';
+
+/** Completed matches a player needs before win rate, reaction and penalty boards rank them. */
+export const LEADERBOARD_MIN_MATCHES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS: Record<LeaderboardPeriod, number | null> = {
+  ALL_TIME: null,
+  DAY: DAY_MS,
+  WEEK: 7 * DAY_MS,
+  MONTH: 30 * DAY_MS,
+};
+
+const roundTo = (value: number, digits: number): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/** Cursors are opaque to clients: `<endedAt ms>:<matchId>`, base64url encoded. */
+export const encodeMatchCursor = (cursor: MatchListingCursor): string =>
+  Buffer.from(`${cursor.endedAt.getTime()}:${cursor.matchId}`).toString('base64url');
+
+export const decodeMatchCursor = (cursor: string): MatchListingCursor | undefined => {
+  const [endedAt, matchId, ...rest] = Buffer.from(cursor, 'base64url').toString('utf8').split(':');
+  const endedAtMs = Number(endedAt);
+  if (!matchId || rest.length > 0 || !Number.isSafeInteger(endedAtMs) || endedAtMs < 0) {
+    return undefined;
+  }
+  return { endedAt: new Date(endedAtMs), matchId };
+};
+
+export class Leaderboards {
+  constructor(
+    private readonly repo: LeaderboardReadRepository,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async leaderboard(
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    limit: number,
+  ): Promise<Leaderboard> {
+    const periodMs = PERIOD_MS[period];
+    const minMatches = metric === 'WINS' ? 1 : LEADERBOARD_MIN_MATCHES;
+    const rows = await this.repo.getLeaderboard({
+      metric,
+      since: periodMs === null ? null : new Date(this.now() - periodMs),
+      minMatches,
+      limit,
+    });
+
+    return {
+      metric,
+      period,
+      minMatches,
+      entries: rows.map((row, index) => ({
+        rank: index + 1,
+        playerId: row.playerId,
+        username: row.username,
+        matches: row.matches,
+        wins: row.wins,
+        winRate: row.matches > 0 ? roundTo(row.wins / row.matches, 4) : 0,
+        avgReactionMs: row.avgReactionMs === null ? null : Math.round(row.avgReactionMs),
+        penaltiesPerMatch: row.matches > 0 ? roundTo(row.penalties / row.matches, 2) : 0,
+      })),
+    };
+  }
+
+  /** Resolves to undefined when the room code was never used. */
+  async hallOfFame(roomCode: string, limit: number): Promise<RoomHallOfFame | undefined> {
+    const rows = await this.repo.getRoomHallOfFame(roomCode, limit);
+    if (!rows) {
+      return undefined;
+    }
+    return {
+      roomCode,
+      entries: rows.map((row, index) => ({
+        rank: index + 1,
+        userId: row.userId,
+        displayName: row.displayName,
+        matches: row.matches,
+        wins: row.wins,
+        avgReactionMs: row.avgReactionMs === null ? null : Math.round(row.avgReactionMs),
+      })),
+    };
+  }
+
+  async listMatches(
+    limit: number,
+    options: { roomCode?: string | undefined; before?: MatchListingCursor | undefined } = {},
+  ): Promise<MatchListingPage> {
+    // One extra row tells whether another page follows.
+    const matches = await this.repo.listMatches({ ...options, limit: limit + 1 });
+    const page = matches.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      matches: page,
+      nextCursor:
+        matches.length > limit && last
+          ? encodeMatchCursor({ endedAt: new Date(last.endedAt), matchId: last.matchId })
+          : null,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { replayMatchLog, type ReplayResult } from '@slaphard/engine';
+import type { PersistenceRepository } from '../db/types';
+
+export interface MatchReplayReport {
+  matchId: string;
+  ok: boolean;
+  expected: {
+    version: number | null;
+    winnerUserId: string | null;
+  };
+  actual: {
+    status: 'IN_GAME' | 'FINISHED';
+    version: number;
+    winnerUserId: string | null;
+  };
+  appliedEntries: number;
+  rejectedEntries: ReplayResult['rejectedEntries'];
+  mismatches: string[];
+}
+
+export class MatchReplayService {
+  constructor(private readonly persistenceRepo: Pick<PersistenceRepository, 'getMatchReplay'>) {}
+
+  async replayMatch(matchId: string): Promise<MatchReplayReport> {
+    const stored = await this.persistenceRepo.getMatchReplay(matchId);
+    if (!stored) {
+      throw new Error(`no replay log recorded for match ${matchId}`);
+    }
+
+    const result = replayMatchLog(stored.log);
+    const expectedVersion = stored.summary?.finalVersion ?? null;
+    const actualWinnerUserId = result.state.winnerUserId ?? null;
+    const mismatches: string[] = [];
+
+    if (!stored.summary) {
+      mismatches.push('match has no recorded outcome');
+    } else {
+      if (expectedVersion !== null && expectedVersion !== result.state.version) {
+        mismatches.push(`version: expected ${expectedVersion}, replayed ${result.state.version}`);
+      }
+      if (stored.winnerUserId !== actualWinnerUserId) {
+        mismatches.push(
+          `winner: expected ${stored.winnerUserId ?? 'none'}, replayed ${actualWinnerUserId ?? 'none'}`,
+        );
+      }
+    }
+    for (const rejected of result.rejectedEntries) {
+      mismatches.push(`entry ${rejected.seq} rejected on replay (${rejected.code})`);
+    }
+
+    return {
+      matchId,
+      ok: mismatches.length === 0,
+      expected: {
+        version: expectedVersion,
+        winnerUserId: stored.winnerUserId,
+      },
+      actual: {
+        status: result.state.status,
+        version: result.state.version,
+        winnerUserId: actualWinnerUserId,
+      },
+      appliedEntries: result.appliedEntries,
+      rejectedEntries: result.rejectedEntries,
+      mismatches,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import type { EngineEffect } from '@slaphard/engine';
+import { PENALTY_TYPES, type PenaltyType, type PlayerMatchStats } from '@slaphard/shared';
+
+type SlapResultEffect = Extract<EngineEffect, { type: 'SLAP_RESULT' }>;
+
+const emptyPlayerStats = (): PlayerMatchStats => ({
+  slaps: 0,
+  slapsWon: 0,
+  totalReactionMs: 0,
+  bestReactionMs: null,
+  penalties: Object.fromEntries(PENALTY_TYPES.map((type) => [type, 0])) as Record<
+    PenaltyType,
+    number
+  >,
+  cardsTaken: 0,
+});
+
+export const createMatchStats = (userIds: string[]): Record<string, PlayerMatchStats> =>
+  Object.fromEntries(userIds.map((userId) => [userId, emptyPlayerStats()]));
+
+/** A slap wins unless its slapper took the pile; the game-ending slap always wins. */
+export const isSlapWon = (effect: SlapResultEffect, userId: string): boolean =>
+  effect.reason === 'FIRST_VALID_SLAP_WIN' || userId !== effect.loserUserId;
+
+export const recordMatchEffect = (
+  stats: Record<string, PlayerMatchStats>,
+  effect: EngineEffect,
+): void => {
+  if (effect.type === 'SLAP_RESULT') {
+    for (const attempt of effect.attempts) {
+      const player = stats[attempt.userId];
+      if (!player) {
+        continue;
+      }
+      const reactionMs = Math.round(attempt.reactionMs);
+      player.slaps += 1;
+      player.slapsWon += isSlapWon(effect, attempt.userId) ? 1 : 0;
+      player.totalReactionMs += reactionMs;
+      player.bestReactionMs =
+        player.bestReactionMs === null ? reactionMs : Math.min(player.bestReactionMs, reactionMs);
+    }
+
+    // An unslapped window also raises a NO_SLAPS penalty for the same pile, counted below.
+    const loser = stats[effect.loserUserId];
+    if (loser && effect.reason !== 'NO_SLAPS') {
+      loser.cardsTaken += effect.pileTaken;
+    }
+  }
+
+  if (effect.type === 'PENALTY') {
+    const player = stats[effect.userId];
+    if (player) {
+      player.penalties[effect.penaltyType] += 1;
+      player.cardsTaken += effect.pileTaken;
+    }
+  }
+};
@@ -0,0 +1,56 @@
+export interface QuickMatchEntry {
+  socketId: string;
+  /** Instance holding the socket; it seats the socket once a group forms elsewhere. */
+  nodeId: string;
+  displayName: string;
+  /** Account of a signed-in player; it can only wait once. */
+  playerId?: string | undefined;
+  /** Room size the player asked for; only players asking for the same size are grouped. */
+  size: number;
+  queuedAt: number;
+}
+
+/** Players waiting on every instance; the room store keeps it so any instance can group them. */
+export interface QuickMatchQueue {
+  waiting: QuickMatchEntry[];
+}
+
+export const createQuickMatchQueue = (): QuickMatchQueue => ({ waiting: [] });
+
+export const dequeueQuickMatch = (
+  queue: QuickMatchQueue,
+  socketId: string,
+): QuickMatchEntry | undefined => {
+  const entry = queue.waiting.find((waiting) => waiting.socketId === socketId);
+  queue.waiting = queue.waiting.filter((waiting) => waiting.socketId !== socketId);
+  return entry;
+};
+
+export const waitingForSize = (queue: QuickMatchQueue, size: number): QuickMatchEntry[] =>
+  queue.waiting.filter((entry) => entry.size === size);
+
+/**
+ * Queues the player, replacing an earlier entry from the same socket or account. Once `size`
+ * players wait for the same size, the longest-waiting of them leave the queue as a group.
+ */
+export const enqueueQuickMatch = (
+  queue: QuickMatchQueue,
+  entry: QuickMatchEntry,
+): QuickMatchEntry[] | undefined => {
+  queue.waiting = [
+    ...queue.waiting.filter(
+      (waiting) =>
+        waiting.socketId !== entry.socketId &&
+        (!entry.playerId || waiting.playerId !== entry.playerId),
+    ),
+    entry,
+  ];
+
+  const candidates = waitingForSize(queue, entry.size).sort((a, b) => a.queuedAt - b.queuedAt);
+  if (candidates.length < entry.size) {
+    return undefined;
+  }
+  const group = candidates.slice(0, entry.size);
+  queue.waiting = queue.waiting.filter((waiting) => !group.includes(waiting));
+  return group;
+};
@@ -0,0 +1,108 @@
+import {
+  playerCredentialsSchema,
+  type ErrorCode,
+  type PlayerAccount,
+  type PlayerMatchHistory,
+} from '@slaphard/shared';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { PlayerAccountRepository } from '../db/types';
+import type { SessionTokens } from './session-tokens';
+
+const scryptAsync = promisify(scrypt) as (
+  secret: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const SECRET_KEY_LENGTH = 64;
+export const DEFAULT_MATCH_HISTORY_LIMIT = 20;
+export const MAX_MATCH_HISTORY_LIMIT = 100;
+
+export class PlayerAccountError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/** Hashes as `scrypt$<salt>$<key>` so the stored format can change without a migration. */
+export const hashSecret = async (secret: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(secret, salt, SECRET_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+};
+
+export const verifySecret = async (secret: string, secretHash: string): Promise<boolean> => {
+  const [scheme, salt, key, ...rest] = secretHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key || rest.length > 0) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64url');
+  const actual = await scryptAsync(secret, Buffer.from(salt, 'base64url'), expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Lightweight accounts: a username and secret that give a player a stable id across rooms. The
+ * account token it hands out is what clients send when taking a seat.
+ */
+export class PlayerAccounts {
+  constructor(
+    private readonly repo: PlayerAccountRepository,
+    private readonly tokens: SessionTokens,
+  ) {}
+
+  async register(input: unknown): Promise<PlayerAccount> {
+    const { username, secret } = this.parseCredentials(input);
+    const player = await this.repo.createPlayer(username, await hashSecret(secret));
+    if (!player) {
+      throw new PlayerAccountError('USERNAME_TAKEN', 'username is already taken');
+    }
+    return this.toAccount(player.playerId, player.username);
+  }
+
+  async login(input: unknown): Promise<PlayerAccount> {
+    const { username, secret } = this.parseCredentials(input);
+    const player = await this.repo.findPlayerByUsername(username);
+    if (!player || !(await verifySecret(secret, player.secretHash))) {
+      throw new PlayerAccountError('INVALID_CREDENTIALS', 'unknown username or wrong secret');
+    }
+    return this.toAccount(player.playerId, player.username);
+  }
+
+  async matchHistory(
+    playerId: string,
+    limit = DEFAULT_MATCH_HISTORY_LIMIT,
+  ): Promise<PlayerMatchHistory> {
+    const player = await this.repo.getPlayer(playerId);
+    if (!player) {
+      throw new PlayerAccountError('PLAYER_NOT_FOUND', 'player not found');
+    }
+
+    const boundedLimit = Math.min(Math.max(1, Math.floor(limit)), MAX_MATCH_HISTORY_LIMIT);
+    const [totals, matches] = await Promise.all([
+      this.repo.countPlayerMatches(playerId),
+      this.repo.listPlayerMatches(playerId, boundedLimit),
+    ]);
+    return { playerId: player.playerId, username: player.username, totals, matches };
+  }
+
+  private parseCredentials(input: unknown): { username: string; secret: string } {
+    const parsed = playerCredentialsSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new PlayerAccountError(
+        'INVALID_CREDENTIALS',
+        'username must be 3-20 letters, digits, _ or -, and the secret 8-128 characters',
+      );
+    }
+    return parsed.data;
+  }
+
+  private toAccount(playerId: string, username: string): PlayerAccount {
+    return { playerId, username, accountToken: this.tokens.issueAccount(playerId) };
+  }
+}
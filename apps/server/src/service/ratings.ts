@@ -0,0 +1,93 @@
+export const DEFAULT_RATING = 1500;
+export const RATING_K_FACTOR = 32;
+
+export interface RatingStanding {
+  /** Account id; unset for guests and bots, who count as opponents at `DEFAULT_RATING`. */
+  playerId?: string | undefined;
+  /** 1-based finishing place; seats that share a place drew against each other. */
+  place: number;
+}
+
+export interface RatingChange {
+  playerId: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  place: number;
+}
+
+/**
+ * Orders a finished match into places: the winner first, then everyone else by fewest cards
+ * left. Equal hand counts share a place. Eliminated players gave their cards away, so they share
+ * the place after everyone still playing; forfeited seats share the last place whatever they held.
+ */
+export const placeStandings = <
+  T extends {
+    handCount: number;
+    eliminated?: boolean | undefined;
+    forfeited?: boolean | undefined;
+  },
+>(
+  players: T[],
+  isWinner: (player: T) => boolean,
+): Array<T & { place: number }> => {
+  const score = (player: T) =>
+    isWinner(player)
+      ? -1
+      : player.forfeited
+        ? Number.MAX_SAFE_INTEGER
+        : player.eliminated
+          ? Number.MAX_SAFE_INTEGER - 1
+          : player.handCount;
+  const sorted = [...players].sort((a, b) => score(a) - score(b));
+  return sorted.map((player) => ({
+    ...player,
+    place: 1 + sorted.filter((other) => score(other) < score(player)).length,
+  }));
+};
+
+const expectedScore = (rating: number, opponentRating: number): number =>
+  1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
+/**
+ * Multiplayer Elo: each seat plays a virtual game against every other seat, won by the better
+ * place, and the K factor is split across those games so a match moves a rating as much as one
+ * head-to-head game would.
+ */
+export const computeRatingChanges = (
+  standings: RatingStanding[],
+  currentRatings: ReadonlyMap<string, number>,
+  kFactor = RATING_K_FACTOR,
+): RatingChange[] => {
+  if (standings.length < 2) {
+    return [];
+  }
+
+  const ratingOf = (standing: RatingStanding) =>
+    (standing.playerId ? currentRatings.get(standing.playerId) : undefined) ?? DEFAULT_RATING;
+  const perGameK = kFactor / (standings.length - 1);
+
+  return standings.flatMap((standing) => {
+    if (!standing.playerId) {
+      return [];
+    }
+
+    const ratingBefore = ratingOf(standing);
+    let delta = 0;
+    for (const opponent of standings) {
+      if (opponent === standing) {
+        continue;
+      }
+      const actual =
+        standing.place < opponent.place ? 1 : standing.place === opponent.place ? 0.5 : 0;
+      delta += perGameK * (actual - expectedScore(ratingBefore, ratingOf(opponent)));
+    }
+    return [
+      {
+        playerId: standing.playerId,
+        ratingBefore,
+        ratingAfter: Math.round(ratingBefore + delta),
+        place: standing.place,
+      },
+    ];
+  });
+};
@@ -0,0 +1,74 @@
+import type { GameState, SeriesFormat, SeriesRound, SeriesState } from '@slaphard/shared';
+
+export const createSeries = (format: SeriesFormat, userIds: string[]): SeriesState => ({
+  format,
+  rounds: [],
+  scores: Object.fromEntries(userIds.map((userId) => [userId, 0])),
+});
+
+/**
+ * Points a player needs to take the series early; best-of-N is decided by a majority of N, or by
+ * the points leader once all N games are played.
+ */
+export const seriesTargetPoints = (format: SeriesFormat): number => {
+  if (format.type === 'BEST_OF') {
+    return Math.floor(format.games / 2) + 1;
+  }
+  return format.type === 'FIRST_TO' ? format.points : 1;
+};
+
+/**
+ * The round loser is whoever finished holding the most cards; ties go to the earliest seat so the
+ * choice is stable for replays.
+ */
+export const roundLoserUserId = (state: GameState): string | undefined => {
+  let loser: GameState['players'][number] | undefined;
+  for (const player of state.players) {
+    if (
+      player.userId !== state.winnerUserId &&
+      (!loser || player.hand.length > loser.hand.length)
+    ) {
+      loser = player;
+    }
+  }
+  return loser?.userId;
+};
+
+/**
+ * The points leader once a best-of-N has played all N games without a majority, which three or
+ * more players can do. Tied leaders go to whoever won a round most recently.
+ */
+const seriesLeaderUserId = (series: SeriesState): string | undefined => {
+  const top = Math.max(...Object.values(series.scores));
+  return [...series.rounds]
+    .reverse()
+    .find((round) => series.scores[round.winnerUserId] === top)?.winnerUserId;
+};
+
+export const recordSeriesRound = (
+  series: SeriesState,
+  state: GameState,
+): SeriesRound | undefined => {
+  const loserUserId = roundLoserUserId(state);
+  if (series.winnerUserId || !state.winnerUserId || !loserUserId) {
+    return undefined;
+  }
+
+  const round: SeriesRound = {
+    round: series.rounds.length + 1,
+    winnerUserId: state.winnerUserId,
+    loserUserId,
+  };
+  series.rounds.push(round);
+  const points = (series.scores[round.winnerUserId] ?? 0) + 1;
+  series.scores[round.winnerUserId] = points;
+  if (points >= seriesTargetPoints(series.format)) {
+    series.winnerUserId = round.winnerUserId;
+  } else if (series.format.type === 'BEST_OF' && series.rounds.length >= series.format.games) {
+    series.winnerUserId = seriesLeaderUserId(series);
+  }
+  return round;
+};
+
+export const isSeriesInProgress = (series: SeriesState | undefined): series is SeriesState =>
+  !!series && !series.winnerUserId;
@@ -0,0 +1,114 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+
+export const DEFAULT_SESSION_TTL_SECONDS = 24 * 60 * 60;
+export const ACCOUNT_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const TOURNAMENT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const sessionClaimsSchema = z.object({
+  userId: z.string().uuid(),
+  roomId: z.string().uuid(),
+  expiresAt: z.number().int().nonnegative(),
+});
+
+const accountClaimsSchema = z.object({
+  kind: z.literal('account'),
+  playerId: z.string().uuid(),
+  expiresAt: z.number().int().nonnegative(),
+});
+
+const tournamentClaimsSchema = z.object({
+  kind: z.literal('tournament'),
+  tournamentId: z.string().uuid(),
+  /** The entrant the token registered; null for the organizer. */
+  entrantId: z.string().uuid().nullable(),
+  expiresAt: z.number().int().nonnegative(),
+});
+
+export type SessionClaims = z.infer<typeof sessionClaimsSchema>;
+export type AccountClaims = z.infer<typeof accountClaimsSchema>;
+export type TournamentClaims = z.infer<typeof tournamentClaimsSchema>;
+
+/**
+ * Issues `payload.signature` tokens binding a userId to a room, or a signed-in player to their
+ * account. The payload is base64url JSON and the signature an HMAC-SHA256 over it, so any instance
+ * sharing the secret can verify a rejoin.
+ */
+export class SessionTokens {
+  constructor(
+    private readonly secret: string,
+    private readonly ttlSeconds = DEFAULT_SESSION_TTL_SECONDS,
+  ) {}
+
+  issue(userId: string, roomId: string, now = Date.now()): string {
+    return this.encode({ userId, roomId, expiresAt: now + this.ttlSeconds * 1000 });
+  }
+
+  /** Returns the claims of a well-formed, correctly signed, unexpired token. */
+  verify(token: string, now = Date.now()): SessionClaims | undefined {
+    return this.decode(token, sessionClaimsSchema, now);
+  }
+
+  issueAccount(playerId: string, now = Date.now()): string {
+    return this.encode({
+      kind: 'account',
+      playerId,
+      expiresAt: now + ACCOUNT_TOKEN_TTL_SECONDS * 1000,
+    });
+  }
+
+  verifyAccount(token: string, now = Date.now()): AccountClaims | undefined {
+    return this.decode(token, accountClaimsSchema, now);
+  }
+
+  issueTournament(tournamentId: string, entrantId: string | null, now = Date.now()): string {
+    return this.encode({
+      kind: 'tournament',
+      tournamentId,
+      entrantId,
+      expiresAt: now + TOURNAMENT_TOKEN_TTL_SECONDS * 1000,
+    });
+  }
+
+  verifyTournament(token: string, now = Date.now()): TournamentClaims | undefined {
+    return this.decode(token, tournamentClaimsSchema, now);
+  }
+
+  private encode(claims: SessionClaims | AccountClaims | TournamentClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private decode<T extends { expiresAt: number }>(
+    token: string,
+    schema: z.ZodType<T>,
+    now: number,
+  ): T | undefined {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return undefined;
+    }
+
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      return undefined;
+    }
+    const claims = schema.safeParse(decoded);
+    if (!claims.success || claims.data.expiresAt <= now) {
+      return undefined;
+    }
+    return claims.data;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
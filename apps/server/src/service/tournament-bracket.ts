@@ -0,0 +1,108 @@
+import {
+  MIN_PLAYERS,
+  type Tournament,
+  type TournamentMatch,
+  type TournamentRound,
+} from '@slaphard/shared';
+import { placeStandings } from './ratings';
+
+export interface FinisherStanding {
+  userId: string;
+  handCount: number;
+  seatIndex: number;
+  forfeited?: boolean | undefined;
+  eliminated?: boolean | undefined;
+}
+
+/**
+ * Deals entrants round-robin over the fewest rooms of at most `roomSize`, so room sizes differ by
+ * at most one and entrants listed together (a previous round's winners) land in different rooms.
+ * A room too small to play is a bye.
+ */
+export const seedRound = (entrantIds: readonly string[], roomSize: number): TournamentRound => {
+  const roomCount = Math.ceil(entrantIds.length / roomSize);
+  const matches = Array.from({ length: roomCount }, (): TournamentMatch => ({ entrantIds: [] }));
+  entrantIds.forEach((entrantId, index) => {
+    matches[index % roomCount]!.entrantIds.push(entrantId);
+  });
+  for (const match of matches) {
+    if (match.entrantIds.length < MIN_PLAYERS) {
+      match.advancedEntrantIds = [...match.entrantIds];
+    }
+  }
+  return { matches };
+};
+
+/**
+ * Orders a finished room for advancement: the winner, then fewest cards left, then eliminated
+ * seats, with seat order breaking ties. Forfeited seats come last whatever they held.
+ */
+export const rankFinishers = (
+  players: readonly FinisherStanding[],
+  winnerUserId: string | null,
+): string[] =>
+  placeStandings([...players], (player) => player.userId === winnerUserId)
+    .sort(
+      (a, b) =>
+        Number(!!a.forfeited) - Number(!!b.forfeited) ||
+        a.place - b.place ||
+        a.seatIndex - b.seatIndex,
+    )
+    .map((player) => player.userId);
+
+/**
+ * Decides a match from its ranked entrants. Every room sends fewer through than it seated, and a
+ * round of one room is the final, which sends only its winner. Returns false if the match was
+ * already decided or does not exist.
+ */
+export const decideMatch = (
+  tournament: Tournament,
+  roundIndex: number,
+  matchIndex: number,
+  rankedEntrantIds: readonly string[],
+): boolean => {
+  const round = tournament.rounds[roundIndex];
+  const match = round?.matches[matchIndex];
+  if (!round || !match || match.advancedEntrantIds) {
+    return false;
+  }
+
+  const advancing =
+    round.matches.length === 1
+      ? 1
+      : Math.min(tournament.advancePerRoom, match.entrantIds.length - 1);
+  match.advancedEntrantIds = rankedEntrantIds.slice(0, advancing);
+  return true;
+};
+
+/**
+ * Once every match of the latest round is decided, seeds the next round from its finishers, tier
+ * by tier (every room's best first), or crowns the champion when one entrant is left. Returns the
+ * newly seeded round, if any.
+ */
+export const advanceTournament = (tournament: Tournament): TournamentRound | undefined => {
+  const latest = tournament.rounds[tournament.rounds.length - 1];
+  if (
+    tournament.status !== 'RUNNING' ||
+    !latest ||
+    latest.matches.some((match) => !match.advancedEntrantIds)
+  ) {
+    return undefined;
+  }
+
+  const tiers = Math.max(...latest.matches.map((match) => match.advancedEntrantIds!.length));
+  const next = Array.from({ length: tiers }, (_, tier) =>
+    latest.matches.flatMap((match) => match.advancedEntrantIds![tier] ?? []),
+  ).flat();
+  if (next.length <= 1) {
+    tournament.status = 'FINISHED';
+    if (next[0]) {
+      tournament.championEntrantId = next[0];
+    }
+    return undefined;
+  }
+
+  const round = seedRound(next, tournament.roomSize);
+  tournament.rounds.push(round);
+  return round;
+};
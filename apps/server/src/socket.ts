@@ -18,6 +18,42 @@ export const attachSocketHandlers = (io: Server, gameService: GameService, logge
       });
     });
 
+    socket.on('v1:rooms.list', (payload) => {
+      void gameService.watchPublicRooms(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:match.queue', (payload) => {
+      void gameService.queueQuickMatch(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:match.cancel', (payload) => {
+      void gameService.cancelQuickMatch(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:tournament.watch', (payload) => {
+      void gameService.watchTournament(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:tournament.join', (payload) => {
+      void gameService.joinTournamentMatch(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:room.spectate', (payload) => {
+      void gameService.spectateRoom(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
     socket.on('v1:room.leave', () => {
       void gameService.leaveRoom(socket).catch((error: unknown) => {
         gameService.handleFailure(socket, error);
@@ -31,7 +67,49 @@ export const attachSocketHandlers = (io: Server, gameService: GameService, logge
     });
 
     socket.on('v1:lobby.kick', (payload) => {
-      void gameService.kickFromLobby(socket, payload).catch((error: unknown) => {
+      void gameService.kickPlayer(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:lobby.unban', (payload) => {
+      void gameService.unbanPlayer(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:lobby.lock', (payload) => {
+      void gameService.setRoomLock(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:lobby.transferHost', (payload) => {
+      void gameService.transferHost(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:lobby.visibility', (payload) => {
+      void gameService.setRoomVisibility(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:lobby.takeSeat', (payload) => {
+      void gameService.takeSeat(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:lobby.addBot', (payload) => {
+      void gameService.addBot(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:lobby.configure', (payload) => {
+      void gameService.configureRoom(socket, payload).catch((error: unknown) => {
         gameService.handleFailure(socket, error);
       });
     });
@@ -42,6 +120,18 @@ export const attachSocketHandlers = (io: Server, gameService: GameService, logge
       });
     });
 
+    socket.on('v1:chat.send', (payload) => {
+      void gameService.sendChat(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
+    socket.on('v1:chat.mute', (payload) => {
+      void gameService.setChatMute(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
     socket.on('v1:game.flip', (payload) => {
       void gameService.flip(socket, payload).catch((error: unknown) => {
         gameService.handleFailure(socket, error);
@@ -54,12 +144,24 @@ export const attachSocketHandlers = (io: Server, gameService: GameService, logge
       });
     });
 
+    socket.on('v1:game.nextRound', (payload) => {
+      void gameService.nextRound(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
     socket.on('v1:game.skipSlap', (payload) => {
       void gameService.skipSlapWindow(socket, payload).catch((error: unknown) => {
         gameService.handleFailure(socket, error);
       });
     });
 
+    socket.on('v1:game.resync', (payload) => {
+      void gameService.resyncGameState(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
     socket.on('v1:game.slap', (payload) => {
       void gameService.slap(socket, payload).catch((error: unknown) => {
         gameService.handleFailure(socket, error);
@@ -72,6 +174,12 @@ export const attachSocketHandlers = (io: Server, gameService: GameService, logge
       });
     });
 
+    socket.on('v1:clock.echo', (payload) => {
+      void gameService.echoClock(socket, payload).catch((error: unknown) => {
+        gameService.handleFailure(socket, error);
+      });
+    });
+
     socket.on('disconnect', () => {
       void gameService.handleDisconnect(socket).catch((error: unknown) => {
         logger.error({ error, socketId: socket.id }, 'disconnect handling failed');
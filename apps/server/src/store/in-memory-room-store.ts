@@ -1,4 +1,10 @@
-import { ROOM_TTL_SECONDS, type RoomState } from '@slaphard/shared';
+import {
+  ROOM_TTL_SECONDS,
+  TOURNAMENT_TTL_SECONDS,
+  type RoomState,
+  type Tournament,
+} from '@slaphard/shared';
+import type { QuickMatchQueue } from '../service/matchmaking';
 import type { RoomStore } from './room-store';
 
 interface Entry {
@@ -10,6 +16,15 @@ export class InMemoryRoomStore implements RoomStore {
   private readonly roomsById = new Map<string, Entry>();
   private readonly roomIdByCode = new Map<string, string>();
   private readonly roomIdByUser = new Map<string, string>();
+  private readonly publicRoomIds = new Set<string>();
+  private readonly locksByRoomId = new Map<string, { token: string; expiresAt: number }>();
+  private readonly timerLeaseByRoomId = new Map<string, string>();
+  private readonly tournamentsById = new Map<
+    string,
+    { tournament: Tournament; expiresAt: number }
+  >();
+  private readonly tournamentIdByCode = new Map<string, string>();
+  private quickMatchQueue: QuickMatchQueue = { waiting: [] };
 
   private now() {
     return Date.now();
@@ -31,8 +46,10 @@ export class InMemoryRoomStore implements RoomStore {
 
     this.roomsById.delete(roomId);
     this.roomIdByCode.delete(entry.room.roomCode);
-    for (const player of entry.room.players) {
-      this.roomIdByUser.delete(player.userId);
+    this.timerLeaseByRoomId.delete(roomId);
+    this.publicRoomIds.delete(roomId);
+    for (const member of [...entry.room.players, ...entry.room.spectators]) {
+      this.roomIdByUser.delete(member.userId);
     }
   }
 
@@ -56,8 +73,13 @@ export class InMemoryRoomStore implements RoomStore {
       expiresAt: this.now() + this.ttlMs(),
     });
     this.roomIdByCode.set(room.roomCode, room.roomId);
-    for (const player of room.players) {
-      this.roomIdByUser.set(player.userId, room.roomId);
+    if (room.public) {
+      this.publicRoomIds.add(room.roomId);
+    } else {
+      this.publicRoomIds.delete(room.roomId);
+    }
+    for (const member of [...room.players, ...room.spectators]) {
+      this.roomIdByUser.set(member.userId, room.roomId);
     }
   }
 
@@ -68,9 +90,29 @@ export class InMemoryRoomStore implements RoomStore {
     }
     this.roomsById.delete(roomId);
     this.roomIdByCode.delete(entry.room.roomCode);
-    for (const player of entry.room.players) {
-      this.roomIdByUser.delete(player.userId);
+    this.timerLeaseByRoomId.delete(roomId);
+    this.publicRoomIds.delete(roomId);
+    for (const member of [...entry.room.players, ...entry.room.spectators]) {
+      this.roomIdByUser.delete(member.userId);
+    }
+  }
+
+  async listRoomIds(): Promise<string[]> {
+    for (const roomId of [...this.roomsById.keys()]) {
+      this.sweep(roomId);
     }
+    return [...this.roomsById.keys()];
+  }
+
+  async listPublicRooms(): Promise<RoomState[]> {
+    const rooms: RoomState[] = [];
+    for (const roomId of [...this.publicRoomIds]) {
+      const room = await this.getRoomById(roomId);
+      if (room) {
+        rooms.push(room);
+      }
+    }
+    return rooms;
   }
 
   async setUserRoom(userId: string, roomId: string): Promise<void> {
@@ -84,4 +126,57 @@ export class InMemoryRoomStore implements RoomStore {
   async clearUserRoom(userId: string): Promise<void> {
     this.roomIdByUser.delete(userId);
   }
+
+  async acquireRoomLock(roomId: string, token: string, ttlMs: number): Promise<boolean> {
+    const lock = this.locksByRoomId.get(roomId);
+    if (lock && lock.expiresAt > this.now()) {
+      return false;
+    }
+    this.locksByRoomId.set(roomId, { token, expiresAt: this.now() + ttlMs });
+    return true;
+  }
+
+  async releaseRoomLock(roomId: string, token: string): Promise<void> {
+    if (this.locksByRoomId.get(roomId)?.token === token) {
+      this.locksByRoomId.delete(roomId);
+    }
+  }
+
+  async setTimerLease(roomId: string, holder: string): Promise<void> {
+    this.timerLeaseByRoomId.set(roomId, holder);
+  }
+
+  async getTimerLease(roomId: string): Promise<string | null> {
+    this.sweep(roomId);
+    return this.timerLeaseByRoomId.get(roomId) ?? null;
+  }
+
+  async getTournament(tournamentId: string): Promise<Tournament | null> {
+    const entry = this.tournamentsById.get(tournamentId);
+    if (!entry || entry.expiresAt <= this.now()) {
+      return null;
+    }
+    return structuredClone(entry.tournament);
+  }
+
+  async getTournamentByCode(code: string): Promise<Tournament | null> {
+    const tournamentId = this.tournamentIdByCode.get(code);
+    return tournamentId ? this.getTournament(tournamentId) : null;
+  }
+
+  async saveTournament(tournament: Tournament): Promise<void> {
+    this.tournamentsById.set(tournament.tournamentId, {
+      tournament: structuredClone(tournament),
+      expiresAt: this.now() + TOURNAMENT_TTL_SECONDS * 1000,
+    });
+    this.tournamentIdByCode.set(tournament.code, tournament.tournamentId);
+  }
+
+  async getQuickMatchQueue(): Promise<QuickMatchQueue> {
+    return structuredClone(this.quickMatchQueue);
+  }
+
+  async saveQuickMatchQueue(queue: QuickMatchQueue): Promise<void> {
+    this.quickMatchQueue = structuredClone(queue);
+  }
 }
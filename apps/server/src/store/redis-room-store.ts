@@ -1,10 +1,32 @@
-import { ROOM_TTL_SECONDS, type RoomState } from '@slaphard/shared';
+import {
+  ROOM_TTL_SECONDS,
+  TOURNAMENT_TTL_SECONDS,
+  type RoomState,
+  type Tournament,
+} from '@slaphard/shared';
 import type Redis from 'ioredis';
+import type { QuickMatchQueue } from '../service/matchmaking';
 import type { RoomStore } from './room-store';
 
 const roomByIdKey = (roomId: string) => `room:${roomId}`;
 const roomByCodeKey = (roomCode: string) => `room:code:${roomCode}`;
 const roomByUserKey = (userId: string) => `user:${userId}:room`;
+const ROOM_INDEX_KEY = 'rooms:index';
+const PUBLIC_ROOM_INDEX_KEY = 'rooms:public';
+const roomLockKey = (roomId: string) => `room:${roomId}:lock`;
+const timerLeaseKey = (roomId: string) => `room:${roomId}:timers`;
+const tournamentByIdKey = (tournamentId: string) => `tournament:${tournamentId}`;
+const tournamentByCodeKey = (code: string) => `tournament:code:${code}`;
+const QUICK_MATCH_QUEUE_KEY = 'quickmatch:queue';
+
+// Deletes the lock only while it still carries our token, so an expired holder cannot free a
+// lock that another instance has since taken.
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
 
 export class RedisRoomStore implements RoomStore {
   constructor(private readonly redis: Redis) {}
@@ -25,9 +47,15 @@ export class RedisRoomStore implements RoomStore {
   async saveRoom(room: RoomState): Promise<void> {
     const tx = this.redis.multi();
     tx.set(roomByIdKey(room.roomId), JSON.stringify(room), 'EX', ROOM_TTL_SECONDS);
+    tx.sadd(ROOM_INDEX_KEY, room.roomId);
+    if (room.public) {
+      tx.sadd(PUBLIC_ROOM_INDEX_KEY, room.roomId);
+    } else {
+      tx.srem(PUBLIC_ROOM_INDEX_KEY, room.roomId);
+    }
     tx.set(roomByCodeKey(room.roomCode), room.roomId, 'EX', ROOM_TTL_SECONDS);
-    for (const player of room.players) {
-      tx.set(roomByUserKey(player.userId), room.roomId, 'EX', ROOM_TTL_SECONDS);
+    for (const member of [...room.players, ...room.spectators]) {
+      tx.set(roomByUserKey(member.userId), room.roomId, 'EX', ROOM_TTL_SECONDS);
     }
     await tx.exec();
   }
@@ -41,12 +69,49 @@ export class RedisRoomStore implements RoomStore {
     const tx = this.redis.multi();
     tx.del(roomByIdKey(roomId));
     tx.del(roomByCodeKey(room.roomCode));
-    for (const player of room.players) {
-      tx.del(roomByUserKey(player.userId));
+    tx.del(timerLeaseKey(roomId));
+    tx.srem(ROOM_INDEX_KEY, roomId);
+    tx.srem(PUBLIC_ROOM_INDEX_KEY, roomId);
+    for (const member of [...room.players, ...room.spectators]) {
+      tx.del(roomByUserKey(member.userId));
     }
     await tx.exec();
   }
 
+  async listRoomIds(): Promise<string[]> {
+    const roomIds = await this.redis.smembers(ROOM_INDEX_KEY);
+    if (roomIds.length === 0) {
+      return [];
+    }
+
+    // Room keys expire on their own; prune index entries whose room is gone.
+    const tx = this.redis.multi();
+    for (const roomId of roomIds) {
+      tx.exists(roomByIdKey(roomId));
+    }
+    const results = (await tx.exec()) ?? [];
+    const live = roomIds.filter((_, index) => results[index]?.[1] === 1);
+    const expired = roomIds.filter((_, index) => results[index]?.[1] !== 1);
+    if (expired.length > 0) {
+      await this.redis.srem(ROOM_INDEX_KEY, ...expired);
+    }
+    return live;
+  }
+
+  async listPublicRooms(): Promise<RoomState[]> {
+    const roomIds = await this.redis.smembers(PUBLIC_ROOM_INDEX_KEY);
+    if (roomIds.length === 0) {
+      return [];
+    }
+
+    const jsons = await this.redis.mget(...roomIds.map(roomByIdKey));
+    const expired = roomIds.filter((_, index) => !jsons[index]);
+    if (expired.length > 0) {
+      await this.redis.srem(PUBLIC_ROOM_INDEX_KEY, ...expired);
+    }
+    return jsons.flatMap((json) => (json ? [JSON.parse(json) as RoomState] : []));
+  }
+
   async setUserRoom(userId: string, roomId: string): Promise<void> {
     await this.redis.set(roomByUserKey(userId), roomId, 'EX', ROOM_TTL_SECONDS);
   }
@@ -58,4 +123,60 @@ export class RedisRoomStore implements RoomStore {
   async clearUserRoom(userId: string): Promise<void> {
     await this.redis.del(roomByUserKey(userId));
   }
+
+  async acquireRoomLock(roomId: string, token: string, ttlMs: number): Promise<boolean> {
+    return (await this.redis.set(roomLockKey(roomId), token, 'PX', ttlMs, 'NX')) === 'OK';
+  }
+
+  async releaseRoomLock(roomId: string, token: string): Promise<void> {
+    await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, roomLockKey(roomId), token);
+  }
+
+  async setTimerLease(roomId: string, holder: string): Promise<void> {
+    await this.redis.set(timerLeaseKey(roomId), holder, 'EX', ROOM_TTL_SECONDS);
+  }
+
+  async getTimerLease(roomId: string): Promise<string | null> {
+    return this.redis.get(timerLeaseKey(roomId));
+  }
+
+  async getTournament(tournamentId: string): Promise<Tournament | null> {
+    const json = await this.redis.get(tournamentByIdKey(tournamentId));
+    return json ? (JSON.parse(json) as Tournament) : null;
+  }
+
+  async getTournamentByCode(code: string): Promise<Tournament | null> {
+    const tournamentId = await this.redis.get(tournamentByCodeKey(code));
+    if (!tournamentId) {
+      return null;
+    }
+    return this.getTournament(tournamentId);
+  }
+
+  async saveTournament(tournament: Tournament): Promise<void> {
+    const tx = this.redis.multi();
+    tx.set(
+      tournamentByIdKey(tournament.tournamentId),
+      JSON.stringify(tournament),
+      'EX',
+      TOURNAMENT_TTL_SECONDS,
+    );
+    tx.set(
+      tournamentByCodeKey(tournament.code),
+      tournament.tournamentId,
+      'EX',
+      TOURNAMENT_TTL_SECONDS,
+    );
+    await tx.exec();
+  }
+
+  async getQuickMatchQueue(): Promise<QuickMatchQueue> {
+    const json = await this.redis.get(QUICK_MATCH_QUEUE_KEY);
+    return json ? (JSON.parse(json) as QuickMatchQueue) : { waiting: [] };
+  }
+
+  async saveQuickMatchQueue(queue: QuickMatchQueue): Promise<void> {
+    // Expires like a room, so entries left by a crashed instance do not wait forever.
+    await this.redis.set(QUICK_MATCH_QUEUE_KEY, JSON.stringify(queue), 'EX', ROOM_TTL_SECONDS);
+  }
 }
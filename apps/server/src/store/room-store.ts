@@ -1,11 +1,30 @@
-import type { RoomState } from '@slaphard/shared';
+import type { RoomState, Tournament } from '@slaphard/shared';
+import type { QuickMatchQueue } from '../service/matchmaking';
 
 export interface RoomStore {
   getRoomById(roomId: string): Promise<RoomState | null>;
   getRoomByCode(roomCode: string): Promise<RoomState | null>;
   saveRoom(room: RoomState): Promise<void>;
   deleteRoom(roomId: string): Promise<void>;
+  /** Ids of every live room, for startup recovery. */
+  listRoomIds(): Promise<string[]>;
+  /** Live rooms flagged public in any status; the room browser picks the open lobbies. */
+  listPublicRooms(): Promise<RoomState[]>;
   setUserRoom(userId: string, roomId: string): Promise<void>;
   getUserRoom(userId: string): Promise<string | null>;
   clearUserRoom(userId: string): Promise<void>;
+  /** Takes the room's mutation lock unless someone else holds it; expires after `ttlMs`. */
+  acquireRoomLock(roomId: string, token: string, ttlMs: number): Promise<boolean>;
+  /** Releases the lock only if it is still held under `token`. */
+  releaseRoomLock(roomId: string, token: string): Promise<void>;
+  /** Records which instance runs the room's timers; the last writer wins. */
+  setTimerLease(roomId: string, holder: string): Promise<void>;
+  getTimerLease(roomId: string): Promise<string | null>;
+  /** Tournaments live beside the rooms they seed, for `TOURNAMENT_TTL_SECONDS`. */
+  getTournament(tournamentId: string): Promise<Tournament | null>;
+  getTournamentByCode(code: string): Promise<Tournament | null>;
+  saveTournament(tournament: Tournament): Promise<void>;
+  /** The quick-match queue shared by every instance; change it only under its mutation lock. */
+  getQuickMatchQueue(): Promise<QuickMatchQueue>;
+  saveQuickMatchQueue(queue: QuickMatchQueue): Promise<void>;
 }
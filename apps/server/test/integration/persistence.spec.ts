@@ -6,14 +6,32 @@ import { io as ioClient, type Socket } from 'socket.io-client';
 import { attachSocketHandlers } from '../../src/socket';
 import { GameService } from '../../src/service/game-service';
 import { InMemoryRoomStore } from '../../src/store/in-memory-room-store';
-import type { MatchEventType, MatchSummary, PersistenceRepository, RoomTransitionType } from '../../src/db/types';
-import type { RoomState } from '@slaphard/shared';
+import type { ReplayLogEntry } from '@slaphard/engine';
+import type {
+  MatchEventType,
+  MatchSummary,
+  OpenMatch,
+  PersistenceRepository,
+  RoomTransitionType,
+  SlapAttemptRecord,
+  StoredMatchReplay,
+} from '../../src/db/types';
+import type { RatingChange, RatingStanding } from '../../src/service/ratings';
+import {
+  applyGameStatePatch,
+  type GameStateView,
+  type PatchOperation,
+  type RoomState,
+  type Tournament,
+} from '@slaphard/shared';
 
 class RecordingPersistenceRepo implements PersistenceRepository {
   roomTransitions: RoomTransitionType[] = [];
   startedMatches: Array<{ roomId: string }> = [];
   finishedMatches: Array<{ matchId: string; winnerUserId: string | null; summary: MatchSummary }> = [];
   events: Array<{ matchId: string; eventType: MatchEventType; payload: unknown }> = [];
+  replayEntries: Array<{ matchId: string; entry: ReplayLogEntry }> = [];
+  slapAttempts: Array<{ matchId: string; attempt: SlapAttemptRecord }> = [];
   deletedRooms: string[] = [];
   private matchIdCounter = 1;
 
@@ -44,6 +62,32 @@ class RecordingPersistenceRepo implements PersistenceRepository {
   async appendMatchEvent(matchId: string, eventType: MatchEventType, payload: unknown): Promise<void> {
     this.events.push({ matchId, eventType, payload });
   }
+
+  async appendReplayEntry(matchId: string, entry: ReplayLogEntry): Promise<void> {
+    this.replayEntries.push({ matchId, entry });
+  }
+
+  async recordSlapAttempts(matchId: string, attempts: SlapAttemptRecord[]): Promise<void> {
+    this.slapAttempts.push(...attempts.map((attempt) => ({ matchId, attempt })));
+  }
+
+  async getMatchReplay(_matchId: string): Promise<StoredMatchReplay | null> {
+    return null;
+  }
+
+  async listOpenMatches(_startedBefore: Date): Promise<OpenMatch[]> {
+    return [];
+  }
+
+  async getPlayerRatings(_playerIds: string[]): Promise<Map<string, number>> {
+    return new Map();
+  }
+
+  async recordMatchRatings(_matchId: string, _standings: RatingStanding[]): Promise<RatingChange[]> {
+    return [];
+  }
+
+  async saveTournament(_tournament: Tournament): Promise<void> {}
 }
 
 class FailingPersistenceRepo extends RecordingPersistenceRepo {
@@ -68,6 +112,46 @@ const once = <T>(socket: Socket, event: string, predicate?: (payload: T) => bool
     socket.on(event, handler);
   });
 
+const gameViews = new WeakMap<Socket, GameStateView>();
+const gameViewListeners = new WeakMap<Socket, Set<(view: GameStateView) => void>>();
+
+const connectClient = (url: string): Socket => {
+  const socket = ioClient(url, { transports: ['websocket'] });
+  const publish = (view: GameStateView) => {
+    gameViews.set(socket, view);
+    for (const listener of [...(gameViewListeners.get(socket) ?? [])]) {
+      listener(view);
+    }
+  };
+  socket.on('v1:game.state', (payload: { snapshot: GameStateView }) => publish(payload.snapshot));
+  socket.on('v1:game.delta', (payload: { patch: PatchOperation[]; baseVersion: number }) => {
+    const current = gameViews.get(socket);
+    if (!current || current.version !== payload.baseVersion) {
+      socket.emit('v1:game.resync', {});
+      return;
+    }
+    publish(applyGameStatePatch(current, payload.patch));
+  });
+  return socket;
+};
+
+const onceGameState = (
+  socket: Socket,
+  predicate?: (payload: { snapshot: GameStateView }) => boolean,
+): Promise<{ snapshot: GameStateView }> =>
+  new Promise((resolve) => {
+    const listeners = gameViewListeners.get(socket) ?? new Set();
+    gameViewListeners.set(socket, listeners);
+    const handler = (view: GameStateView) => {
+      if (predicate && !predicate({ snapshot: view })) {
+        return;
+      }
+      listeners.delete(handler);
+      resolve({ snapshot: view });
+    };
+    listeners.add(handler);
+  });
+
 const wait = async (ms: number): Promise<void> => {
   await new Promise((resolve) => setTimeout(resolve, ms));
 };
@@ -118,8 +202,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -181,9 +265,8 @@ describe('persistence integration', () => {
       loserUserId: string;
       reason: string;
     }>(a, 'v1:game.slapResult');
-    const finished = once<{ snapshot: { status: string } }>(
+    const finished = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'FINISHED',
     );
     b.emit('v1:game.slap', {
@@ -202,6 +285,10 @@ describe('persistence integration', () => {
     expect(repo.startedMatches.length).toBe(1);
     expect(repo.finishedMatches.length).toBe(1);
     expect(repo.events.some((event) => event.eventType === 'SLAP_RESULT')).toBe(true);
+    expect(repo.replayEntries.map(({ entry }) => entry.type === 'ENGINE_EVENT' && entry.event.type)).toEqual([
+      'FLIP',
+      'SLAP',
+    ]);
 
     const toLobby = once<{ room: RoomState }>(a, 'v1:room.state', (payload) => payload.room.status === 'LOBBY');
     a.emit('v1:game.stop', {});
@@ -214,7 +301,7 @@ describe('persistence integration', () => {
     const repo = new FailingPersistenceRepo();
     const { url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
     cleanups.push(async () => {
       a.disconnect();
     });
@@ -231,8 +318,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -285,8 +372,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -332,8 +419,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -364,7 +451,7 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
     cleanups.push(async () => {
       a.disconnect();
     });
@@ -384,8 +471,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -408,14 +495,12 @@ describe('persistence integration', () => {
 
     const aInGameRoom = once<{ room: RoomState }>(a, 'v1:room.state', (payload) => payload.room.status === 'IN_GAME');
     const bInGameRoom = once<{ room: RoomState }>(b, 'v1:room.state', (payload) => payload.room.status === 'IN_GAME');
-    const aInitialGame = once<{ snapshot: { status: string; version: number } }>(
+    const aInitialGame = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'IN_GAME',
     );
-    const bInitialGame = once<{ snapshot: { status: string; version: number } }>(
+    const bInitialGame = onceGameState(
       b,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'IN_GAME',
     );
 
@@ -449,14 +534,12 @@ describe('persistence integration', () => {
     await store.saveRoom(room);
 
     const baselineVersion = room.gameState.version;
-    const afterFlipA = once<{ snapshot: { status: string; version: number; currentTurnSeat: number; slapWindow: { active: boolean; resolved: boolean } } }>(
+    const afterFlipA = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.version > baselineVersion,
     );
-    const afterFlipB = once<{ snapshot: { status: string; version: number; currentTurnSeat: number; slapWindow: { active: boolean; resolved: boolean } } }>(
+    const afterFlipB = onceGameState(
       b,
-      'v1:game.state',
       (payload) => payload.snapshot.version > baselineVersion,
     );
 
@@ -476,8 +559,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -529,9 +612,8 @@ describe('persistence integration', () => {
     };
     await store.saveRoom(room);
 
-    const noWindowAfterFirstFlip = once<{ snapshot: { currentTurnSeat: number; slapWindow: { active: boolean } } }>(
+    const noWindowAfterFirstFlip = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.currentTurnSeat === guest.seatIndex && payload.snapshot.slapWindow.active === false,
     );
     a.emit('v1:game.flip', { clientSeq: 1, clientTime: Date.now() });
@@ -539,17 +621,15 @@ describe('persistence integration', () => {
 
     const sameCardOpenA = once<{ reason: string }>(a, 'v1:game.slapWindowOpen', (payload) => payload.reason === 'SAME_CARD');
     const sameCardOpenB = once<{ reason: string }>(b, 'v1:game.slapWindowOpen', (payload) => payload.reason === 'SAME_CARD');
-    const sameCardStateA = once<{ snapshot: { currentTurnSeat: number; slapWindow: { active: boolean; reason?: string } } }>(
+    const sameCardStateA = onceGameState(
       a,
-      'v1:game.state',
       (payload) =>
         payload.snapshot.currentTurnSeat === guest.seatIndex &&
         payload.snapshot.slapWindow.active &&
         payload.snapshot.slapWindow.reason === 'SAME_CARD',
     );
-    const sameCardStateB = once<{ snapshot: { currentTurnSeat: number; slapWindow: { active: boolean; reason?: string } } }>(
+    const sameCardStateB = onceGameState(
       b,
-      'v1:game.state',
       (payload) =>
         payload.snapshot.currentTurnSeat === guest.seatIndex &&
         payload.snapshot.slapWindow.active &&
@@ -564,8 +644,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -617,9 +697,8 @@ describe('persistence integration', () => {
     };
     await store.saveRoom(room);
 
-    const noWindowAfterFirstFlip = once<{ snapshot: { currentTurnSeat: number; slapWindow: { active: boolean } } }>(
+    const noWindowAfterFirstFlip = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.currentTurnSeat === guest.seatIndex && payload.snapshot.slapWindow.active === false,
     );
     a.emit('v1:game.flip', { clientSeq: 1, clientTime: Date.now() });
@@ -648,9 +727,8 @@ describe('persistence integration', () => {
       'v1:game.slapResult',
       (payload) => payload.reason === 'LAST_SLAPPER',
     );
-    const stateAfterResolve = once<{ snapshot: { slapWindow: { active: boolean }; currentTurnSeat: number } }>(
+    const stateAfterResolve = onceGameState(
       a,
-      'v1:game.state',
       (payload) => !payload.snapshot.slapWindow.active,
     );
 
@@ -685,11 +763,11 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
-    const c = ioClient(url, { transports: ['websocket'] });
-    const d = ioClient(url, { transports: ['websocket'] });
-    const e = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
+    const c = connectClient(url);
+    const d = connectClient(url);
+    const e = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -791,9 +869,8 @@ describe('persistence integration', () => {
       'v1:game.slapResult',
       (payload) => payload.reason === 'LAST_SLAPPER',
     );
-    const resolvedState = once<{ snapshot: { slapWindow: { active: boolean } } }>(
+    const resolvedState = onceGameState(
       a,
-      'v1:game.state',
       (payload) => !payload.snapshot.slapWindow.active,
     );
 
@@ -850,8 +927,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -948,8 +1025,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -1001,14 +1078,12 @@ describe('persistence integration', () => {
     };
     await store.saveRoom(room);
 
-    const finishedA = once<{ snapshot: { status: string; winnerUserId?: string } }>(
+    const finishedA = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'FINISHED',
     );
-    const finishedB = once<{ snapshot: { status: string; winnerUserId?: string } }>(
+    const finishedB = onceGameState(
       b,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'FINISHED',
     );
     a.emit('v1:game.flip', { clientSeq: 1, clientTime: Date.now() });
@@ -1022,8 +1097,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -1075,14 +1150,12 @@ describe('persistence integration', () => {
     };
     await store.saveRoom(room);
 
-    const finishedA = once<{ snapshot: { status: string } }>(
+    const finishedA = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'FINISHED',
     );
-    const finishedB = once<{ snapshot: { status: string } }>(
+    const finishedB = onceGameState(
       b,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'FINISHED',
     );
     a.emit('v1:game.flip', { clientSeq: 1, clientTime: Date.now() });
@@ -1098,8 +1171,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -1112,7 +1185,7 @@ describe('persistence integration', () => {
     a.emit('v1:room.create', { displayName: 'AA' });
     const created = await createdState;
 
-    const joinedState = once<{ room: RoomState; meUserId: string }>(
+    const joinedState = once<{ room: RoomState; meUserId: string; sessionToken: string }>(
       b,
       'v1:room.state',
       (payload) => payload.room.roomCode === created.room.roomCode,
@@ -1129,7 +1202,7 @@ describe('persistence integration', () => {
 
     b.disconnect();
 
-    const bReconnect = ioClient(url, { transports: ['websocket'] });
+    const bReconnect = connectClient(url);
     cleanups.push(async () => {
       bReconnect.disconnect();
     });
@@ -1140,15 +1213,14 @@ describe('persistence integration', () => {
       'v1:room.state',
       (payload) => payload.room.roomCode === created.room.roomCode,
     );
-    const rejoinGameState = once<{ snapshot: { status: string } }>(
+    const rejoinGameState = onceGameState(
       bReconnect,
-      'v1:game.state',
       (payload) => payload.snapshot.status === 'IN_GAME',
     );
     bReconnect.emit('v1:room.join', {
       roomCode: created.room.roomCode,
       displayName: 'BB',
-      userId: joined.meUserId,
+      sessionToken: joined.sessionToken,
     });
 
     const roomState = await rejoinRoomState;
@@ -1160,9 +1232,9 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { store, url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
-    const c = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
+    const c = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -1226,19 +1298,16 @@ describe('persistence integration', () => {
     };
     await store.saveRoom(room);
 
-    const stateA = once<{ snapshot: { currentTurnSeat: number; slapWindow: { active: boolean }; version: number } }>(
+    const stateA = onceGameState(
       a,
-      'v1:game.state',
       (payload) => payload.snapshot.currentTurnSeat === seatC && payload.snapshot.slapWindow.active === false,
     );
-    const stateB = once<{ snapshot: { currentTurnSeat: number; slapWindow: { active: boolean }; version: number } }>(
+    const stateB = onceGameState(
       b,
-      'v1:game.state',
       (payload) => payload.snapshot.currentTurnSeat === seatC && payload.snapshot.slapWindow.active === false,
     );
-    const stateC = once<{ snapshot: { currentTurnSeat: number; slapWindow: { active: boolean }; version: number } }>(
+    const stateC = onceGameState(
       c,
-      'v1:game.state',
       (payload) => payload.snapshot.currentTurnSeat === seatC && payload.snapshot.slapWindow.active === false,
     );
 
@@ -1250,8 +1319,8 @@ describe('persistence integration', () => {
     const repo = new RecordingPersistenceRepo();
     const { url } = await boot(repo);
 
-    const a = ioClient(url, { transports: ['websocket'] });
-    const b = ioClient(url, { transports: ['websocket'] });
+    const a = connectClient(url);
+    const b = connectClient(url);
 
     cleanups.push(async () => {
       a.disconnect();
@@ -1280,4 +1349,66 @@ describe('persistence integration', () => {
     expect(repo.finishedMatches.length).toBe(1);
     expect(repo.finishedMatches[0]?.summary.reason).toBe('GAME_STOPPED');
   });
+  it('sends per-viewer deltas after the first snapshot and a full snapshot on resync', async () => {
+    const repo = new RecordingPersistenceRepo();
+    const { store, url } = await boot(repo);
+
+    const a = connectClient(url);
+    const b = connectClient(url);
+
+    cleanups.push(async () => {
+      a.disconnect();
+      b.disconnect();
+    });
+
+    await Promise.all([once(a, 'connect'), once(b, 'connect')]);
+
+    const aRoomState = once<{ room: RoomState; meUserId: string }>(a, 'v1:room.state');
+    a.emit('v1:room.create', { displayName: 'AA' });
+    const created = await aRoomState;
+
+    const bRoomState = once<{ room: RoomState; meUserId: string }>(
+      b,
+      'v1:room.state',
+      (payload) => payload.room.roomCode === created.room.roomCode,
+    );
+    b.emit('v1:room.join', { roomCode: created.room.roomCode, displayName: 'BB' });
+    const joined = await bRoomState;
+
+    const initialA = onceGameState(a, (payload) => payload.snapshot.status === 'IN_GAME');
+    const initialB = onceGameState(b, (payload) => payload.snapshot.status === 'IN_GAME');
+    a.emit('v1:lobby.start', {});
+    await Promise.all([initialA, initialB]);
+
+    const room = await store.getRoomByCode(created.room.roomCode);
+    if (!room?.gameState) {
+      throw new Error('missing game state');
+    }
+    const host = room.gameState.players.find((player) => player.userId === created.meUserId);
+    const guest = room.gameState.players.find((player) => player.userId === joined.meUserId);
+    if (!host || !guest) {
+      throw new Error('players not found');
+    }
+    room.gameState.currentTurnSeat = host.seatIndex;
+    await store.saveRoom(room);
+    const baselineVersion = room.gameState.version;
+
+    const deltaA = once<{ baseVersion: number; version: number; patch: PatchOperation[] }>(a, 'v1:game.delta');
+    const deltaB = once<{ baseVersion: number; version: number; patch: PatchOperation[] }>(b, 'v1:game.delta');
+    a.emit('v1:game.flip', { clientSeq: 1, clientTime: Date.now() });
+    const [patchA, patchB] = await Promise.all([deltaA, deltaB]);
+
+    expect(patchA.baseVersion).toBe(baselineVersion);
+    expect(patchA.version).toBe(baselineVersion + 1);
+    expect(patchA.patch.some((operation) => operation.path[0] === 'meHand')).toBe(true);
+    expect(patchB.patch.some((operation) => operation.path[0] === 'meHand')).toBe(false);
+
+    await wait(20);
+    const reconstructed = gameViews.get(b);
+    const resynced = once<{ snapshot: GameStateView; version: number }>(b, 'v1:game.state');
+    b.emit('v1:game.resync', {});
+    const snapshot = await resynced;
+    expect(snapshot.version).toBe(baselineVersion + 1);
+    expect(snapshot.snapshot).toEqual(reconstructed);
+  });
 });
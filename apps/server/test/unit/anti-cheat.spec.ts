@@ -0,0 +1,163 @@
+import { applyEvent, createInitialState, type EngineEvent } from '@slaphard/engine';
+import { MIN_HUMAN_MS } from '@slaphard/shared';
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_CREDITED_RTT_MS,
+  SUSPICION_FLAG_THRESHOLD,
+  assessSlapTiming,
+  recordSlapAssessment,
+  serverReceiveTiming,
+  type SlapTimingClaim,
+} from '../../src/service/anti-cheat';
+
+const WINDOW_START = 10_000;
+/** Server clock minus the client's clock. */
+const CLOCK_OFFSET = 1_700_000;
+
+interface TimedSlap {
+  claim: SlapTimingClaim;
+  receivedAt: number;
+  /** The server's own clock-sync measurement of the link. */
+  measured: { rttMs: number; jitterMs: number };
+}
+
+/** What an honest client reports for a tap `reactionMs` into the window. */
+const honestSlap = (reactionMs: number, oneWayMs: number, offsetErrorMs = 0): TimedSlap => {
+  const tapAt = WINDOW_START + reactionMs;
+  return {
+    claim: {
+      clientTime: tapAt - CLOCK_OFFSET,
+      offsetMs: CLOCK_OFFSET + offsetErrorMs,
+      rttMs: oneWayMs * 2,
+    },
+    receivedAt: tapAt + oneWayMs,
+    measured: { rttMs: oneWayMs * 2, jitterMs: 5 },
+  };
+};
+
+/** A client that really tapped `reactionMs` in but stamps the slap `claimedReactionMs` in. */
+const forgedSlap = (
+  reactionMs: number,
+  claimedReactionMs: number,
+  oneWayMs: number,
+  claimedRttMs = oneWayMs * 2,
+): TimedSlap => ({
+  claim: {
+    clientTime: WINDOW_START + claimedReactionMs - CLOCK_OFFSET,
+    offsetMs: CLOCK_OFFSET,
+    rttMs: claimedRttMs,
+  },
+  receivedAt: WINDOW_START + reactionMs + oneWayMs,
+  measured: { rttMs: oneWayMs * 2, jitterMs: 5 },
+});
+
+const assess = ({ claim, receivedAt, measured }: TimedSlap) =>
+  assessSlapTiming(claim, WINDOW_START, receivedAt, measured);
+
+describe('anti-cheat slap timing', () => {
+  it('accepts honest slaps across latency and clock-sync error', () => {
+    const profiles = [
+      honestSlap(250, 10),
+      honestSlap(400, 60, 25),
+      honestSlap(180, 150, -40),
+      honestSlap(MIN_HUMAN_MS, 5),
+    ];
+
+    for (const slap of profiles) {
+      expect(assess(slap).verdict).toBe('PLAUSIBLE');
+    }
+    expect(assess(honestSlap(250, 10))).toMatchObject({ claimedReactionMs: 250, transitMs: 10 });
+  });
+
+  it('catches a timestamp rewound to the human minimum', () => {
+    const assessment = assess(forgedSlap(420, MIN_HUMAN_MS, 20));
+
+    expect(assessment).toMatchObject({
+      verdict: 'BEFORE_NETWORK_ALLOWS',
+      claimedReactionMs: MIN_HUMAN_MS,
+      receivedReactionMs: 440,
+      transitMs: 380,
+    });
+  });
+
+  it('caps the RTT a forger can claim to cover for a rewound timestamp', () => {
+    const rewoundBySeconds = forgedSlap(2_400, MIN_HUMAN_MS, 20, 10_000);
+    const assessment = assess(rewoundBySeconds);
+
+    expect(assessment.allowedTransitMs).toBeLessThan(MAX_CREDITED_RTT_MS + 100);
+    expect(assessment.verdict).toBe('BEFORE_NETWORK_ALLOWS');
+  });
+
+  it('credits no more round trip than the server measured', () => {
+    // A 40ms link claiming a 400ms round trip to cover a tap rewound by 300ms.
+    const padded = forgedSlap(420, 120, 20, 400);
+
+    expect(assess(padded)).toMatchObject({
+      verdict: 'BEFORE_NETWORK_ALLOWS',
+      allowedTransitMs: 125,
+    });
+    expect(assess({ ...padded, measured: { rttMs: 400, jitterMs: 5 } }).verdict).toBe('PLAUSIBLE');
+    expect(
+      assessSlapTiming(padded.claim, WINDOW_START, padded.receivedAt, undefined),
+    ).toMatchObject({
+      allowedTransitMs: 80,
+    });
+  });
+
+  it('rejects taps stamped after the server already had them', () => {
+    expect(assess(forgedSlap(300, 800, 20)).verdict).toBe('AFTER_RECEIPT');
+  });
+
+  it('flags steady forging within two windows but forgives a lone hiccup', () => {
+    const forged = assess(forgedSlap(420, MIN_HUMAN_MS, 20));
+    const honest = assess(honestSlap(300, 20));
+
+    const once = recordSlapAssessment(undefined, forged);
+    expect(once).toEqual({ score: 2, suspiciousSlaps: 1, flagged: false });
+    expect(recordSlapAssessment(recordSlapAssessment(once, honest), honest)).toMatchObject({
+      score: 0,
+      flagged: false,
+    });
+
+    const twice = recordSlapAssessment(once, forged);
+    expect(twice.score).toBeGreaterThanOrEqual(SUSPICION_FLAG_THRESHOLD);
+    expect(twice.flagged).toBe(true);
+    expect(recordSlapAssessment(twice, honest).flagged).toBe(false);
+  });
+
+  it('lets an honest faster slapper beat a flagged forger once ordering falls back', () => {
+    const state = createInitialState({
+      players: [
+        { userId: 'honest', displayName: 'Honest' },
+        { userId: 'forger', displayName: 'Forger' },
+      ],
+      deck: ['TACO', 'CAT', 'GOAT', 'PIZZA'],
+      shuffle: false,
+      nowServerTime: WINDOW_START - 10,
+    });
+    const opened = applyEvent(state, { type: 'FLIP', userId: 'honest' }, WINDOW_START).state;
+    const eventId = opened.slapWindow.eventId!;
+    const honest = honestSlap(300, 20);
+    const forger = forgedSlap(420, MIN_HUMAN_MS, 20);
+    const slap = (userId: string, claim: SlapTimingClaim): EngineEvent => ({
+      type: 'SLAP',
+      userId,
+      eventId,
+      clientSeq: 1,
+      ...claim,
+    });
+
+    const resolveWith = (forgerClaim: SlapTimingClaim) => {
+      const first = applyEvent(opened, slap('honest', honest.claim), honest.receivedAt).state;
+      return applyEvent(first, slap('forger', forgerClaim), forger.receivedAt).effects.find(
+        (effect) => effect.type === 'SLAP_RESULT',
+      );
+    };
+
+    expect(resolveWith(forger.claim)).toMatchObject({ orderedUserIds: ['forger', 'honest'] });
+    expect(resolveWith(serverReceiveTiming(forger.claim, forger.receivedAt))).toMatchObject({
+      orderedUserIds: ['honest', 'forger'],
+      reactionMsByUserId: { honest: 300, forger: 440 },
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import type { RoomPlayer } from '@slaphard/shared';
+import { describe, expect, it } from 'vitest';
+import { autoStartRoster } from '../../src/service/auto-start';
+
+const player = (name: string, ready: boolean, connected = true, bot = false): RoomPlayer => ({
+  userId: name,
+  displayName: name,
+  seatIndex: 0,
+  connected,
+  ready,
+  ...(bot ? { botDifficulty: 'EASY' as const } : {}),
+});
+
+describe('auto-start roster', () => {
+  it('waits until every connected player is ready and enough are seated', () => {
+    expect(autoStartRoster([player('a', true), player('b', false)], 'EXCLUDE')).toBeUndefined();
+    expect(autoStartRoster([player('a', true)], 'BLOCK')).toBeUndefined();
+    expect(
+      autoStartRoster([player('a', true), player('b', true)], 'BLOCK')?.map((p) => p.userId),
+    ).toEqual(['a', 'b']);
+  });
+
+  it('lets disconnected unready players block the start or drops them', () => {
+    const players = [player('a', true), player('b', true), player('c', false, false)];
+
+    expect(autoStartRoster(players, 'BLOCK')).toBeUndefined();
+    expect(autoStartRoster(players, 'EXCLUDE')?.map((p) => p.userId)).toEqual(['a', 'b']);
+  });
+
+  it('never starts a room of bots alone', () => {
+    const players = [
+      player('a', false, false),
+      player('b', true, true, true),
+      player('c', true, true, true),
+    ];
+
+    expect(autoStartRoster(players, 'EXCLUDE')).toBeUndefined();
+  });
+});
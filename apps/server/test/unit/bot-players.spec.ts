@@ -0,0 +1,108 @@
+import { applyEvent, createInitialState } from '@slaphard/engine';
+import type { GameState } from '@slaphard/shared';
+import { describe, expect, it } from 'vitest';
+import { BOT_PROFILES, botDecisionKey, planBotMove } from '../../src/service/bot-players';
+
+const HUMAN = '00000000-0000-4000-8000-000000000001';
+const BOT = '00000000-0000-4000-8000-000000000002';
+const OTHER = '00000000-0000-4000-8000-000000000003';
+
+const createState = (deck: GameState['pile'], firstTurnSeat = 0): GameState =>
+  createInitialState({
+    players: [
+      { userId: HUMAN, displayName: 'Human' },
+      { userId: BOT, displayName: 'Normal Bot 1' },
+      { userId: OTHER, displayName: 'Other' },
+    ],
+    deck,
+    shuffle: false,
+    nowServerTime: 1_000,
+    firstTurnSeat,
+  });
+
+const sequence = (...values: number[]) => {
+  let index = 0;
+  return () => values[index++ % values.length]!;
+};
+
+describe('bot players', () => {
+  it('flips on its own turn within the difficulty delay range', () => {
+    const state = createState(['CAT', 'GOAT', 'CHEESE', 'PIZZA'], 1);
+
+    const move = planBotMove(state, BOT, 'HARD', () => 0.5);
+
+    expect(move?.type).toBe('FLIP');
+    expect(move?.delayMs).toBeGreaterThanOrEqual(BOT_PROFILES.HARD.minFlipDelayMs);
+    expect(move?.delayMs).toBeLessThanOrEqual(BOT_PROFILES.HARD.maxFlipDelayMs);
+  });
+
+  it('slaps an open action window with the matching gesture unless it fumbles', () => {
+    const opened = applyEvent(
+      createState(['GORILLA', 'CAT', 'GOAT', 'PIZZA']),
+      { type: 'FLIP', userId: HUMAN },
+      2_000,
+    );
+    const eventId = opened.state.slapWindow.eventId;
+
+    const clean = planBotMove(opened.state, BOT, 'NORMAL', sequence(0.5, 0.5, 0.99));
+    expect(clean).toMatchObject({ type: 'SLAP', eventId, gesture: 'GORILLA' });
+
+    const fumbled = planBotMove(opened.state, BOT, 'NORMAL', sequence(0.5, 0.5, 0, 0));
+    expect(fumbled).toMatchObject({ type: 'SLAP', eventId });
+    expect(fumbled?.type === 'SLAP' && fumbled.gesture).not.toBe('GORILLA');
+  });
+
+  it('draws reaction times around the difficulty mean', () => {
+    const opened = applyEvent(
+      createState(['TACO', 'CAT', 'GOAT', 'PIZZA']),
+      { type: 'FLIP', userId: HUMAN },
+      2_000,
+    );
+    expect(opened.state.slapWindow.reason).toBe('MATCH');
+
+    // With u2 = 0.25 the Box-Muller cosine term is zero, so the sample is exactly the mean.
+    const easy = planBotMove(opened.state, BOT, 'EASY', sequence(0.5, 0.25));
+    const hard = planBotMove(opened.state, BOT, 'HARD', sequence(0.5, 0.25));
+    expect(easy?.delayMs).toBe(BOT_PROFILES.EASY.reactionMeanMs);
+    expect(hard?.delayMs).toBe(BOT_PROFILES.HARD.reactionMeanMs);
+  });
+
+  it('sometimes false-slaps a card that opened no window', () => {
+    const flipped = applyEvent(
+      createState(['CAT', 'GOAT', 'CAT', 'CHEESE', 'PIZZA', 'GOAT'], 2),
+      { type: 'FLIP', userId: OTHER },
+      2_000,
+    );
+    expect(flipped.state.slapWindow.active).toBe(false);
+
+    expect(planBotMove(flipped.state, BOT, 'EASY', () => 0.99)).toBeUndefined();
+    const twitch = planBotMove(flipped.state, BOT, 'EASY', () => 0);
+    expect(twitch?.type).toBe('SLAP');
+    expect(twitch?.type === 'SLAP' && twitch.eventId).not.toBe(flipped.state.slapWindow.eventId);
+  });
+
+  it('has no decision to make once it already slapped the open window', () => {
+    const opened = applyEvent(
+      createState(['GORILLA', 'CAT', 'GOAT', 'PIZZA']),
+      { type: 'FLIP', userId: HUMAN },
+      2_000,
+    );
+    const slapped = applyEvent(
+      opened.state,
+      {
+        type: 'SLAP',
+        userId: BOT,
+        eventId: opened.state.slapWindow.eventId!,
+        gesture: 'GORILLA',
+        clientSeq: 1,
+        clientTime: 2_400,
+        offsetMs: 0,
+        rttMs: 0,
+      },
+      2_400,
+    );
+
+    expect(botDecisionKey(slapped.state, BOT)).toBeUndefined();
+    expect(planBotMove(slapped.state, BOT, 'HARD')).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { CHAT_HISTORY_LIMIT, type ChatMessage } from '@slaphard/shared';
+import { describe, expect, it } from 'vitest';
+import {
+  CHAT_RATE_LIMIT,
+  CHAT_RATE_WINDOW_MS,
+  admitChatMessage,
+  appendChatMessage,
+  filterProfanity,
+} from '../../src/service/chat';
+
+const message = (index: number): ChatMessage => ({
+  kind: 'TEXT',
+  text: `message ${index}`,
+  messageId: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+  userId: '00000000-0000-4000-8000-000000000001',
+  displayName: 'Alice',
+  sentAt: 1_000 + index,
+});
+
+describe('chat', () => {
+  it('masks profanity through case, leetspeak, stretching and endings', () => {
+    expect(filterProfanity('well SHIT that was fast')).toBe('well **** that was fast');
+    expect(filterProfanity('sh1iiit, FUUUCK and b1tches')).toBe('*******, ****** and *******');
+    expect(filterProfanity('Dickens visits Scunthorpe')).toBe('Dickens visits Scunthorpe');
+  });
+
+  it('admits a burst up to the limit, then frees slots as the window slides', () => {
+    let sentAt: number[] = [];
+    for (let index = 0; index < CHAT_RATE_LIMIT; index += 1) {
+      sentAt = admitChatMessage(sentAt, 10_000 + index * 100)!;
+    }
+
+    expect(admitChatMessage(sentAt, 10_600)).toBeUndefined();
+    expect(admitChatMessage(sentAt, 10_000 + CHAT_RATE_WINDOW_MS)).toHaveLength(CHAT_RATE_LIMIT);
+  });
+
+  it('keeps only the most recent messages', () => {
+    let history: ChatMessage[] | undefined;
+    for (let index = 0; index < CHAT_HISTORY_LIMIT + 5; index += 1) {
+      history = appendChatMessage(history, message(index));
+    }
+
+    expect(history).toHaveLength(CHAT_HISTORY_LIMIT);
+    expect(history?.[0]).toMatchObject({ text: 'message 5' });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CLOCK_SYNC_MIN_CONFIDENCE,
+  CLOCK_SYNC_WINDOW,
+  MAX_CLIENT_HOLD_MS,
+  clockSampleFromExchange,
+  createClockSync,
+  estimateClock,
+  isClientClockConsistent,
+  recordClockSample,
+} from '../../src/service/clock-sync';
+
+/** Server clock minus client clock. */
+const TRUE_OFFSET = 5_000;
+
+/** One pong → echo exchange over a path with the given one-way delays. */
+const exchange = (pongSentAt: number, downMs: number, holdMs: number, upMs: number) => {
+  const pongReceivedAt = pongSentAt + downMs - TRUE_OFFSET;
+  const echoSentAt = pongReceivedAt + holdMs;
+  return clockSampleFromExchange(
+    pongSentAt,
+    pongReceivedAt,
+    echoSentAt,
+    echoSentAt + TRUE_OFFSET + upMs,
+  );
+};
+
+describe('clock sync', () => {
+  it('recovers the offset from an exchange and times the round trip on the server', () => {
+    expect(exchange(100_000, 30, 2, 30)).toEqual({ offsetMs: TRUE_OFFSET, rttMs: 62 });
+    // An asymmetric path skews the offset by half the difference.
+    expect(exchange(100_000, 10, 2, 90)).toEqual({ offsetMs: TRUE_OFFSET + 40, rttMs: 102 });
+  });
+
+  it('drops stamps that contradict the server clock or an echo held back', () => {
+    expect(clockSampleFromExchange(1_000, 2_000, 1_500, 1_100)).toBeUndefined();
+    expect(clockSampleFromExchange(1_000, 2_000, 5_000, 2_000)).toBeUndefined();
+    expect(exchange(100_000, 30, MAX_CLIENT_HOLD_MS + 1, 30)).toBeUndefined();
+  });
+
+  it('ignores client stamps that claim a shorter round trip', () => {
+    // The client stamps receipt and echo at the same instant; the server still saw 300ms.
+    const sample = clockSampleFromExchange(1_000, 3_140, 3_140, 1_300);
+    expect(sample?.rttMs).toBe(300);
+  });
+
+  it('trusts the fastest exchange and gains confidence on a steady link', () => {
+    const sync = createClockSync();
+    expect(estimateClock(sync)).toBeUndefined();
+
+    const delays = [
+      [40, 60],
+      [30, 30],
+      [50, 45],
+      [35, 40],
+    ] as const;
+    delays.forEach(([down, up], index) => {
+      recordClockSample(sync, exchange(100_000 + index * 2_000, down, 0, up)!);
+    });
+
+    const estimate = estimateClock(sync)!;
+    expect(estimate).toMatchObject({ offsetMs: TRUE_OFFSET, rttMs: 83, samples: 4 });
+    expect(estimate.jitterMs).toBeLessThan(20);
+    expect(estimate.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('keeps confidence low with few samples or a jittery link', () => {
+    const single = createClockSync();
+    recordClockSample(single, exchange(100_000, 30, 2, 30)!);
+    expect(estimateClock(single)!.confidence).toBeLessThan(CLOCK_SYNC_MIN_CONFIDENCE);
+
+    const jittery = createClockSync();
+    [20, 400, 30, 350, 25, 380].forEach((upMs, index) => {
+      recordClockSample(jittery, exchange(100_000 + index * 2_000, 20, 2, upMs)!);
+    });
+    expect(estimateClock(jittery)!.confidence).toBeLessThan(CLOCK_SYNC_MIN_CONFIDENCE);
+  });
+
+  it('keeps only the most recent exchanges', () => {
+    const sync = createClockSync();
+    for (let index = 0; index < CLOCK_SYNC_WINDOW + 3; index += 1) {
+      recordClockSample(sync, { offsetMs: index, rttMs: 50 });
+    }
+    expect(sync.samples).toHaveLength(CLOCK_SYNC_WINDOW);
+    expect(sync.samples[0]?.offsetMs).toBe(3);
+  });
+
+  it('cross-checks the client offset within half an RTT plus jitter', () => {
+    const estimate = {
+      offsetMs: TRUE_OFFSET,
+      rttMs: 80,
+      jitterMs: 5,
+      samples: 8,
+      confidence: 1,
+    };
+
+    expect(isClientClockConsistent(estimate, { offsetMs: TRUE_OFFSET + 35, rttMs: 90 })).toBe(true);
+    expect(isClientClockConsistent(estimate, { offsetMs: TRUE_OFFSET - 400, rttMs: 80 })).toBe(
+      false,
+    );
+  });
+});
@@ -51,6 +51,17 @@ describe('parseConfigFromEnv', () => {
     );
   });
 
+  it('fails in production when SESSION_SECRET is missing', () => {
+    const env = baseEnv();
+    env.NODE_ENV = 'production';
+    env.CORS_ORIGINS = 'https://example.com';
+
+    expect(() => parseConfigFromEnv(env)).toThrow('SESSION_SECRET is required in production');
+
+    env.SESSION_SECRET = 'a-production-secret-of-at-least-32-chars';
+    expect(parseConfigFromEnv(env).sessionSecret).toBe(env.SESSION_SECRET);
+  });
+
   it('accepts and normalizes configured CORS_ORIGINS', () => {
     const env = baseEnv();
     env.CORS_ORIGINS = 'https://example.com/, https://api.example.com:8443, https://example.com';
@@ -1,10 +1,32 @@
 import type { Logger } from 'pino';
 import type { Server, Socket } from 'socket.io';
 import { describe, expect, it, vi } from 'vitest';
-import type { MatchEventType, MatchSummary, PersistenceRepository, RoomTransitionType } from '../../src/db/types';
+import type { CreateInitialStateConfig, ReplayLogEntry } from '@slaphard/engine';
+import type {
+  MatchEventType,
+  MatchSummary,
+  OpenMatch,
+  PersistenceRepository,
+  RoomTransitionType,
+  SlapAttemptRecord,
+  StoredMatchReplay,
+} from '../../src/db/types';
+import { BOT_PROFILES } from '../../src/service/bot-players';
+import { CHAT_RATE_LIMIT } from '../../src/service/chat';
 import { GameService } from '../../src/service/game-service';
+import { MatchReplayService } from '../../src/service/match-replay';
+import type { RatingChange, RatingStanding } from '../../src/service/ratings';
+import { SessionTokens } from '../../src/service/session-tokens';
 import { InMemoryRoomStore } from '../../src/store/in-memory-room-store';
-import type { RoomState } from '@slaphard/shared';
+import {
+  AUTO_START_COUNTDOWN_MS,
+  MAX_SPECTATORS,
+  QUICK_MATCH_COUNTDOWN_MS,
+  TOURNAMENT_START_COUNTDOWN_MS,
+  type RoomState,
+  type Tournament,
+  type TournamentMatch,
+} from '@slaphard/shared';
 
 interface EmittedEvent {
   event: string;
@@ -35,6 +57,35 @@ const createIo = () => {
   return { io, sockets };
 };
 
+// Instances of one cluster: each keeps its own sockets, and server-side emits reach the others.
+const createClusterIos = (count: number) => {
+  const handlersByNode: Array<Map<string, (message: unknown) => void>> = [];
+  return Array.from({ length: count }, (_, nodeIndex) => {
+    const sockets = new Map<string, Socket>();
+    const handlers = new Map<string, (message: unknown) => void>();
+    handlersByNode.push(handlers);
+    const io = {
+      to: vi.fn(() => ({
+        emit: vi.fn(),
+      })),
+      sockets: {
+        sockets,
+      },
+      on: vi.fn((event: string, handler: (message: unknown) => void) => {
+        handlers.set(event, handler);
+      }),
+      serverSideEmit: vi.fn((event: string, message: unknown) => {
+        handlersByNode.forEach((peer, peerIndex) => {
+          if (peerIndex !== nodeIndex) {
+            peer.get(event)?.(message);
+          }
+        });
+      }),
+    } as unknown as Server;
+    return { io, sockets };
+  });
+};
+
 const createNoopPersistenceRepo = (): PersistenceRepository => ({
   async upsertRoomMetadata(room: RoomState): Promise<void> {
     void room;
@@ -68,8 +119,82 @@ const createNoopPersistenceRepo = (): PersistenceRepository => ({
     void eventType;
     void payload;
   },
+  async appendReplayEntry(matchId: string, entry: ReplayLogEntry): Promise<void> {
+    void matchId;
+    void entry;
+  },
+  async recordSlapAttempts(matchId: string, attempts: SlapAttemptRecord[]): Promise<void> {
+    void matchId;
+    void attempts;
+  },
+  async getMatchReplay(matchId: string): Promise<StoredMatchReplay | null> {
+    void matchId;
+    return null;
+  },
+  async listOpenMatches(startedBefore: Date): Promise<OpenMatch[]> {
+    void startedBefore;
+    return [];
+  },
+  async getPlayerRatings(playerIds: string[]): Promise<Map<string, number>> {
+    void playerIds;
+    return new Map();
+  },
+  async recordMatchRatings(matchId: string, standings: RatingStanding[]): Promise<RatingChange[]> {
+    void matchId;
+    void standings;
+    return [];
+  },
+  async saveTournament(tournament: Tournament): Promise<void> {
+    void tournament;
+  },
 });
 
+const createReplayRecordingRepo = () => {
+  const matches = new Map<
+    string,
+    {
+      initial: CreateInitialStateConfig;
+      entries: ReplayLogEntry[];
+      winnerUserId: string | null;
+      summary: MatchSummary | null;
+    }
+  >();
+  const repo: PersistenceRepository = {
+    ...createNoopPersistenceRepo(),
+    async startMatch(roomId: string, startedAt: Date, replayInit?: CreateInitialStateConfig): Promise<string> {
+      void startedAt;
+      const matchId = `${roomId}-match-${matches.size + 1}`;
+      if (replayInit) {
+        matches.set(matchId, { initial: replayInit, entries: [], winnerUserId: null, summary: null });
+      }
+      return matchId;
+    },
+    async finishMatch(matchId: string, winnerUserId: string | null, summary: MatchSummary): Promise<void> {
+      const match = matches.get(matchId);
+      if (match) {
+        match.winnerUserId = winnerUserId;
+        match.summary = summary;
+      }
+    },
+    async appendReplayEntry(matchId: string, entry: ReplayLogEntry): Promise<void> {
+      matches.get(matchId)?.entries.push(entry);
+    },
+    async getMatchReplay(matchId: string): Promise<StoredMatchReplay | null> {
+      const match = matches.get(matchId);
+      if (!match) {
+        return null;
+      }
+      return {
+        matchId,
+        winnerUserId: match.winnerUserId,
+        summary: match.summary,
+        log: { initial: match.initial, entries: match.entries },
+      };
+    },
+  };
+  return { repo, matches };
+};
+
 const createFakeSocket = (id: string): FakeSocket => {
   const emitted: EmittedEvent[] = [];
   return {
@@ -91,6 +216,17 @@ const latestRoomPayload = (socket: FakeSocket): { room: { roomId: string; roomCo
   return payload as { room: { roomId: string; roomCode: string } };
 };
 
+/** Answers four pongs right away, from a client clock `clockOffset` behind the server's. */
+const syncClock = async (service: GameService, socket: FakeSocket, clockOffset: number) => {
+  for (let exchange = 0; exchange < 4; exchange += 1) {
+    await service.ping(socket, { clientTime: Date.now() - clockOffset });
+    const { serverTime } = [...socket.emitted].reverse().find((entry) => entry.event === 'v1:pong')!
+      .payload as { serverTime: number };
+    const receivedAt = Date.now() - clockOffset;
+    await service.echoClock(socket, { serverTime, receivedAt, sentAt: receivedAt });
+  }
+};
+
 const setupGame = async () => {
   const { io, sockets } = createIo();
   const logger = createLogger();
@@ -119,7 +255,7 @@ const setupGame = async () => {
     }
   }
 
-  return { service, store, host, roomId: roomPayload.room.roomId };
+  return { service, store, sockets, host, roomId: roomPayload.room.roomId };
 };
 
 describe('GameService timer/resync reliability', () => {
@@ -162,3 +298,1447 @@ describe('GameService timer/resync reliability', () => {
     (service as unknown as { clearTimers: (roomId: string) => void }).clearTimers(roomId);
   });
 });
+
+describe('GameService spectators', () => {
+  it('lets a spectator watch mid-game without a hand and take a free seat back in the lobby', async () => {
+    const { service, store, sockets, host, roomId } = await setupGame();
+    const roomCode = latestRoomPayload(host).room.roomCode;
+    const watcher = createFakeSocket('watcher-socket');
+    sockets.set(watcher.id, watcher);
+
+    await service.spectateRoom(watcher, { roomCode, displayName: 'Watcher' });
+
+    const { room, meUserId } = latestRoomPayload(watcher) as unknown as {
+      room: { players: Array<{ userId: string }>; spectators: Array<{ userId: string; displayName: string }> };
+      meUserId: string;
+    };
+    expect(room.players.some((player) => player.userId === meUserId)).toBe(false);
+    expect(room.spectators).toEqual([{ userId: meUserId, displayName: 'Watcher', connected: true }]);
+
+    const snapshot = (
+      watcher.emitted.find((entry) => entry.event === 'v1:game.state')?.payload as
+        | { snapshot: { meHand?: string[]; players: Array<{ handCount: number }> } }
+        | undefined
+    )?.snapshot;
+    expect(snapshot).toBeDefined();
+    expect(snapshot?.meHand).toBeUndefined();
+    expect(snapshot?.players.every((player) => player.handCount > 0)).toBe(true);
+
+    await expect(service.flip(watcher, { clientSeq: 1, clientTime: Date.now() })).rejects.toMatchObject({
+      code: 'NOT_A_PLAYER',
+    });
+    await expect(service.takeSeat(watcher, {})).rejects.toMatchObject({ code: 'NOT_IN_LOBBY' });
+
+    await service.stopGame(host);
+    await service.takeSeat(watcher, {});
+
+    const lobby = await store.getRoomById(roomId);
+    expect(lobby?.spectators).toEqual([]);
+    expect(lobby?.players.map((player) => player.userId)).toContain(meUserId);
+    expect(lobby?.players.find((player) => player.userId === meUserId)?.seatIndex).toBe(2);
+  });
+});
+
+describe('GameService sessions', () => {
+  it('rejoins a seat only with a session token signed for that room', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const tokens = new SessionTokens('test-secret-with-at-least-32-characters');
+    const service = new GameService(io, store, createNoopPersistenceRepo(), createLogger(), tokens);
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    const intruder = createFakeSocket('intruder-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+    sockets.set(intruder.id, intruder);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    const hostSession = latestRoomPayload(host) as unknown as {
+      meUserId: string;
+      sessionToken: string;
+    };
+    expect(tokens.verify(hostSession.sessionToken)).toMatchObject({
+      userId: hostSession.meUserId,
+      roomId,
+    });
+
+    const forged = tokens.issue(hostSession.meUserId, '00000000-0000-4000-8000-000000000000');
+    await expect(
+      service.joinRoom(intruder, { roomCode, displayName: 'Intruder', sessionToken: forged }),
+    ).rejects.toMatchObject({ code: 'INVALID_SESSION' });
+    const [payload] = hostSession.sessionToken.split('.');
+    await expect(
+      service.joinRoom(intruder, {
+        roomCode,
+        displayName: 'Intruder',
+        sessionToken: `${payload}.bad`,
+      }),
+    ).rejects.toMatchObject({ code: 'INVALID_SESSION' });
+
+    await service.handleDisconnect(host);
+    await service.joinRoom(guest, {
+      roomCode,
+      displayName: 'Host',
+      sessionToken: hostSession.sessionToken,
+    });
+    const rejoined = latestRoomPayload(guest) as unknown as { meUserId: string };
+    expect(rejoined.meUserId).toBe(hostSession.meUserId);
+    expect((await store.getRoomById(roomId))?.players).toHaveLength(1);
+  });
+});
+
+describe('GameService host controls', () => {
+  const setupRoom = async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const repo = createNoopPersistenceRepo();
+    const snapshots = vi.spyOn(repo, 'writeRoomSnapshot');
+    const service = new GameService(io, store, repo, createLogger());
+    const [host, guest, third] = ['host', 'guest', 'third'].map((name) => {
+      const socket = createFakeSocket(`${name}-socket`);
+      sockets.set(socket.id, socket);
+      return socket;
+    }) as [FakeSocket, FakeSocket, FakeSocket];
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    await service.joinRoom(third, { roomCode, displayName: 'Third' });
+    const session = (socket: FakeSocket) =>
+      latestRoomPayload(socket) as unknown as { meUserId: string; sessionToken: string };
+    const transitions = () => snapshots.mock.calls.map(([, transitionType]) => transitionType);
+    return { service, store, host, guest, third, roomId, roomCode, session, transitions };
+  };
+
+  it('kicks mid-game, dealing the hand out and freeing the seat back in the lobby', async () => {
+    const { service, store, host, guest, roomId, roomCode, session, transitions } =
+      await setupRoom();
+    const guestSession = session(guest);
+    const rejoin = { roomCode, displayName: 'Guest', sessionToken: guestSession.sessionToken };
+    await service.startGame(host);
+    const cardsInPlay = (await store.getRoomById(roomId))!.gameState!.players.reduce(
+      (total, player) => total + player.hand.length,
+      0,
+    );
+
+    await service.kickPlayer(host, { userId: guestSession.meUserId, hand: 'DEAL' });
+
+    expect(guest.emitted.some((entry) => entry.event === 'v1:room.kicked')).toBe(true);
+    const room = (await store.getRoomById(roomId))!;
+    expect(room.players[1]).toMatchObject({ kicked: true, connected: false });
+    const kicked = room.gameState!.players[1]!;
+    expect(kicked).toMatchObject({ forfeited: true, hand: [] });
+    expect(room.gameState!.players.reduce((total, player) => total + player.hand.length, 0)).toBe(
+      cardsInPlay,
+    );
+    expect(transitions()).toContain('KICK');
+    await expect(service.joinRoom(guest, rejoin)).rejects.toMatchObject({ code: 'NOT_IN_LOBBY' });
+
+    await service.stopGame(host);
+    expect((await store.getRoomById(roomId))!.players.map((player) => player.displayName)).toEqual([
+      'Host',
+      'Third',
+    ]);
+  });
+
+  it('bans, locks and hands over the room', async () => {
+    const { service, store, host, guest, third, roomId, roomCode, session, transitions } =
+      await setupRoom();
+    const guestSession = session(guest);
+    const rejoin = { roomCode, displayName: 'Guest', sessionToken: guestSession.sessionToken };
+    await service.setReady(guest, { ready: true });
+
+    await service.kickPlayer(host, { userId: guestSession.meUserId, ban: true });
+    await expect(service.joinRoom(guest, rejoin)).rejects.toMatchObject({ code: 'BANNED' });
+    expect(latestRoomPayload(host).room.bans).toEqual([
+      expect.objectContaining({ userId: guestSession.meUserId, displayName: 'Guest' }),
+    ]);
+    expect(latestRoomPayload(third).room).not.toHaveProperty('bans');
+    await service.unbanPlayer(host, { userId: guestSession.meUserId });
+
+    await service.setRoomLock(host, { locked: true });
+    const fresh = { roomCode, displayName: 'Guest' };
+    await expect(service.joinRoom(guest, fresh)).rejects.toMatchObject({ code: 'ROOM_LOCKED' });
+    await service.setRoomLock(host, { locked: false });
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+
+    const thirdUserId = session(third).meUserId;
+    await expect(service.transferHost(guest, { userId: thirdUserId })).rejects.toMatchObject({
+      code: 'NOT_HOST',
+    });
+    await service.transferHost(host, { userId: thirdUserId });
+    expect((await store.getRoomById(roomId))!.hostUserId).toBe(thirdUserId);
+    await expect(service.setRoomLock(host, { locked: true })).rejects.toMatchObject({
+      code: 'NOT_HOST',
+    });
+
+    expect(transitions()).toEqual(
+      expect.arrayContaining(['BAN', 'UNBAN', 'LOCK', 'UNLOCK', 'HOST_TRANSFER']),
+    );
+  });
+
+  it('hands the host to the longest-connected player once a dropped host times out', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, host, guest, third, roomId, roomCode, session, transitions } =
+        await setupRoom();
+      const rejoin = (socket: FakeSocket, displayName: string) => ({
+        roomCode,
+        displayName,
+        sessionToken: session(socket).sessionToken,
+      });
+      const hostRejoin = rejoin(host, 'Host');
+      const guestRejoin = rejoin(guest, 'Guest');
+      const thirdUserId = session(third).meUserId;
+      await service.configureRoom(host, { hostMigrationMs: 5_000 });
+      await service.startGame(host);
+
+      // Reconnecting restarts the guest's connection, so the third player has held theirs longest.
+      await vi.advanceTimersByTimeAsync(1_000);
+      await service.handleDisconnect(guest);
+      await service.joinRoom(guest, guestRejoin);
+
+      await service.handleDisconnect(host);
+      expect((await store.getRoomById(roomId))!.hostMigrationDeadline).toBe(Date.now() + 5_000);
+      await vi.advanceTimersByTimeAsync(3_000);
+      await service.joinRoom(host, hostRejoin);
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect((await store.getRoomById(roomId))!.hostUserId).toBe(session(host).meUserId);
+
+      await service.handleDisconnect(host);
+      await vi.advanceTimersByTimeAsync(5_000);
+      const migrated = (await store.getRoomById(roomId))!;
+      expect(migrated.hostUserId).toBe(thirdUserId);
+      expect(migrated.hostMigrationDeadline).toBeUndefined();
+      expect(latestRoomPayload(third).room.hostUserId).toBe(thirdUserId);
+      expect(transitions()).toContain('HOST_MIGRATION');
+
+      await service.stopGame(third);
+      expect((await store.getRoomById(roomId))!.status).toBe('LOBBY');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('GameService player accounts', () => {
+  it('attaches an account to one seat per room and records it with the match', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const tokens = new SessionTokens('test-secret-with-at-least-32-characters');
+    const repo = createNoopPersistenceRepo();
+    const startMatch = vi.spyOn(repo, 'startMatch');
+    const service = new GameService(io, store, repo, createLogger(), tokens);
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+    const hostPlayerId = '00000000-0000-4000-8000-0000000000a1';
+    const hostAccount = tokens.issueAccount(hostPlayerId);
+
+    await service.createRoom(host, { displayName: 'Host', accountToken: hostAccount });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await expect(
+      service.joinRoom(guest, { roomCode, displayName: 'Guest', accountToken: hostAccount }),
+    ).rejects.toMatchObject({ code: 'INVALID_TARGET' });
+    await expect(
+      service.joinRoom(guest, { roomCode, displayName: 'Guest', accountToken: 'forged.token' }),
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+
+    const lobby = await store.getRoomById(roomId);
+    expect(lobby?.players.map((player) => player.playerId)).toEqual([hostPlayerId, undefined]);
+
+    await service.startGame(host);
+    expect(startMatch).toHaveBeenCalledWith(roomId, expect.any(Date), expect.anything(), [
+      {
+        playerId: hostPlayerId,
+        userId: lobby!.players[0]!.userId,
+        displayName: 'Host',
+        seatIndex: 0,
+      },
+    ]);
+    await service.stopGame(host);
+  });
+
+  it('rates finished matches from final placings but not stopped ones', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const tokens = new SessionTokens('test-secret-with-at-least-32-characters');
+    const hostPlayerId = '00000000-0000-4000-8000-0000000000a1';
+    const repo = createNoopPersistenceRepo();
+    repo.getPlayerRatings = async () => new Map([[hostPlayerId, 1510]]);
+    const recordMatchRatings = vi.spyOn(repo, 'recordMatchRatings').mockResolvedValue([
+      { playerId: hostPlayerId, ratingBefore: 1510, ratingAfter: 1526, place: 1 },
+    ]);
+    const service = new GameService(io, store, repo, createLogger(), tokens);
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, {
+      displayName: 'Host',
+      accountToken: tokens.issueAccount(hostPlayerId),
+    });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    expect((await store.getRoomById(roomId))?.players[0]?.rating).toBe(1510);
+
+    await service.startGame(host);
+    await service.stopGame(host);
+    expect(recordMatchRatings).not.toHaveBeenCalled();
+
+    await service.startGame(host);
+    const room = await store.getRoomById(roomId);
+    const hostPlayer = room!.gameState!.players[0]!;
+    hostPlayer.hand = ['CAT'];
+    room!.gameState!.currentTurnSeat = hostPlayer.seatIndex;
+    await store.saveRoom(room!);
+    (service as unknown as { lastInputAtBySocketId: Map<string, number> }).lastInputAtBySocketId.clear();
+    await service.flip(host, { clientSeq: 1, clientTime: Date.now() });
+
+    expect(recordMatchRatings).toHaveBeenCalledWith('noop-match', [
+      { playerId: hostPlayerId, place: 1 },
+      { playerId: undefined, place: 2 },
+    ]);
+    const finished = await store.getRoomById(roomId);
+    expect(finished?.status).toBe('FINISHED');
+    expect(finished?.players[0]?.rating).toBe(1526);
+  });
+});
+
+describe('GameService anti-cheat', () => {
+  it('logs forged slap timing and ranks a flagged player by server receive time', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const repo = createNoopPersistenceRepo();
+    const appendMatchEvent = vi.spyOn(repo, 'appendMatchEvent');
+    const service = new GameService(io, store, repo, createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    const guestUserId = (latestRoomPayload(guest) as unknown as { meUserId: string }).meUserId;
+    await service.startGame(host);
+    await syncClock(service, guest, 0);
+
+    // A slap window that opened 400ms ago, and a guest already suspicious from an earlier window.
+    const eventId = '00000000-0000-4000-8000-0000000000e1';
+    const startServerTime = Date.now() - 400;
+    const room = await store.getRoomById(roomId);
+    room!.gameState!.slapWindow = {
+      active: true,
+      eventId,
+      reason: 'MATCH',
+      startServerTime,
+      deadlineServerTime: startServerTime + 2_000,
+      slapWindowMs: 2_000,
+      flipperSeat: 0,
+      receivedSlapsCount: 0,
+      attempts: [],
+      resolved: false,
+    };
+    room!.slapSuspicion = { [guestUserId]: { score: 2, suspiciousSlaps: 1, flagged: false } };
+    await store.saveRoom(room!);
+
+    await service.slap(guest, {
+      eventId,
+      clientSeq: 1,
+      clientTime: startServerTime + 60,
+      offsetMs: 0,
+      rttMs: 20,
+    });
+
+    expect(appendMatchEvent).toHaveBeenCalledWith(
+      'noop-match',
+      'ANTI_CHEAT',
+      expect.objectContaining({
+        userId: guestUserId,
+        eventId,
+        verdict: 'BEFORE_NETWORK_ALLOWS',
+        claimedReactionMs: 60,
+        flagged: true,
+      }),
+    );
+    const after = await store.getRoomById(roomId);
+    expect(after?.slapSuspicion?.[guestUserId]).toMatchObject({ suspiciousSlaps: 2, flagged: true });
+    const [attempt] = after!.gameState!.slapWindow.attempts;
+    expect(attempt!.clientTime + attempt!.offsetMs).toBe(attempt!.receivedAtServerTime);
+    await service.stopGame(host);
+  });
+
+  it('records nothing for a slap the engine turns away', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const repo = createNoopPersistenceRepo();
+    const appendMatchEvent = vi.spyOn(repo, 'appendMatchEvent');
+    const service = new GameService(io, store, repo, createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    const guestUserId = (latestRoomPayload(guest) as unknown as { meUserId: string }).meUserId;
+    await service.startGame(host);
+    await syncClock(service, guest, 0);
+
+    // A forged tap from a guest the engine already knocked out.
+    const eventId = '00000000-0000-4000-8000-0000000000e4';
+    const startServerTime = Date.now() - 400;
+    const room = await store.getRoomById(roomId);
+    room!.gameState!.slapWindow = {
+      active: true,
+      eventId,
+      reason: 'MATCH',
+      startServerTime,
+      deadlineServerTime: startServerTime + 2_000,
+      slapWindowMs: 2_000,
+      flipperSeat: 0,
+      receivedSlapsCount: 0,
+      attempts: [],
+      resolved: false,
+    };
+    room!.gameState!.players.find((player) => player.userId === guestUserId)!.eliminated = true;
+    await store.saveRoom(room!);
+
+    await expect(
+      service.slap(guest, {
+        eventId,
+        clientSeq: 1,
+        clientTime: startServerTime + 60,
+        offsetMs: 0,
+        rttMs: 20,
+      }),
+    ).rejects.toMatchObject({ code: 'NOT_A_PLAYER' });
+
+    expect(appendMatchEvent).not.toHaveBeenCalledWith(
+      'noop-match',
+      'ANTI_CHEAT',
+      expect.anything(),
+    );
+    expect((await store.getRoomById(roomId))?.slapSuspicion?.[guestUserId]).toBeUndefined();
+    await service.stopGame(host);
+  });
+});
+
+describe('GameService clock sync', () => {
+  it('orders slaps by its own ping/pong clock estimate once confident', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const repo = createNoopPersistenceRepo();
+    const appendMatchEvent = vi.spyOn(repo, 'appendMatchEvent');
+    const service = new GameService(io, store, repo, createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    await service.startGame(host);
+
+    // The guest's clock runs 3s behind the server.
+    const clockOffset = 3_000;
+    await syncClock(service, guest, clockOffset);
+
+    const eventId = '00000000-0000-4000-8000-0000000000e2';
+    const startServerTime = Date.now() - 350;
+    const room = await store.getRoomById(roomId);
+    room!.gameState!.slapWindow = {
+      active: true,
+      eventId,
+      reason: 'MATCH',
+      startServerTime,
+      deadlineServerTime: startServerTime + 2_000,
+      slapWindowMs: 2_000,
+      flipperSeat: 0,
+      receivedSlapsCount: 0,
+      attempts: [],
+      resolved: false,
+    };
+    await store.saveRoom(room!);
+
+    // The slap carries a bogus client offset; the server's estimate replaces it and anti-cheat
+    // hears about the mismatch.
+    await service.slap(guest, {
+      eventId,
+      clientSeq: 1,
+      clientTime: startServerTime + 300 - clockOffset,
+      offsetMs: 0,
+      rttMs: 0,
+    });
+
+    const [attempt] = (await store.getRoomById(roomId))!.gameState!.slapWindow.attempts;
+    expect(Math.abs(attempt!.offsetMs - clockOffset)).toBeLessThanOrEqual(5);
+    expect(appendMatchEvent).toHaveBeenCalledWith(
+      'noop-match',
+      'ANTI_CHEAT',
+      expect.objectContaining({ verdict: 'CLOCK_MISMATCH', clientOffsetMs: 0 }),
+    );
+    await service.stopGame(host);
+  });
+
+  it('ranks slaps by receive time until its estimate is confident', async () => {
+    const { service, store, sockets, host, roomId } = await setupGame();
+    const guest = sockets.get('guest-socket')!;
+    await service.ping(guest, { clientTime: Date.now() });
+
+    const eventId = '00000000-0000-4000-8000-0000000000e3';
+    const startServerTime = Date.now() - 350;
+    const room = await store.getRoomById(roomId);
+    room!.gameState!.slapWindow = {
+      active: true,
+      eventId,
+      reason: 'MATCH',
+      startServerTime,
+      deadlineServerTime: startServerTime + 2_000,
+      slapWindowMs: 2_000,
+      flipperSeat: 0,
+      receivedSlapsCount: 0,
+      attempts: [],
+      resolved: false,
+    };
+    await store.saveRoom(room!);
+
+    // An unsynced client claims a tap 200ms into the window and a fast link.
+    await service.slap(guest, {
+      eventId,
+      clientSeq: 1,
+      clientTime: startServerTime + 200,
+      offsetMs: 0,
+      rttMs: 0,
+    });
+
+    const [attempt] = (await store.getRoomById(roomId))!.gameState!.slapWindow.attempts;
+    expect(attempt!.clientTime + attempt!.offsetMs).toBe(attempt!.receivedAtServerTime);
+    await service.stopGame(host);
+  });
+});
+
+describe('GameService chat', () => {
+  it('filters, rate limits and replays chat, and lets the host mute', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const service = new GameService(io, store, createNoopPersistenceRepo(), createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    const watcher = createFakeSocket('watcher-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+    sockets.set(watcher.id, watcher);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    const guestUserId = (await store.getRoomById(roomId))!.players[1]!.userId;
+
+    await service.sendChat(guest, { kind: 'TEXT', text: '  well shit  ' });
+    const broadcast = vi.mocked(io.to).mock.results.at(-1)?.value as { emit: ReturnType<typeof vi.fn> };
+    expect(broadcast.emit).toHaveBeenCalledWith(
+      'v1:chat.message',
+      expect.objectContaining({ kind: 'TEXT', text: 'well ****', displayName: 'Guest' }),
+    );
+
+    for (let sent = 1; sent < CHAT_RATE_LIMIT; sent += 1) {
+      await service.sendChat(guest, { kind: 'EMOTE', emote: 'CLAP' });
+    }
+    await expect(service.sendChat(guest, { kind: 'EMOTE', emote: 'FIRE' })).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+    });
+
+    await service.spectateRoom(watcher, { roomCode, displayName: 'Watcher' });
+    const history = watcher.emitted.find((entry) => entry.event === 'v1:chat.history')?.payload as {
+      messages: Array<{ userId: string }>;
+    };
+    expect(history.messages).toHaveLength(CHAT_RATE_LIMIT);
+
+    await expect(service.setChatMute(guest, { userId: guestUserId, muted: true })).rejects.toMatchObject({
+      code: 'NOT_HOST',
+    });
+    await service.setChatMute(host, { userId: guestUserId, muted: true });
+    expect(latestRoomPayload(guest).room).toMatchObject({ chatMutedUserIds: [guestUserId] });
+    await expect(service.sendChat(guest, { kind: 'TEXT', text: 'hello?' })).rejects.toMatchObject({
+      code: 'CHAT_MUTED',
+    });
+  });
+});
+
+describe('GameService across instances', () => {
+  const setupCluster = () => {
+    const [nodeA, nodeB] = createClusterIos(2);
+    const store = new InMemoryRoomStore();
+    const { repo, matches } = createReplayRecordingRepo();
+    const create = (node: NonNullable<typeof nodeA>, nodeId: string) =>
+      new GameService(node.io, store, repo, createLogger(), undefined, { nodeId, clustered: true });
+    const connect = (node: NonNullable<typeof nodeA>, id: string) => {
+      const socket = createFakeSocket(id);
+      node.sockets.set(id, socket);
+      return socket;
+    };
+    return {
+      a: create(nodeA!, 'node-a'),
+      b: create(nodeB!, 'node-b'),
+      store,
+      matches,
+      connectA: (id: string) => connect(nodeA!, id),
+      connectB: (id: string) => connect(nodeB!, id),
+    };
+  };
+
+  const meUserId = (socket: FakeSocket) =>
+    (latestRoomPayload(socket) as unknown as { meUserId: string }).meUserId;
+
+  it('serializes joins from two instances and pushes changes to the other one', async () => {
+    const { a, b, store, connectA, connectB } = setupCluster();
+    const host = connectA('host-socket');
+    const first = connectB('first-socket');
+    const second = connectA('second-socket');
+
+    await a.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await Promise.all([
+      b.joinRoom(first, { roomCode, displayName: 'First' }),
+      a.joinRoom(second, { roomCode, displayName: 'Second' }),
+    ]);
+
+    const room = await store.getRoomById(roomId);
+    expect(room?.players.map((player) => player.seatIndex)).toEqual([0, 1, 2]);
+    expect(new Set(room?.players.map((player) => player.displayName))).toEqual(
+      new Set(['Host', 'First', 'Second']),
+    );
+
+    await a.setReady(host, { ready: true });
+    await vi.waitFor(() => {
+      const seen = latestRoomPayload(first) as unknown as { room: RoomState };
+      expect(seen.room.players.find((player) => player.displayName === 'Host')?.ready).toBe(true);
+    });
+  });
+
+  it('matches quick-match players queued on different instances', async () => {
+    const { a, b, store, connectA, connectB } = setupCluster();
+    const first = connectA('first-socket');
+    const second = connectB('second-socket');
+
+    await a.queueQuickMatch(first, { displayName: 'First', size: 2 });
+    expect(
+      [...first.emitted].reverse().find((entry) => entry.event === 'v1:match.queued')?.payload,
+    ).toEqual({ size: 2, waiting: 1 });
+    await b.queueQuickMatch(second, { displayName: 'Second', size: 2 });
+
+    const { roomId } = latestRoomPayload(second).room;
+    const formed = (await store.getRoomById(roomId))!;
+    expect(formed.players.map((player) => [player.displayName, player.connected])).toEqual([
+      ['First', true],
+      ['Second', true],
+    ]);
+    expect((await store.getQuickMatchQueue()).waiting).toEqual([]);
+    await vi.waitFor(() => {
+      expect(latestRoomPayload(first).room.roomId).toBe(roomId);
+    });
+
+    await a.setReady(first, { ready: true });
+    await b.setReady(second, { ready: true });
+    expect((await store.getRoomById(roomId))!.status).toBe('IN_GAME');
+  });
+
+  it('hands the timer lease to the instance that applied the latest event', async () => {
+    const { a, b, store, matches, connectA, connectB } = setupCluster();
+    const host = connectA('host-socket');
+    const guest = connectB('guest-socket');
+
+    await a.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await b.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    await a.startGame(host);
+    expect(await store.getTimerLease(roomId)).toMatch(/^node-a:/);
+
+    const room = await store.getRoomById(roomId);
+    const players = room!.gameState!.players;
+    const hostPlayer = players.find((player) => player.userId === meUserId(host))!;
+    const guestPlayer = players.find((player) => player.userId === meUserId(guest))!;
+    hostPlayer.hand = ['GOAT', 'TACO', 'CHEESE'];
+    guestPlayer.hand = ['PIZZA', 'CHEESE', 'CAT'];
+    room!.gameState!.currentTurnSeat = guestPlayer.seatIndex;
+    room!.gameState!.chantIndex = 0;
+    await store.saveRoom(room!);
+
+    type Timers = {
+      timerGenerationByRoomId: Map<string, number>;
+      resolveTurnTimeout: (roomId: string, generation?: number) => Promise<void>;
+    };
+    const generationOf = (service: GameService) =>
+      (service as unknown as Timers).timerGenerationByRoomId.get(roomId) ?? 0;
+    const staleGeneration = generationOf(a);
+
+    await b.flip(guest, { clientSeq: 1, clientTime: Date.now() });
+    expect(await store.getTimerLease(roomId)).toBe(`node-b:${generationOf(b)}`);
+
+    const afterFlip = await store.getRoomById(roomId);
+    await (a as unknown as Timers).resolveTurnTimeout(roomId, staleGeneration);
+    expect((await store.getRoomById(roomId))?.version).toBe(afterFlip?.version);
+
+    await a.flip(host, { clientSeq: 1, clientTime: Date.now() });
+    expect(await store.getTimerLease(roomId)).toMatch(/^node-a:/);
+
+    const [match] = [...matches.values()];
+    const logged = match?.entries.map((entry) => [
+      entry.seq,
+      entry.type === 'ENGINE_EVENT' && entry.event.type,
+    ]);
+    expect(logged).toEqual([
+      [0, 'FLIP'],
+      [1, 'FLIP'],
+    ]);
+  });
+});
+
+describe('GameService crash recovery', () => {
+  it('re-arms the turn timer, relinks the open match and closes orphaned ones', async () => {
+    vi.useFakeTimers();
+    try {
+      const store = new InMemoryRoomStore();
+      const { repo, matches } = createReplayRecordingRepo();
+      const { io, sockets } = createIo();
+      const crashed = new GameService(io, store, repo, createLogger());
+      const host = createFakeSocket('host-socket');
+      const guest = createFakeSocket('guest-socket');
+      sockets.set(host.id, host);
+      sockets.set(guest.id, guest);
+
+      await crashed.createRoom(host, { displayName: 'Host' });
+      const { roomId, roomCode } = latestRoomPayload(host).room;
+      await crashed.joinRoom(guest, { roomCode, displayName: 'Guest' });
+      await crashed.startGame(host);
+      // The process dies with its timers; the room was saved before matches lived on it.
+      vi.clearAllTimers();
+      const room = (await store.getRoomById(roomId))!;
+      const matchId = room.activeMatch!.matchId;
+      delete room.activeMatch;
+      await store.saveRoom(room);
+
+      const finishMatch = vi.fn(repo.finishMatch);
+      const restarted = new GameService(
+        createIo().io,
+        store,
+        {
+          ...repo,
+          finishMatch,
+          async listOpenMatches(): Promise<OpenMatch[]> {
+            return [
+              { matchId, roomId, roomCode, nextReplaySeq: 0 },
+              {
+                matchId: 'orphan-match',
+                roomId: '00000000-0000-4000-8000-00000000dead',
+                roomCode: 'GONE99',
+                nextReplaySeq: 4,
+              },
+            ];
+          },
+        },
+        createLogger(),
+      );
+      await restarted.recoverRooms();
+
+      expect((await store.getRoomById(roomId))?.activeMatch).toEqual({ matchId, replaySeq: 0 });
+      expect(finishMatch).toHaveBeenCalledOnce();
+      expect(finishMatch).toHaveBeenCalledWith(
+        'orphan-match',
+        null,
+        expect.objectContaining({ roomCode: 'GONE99', reason: 'SERVER_RESTART' }),
+        expect.any(Date),
+      );
+
+      await vi.advanceTimersByTimeAsync(room.rules.turnTimeoutMs);
+      const logged = matches.get(matchId)?.entries.map((entry) => [
+        entry.seq,
+        entry.type === 'ENGINE_EVENT' && entry.event.type,
+      ]);
+      expect(logged).toEqual([[0, 'TURN_TIMEOUT']]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('GameService room rules', () => {
+  it('applies host-configured rules to the next game and rejects out-of-bounds or non-host changes', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const service = new GameService(io, store, createNoopPersistenceRepo(), createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+
+    await service.configureRoom(host, {
+      slapWindowMs: 1200,
+      sameCardSlaps: false,
+      deck: { custom: { TACO: 3, CAT: 3, GOAT: 0, CHEESE: 0, PIZZA: 0, GORILLA: 1, NARWHAL: 1, GROUNDHOG: 0 } },
+    });
+    const guestView = latestRoomPayload(guest) as unknown as { room: { rules: { slapWindowMs: number } } };
+    expect(guestView.room.rules.slapWindowMs).toBe(1200);
+
+    await expect(service.configureRoom(guest, { slapWindowMs: 1500 })).rejects.toMatchObject({ code: 'NOT_HOST' });
+    await expect(service.configureRoom(host, { slapWindowMs: 50 })).rejects.toMatchObject({
+      code: 'INVALID_RULES',
+    });
+
+    await service.configureRoom(host, {
+      deck: { custom: { TACO: 5, CAT: 0, GOAT: 0, CHEESE: 0, PIZZA: 0, GORILLA: 0, NARWHAL: 0, GROUNDHOG: 0 } },
+    });
+    await expect(service.startGame(host)).rejects.toMatchObject({ code: 'INVALID_RULES' });
+    await service.configureRoom(host, {
+      deck: { custom: { TACO: 3, CAT: 3, GOAT: 0, CHEESE: 0, PIZZA: 0, GORILLA: 1, NARWHAL: 1, GROUNDHOG: 0 } },
+    });
+
+    await service.startGame(host);
+    const started = await store.getRoomById(roomId);
+    expect(started?.gameState?.config).toMatchObject({ slapWindowMs: 1200, sameCardSlaps: false });
+    const dealt = started?.gameState?.players.flatMap((player) => player.hand) ?? [];
+    expect(dealt).toHaveLength(8);
+    expect(dealt).not.toContain('GOAT');
+    await service.stopGame(host);
+  });
+
+  it('deals team play to equal alternating sides and records teams with the match', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const repo = createNoopPersistenceRepo();
+    const finishMatch = vi.fn(repo.finishMatch);
+    const service = new GameService(io, store, { ...repo, finishMatch }, createLogger());
+    const [host, ...guests] = ['host', 'g1', 'g2', 'g3'].map((name) => {
+      const socket = createFakeSocket(`${name}-socket`);
+      sockets.set(socket.id, socket);
+      return socket;
+    }) as [FakeSocket, FakeSocket, FakeSocket, FakeSocket];
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.configureRoom(host, { teamMode: 'ALL_MEMBERS' });
+    await service.joinRoom(guests[0], { roomCode, displayName: 'Guest 1' });
+    await service.joinRoom(guests[1], { roomCode, displayName: 'Guest 2' });
+    await expect(service.startGame(host)).rejects.toMatchObject({ code: 'INVALID_RULES' });
+
+    await service.joinRoom(guests[2], { roomCode, displayName: 'Guest 3' });
+    await service.startGame(host);
+    const started = await store.getRoomById(roomId);
+    expect(started?.gameState?.config.teamMode).toBe('ALL_MEMBERS');
+    const view = [...host.emitted].reverse().find((entry) => entry.event === 'v1:game.state')
+      ?.payload as { snapshot: { players: Array<{ teamId?: number }> } };
+    expect(view.snapshot.players.map((player) => player.teamId)).toEqual([0, 1, 0, 1]);
+
+    await service.stopGame(host);
+    const summary = finishMatch.mock.calls[0]?.[2];
+    expect(summary?.players.map((player) => player.teamId)).toEqual([0, 1, 0, 1]);
+  });
+
+  it('runs elimination rules in the engine and records knockouts with the match', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const repo = createNoopPersistenceRepo();
+    const appendMatchEvent = vi.spyOn(repo, 'appendMatchEvent');
+    const finishMatch = vi.fn(repo.finishMatch);
+    const service = new GameService(io, store, { ...repo, finishMatch }, createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    const hostUserId = (latestRoomPayload(host) as unknown as { meUserId: string }).meUserId;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    await service.configureRoom(host, { eliminationCardThreshold: 3 });
+    await service.startGame(host);
+
+    const room = await store.getRoomById(roomId);
+    expect(room?.gameState?.config).toMatchObject({
+      eliminationCardThreshold: 3,
+      eliminationRounds: 0,
+    });
+    room!.gameState!.pile = ['TACO'];
+    room!.gameState!.pileCount = 1;
+    await store.saveRoom(room!);
+
+    await service.slap(host, {
+      eventId: '00000000-0000-4000-8000-0000000000e1',
+      clientSeq: 1,
+      clientTime: Date.now(),
+      offsetMs: 0,
+      rttMs: 20,
+    });
+
+    expect(appendMatchEvent).toHaveBeenCalledWith(
+      'noop-match',
+      'ELIMINATION',
+      expect.objectContaining({ userId: hostUserId, reason: 'CARD_THRESHOLD', round: 1 }),
+    );
+    const finished = await store.getRoomById(roomId);
+    expect(finished?.status).toBe('FINISHED');
+    expect(finished?.gameState?.winnerUserId).not.toBe(hostUserId);
+    const summary = finishMatch.mock.calls[0]?.[2];
+    expect(summary?.players.find((player) => player.userId === hostUserId)).toMatchObject({
+      eliminated: true,
+      handCount: 0,
+    });
+  });
+});
+
+describe('GameService series', () => {
+  it('scores rounds toward a best-of-3 and lets the previous loser flip first', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const { repo, matches } = createReplayRecordingRepo();
+    const service = new GameService(io, store, repo, createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    const hostUserId = (latestRoomPayload(host) as unknown as { meUserId: string }).meUserId;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    await service.configureRoom(host, { series: { type: 'BEST_OF', games: 3 } });
+
+    const hostWinsRound = async () => {
+      const room = await store.getRoomById(roomId);
+      const hostPlayer = room!.gameState!.players.find((player) => player.userId === hostUserId)!;
+      hostPlayer.hand = ['CAT'];
+      room!.gameState!.currentTurnSeat = hostPlayer.seatIndex;
+      await store.saveRoom(room!);
+      // Both winning flips land within the per-socket input gap.
+      (service as unknown as { lastInputAtBySocketId: Map<string, number> }).lastInputAtBySocketId.clear();
+      await service.flip(host, { clientSeq: 1, clientTime: Date.now() });
+    };
+
+    await service.startGame(host);
+    await hostWinsRound();
+    const afterFirst = await store.getRoomById(roomId);
+    expect(afterFirst?.status).toBe('FINISHED');
+    expect(afterFirst?.series?.scores[hostUserId]).toBe(1);
+    expect(afterFirst?.series?.winnerUserId).toBeUndefined();
+    const guestUserId = afterFirst!.series!.rounds[0]!.loserUserId;
+
+    await expect(service.nextRound(guest, {})).rejects.toMatchObject({ code: 'NOT_HOST' });
+    await service.nextRound(host, {});
+    const second = await store.getRoomById(roomId);
+    expect(second?.status).toBe('IN_GAME');
+    expect(second?.gameState?.players[second.gameState.currentTurnSeat]?.userId).toBe(guestUserId);
+
+    await hostWinsRound();
+    const finished = await store.getRoomById(roomId);
+    expect(finished?.series).toMatchObject({ winnerUserId: hostUserId, scores: { [hostUserId]: 2 } });
+    await expect(service.nextRound(host, {})).rejects.toMatchObject({ code: 'NOT_IN_GAME' });
+
+    const summaries = [...matches.values()].map((match) => match.summary?.series);
+    expect(summaries).toEqual([
+      expect.objectContaining({ round: 1, winnerUserId: null }),
+      expect.objectContaining({ round: 2, winnerUserId: hostUserId }),
+    ]);
+
+    await service.stopGame(host);
+    expect((await store.getRoomById(roomId))?.series).toBeUndefined();
+  });
+});
+
+describe('GameService public rooms and quick match', () => {
+  const setupService = (names: string[]) => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const service = new GameService(io, store, createNoopPersistenceRepo(), createLogger());
+    const created = names.map((name) => {
+      const socket = createFakeSocket(`${name}-socket`);
+      sockets.set(socket.id, socket);
+      return socket;
+    });
+    return { service, store, sockets: created };
+  };
+
+  const lastPayload = (socket: FakeSocket, event: string) =>
+    [...socket.emitted].reverse().find((entry) => entry.event === event)?.payload;
+
+  it('lists open public lobbies until they go private', async () => {
+    const { service, sockets } = setupService(['host', 'browser']);
+    const [host, browser] = sockets as [FakeSocket, FakeSocket];
+
+    await service.createRoom(host, { displayName: 'Host', public: true });
+    const { roomCode } = latestRoomPayload(host).room;
+    await service.watchPublicRooms(browser, {});
+    expect(browser.join).toHaveBeenCalledWith('rooms:public');
+    expect(lastPayload(browser, 'v1:rooms.list')).toEqual({
+      rooms: [expect.objectContaining({ roomCode, hostDisplayName: 'Host', playerCount: 1 })],
+    });
+
+    await service.setRoomVisibility(host, { public: false });
+    await service.watchPublicRooms(browser, {});
+    expect(lastPayload(browser, 'v1:rooms.list')).toEqual({ rooms: [] });
+  });
+
+  it('groups queued players into a room that starts once everyone is ready', async () => {
+    const { service, store, sockets } = setupService(['a', 'b', 'c']);
+    const [first, second, third] = sockets as [FakeSocket, FakeSocket, FakeSocket];
+
+    await service.queueQuickMatch(first, { displayName: 'First', size: 3 });
+    await service.queueQuickMatch(second, { displayName: 'Second', size: 3 });
+    expect(lastPayload(first, 'v1:match.queued')).toEqual({ size: 3, waiting: 2 });
+    await service.queueQuickMatch(third, { displayName: 'Third', size: 3 });
+
+    const { roomId } = latestRoomPayload(first).room;
+    expect(latestRoomPayload(third).room.roomId).toBe(roomId);
+    const formed = (await store.getRoomById(roomId))!;
+    expect(formed).toMatchObject({ status: 'LOBBY', quickMatch: true });
+    expect(formed.players.map((player) => player.displayName)).toEqual([
+      'First',
+      'Second',
+      'Third',
+    ]);
+    expect(formed.startCountdownEndsAt).toBeGreaterThan(Date.now());
+
+    for (const socket of sockets) {
+      await service.setReady(socket, { ready: true });
+    }
+    const started = (await store.getRoomById(roomId))!;
+    expect(started.status).toBe('IN_GAME');
+    expect(started.startCountdownEndsAt).toBeUndefined();
+  });
+
+  it('starts a quick-match room when the countdown ends, ready or not', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, sockets } = setupService(['a', 'b', 'c']);
+      const [first, second, leaver] = sockets as [FakeSocket, FakeSocket, FakeSocket];
+
+      await service.queueQuickMatch(leaver, { displayName: 'Leaver', size: 2 });
+      await service.cancelQuickMatch(leaver, {});
+      await service.queueQuickMatch(first, { displayName: 'First', size: 2 });
+      await service.queueQuickMatch(second, { displayName: 'Second', size: 2 });
+      expect(leaver.emitted.some((entry) => entry.event === 'v1:room.state')).toBe(false);
+
+      const { roomId } = latestRoomPayload(first).room;
+      await service.setReady(first, { ready: true });
+      await vi.advanceTimersByTimeAsync(QUICK_MATCH_COUNTDOWN_MS);
+      expect((await store.getRoomById(roomId))!.status).toBe('IN_GAME');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('counts down once everyone is ready and cancels when someone un-readies', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, sockets } = setupService(['host', 'guest']);
+      const [host, guest] = sockets as [FakeSocket, FakeSocket];
+      await service.createRoom(host, { displayName: 'Host' });
+      const { roomId, roomCode } = latestRoomPayload(host).room;
+      await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+      await service.configureRoom(host, { autoStart: true });
+
+      await service.setReady(host, { ready: true });
+      expect((await store.getRoomById(roomId))!.startCountdownEndsAt).toBeUndefined();
+      await service.setReady(guest, { ready: true });
+      expect(latestRoomPayload(host).room.startCountdownEndsAt).toBe(
+        Date.now() + AUTO_START_COUNTDOWN_MS,
+      );
+
+      await service.setReady(guest, { ready: false });
+      expect(latestRoomPayload(host).room.startCountdownEndsAt).toBeUndefined();
+      await vi.advanceTimersByTimeAsync(AUTO_START_COUNTDOWN_MS);
+      expect((await store.getRoomById(roomId))!.status).toBe('LOBBY');
+
+      await service.setReady(guest, { ready: true });
+      await vi.advanceTimersByTimeAsync(AUTO_START_COUNTDOWN_MS);
+      expect((await store.getRoomById(roomId))!.status).toBe('IN_GAME');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('starts counting down once the host kicks the last unready player', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, sockets } = setupService(['host', 'guest', 'idler']);
+      const [host, guest, idler] = sockets as [FakeSocket, FakeSocket, FakeSocket];
+      await service.createRoom(host, { displayName: 'Host' });
+      const { roomId, roomCode } = latestRoomPayload(host).room;
+      await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+      await service.joinRoom(idler, { roomCode, displayName: 'Idler' });
+      const idlerUserId = (latestRoomPayload(idler) as unknown as { meUserId: string }).meUserId;
+      await service.configureRoom(host, { autoStart: true });
+      await service.setReady(host, { ready: true });
+      await service.setReady(guest, { ready: true });
+      expect((await store.getRoomById(roomId))!.startCountdownEndsAt).toBeUndefined();
+
+      await service.kickPlayer(host, { userId: idlerUserId });
+      expect(latestRoomPayload(host).room.startCountdownEndsAt).toBe(
+        Date.now() + AUTO_START_COUNTDOWN_MS,
+      );
+      await vi.advanceTimersByTimeAsync(AUTO_START_COUNTDOWN_MS);
+      expect((await store.getRoomById(roomId))!.status).toBe('IN_GAME');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('moves disconnected unready players to the spectators under EXCLUDE', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, sockets } = setupService(['host', 'guest', 'away']);
+      const [host, guest, away] = sockets as [FakeSocket, FakeSocket, FakeSocket];
+      await service.createRoom(host, { displayName: 'Host' });
+      const { roomId, roomCode } = latestRoomPayload(host).room;
+      await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+      await service.joinRoom(away, { roomCode, displayName: 'Away' });
+      await service.configureRoom(host, { autoStart: true });
+      await service.handleDisconnect(away);
+      await service.setReady(host, { ready: true });
+      await service.setReady(guest, { ready: true });
+      expect((await store.getRoomById(roomId))!.startCountdownEndsAt).toBeUndefined();
+
+      await service.configureRoom(host, { unreadyPlayers: 'EXCLUDE' });
+      await vi.advanceTimersByTimeAsync(AUTO_START_COUNTDOWN_MS);
+      const started = (await store.getRoomById(roomId))!;
+      expect(started.status).toBe('IN_GAME');
+      expect(started.players.map((player) => player.displayName)).toEqual(['Host', 'Guest']);
+      expect(started.spectators).toEqual([
+        expect.objectContaining({ displayName: 'Away', connected: false }),
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('cancels the countdown instead of seating a roster the rules cannot deal to', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, sockets } = setupService(['host', 'g1', 'g2', 'away']);
+      const [host, ...guests] = sockets as [FakeSocket, FakeSocket, FakeSocket, FakeSocket];
+      await service.createRoom(host, { displayName: 'Host' });
+      const { roomId, roomCode } = latestRoomPayload(host).room;
+      for (const [index, guest] of guests.entries()) {
+        await service.joinRoom(guest, { roomCode, displayName: `Guest ${index + 1}` });
+      }
+      await service.configureRoom(host, {
+        autoStart: true,
+        unreadyPlayers: 'EXCLUDE',
+        teamMode: 'ANY_MEMBER',
+      });
+      for (const socket of sockets) {
+        await service.setReady(socket, { ready: true });
+      }
+      expect(latestRoomPayload(host).room.startCountdownEndsAt).toBeDefined();
+
+      // The last seat drops and un-readies behind the countdown's back, leaving three to seat.
+      const room = (await store.getRoomById(roomId))!;
+      Object.assign(room.players[3]!, { connected: false, ready: false });
+      await store.saveRoom(room);
+      await vi.advanceTimersByTimeAsync(AUTO_START_COUNTDOWN_MS);
+
+      const lobby = (await store.getRoomById(roomId))!;
+      expect(lobby.status).toBe('LOBBY');
+      expect(lobby.startCountdownEndsAt).toBeUndefined();
+      expect(lobby.players).toHaveLength(4);
+      expect(latestRoomPayload(host).room.startCountdownEndsAt).toBeUndefined();
+
+      await service.setReady(host, { ready: false });
+      await service.setReady(host, { ready: true });
+      expect((await store.getRoomById(roomId))!.startCountdownEndsAt).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('leaves the lobby as it was when an automatic start fails', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, sockets } = setupService(['host', 'guest', 'away']);
+      const [host, guest, away] = sockets as [FakeSocket, FakeSocket, FakeSocket];
+      await service.createRoom(host, { displayName: 'Host' });
+      const { roomId, roomCode } = latestRoomPayload(host).room;
+      await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+      await service.joinRoom(away, { roomCode, displayName: 'Away' });
+      await service.configureRoom(host, { autoStart: true, unreadyPlayers: 'EXCLUDE' });
+      await service.handleDisconnect(away);
+      await service.setReady(host, { ready: true });
+      await service.setReady(guest, { ready: true });
+      expect(latestRoomPayload(host).room.startCountdownEndsAt).toBeDefined();
+
+      vi.spyOn(store, 'saveRoom').mockRejectedValueOnce(new Error('store unavailable'));
+      await vi.advanceTimersByTimeAsync(AUTO_START_COUNTDOWN_MS);
+
+      // The roster is untouched, so the lobby simply counts down to another try.
+      const lobby = (await store.getRoomById(roomId))!;
+      expect(lobby.status).toBe('LOBBY');
+      expect(lobby.startCountdownEndsAt).toBe(Date.now() + AUTO_START_COUNTDOWN_MS);
+      expect(lobby.players.map((player) => [player.displayName, player.seatIndex])).toEqual([
+        ['Host', 0],
+        ['Guest', 1],
+        ['Away', 2],
+      ]);
+      expect(lobby.spectators).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('sends out players an automatic start leaves without a spectator place', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, sockets } = setupService(['host', 'guest', 'away']);
+      const [host, guest, away] = sockets as [FakeSocket, FakeSocket, FakeSocket];
+      await service.createRoom(host, { displayName: 'Host' });
+      const { roomId, roomCode } = latestRoomPayload(host).room;
+      await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+      await service.joinRoom(away, { roomCode, displayName: 'Away' });
+      const awayUserId = (latestRoomPayload(away) as unknown as { meUserId: string }).meUserId;
+      await service.configureRoom(host, { autoStart: true, unreadyPlayers: 'EXCLUDE' });
+
+      // Every spectator place is taken, and the away seat still holds a socket that went quiet.
+      const room = (await store.getRoomById(roomId))!;
+      room.spectators = Array.from({ length: MAX_SPECTATORS }, (_, index) => ({
+        userId: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+        displayName: `Watcher ${index}`,
+        connected: true,
+      }));
+      room.players[2]!.connected = false;
+      await store.saveRoom(room);
+      await service.setReady(host, { ready: true });
+      await service.setReady(guest, { ready: true });
+      await vi.advanceTimersByTimeAsync(AUTO_START_COUNTDOWN_MS);
+
+      const started = (await store.getRoomById(roomId))!;
+      expect(started.status).toBe('IN_GAME');
+      const members = [...started.players, ...started.spectators];
+      expect(members.map((entry) => entry.userId)).not.toContain(awayUserId);
+      expect(lastPayload(away, 'v1:room.left')).toEqual({ roomCode, reason: 'NO_SEAT' });
+      expect(away.leave).toHaveBeenCalledWith(roomId);
+      expect(await store.getUserRoom(awayUserId)).toBeNull();
+      await expect(service.setReady(away, { ready: true })).rejects.toMatchObject({
+        code: 'ROOM_NOT_FOUND',
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('GameService tournaments', () => {
+  it('seeds rooms, advances winners and walkovers, and opens the final', async () => {
+    vi.useFakeTimers();
+    try {
+      const { io, sockets } = createIo();
+      const store = new InMemoryRoomStore();
+      const service = new GameService(io, store, createNoopPersistenceRepo(), createLogger());
+      const [ann, bob, cat, outsider] = ['ann', 'bob', 'cat', 'outsider'].map((name) => {
+        const socket = createFakeSocket(`${name}-socket`);
+        sockets.set(socket.id, socket);
+        return socket;
+      }) as [FakeSocket, FakeSocket, FakeSocket, FakeSocket];
+
+      const created = await service.createTournament({
+        name: 'Office cup',
+        roomSize: 2,
+        advancePerRoom: 1,
+      });
+      const { code } = created.tournament;
+      const entrants = [];
+      for (const name of ['Ann', 'Bob', 'Cat', 'Dan']) {
+        entrants.push(await service.registerForTournament(code, { displayName: name }));
+      }
+      await expect(service.startTournament(code, entrants[0]!.token)).rejects.toMatchObject({
+        code: 'NOT_ORGANIZER',
+      });
+
+      const started = await service.startTournament(code, created.token);
+      const [roomA, roomB] = started.rounds[0]!.matches as [TournamentMatch, TournamentMatch];
+      expect(roomA.entrantIds).toEqual([entrants[0]!.entrantId, entrants[2]!.entrantId]);
+      await expect(
+        service.registerForTournament(code, { displayName: 'Late' }),
+      ).rejects.toMatchObject({ code: 'REGISTRATION_CLOSED' });
+      await expect(
+        service.joinRoom(outsider, { roomCode: roomA.roomCode!, displayName: 'Nosy' }),
+      ).rejects.toMatchObject({ code: 'ROOM_LOCKED' });
+
+      await service.joinTournamentMatch(ann, { code, token: entrants[0]!.token });
+      await service.joinTournamentMatch(cat, { code, token: entrants[2]!.token });
+      await service.joinTournamentMatch(bob, { code, token: entrants[1]!.token });
+      expect(latestRoomPayload(ann).room.roomId).toBe(roomA.roomId);
+      expect(latestRoomPayload(bob).room.roomId).toBe(roomB.roomId);
+
+      // Dan never shows up, so Bob goes through once the countdown ends; Ann and Cat start.
+      await vi.advanceTimersByTimeAsync(TOURNAMENT_START_COUNTDOWN_MS);
+      expect((await store.getRoomById(roomA.roomId!))!.status).toBe('IN_GAME');
+      await service.kickPlayer(ann, { userId: roomA.seats![entrants[2]!.entrantId]! });
+
+      const tournament = await service.getTournament(code);
+      expect(tournament.rounds[0]!.matches.map((match) => match.advancedEntrantIds)).toEqual([
+        [entrants[0]!.entrantId],
+        [entrants[1]!.entrantId],
+      ]);
+      const final = tournament.rounds[1]!.matches[0]!;
+      expect(final.entrantIds).toEqual([entrants[0]!.entrantId, entrants[1]!.entrantId]);
+      expect((await store.getRoomById(final.roomId!))?.tournament).toMatchObject({ round: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('GameService reconnect grace', () => {
+  const setupTwoPlayerGame = async (graceExpiry: 'FORFEIT' | 'BOT') => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const service = new GameService(io, store, createNoopPersistenceRepo(), createLogger());
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { roomId, roomCode } = latestRoomPayload(host).room;
+    await service.joinRoom(guest, { roomCode, displayName: 'Guest' });
+    const guestUserId = (latestRoomPayload(guest) as unknown as { meUserId: string }).meUserId;
+    await service.configureRoom(host, { reconnectGraceMs: 10_000, graceExpiry });
+    await service.startGame(host);
+
+    const started = await store.getRoomById(roomId);
+    started!.gameState!.currentTurnSeat = 1;
+    await store.saveRoom(started!);
+    return { service, store, host, guest, roomId, roomCode, guestUserId };
+  };
+
+  it('skips a dropped player without penalty and forfeits them when the grace period runs out', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, guest, roomId, guestUserId } = await setupTwoPlayerGame('FORFEIT');
+      const handBefore = (await store.getRoomById(roomId))!.gameState!.players[1]!.hand.length;
+
+      await service.handleDisconnect(guest);
+      const dropped = await store.getRoomById(roomId);
+      expect(dropped?.gameState?.currentTurnSeat).toBe(0);
+      expect(dropped?.players[1]?.reconnectDeadline).toBeGreaterThan(Date.now());
+      expect(dropped?.gameState?.players[1]?.hand).toHaveLength(handBefore);
+
+      await vi.advanceTimersByTimeAsync(10_000);
+      const forfeited = await store.getRoomById(roomId);
+      expect(forfeited?.status).toBe('FINISHED');
+      expect(forfeited?.gameState?.players[1]).toMatchObject({
+        userId: guestUserId,
+        forfeited: true,
+        hand: [],
+      });
+      expect(forfeited?.players[1]?.reconnectDeadline).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('hands an expired seat to a bot and gives it back when the player rejoins', async () => {
+    vi.useFakeTimers();
+    try {
+      const { service, store, guest, roomId, roomCode, guestUserId } = await setupTwoPlayerGame('BOT');
+
+      await service.handleDisconnect(guest);
+      await vi.advanceTimersByTimeAsync(10_000);
+      const covered = await store.getRoomById(roomId);
+      expect(covered?.status).toBe('IN_GAME');
+      expect(covered?.players[1]).toMatchObject({ botDifficulty: 'NORMAL', botStandIn: true, connected: true });
+      expect(covered?.gameState?.players[1]?.connected).toBe(true);
+
+      const { sessionToken } = latestRoomPayload(guest) as unknown as { sessionToken: string };
+      await service.joinRoom(guest, { roomCode, displayName: 'Guest', sessionToken });
+      const reclaimed = await store.getRoomById(roomId);
+      expect(reclaimed?.players[1]?.botDifficulty).toBeUndefined();
+      expect(reclaimed?.players[1]?.botStandIn).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('GameService bots', () => {
+  it('lets the host add a bot that flips on its own turn through the engine', async () => {
+    vi.useFakeTimers();
+    try {
+      const { io, sockets } = createIo();
+      const store = new InMemoryRoomStore();
+      const service = new GameService(io, store, createNoopPersistenceRepo(), createLogger());
+      const host = createFakeSocket('host-socket');
+      sockets.set(host.id, host);
+
+      await service.createRoom(host, { displayName: 'Host' });
+      const { roomId } = latestRoomPayload(host).room;
+      await service.addBot(host, { difficulty: 'HARD' });
+
+      const lobby = await store.getRoomById(roomId);
+      const bot = lobby?.players[1];
+      expect(bot).toMatchObject({ displayName: 'Hard Bot 1', ready: true, botDifficulty: 'HARD' });
+
+      await service.startGame(host);
+      const started = await store.getRoomById(roomId);
+      started!.gameState!.currentTurnSeat = 1;
+      await store.saveRoom(started!);
+      (service as unknown as { rescheduleTimers: (room: RoomState) => void }).rescheduleTimers(started!);
+
+      await vi.advanceTimersByTimeAsync(BOT_PROFILES.HARD.maxFlipDelayMs);
+
+      const after = await store.getRoomById(roomId);
+      expect(after?.gameState?.lastRevealed?.byUserId).toBe(bot?.userId);
+      await service.stopGame(host);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('GameService replay log', () => {
+  it('records accepted engine events so a stopped match replays to the same version', async () => {
+    const { io, sockets } = createIo();
+    const store = new InMemoryRoomStore();
+    const { repo, matches } = createReplayRecordingRepo();
+    const service = new GameService(io, store, repo, createLogger());
+
+    const host = createFakeSocket('host-socket');
+    const guest = createFakeSocket('guest-socket');
+    sockets.set(host.id, host);
+    sockets.set(guest.id, guest);
+
+    await service.createRoom(host, { displayName: 'Host' });
+    const { room: createdRoom } = latestRoomPayload(host);
+    await service.joinRoom(guest, { roomCode: createdRoom.roomCode, displayName: 'Guest' });
+    await service.startGame(host);
+
+    const started = await store.getRoomById(createdRoom.roomId);
+    const turnUserId = started?.gameState?.players[started.gameState.currentTurnSeat]?.userId;
+    const hostUserId = (latestRoomPayload(host) as unknown as { meUserId: string }).meUserId;
+    await service.flip(turnUserId === hostUserId ? host : guest, { clientSeq: 1, clientTime: Date.now() });
+    await service.handleDisconnect(guest);
+    await service.stopGame(host);
+
+    const [matchId, match] = [...matches.entries()][0]!;
+    expect(match.entries.map((entry) => entry.event.type)).toEqual([
+      'FLIP',
+      'PLAYER_CONNECTION',
+    ]);
+    expect(match.initial.firstTurnSeat).toBe(started?.gameState?.currentTurnSeat);
+
+    const report = await new MatchReplayService(repo).replayMatch(matchId);
+    expect(report.mismatches).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(report.actual.version).toBe(match.summary?.finalVersion);
+  });
+});
@@ -0,0 +1,134 @@
+import type { MatchListing } from '@slaphard/shared';
+import { describe, expect, it } from 'vitest';
+import type {
+  LeaderboardQuery,
+  LeaderboardReadRepository,
+  MatchListingQuery,
+} from '../../src/db/types';
+import {
+  LEADERBOARD_MIN_MATCHES,
+  Leaderboards,
+  decodeMatchCursor,
+  encodeMatchCursor,
+} from '../../src/service/leaderboards';
+
+const NOW = Date.UTC(2026, 0, 15);
+const ALICE = '00000000-0000-4000-8000-0000000000a1';
+const BOB = '00000000-0000-4000-8000-0000000000b2';
+
+const listing = (index: number): MatchListing => ({
+  matchId: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+  roomCode: 'ABC123',
+  startedAt: NOW - index * 60_000 - 30_000,
+  endedAt: NOW - index * 60_000,
+  reason: 'GAME_FINISHED',
+  winnerUserId: null,
+  players: [],
+});
+
+const createRepo = () => {
+  const leaderboardQueries: LeaderboardQuery[] = [];
+  const listingQueries: MatchListingQuery[] = [];
+  const matches = [1, 2, 3, 4, 5].map(listing);
+  const repo: LeaderboardReadRepository = {
+    async getLeaderboard(query) {
+      leaderboardQueries.push(query);
+      return [
+        {
+          playerId: ALICE,
+          username: 'alice',
+          matches: 3,
+          wins: 2,
+          avgReactionMs: 412.6,
+          penalties: 1,
+        },
+        { playerId: BOB, username: 'bob', matches: 6, wins: 1, avgReactionMs: null, penalties: 0 },
+      ];
+    },
+    async getRoomHallOfFame(roomCode) {
+      return roomCode === 'ABC123'
+        ? [{ userId: ALICE, displayName: 'Alice', matches: 4, wins: 3, avgReactionMs: 380.2 }]
+        : null;
+    },
+    async listMatches(query) {
+      listingQueries.push(query);
+      const after = query.before
+        ? matches.filter((match) => match.endedAt < query.before!.endedAt.getTime())
+        : matches;
+      return after.slice(0, query.limit);
+    },
+  };
+  return { repo, leaderboardQueries, listingQueries };
+};
+
+describe('Leaderboards', () => {
+  it('ranks rows and derives rates for the requested period', async () => {
+    const { repo, leaderboardQueries } = createRepo();
+    const leaderboards = new Leaderboards(repo, () => NOW);
+
+    const board = await leaderboards.leaderboard('WIN_RATE', 'WEEK', 10);
+
+    expect(leaderboardQueries).toEqual([
+      {
+        metric: 'WIN_RATE',
+        since: new Date(NOW - 7 * 24 * 60 * 60 * 1000),
+        minMatches: LEADERBOARD_MIN_MATCHES,
+        limit: 10,
+      },
+    ]);
+    expect(board.entries).toEqual([
+      {
+        rank: 1,
+        playerId: ALICE,
+        username: 'alice',
+        matches: 3,
+        wins: 2,
+        winRate: 0.6667,
+        avgReactionMs: 413,
+        penaltiesPerMatch: 0.33,
+      },
+      expect.objectContaining({ rank: 2, avgReactionMs: null, penaltiesPerMatch: 0 }),
+    ]);
+
+    await leaderboards.leaderboard('WINS', 'ALL_TIME', 5);
+    expect(leaderboardQueries[1]).toMatchObject({ since: null, minMatches: 1 });
+  });
+
+  it('returns a room hall of fame only for known rooms', async () => {
+    const leaderboards = new Leaderboards(createRepo().repo, () => NOW);
+
+    expect(await leaderboards.hallOfFame('ABC123', 10)).toEqual({
+      roomCode: 'ABC123',
+      entries: [
+        { rank: 1, userId: ALICE, displayName: 'Alice', matches: 4, wins: 3, avgReactionMs: 380 },
+      ],
+    });
+    expect(await leaderboards.hallOfFame('ZZZ999', 10)).toBeUndefined();
+  });
+
+  it('pages matches with an opaque cursor until the last page', async () => {
+    const { repo, listingQueries } = createRepo();
+    const leaderboards = new Leaderboards(repo, () => NOW);
+
+    const first = await leaderboards.listMatches(2);
+    expect(first.matches.map((match) => match.matchId)).toEqual([
+      listing(1).matchId,
+      listing(2).matchId,
+    ]);
+    expect(decodeMatchCursor(first.nextCursor!)).toEqual({
+      endedAt: new Date(listing(2).endedAt),
+      matchId: listing(2).matchId,
+    });
+
+    const second = await leaderboards.listMatches(3, {
+      before: decodeMatchCursor(first.nextCursor!),
+    });
+    expect(second.matches).toHaveLength(3);
+    expect(second.nextCursor).toBeNull();
+    expect(listingQueries.map((query) => query.limit)).toEqual([3, 4]);
+
+    expect(decodeMatchCursor('not-a-cursor')).toBeUndefined();
+    const cursor = { endedAt: new Date(NOW), matchId: ALICE };
+    expect(decodeMatchCursor(encodeMatchCursor(cursor))).toEqual(cursor);
+  });
+});
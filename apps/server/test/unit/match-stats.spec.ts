@@ -0,0 +1,94 @@
+import type { EngineEffect } from '@slaphard/engine';
+import { describe, expect, it } from 'vitest';
+import { createMatchStats, isSlapWon, recordMatchEffect } from '../../src/service/match-stats';
+
+const A = '00000000-0000-4000-8000-000000000001';
+const B = '00000000-0000-4000-8000-000000000002';
+const C = '00000000-0000-4000-8000-000000000003';
+
+const attempt = (userId: string, reactionMs: number) => ({
+  userId,
+  eventId: `${userId}-slap`,
+  clientSeq: 1,
+  clientTime: 1_000 + reactionMs,
+  offsetMs: 0,
+  rttMs: 20,
+  receivedAtServerTime: 1_010 + reactionMs,
+  reactionMs,
+});
+
+const slapResult = (
+  loserUserId: string,
+  reason: string,
+  attempts: Array<ReturnType<typeof attempt>>,
+  pileTaken = 4,
+): Extract<EngineEffect, { type: 'SLAP_RESULT' }> => ({
+  type: 'SLAP_RESULT',
+  eventId: 'window',
+  orderedUserIds: attempts.map((entry) => entry.userId),
+  loserUserId,
+  reason,
+  pileTaken,
+  reactionMsByUserId: Object.fromEntries(attempts.map((entry) => [entry.userId, entry.reactionMs])),
+  attempts,
+});
+
+describe('match stats', () => {
+  it('tallies reactions, slap wins and cards taken per player', () => {
+    const stats = createMatchStats([A, B, C]);
+
+    recordMatchEffect(stats, slapResult(C, 'NON_SLAPPER', [attempt(A, 310), attempt(B, 420.4)]));
+    recordMatchEffect(stats, slapResult(B, 'LAST_SLAPPER', [attempt(A, 250), attempt(B, 380)], 2));
+
+    expect(stats[A]).toMatchObject({
+      slaps: 2,
+      slapsWon: 2,
+      totalReactionMs: 560,
+      bestReactionMs: 250,
+      cardsTaken: 0,
+    });
+    expect(stats[B]).toMatchObject({
+      slaps: 2,
+      slapsWon: 1,
+      totalReactionMs: 800,
+      bestReactionMs: 380,
+      cardsTaken: 2,
+    });
+    expect(stats[C]).toMatchObject({ slaps: 0, bestReactionMs: null, cardsTaken: 4 });
+  });
+
+  it('counts penalties by type without double-counting unslapped windows', () => {
+    const stats = createMatchStats([A, B]);
+
+    recordMatchEffect(stats, { type: 'PENALTY', userId: A, penaltyType: 'NO_SLAPS', pileTaken: 3 });
+    recordMatchEffect(stats, slapResult(A, 'NO_SLAPS', [], 3));
+    recordMatchEffect(stats, {
+      type: 'PENALTY',
+      userId: A,
+      penaltyType: 'FALSE_SLAP',
+      pileTaken: 0,
+    });
+    recordMatchEffect(stats, {
+      type: 'PENALTY',
+      userId: 'stranger',
+      penaltyType: 'FALSE_SLAP',
+      pileTaken: 1,
+    });
+
+    expect(stats[A]?.penalties).toEqual({
+      FALSE_SLAP: 1,
+      WRONG_GESTURE: 0,
+      TURN_TIMEOUT: 0,
+      NO_SLAPS: 1,
+    });
+    expect(stats[A]?.cardsTaken).toBe(3);
+    expect(stats[B]?.cardsTaken).toBe(0);
+  });
+
+  it('treats the game-ending slap as a win', () => {
+    const effect = slapResult(A, 'FIRST_VALID_SLAP_WIN', [attempt(A, 200)], 0);
+
+    expect(isSlapWon(effect, A)).toBe(true);
+    expect(isSlapWon(slapResult(A, 'LAST_SLAPPER', [attempt(A, 200)]), A)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createQuickMatchQueue,
+  dequeueQuickMatch,
+  enqueueQuickMatch,
+  waitingForSize,
+  type QuickMatchEntry,
+} from '../../src/service/matchmaking';
+
+const entry = (
+  socketId: string,
+  size: number,
+  queuedAt: number,
+  playerId?: string,
+): QuickMatchEntry => ({
+  socketId,
+  nodeId: 'node-a',
+  displayName: socketId,
+  size,
+  queuedAt,
+  ...(playerId ? { playerId } : {}),
+});
+
+describe('quick-match queue', () => {
+  it('groups the longest-waiting players who asked for the same size', () => {
+    const queue = createQuickMatchQueue();
+
+    expect(enqueueQuickMatch(queue, entry('a', 3, 1))).toBeUndefined();
+    expect(enqueueQuickMatch(queue, entry('b', 2, 2))).toBeUndefined();
+    expect(enqueueQuickMatch(queue, entry('c', 3, 3))).toBeUndefined();
+    expect(waitingForSize(queue, 3)).toHaveLength(2);
+
+    const group = enqueueQuickMatch(queue, entry('d', 3, 4));
+    expect(group?.map((waiting) => waiting.socketId)).toEqual(['a', 'c', 'd']);
+    expect(queue.waiting.map((waiting) => waiting.socketId)).toEqual(['b']);
+  });
+
+  it('keeps one entry per socket or account and lets players leave', () => {
+    const queue = createQuickMatchQueue();
+    enqueueQuickMatch(queue, entry('a', 4, 1, 'account-1'));
+    enqueueQuickMatch(queue, entry('a', 3, 2, 'account-1'));
+    enqueueQuickMatch(queue, entry('other-tab', 3, 3, 'account-1'));
+
+    expect(queue.waiting.map((waiting) => [waiting.socketId, waiting.size])).toEqual([
+      ['other-tab', 3],
+    ]);
+    expect(dequeueQuickMatch(queue, 'other-tab')?.size).toBe(3);
+    expect(dequeueQuickMatch(queue, 'other-tab')).toBeUndefined();
+    expect(queue.waiting).toEqual([]);
+  });
+});
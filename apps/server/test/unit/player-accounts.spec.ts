@@ -0,0 +1,104 @@
+import type { PlayerMatch } from '@slaphard/shared';
+import { randomUUID } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import type { PlayerAccountRepository, PlayerRecord } from '../../src/db/types';
+import {
+  MAX_MATCH_HISTORY_LIMIT,
+  PlayerAccounts,
+  hashSecret,
+  verifySecret,
+} from '../../src/service/player-accounts';
+import { SessionTokens } from '../../src/service/session-tokens';
+
+const createPlayerRepo = () => {
+  const players = new Map<string, PlayerRecord>();
+  const limits: number[] = [];
+  const match: PlayerMatch = {
+    matchId: randomUUID(),
+    roomCode: 'ABC123',
+    displayName: 'Alice',
+    seatIndex: 0,
+    startedAt: 1_000,
+    endedAt: 2_000,
+    reason: 'GAME_FINISHED',
+    won: true,
+    opponents: 1,
+    penalties: 0,
+    slapsLost: 2,
+  };
+  const repo: PlayerAccountRepository = {
+    async createPlayer(username, secretHash) {
+      if ([...players.values()].some((p) => p.username.toLowerCase() === username.toLowerCase())) {
+        return null;
+      }
+      const player = { playerId: randomUUID(), username, secretHash, createdAt: new Date() };
+      players.set(player.playerId, player);
+      return player;
+    },
+    async findPlayerByUsername(username) {
+      const lower = username.toLowerCase();
+      return [...players.values()].find((p) => p.username.toLowerCase() === lower) ?? null;
+    },
+    async getPlayer(playerId) {
+      return players.get(playerId) ?? null;
+    },
+    async listPlayerMatches(_playerId, limit) {
+      limits.push(limit);
+      return [match];
+    },
+    async countPlayerMatches() {
+      return { matches: 1, wins: 1 };
+    },
+  };
+  return { repo, limits };
+};
+
+describe('PlayerAccounts', () => {
+  it('hashes secrets with a per-secret salt', async () => {
+    const first = await hashSecret('correct horse');
+    const second = await hashSecret('correct horse');
+
+    expect(first).not.toBe(second);
+    expect(await verifySecret('correct horse', first)).toBe(true);
+    expect(await verifySecret('wrong horse', first)).toBe(false);
+    expect(await verifySecret('correct horse', 'plain$text')).toBe(false);
+  });
+
+  it('registers unique usernames and signs in with the matching secret', async () => {
+    const tokens = new SessionTokens('test-secret-with-at-least-32-characters');
+    const accounts = new PlayerAccounts(createPlayerRepo().repo, tokens);
+
+    const account = await accounts.register({ username: 'Alice', secret: 'correct horse' });
+    expect(tokens.verifyAccount(account.accountToken)?.playerId).toBe(account.playerId);
+    await expect(
+      accounts.register({ username: 'alice', secret: 'another secret' }),
+    ).rejects.toMatchObject({ code: 'USERNAME_TAKEN' });
+    await expect(accounts.register({ username: 'a!', secret: 'short' })).rejects.toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+    });
+
+    expect((await accounts.login({ username: 'ALICE', secret: 'correct horse' })).playerId).toBe(
+      account.playerId,
+    );
+    await expect(
+      accounts.login({ username: 'Alice', secret: 'wrong horse' }),
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+  });
+
+  it('lists match history with totals for known players only', async () => {
+    const { repo, limits } = createPlayerRepo();
+    const accounts = new PlayerAccounts(
+      repo,
+      new SessionTokens('test-secret-with-at-least-32-characters'),
+    );
+    const account = await accounts.register({ username: 'Alice', secret: 'correct horse' });
+
+    const history = await accounts.matchHistory(account.playerId, 10_000);
+    expect(history).toMatchObject({ username: 'Alice', totals: { matches: 1, wins: 1 } });
+    expect(history.matches).toHaveLength(1);
+    expect(limits).toEqual([MAX_MATCH_HISTORY_LIMIT]);
+    await expect(accounts.matchHistory(randomUUID())).rejects.toMatchObject({
+      code: 'PLAYER_NOT_FOUND',
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RATING, computeRatingChanges, placeStandings } from '../../src/service/ratings';
+
+const ALICE = '00000000-0000-4000-8000-0000000000a1';
+const BOB = '00000000-0000-4000-8000-0000000000b2';
+
+describe('ratings', () => {
+  it('places the winner first, then fewest cards, sharing places on ties', () => {
+    const standings = placeStandings(
+      [
+        { userId: 'a', handCount: 4 },
+        { userId: 'b', handCount: 1 },
+        { userId: 'c', handCount: 4 },
+        { userId: 'w', handCount: 2 },
+      ],
+      (player) => player.userId === 'w',
+    );
+
+    expect(standings.map(({ userId, place }) => [userId, place])).toEqual([
+      ['w', 1],
+      ['b', 2],
+      ['a', 3],
+      ['c', 3],
+    ]);
+  });
+
+  it('places eliminated players last, sharing the place, whatever they hold', () => {
+    const standings = placeStandings(
+      [
+        { userId: 'out-1', handCount: 0, eliminated: true },
+        { userId: 'a', handCount: 7 },
+        { userId: 'out-2', handCount: 0, eliminated: true },
+        { userId: 'w', handCount: 5 },
+      ],
+      (player) => player.userId === 'w',
+    );
+
+    expect(standings.map(({ userId, place }) => [userId, place])).toEqual([
+      ['w', 1],
+      ['a', 2],
+      ['out-1', 3],
+      ['out-2', 3],
+    ]);
+  });
+
+  it('places forfeited seats last, whether they kept their cards or had them dealt away', () => {
+    const standings = placeStandings(
+      [
+        { userId: 'kicked', handCount: 0, forfeited: true },
+        { userId: 'a', handCount: 6 },
+        { userId: 'timed-out', handCount: 1, forfeited: true },
+        { userId: 'out', handCount: 0, eliminated: true },
+        { userId: 'w', handCount: 3 },
+      ],
+      (player) => player.userId === 'w',
+    );
+
+    expect(standings.map(({ userId, place }) => [userId, place])).toEqual([
+      ['w', 1],
+      ['a', 2],
+      ['out', 3],
+      ['kicked', 4],
+      ['timed-out', 4],
+    ]);
+  });
+
+  it('moves equal ratings symmetrically and rewards upsets more', () => {
+    const even = computeRatingChanges(
+      [
+        { playerId: ALICE, place: 1 },
+        { playerId: BOB, place: 2 },
+      ],
+      new Map(),
+    );
+    expect(even).toEqual([
+      { playerId: ALICE, ratingBefore: DEFAULT_RATING, ratingAfter: DEFAULT_RATING + 16, place: 1 },
+      { playerId: BOB, ratingBefore: DEFAULT_RATING, ratingAfter: DEFAULT_RATING - 16, place: 2 },
+    ]);
+
+    const upset = computeRatingChanges(
+      [
+        { playerId: ALICE, place: 1 },
+        { playerId: BOB, place: 2 },
+      ],
+      new Map([[BOB, 1800]]),
+    );
+    expect(upset[0]!.ratingAfter - upset[0]!.ratingBefore).toBeGreaterThan(16);
+  });
+
+  it('only rates accounts and treats guests as default-rated opponents', () => {
+    const changes = computeRatingChanges(
+      [{ place: 1 }, { playerId: ALICE, place: 2 }, { place: 3 }],
+      new Map([[ALICE, DEFAULT_RATING]]),
+    );
+
+    expect(changes).toEqual([
+      { playerId: ALICE, ratingBefore: DEFAULT_RATING, ratingAfter: DEFAULT_RATING, place: 2 },
+    ]);
+    expect(computeRatingChanges([{ playerId: ALICE, place: 1 }], new Map())).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { createInitialState } from '@slaphard/engine';
+import { describe, expect, it } from 'vitest';
+import {
+  createSeries,
+  isSeriesInProgress,
+  recordSeriesRound,
+  roundLoserUserId,
+  seriesTargetPoints,
+} from '../../src/service/series';
+
+const A = '00000000-0000-4000-8000-000000000001';
+const B = '00000000-0000-4000-8000-000000000002';
+const C = '00000000-0000-4000-8000-000000000003';
+
+const finishedState = (hands: Record<string, number>, winnerUserId: string) => {
+  const state = createInitialState({
+    players: [
+      { userId: A, displayName: 'A' },
+      { userId: B, displayName: 'B' },
+      { userId: C, displayName: 'C' },
+    ],
+    deck: ['TACO', 'CAT', 'GOAT', 'CHEESE', 'PIZZA', 'TACO'],
+    shuffle: false,
+    nowServerTime: 1_000,
+  });
+  state.players.forEach((player) => {
+    player.hand = Array.from({ length: hands[player.userId] ?? 0 }, () => 'TACO' as const);
+  });
+  state.status = 'FINISHED';
+  state.winnerUserId = winnerUserId;
+  return state;
+};
+
+describe('series', () => {
+  it('needs a majority for best-of-N and the exact score for first-to-N', () => {
+    expect(seriesTargetPoints({ type: 'SINGLE' })).toBe(1);
+    expect(seriesTargetPoints({ type: 'BEST_OF', games: 3 })).toBe(2);
+    expect(seriesTargetPoints({ type: 'BEST_OF', games: 5 })).toBe(3);
+    expect(seriesTargetPoints({ type: 'FIRST_TO', points: 4 })).toBe(4);
+  });
+
+  it('marks the player holding the most cards as the round loser, earliest seat on ties', () => {
+    expect(roundLoserUserId(finishedState({ [A]: 0, [B]: 2, [C]: 5 }, A))).toBe(C);
+    expect(roundLoserUserId(finishedState({ [A]: 0, [B]: 3, [C]: 3 }, A))).toBe(B);
+  });
+
+  it('stops recording rounds once the series has a winner', () => {
+    const series = createSeries({ type: 'FIRST_TO', points: 2 }, [A, B, C]);
+
+    recordSeriesRound(series, finishedState({ [A]: 0, [B]: 1, [C]: 2 }, A));
+    recordSeriesRound(series, finishedState({ [A]: 2, [B]: 0, [C]: 1 }, B));
+    expect(series.winnerUserId).toBeUndefined();
+    recordSeriesRound(series, finishedState({ [A]: 0, [B]: 2, [C]: 1 }, A));
+
+    expect(series.winnerUserId).toBe(A);
+    expect(series.scores).toEqual({ [A]: 2, [B]: 1, [C]: 0 });
+    expect(recordSeriesRound(series, finishedState({ [A]: 1, [B]: 0, [C]: 1 }, B))).toBeUndefined();
+    expect(series.rounds).toHaveLength(3);
+  });
+
+  it('ends a best-of-N after N games without a majority, for the most recent leader', () => {
+    const series = createSeries({ type: 'BEST_OF', games: 3 }, [A, B, C]);
+
+    recordSeriesRound(series, finishedState({ [A]: 0, [B]: 1, [C]: 2 }, A));
+    recordSeriesRound(series, finishedState({ [A]: 2, [B]: 0, [C]: 1 }, B));
+    expect(series.winnerUserId).toBeUndefined();
+    recordSeriesRound(series, finishedState({ [A]: 1, [B]: 2, [C]: 0 }, C));
+
+    expect(series.scores).toEqual({ [A]: 1, [B]: 1, [C]: 1 });
+    expect(series.winnerUserId).toBe(C);
+    expect(isSeriesInProgress(series)).toBe(false);
+    expect(recordSeriesRound(series, finishedState({ [A]: 0, [B]: 1, [C]: 1 }, A))).toBeUndefined();
+    expect(series.rounds).toHaveLength(3);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { SessionTokens } from '../../src/service/session-tokens';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const ROOM_ID = '00000000-0000-4000-8000-0000000000aa';
+const PLAYER_ID = '00000000-0000-4000-8000-0000000000bb';
+
+describe('SessionTokens', () => {
+  it('round-trips claims until the token expires', () => {
+    const tokens = new SessionTokens('secret-one-with-at-least-32-characters', 60);
+    const token = tokens.issue(USER_ID, ROOM_ID, 1_000);
+
+    expect(tokens.verify(token, 1_000)).toEqual({
+      userId: USER_ID,
+      roomId: ROOM_ID,
+      expiresAt: 61_000,
+    });
+    expect(tokens.verify(token, 61_000)).toBeUndefined();
+  });
+
+  it('rejects tokens signed with another secret or with an edited payload', () => {
+    const tokens = new SessionTokens('secret-one-with-at-least-32-characters');
+    const other = new SessionTokens('secret-two-with-at-least-32-characters');
+    const token = tokens.issue(USER_ID, ROOM_ID);
+    const [, signature] = token.split('.');
+    const edited = Buffer.from(
+      JSON.stringify({ userId: USER_ID, roomId: ROOM_ID, expiresAt: Number.MAX_SAFE_INTEGER }),
+    ).toString('base64url');
+
+    expect(other.verify(token)).toBeUndefined();
+    expect(tokens.verify(`${edited}.${signature}`)).toBeUndefined();
+    expect(tokens.verify('not-a-token')).toBeUndefined();
+  });
+
+  it('keeps account tokens and seat tokens apart', () => {
+    const tokens = new SessionTokens('secret-one-with-at-least-32-characters');
+    const account = tokens.issueAccount(PLAYER_ID, 1_000);
+    const seat = tokens.issue(USER_ID, ROOM_ID, 1_000);
+
+    expect(tokens.verifyAccount(account, 1_000)).toMatchObject({ playerId: PLAYER_ID });
+    expect(tokens.verify(account, 1_000)).toBeUndefined();
+    expect(tokens.verifyAccount(seat, 1_000)).toBeUndefined();
+  });
+
+  it('tells organizer and entrant tournament tokens apart from seat tokens', () => {
+    const tokens = new SessionTokens('secret-one-with-at-least-32-characters');
+    const organizer = tokens.issueTournament(ROOM_ID, null, 1_000);
+    const entrant = tokens.issueTournament(ROOM_ID, USER_ID, 1_000);
+
+    expect(tokens.verifyTournament(organizer, 1_000)).toMatchObject({ entrantId: null });
+    expect(tokens.verifyTournament(entrant, 1_000)).toMatchObject({ entrantId: USER_ID });
+    expect(tokens.verify(entrant, 1_000)).toBeUndefined();
+    expect(tokens.verifyTournament(tokens.issue(USER_ID, ROOM_ID, 1_000), 1_000)).toBeUndefined();
+  });
+});
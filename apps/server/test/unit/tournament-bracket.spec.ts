@@ -0,0 +1,72 @@
+import type { Tournament } from '@slaphard/shared';
+import { describe, expect, it } from 'vitest';
+import {
+  advanceTournament,
+  decideMatch,
+  rankFinishers,
+  seedRound,
+} from '../../src/service/tournament-bracket';
+
+const ids = (count: number) => Array.from({ length: count }, (_, index) => `e${index + 1}`);
+
+const tournament = (entrants: number, roomSize: number, advancePerRoom: number): Tournament => ({
+  tournamentId: '00000000-0000-4000-8000-000000000001',
+  code: 'TOURNY',
+  name: 'Office cup',
+  status: 'RUNNING',
+  roomSize,
+  advancePerRoom,
+  entrants: ids(entrants).map((entrantId) => ({
+    entrantId,
+    displayName: entrantId,
+    registeredAt: 0,
+  })),
+  rounds: [seedRound(ids(entrants), roomSize)],
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('tournament bracket', () => {
+  it('spreads entrants evenly over the fewest rooms and gives a lone entrant a bye', () => {
+    expect(seedRound(ids(9), 4).matches.map((match) => match.entrantIds)).toEqual([
+      ['e1', 'e4', 'e7'],
+      ['e2', 'e5', 'e8'],
+      ['e3', 'e6', 'e9'],
+    ]);
+
+    const withBye = seedRound(ids(3), 2);
+    expect(withBye.matches[0]).toEqual({ entrantIds: ['e1', 'e3'] });
+    expect(withBye.matches[1]).toEqual({ entrantIds: ['e2'], advancedEntrantIds: ['e2'] });
+  });
+
+  it('ranks the winner first, then fewest cards, with forfeits last', () => {
+    expect(
+      rankFinishers(
+        [
+          { userId: 'a', handCount: 9, seatIndex: 0 },
+          { userId: 'b', handCount: 0, seatIndex: 1, forfeited: true },
+          { userId: 'c', handCount: 4, seatIndex: 2 },
+          { userId: 'd', handCount: 4, seatIndex: 3 },
+          { userId: 'e', handCount: 12, seatIndex: 4 },
+        ],
+        'e',
+      ),
+    ).toEqual(['e', 'c', 'd', 'a', 'b']);
+  });
+
+  it('seeds the next round from the best of each room and crowns the final winner', () => {
+    const cup = tournament(8, 4, 2);
+    expect(decideMatch(cup, 0, 0, ['e5', 'e1', 'e3', 'e7'])).toBe(true);
+    expect(decideMatch(cup, 0, 0, ['e1'])).toBe(false);
+    expect(advanceTournament(cup)).toBeUndefined();
+
+    decideMatch(cup, 0, 1, ['e2', 'e8', 'e4', 'e6']);
+    const final = advanceTournament(cup);
+    expect(final?.matches.map((match) => match.entrantIds)).toEqual([['e5', 'e2', 'e1', 'e8']]);
+
+    decideMatch(cup, 1, 0, ['e8', 'e5', 'e2', 'e1']);
+    expect(cup.rounds[1]?.matches[0]?.advancedEntrantIds).toEqual(['e8']);
+    expect(advanceTournament(cup)).toBeUndefined();
+    expect(cup).toMatchObject({ status: 'FINISHED', championEntrantId: 'e8' });
+  });
+});
@@ -1,4 +1,34 @@
-import { CHANT_ORDER, type Card, type Gesture } from '@slaphard/shared';
+import {
+  ALL_CARDS,
+  BOT_DIFFICULTIES,
+  CHANT_ORDER,
+  DECK_PRESETS,
+  EMOTES,
+  GRACE_EXPIRY_ACTIONS,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_PLAYERS,
+  MAX_SERIES_POINTS,
+  MIN_PLAYERS,
+  PENALTY_TYPES,
+  SERIES_BEST_OF,
+  STANDARD_DECK_COUNTS,
+  TEAM_MODES,
+  UNREADY_PLAYER_POLICIES,
+  type BotDifficulty,
+  type Card,
+  type ChatMessage,
+  type Emote,
+  type Gesture,
+  type GraceExpiryAction,
+  type PenaltyType,
+  type PlayerMatchHistory,
+  type PlayerMatchStats,
+  type RoomRules,
+  type TeamMode,
+  type Tournament,
+  type TournamentCredentials,
+  type UnreadyPlayerPolicy,
+} from '@slaphard/shared';
 import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
 import {
   initAudio,
@@ -7,11 +37,26 @@ import {
   playWinnerCelebrationSound,
   unlockAudio,
 } from './audio';
+import { fetchMatchHistory, registerAccount, signInAccount } from './accounts';
 import { createSocketApi, type SocketApi } from './socket';
-import { useAppStore } from './store';
+import { getPersistedIdentity, useAppStore } from './store';
+import {
+  createTournament,
+  fetchTournament,
+  registerForTournament,
+  startTournament,
+} from './tournaments';
 
 const gestureOptions: Gesture[] = ['GORILLA', 'NARWHAL', 'GROUNDHOG'];
 
+const teamModeLabels: Record<TeamMode, string> = {
+  OFF: 'off',
+  ANY_MEMBER: '2 teams, first out wins',
+  ALL_MEMBERS: '2 teams, whole team out',
+};
+
+const teamName = (teamId: number): string => `Team ${String.fromCharCode(65 + teamId)}`;
+
 const randomHex = (length: number): string => {
   const bytes = new Uint8Array(Math.ceil(length / 2));
   crypto.getRandomValues(bytes);
@@ -20,6 +65,14 @@ const randomHex = (length: number): string => {
     .slice(0, length);
 };
 
+/** The saved session only proves who we are in the room it was issued for. */
+const sessionTokenFor = (roomCode: string): string | undefined => {
+  const persisted = getPersistedIdentity();
+  return persisted.roomCode?.toUpperCase() === roomCode.toUpperCase()
+    ? persisted.sessionToken
+    : undefined;
+};
+
 const createClientEventId = (): string =>
   `${randomHex(8)}-${randomHex(4)}-4${randomHex(3)}-a${randomHex(3)}-${randomHex(12)}`;
 
@@ -81,10 +134,844 @@ const ConfettiBurst = ({ seed }: { seed: string }) => {
   );
 };
 
+const NUMBER_RULES = [
+  { key: 'slapWindowMs', label: 'Slap window (ms)' },
+  { key: 'actionSlapWindowMs', label: 'Action slap window (ms)' },
+  { key: 'turnTimeoutMs', label: 'Turn timeout (ms)' },
+  { key: 'minHumanMs', label: 'Min reaction (ms)' },
+  { key: 'reconnectGraceMs', label: 'Reconnect grace (ms)' },
+  { key: 'hostMigrationMs', label: 'Host migration (ms)' },
+  { key: 'eliminationCardThreshold', label: 'Knock out over cards (0 = off)' },
+  { key: 'eliminationRounds', label: 'Knock out every N rounds (0 = off)' },
+] as const;
+
+const RulesPanel = ({
+  rules,
+  editable,
+  onChange,
+}: {
+  rules: RoomRules;
+  editable: boolean;
+  onChange: (rules: Partial<RoomRules>) => void;
+}) => (
+  <section className="rules-panel" aria-label="Room rules">
+    <h3>Rules</h3>
+    <div className="rules-grid">
+      {NUMBER_RULES.map(({ key, label }) => (
+        <label key={key}>
+          {label}
+          <input
+            key={`${key}-${rules[key]}`}
+            type="number"
+            defaultValue={rules[key]}
+            disabled={!editable}
+            onBlur={(event) => {
+              const value = Number(event.target.value);
+              if (value !== rules[key]) {
+                onChange({ [key]: value });
+              }
+            }}
+          />
+        </label>
+      ))}
+      <label>
+        <input
+          type="checkbox"
+          checked={rules.sameCardSlaps}
+          disabled={!editable}
+          onChange={(event) => onChange({ sameCardSlaps: event.target.checked })}
+        />
+        Same-card slaps
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={rules.falseSlapPenalty}
+          disabled={!editable}
+          onChange={(event) => onChange({ falseSlapPenalty: event.target.checked })}
+        />
+        False-slap penalty
+      </label>
+      <label>
+        Teams
+        <select
+          value={rules.teamMode}
+          disabled={!editable}
+          onChange={(event) => onChange({ teamMode: event.target.value as TeamMode })}
+        >
+          {TEAM_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {teamModeLabels[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        After grace
+        <select
+          value={rules.graceExpiry}
+          disabled={!editable}
+          onChange={(event) => onChange({ graceExpiry: event.target.value as GraceExpiryAction })}
+        >
+          {GRACE_EXPIRY_ACTIONS.map((action) => (
+            <option key={action} value={action}>
+              {action === 'BOT' ? 'bot takes over' : 'forfeit'}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={rules.autoStart}
+          disabled={!editable}
+          onChange={(event) => onChange({ autoStart: event.target.checked })}
+        />
+        Auto-start when ready
+      </label>
+      <label>
+        Unready players
+        <select
+          value={rules.unreadyPlayers}
+          disabled={!editable || !rules.autoStart}
+          onChange={(event) =>
+            onChange({ unreadyPlayers: event.target.value as UnreadyPlayerPolicy })
+          }
+        >
+          {UNREADY_PLAYER_POLICIES.map((policy) => (
+            <option key={policy} value={policy}>
+              {policy === 'EXCLUDE' ? 'start without them' : 'wait for them'}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+    <label>
+      Deck
+      <select
+        value={'preset' in rules.deck ? rules.deck.preset : 'CUSTOM'}
+        disabled={!editable}
+        onChange={(event) => {
+          const value = event.target.value;
+          onChange({
+            deck:
+              value === 'CUSTOM'
+                ? { custom: { ...STANDARD_DECK_COUNTS } }
+                : { preset: value as (typeof DECK_PRESETS)[number] },
+          });
+        }}
+      >
+        {DECK_PRESETS.map((preset) => (
+          <option key={preset} value={preset}>
+            {preset.toLowerCase().replace('_', ' ')}
+          </option>
+        ))}
+        <option value="CUSTOM">custom</option>
+      </select>
+    </label>
+    <label>
+      Series
+      <select
+        value={rules.series.type === 'BEST_OF' ? `BEST_OF_${rules.series.games}` : rules.series.type}
+        disabled={!editable}
+        onChange={(event) => {
+          const value = event.target.value;
+          onChange({
+            series:
+              value === 'SINGLE'
+                ? { type: 'SINGLE' }
+                : value === 'FIRST_TO'
+                  ? { type: 'FIRST_TO', points: 3 }
+                  : { type: 'BEST_OF', games: value === 'BEST_OF_5' ? 5 : 3 },
+          });
+        }}
+      >
+        <option value="SINGLE">single game</option>
+        {SERIES_BEST_OF.map((games) => (
+          <option key={games} value={`BEST_OF_${games}`}>
+            best of {games}
+          </option>
+        ))}
+        <option value="FIRST_TO">first to N points</option>
+      </select>
+    </label>
+    {rules.series.type === 'FIRST_TO' ? (
+      <label>
+        Points to win
+        <input
+          key={`points-${rules.series.points}`}
+          type="number"
+          min={2}
+          max={MAX_SERIES_POINTS}
+          defaultValue={rules.series.points}
+          disabled={!editable}
+          onBlur={(event) => {
+            const points = Number(event.target.value);
+            if (rules.series.type === 'FIRST_TO' && points !== rules.series.points) {
+              onChange({ series: { type: 'FIRST_TO', points } });
+            }
+          }}
+        />
+      </label>
+    ) : null}
+    {'custom' in rules.deck ? (
+      <div className="rules-grid">
+        {ALL_CARDS.map((card) => {
+          const counts = 'custom' in rules.deck ? rules.deck.custom : STANDARD_DECK_COUNTS;
+          return (
+            <label key={card}>
+              {cardBadge(card)}
+              <input
+                key={`${card}-${counts[card]}`}
+                type="number"
+                min={0}
+                defaultValue={counts[card]}
+                disabled={!editable}
+                onBlur={(event) => {
+                  const count = Number(event.target.value);
+                  if (count !== counts[card]) {
+                    onChange({ deck: { custom: { ...counts, [card]: count } } });
+                  }
+                }}
+              />
+            </label>
+          );
+        })}
+      </div>
+    ) : null}
+  </section>
+);
+
+const PENALTY_LABELS: Record<PenaltyType, string> = {
+  FALSE_SLAP: 'false slap',
+  WRONG_GESTURE: 'wrong gesture',
+  TURN_TIMEOUT: 'timeout',
+  NO_SLAPS: 'no slaps',
+};
+
+const MatchStatsPanel = ({
+  players,
+  stats,
+  meUserId,
+}: {
+  players: Array<{ userId: string; displayName: string }>;
+  stats: Record<string, PlayerMatchStats>;
+  meUserId: string | undefined;
+}) => (
+  <table className="match-stats" aria-label="Match stats">
+    <thead>
+      <tr>
+        <th>Player</th>
+        <th>Avg reaction</th>
+        <th>Best</th>
+        <th>Slaps won</th>
+        <th>Penalties</th>
+        <th>Cards taken</th>
+      </tr>
+    </thead>
+    <tbody>
+      {players.map((player) => {
+        const entry = stats[player.userId];
+        if (!entry) {
+          return null;
+        }
+        const penalties = PENALTY_TYPES.filter((type) => entry.penalties[type] > 0);
+        return (
+          <tr key={player.userId} className={player.userId === meUserId ? 'is-me' : undefined}>
+            <td>{player.displayName}</td>
+            <td>{entry.slaps > 0 ? `${Math.round(entry.totalReactionMs / entry.slaps)} ms` : '-'}</td>
+            <td>{entry.bestReactionMs === null ? '-' : `${entry.bestReactionMs} ms`}</td>
+            <td>
+              {entry.slaps > 0
+                ? `${entry.slapsWon}/${entry.slaps} (${Math.round((entry.slapsWon / entry.slaps) * 100)}%)`
+                : '-'}
+            </td>
+            <td>
+              {penalties.length > 0
+                ? penalties.map((type) => `${entry.penalties[type]} ${PENALTY_LABELS[type]}`).join(', ')
+                : 'none'}
+            </td>
+            <td>{entry.cardsTaken}</td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
+
+const EMOTE_META: Record<Emote, { emoji: string; label: string }> = {
+  CLAP: { emoji: '👏', label: 'Clap' },
+  LAUGH: { emoji: '😂', label: 'Laugh' },
+  WOW: { emoji: '😮', label: 'Wow' },
+  FIRE: { emoji: '🔥', label: 'Fire' },
+  ANGRY: { emoji: '😠', label: 'Angry' },
+  TACO: { emoji: '🌮', label: 'Taco' },
+};
+
+/** How long an emote floats above the sender's seat; matches the `emote-float` animation. */
+const FLOATING_EMOTE_MS = 2500;
+
+const EmoteBar = ({ onEmote, disabled }: { onEmote: (emote: Emote) => void; disabled: boolean }) => (
+  <section className="emote-bar" aria-label="Quick emotes">
+    {EMOTES.map((emote) => (
+      <button
+        key={emote}
+        className="btn emote"
+        disabled={disabled}
+        aria-label={EMOTE_META[emote].label}
+        onClick={() => onEmote(emote)}
+      >
+        {EMOTE_META[emote].emoji}
+      </button>
+    ))}
+  </section>
+);
+
+/** Emotes the player sent in the last few seconds, floating over their seat chip. */
+const FloatingEmotes = ({ messages, userId }: { messages: ChatMessage[]; userId: string }) => {
+  const offsetAvg = useAppStore((s) => s.timeSync.offsetAvg);
+  const serverNow = Date.now() + offsetAvg;
+  const recent = messages.filter(
+    (message) =>
+      message.kind === 'EMOTE' && message.userId === userId && serverNow - message.sentAt < FLOATING_EMOTE_MS,
+  );
+  return (
+    <>
+      {recent.map((message, index) =>
+        message.kind === 'EMOTE' ? (
+          <span
+            key={message.messageId}
+            className="floating-emote"
+            style={{ left: `${20 + ((index * 27) % 60)}%` }}
+            aria-hidden="true"
+          >
+            {EMOTE_META[message.emote].emoji}
+          </span>
+        ) : null,
+      )}
+    </>
+  );
+};
+
+const ChatPanel = ({
+  onSend,
+  onMute,
+}: {
+  onSend: (text: string) => void;
+  onMute: (userId: string, muted: boolean) => void;
+}) => {
+  const chat = useAppStore((s) => s.chat);
+  const roomState = useAppStore((s) => s.roomState);
+  const meUserId = useAppStore((s) => s.meUserId);
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLUListElement | null>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [chat]);
+
+  const isHost = roomState?.hostUserId === meUserId;
+  const mutedUserIds = roomState?.chatMutedUserIds ?? [];
+  const selfMuted = !!meUserId && mutedUserIds.includes(meUserId);
+
+  return (
+    <section className="room-chat" aria-label="Room chat">
+      <ul ref={listRef}>
+        {chat.map((message) => {
+          const muted = mutedUserIds.includes(message.userId);
+          return (
+            <li key={message.messageId} className={message.userId === meUserId ? 'is-me' : undefined}>
+              <strong>{message.displayName}</strong>{' '}
+              {message.kind === 'TEXT' ? message.text : EMOTE_META[message.emote].emoji}
+              {isHost && message.userId !== meUserId ? (
+                <button className="btn chat-mute" onClick={() => onMute(message.userId, !muted)}>
+                  {muted ? 'Unmute' : 'Mute'}
+                </button>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+      <form
+        className="row"
+        onSubmit={(event) => {
+          event.preventDefault();
+          const text = draft.trim();
+          if (text) {
+            onSend(text);
+            setDraft('');
+          }
+        }}
+      >
+        <input
+          value={draft}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          disabled={selfMuted}
+          placeholder={selfMuted ? 'The host muted you' : 'Say something...'}
+          aria-label="Chat message"
+          onChange={(event) => setDraft(event.target.value)}
+        />
+        <button className="btn" type="submit" disabled={selfMuted || !draft.trim()}>
+          Send
+        </button>
+      </form>
+    </section>
+  );
+};
+
+/** Seconds until the room starts on its own; ticks twice a second. */
+const StartCountdown = ({ endsAt, scheduled }: { endsAt: number; scheduled: boolean }) => {
+  const offsetAvg = useAppStore((s) => s.timeSync.offsetAvg);
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const id = setInterval(() => setTick((tick) => tick + 1), 500);
+    return () => clearInterval(id);
+  }, []);
+
+  const seconds = Math.max(0, Math.ceil((endsAt - (Date.now() + offsetAvg)) / 1000));
+  return scheduled ? (
+    <p className="muted">Starting in {seconds}s, or as soon as everyone is ready.</p>
+  ) : (
+    <p className="muted">Everyone is ready. Starting in {seconds}s unless someone un-readies.</p>
+  );
+};
+
+const PublicRoomsPanel = ({
+  onWatch,
+  onJoin,
+}: {
+  onWatch: () => void;
+  onJoin: (roomCode: string) => void;
+}) => {
+  const publicRooms = useAppStore((s) => s.publicRooms);
+
+  useEffect(() => {
+    onWatch();
+  }, [onWatch]);
+
+  if (publicRooms.length === 0) {
+    return <p className="muted">No open public rooms right now.</p>;
+  }
+  return (
+    <ul className="players-list">
+      {publicRooms.map((room) => (
+        <li key={room.roomCode}>
+          <span>
+            {room.hostDisplayName} · {room.playerCount}/{MAX_PLAYERS} players
+            {room.spectatorCount > 0 ? ` · ${room.spectatorCount} watching` : ''}
+          </span>
+          <button className="btn" onClick={() => onJoin(room.roomCode)}>
+            Join
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const QuickMatchPanel = ({
+  onQueue,
+  onCancel,
+}: {
+  onQueue: (size: number) => void;
+  onCancel: () => void;
+}) => {
+  const quickMatch = useAppStore((s) => s.quickMatch);
+  const [size, setSize] = useState(4);
+  const sizes = Array.from(
+    { length: MAX_PLAYERS - MIN_PLAYERS + 1 },
+    (_, index) => MIN_PLAYERS + index,
+  );
+
+  return (
+    <>
+      <label>
+        Players
+        <select
+          value={size}
+          disabled={!!quickMatch}
+          onChange={(event) => setSize(Number(event.target.value))}
+        >
+          {sizes.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+      {quickMatch ? (
+        <div className="row">
+          <p className="muted">
+            Waiting for players: {quickMatch.waiting}/{quickMatch.size}
+          </p>
+          <button className="btn" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button className="btn primary" onClick={() => onQueue(size)}>
+          Find Match
+        </button>
+      )}
+    </>
+  );
+};
+
+const TournamentBracket = ({
+  tournament,
+  myEntrantId,
+}: {
+  tournament: Tournament;
+  myEntrantId: string | undefined;
+}) => {
+  const names = new Map(
+    tournament.entrants.map((entrant) => [entrant.entrantId, entrant.displayName]),
+  );
+  const champion = tournament.championEntrantId
+    ? names.get(tournament.championEntrantId)
+    : undefined;
+
+  return (
+    <>
+      {champion ? <p className="tournament-champion">Champion: {champion}</p> : null}
+      <div className="bracket" aria-label="Tournament bracket">
+        {tournament.rounds.map((round, roundIndex) => (
+          <section key={roundIndex} className="bracket-round">
+            <h4>{round.matches.length === 1 ? 'Final' : `Round ${roundIndex + 1}`}</h4>
+            {round.matches.map((match, matchIndex) => (
+              <div key={matchIndex} className="bracket-match">
+                <span className="muted">{match.roomCode ? `Room ${match.roomCode}` : 'Bye'}</span>
+                <ul>
+                  {match.entrantIds.map((entrantId) => {
+                    const advanced = match.advancedEntrantIds?.includes(entrantId) ?? false;
+                    return (
+                      <li
+                        key={entrantId}
+                        className={[
+                          advanced ? 'advanced' : match.advancedEntrantIds ? 'out' : '',
+                          entrantId === myEntrantId ? 'mine' : '',
+                        ].join(' ')}
+                      >
+                        {names.get(entrantId) ?? 'Unknown'}
+                        {advanced ? ' ✓' : ''}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+    </>
+  );
+};
+
+const TournamentPanel = ({
+  displayName,
+  onWatch,
+  onPlay,
+}: {
+  displayName: string;
+  onWatch: (code: string) => void;
+  onPlay: (code: string, token: string) => void;
+}) => {
+  const tournament = useAppStore((s) => s.tournament);
+  const pass = useAppStore((s) => s.tournamentPass);
+  const account = useAppStore((s) => s.account);
+  const setTournament = useAppStore((s) => s.setTournament);
+  const updateTournamentPass = useAppStore((s) => s.updateTournamentPass);
+  const [codeInput, setCodeInput] = useState(pass?.code ?? '');
+  const [name, setName] = useState('');
+  const [roomSize, setRoomSize] = useState(4);
+  const [advancePerRoom, setAdvancePerRoom] = useState(2);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const watchedCode = tournament?.code;
+
+  useEffect(() => {
+    if (watchedCode) {
+      onWatch(watchedCode);
+    }
+  }, [onWatch, watchedCode]);
+
+  const run = <T,>(request: Promise<T>, onDone: (result: T) => void) => {
+    setBusy(true);
+    setError(undefined);
+    request
+      .then(onDone)
+      .catch((reason: unknown) =>
+        setError(reason instanceof Error ? reason.message : 'request failed'),
+      )
+      .finally(() => setBusy(false));
+  };
+
+  const keepCredentials = ({ tournament: joined, token, entrantId }: TournamentCredentials) => {
+    updateTournamentPass(
+      entrantId
+        ? { code: joined.code, entrantToken: token, entrantId }
+        : { code: joined.code, organizerToken: token },
+    );
+    setTournament(joined);
+  };
+
+  const sizes = Array.from(
+    { length: MAX_PLAYERS - MIN_PLAYERS + 1 },
+    (_, index) => MIN_PLAYERS + index,
+  );
+
+  if (!tournament) {
+    const code = codeInput.trim().toUpperCase();
+    return (
+      <>
+        <label>
+          Tournament Name
+          <input value={name} maxLength={40} onChange={(event) => setName(event.target.value)} />
+        </label>
+        <div className="rules-grid">
+          <label>
+            Players per room
+            <select
+              value={roomSize}
+              onChange={(event) => {
+                const size = Number(event.target.value);
+                setRoomSize(size);
+                setAdvancePerRoom((current) => Math.min(current, size - 1));
+              }}
+            >
+              {sizes.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Advance per room
+            <select
+              value={advancePerRoom}
+              onChange={(event) => setAdvancePerRoom(Number(event.target.value))}
+            >
+              {Array.from({ length: roomSize - 1 }, (_, index) => index + 1).map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <button
+          className="btn primary"
+          disabled={busy || name.trim().length < 2}
+          onClick={() =>
+            run(createTournament({ name: name.trim(), roomSize, advancePerRoom }), keepCredentials)
+          }
+        >
+          Create Tournament
+        </button>
+        <label>
+          Tournament Code
+          <input
+            value={codeInput}
+            maxLength={6}
+            onChange={(event) => setCodeInput(event.target.value.toUpperCase())}
+          />
+        </label>
+        <button
+          className="btn"
+          disabled={busy || code.length !== 6}
+          onClick={() => run(fetchTournament(code), setTournament)}
+        >
+          Open Bracket
+        </button>
+        {error ? <p className="muted">{error}</p> : null}
+      </>
+    );
+  }
+
+  const heldPass = pass?.code === tournament.code ? pass : undefined;
+  const myEntrantId = heldPass?.entrantId;
+  const organizerToken = heldPass?.organizerToken;
+  const entrantToken = heldPass?.entrantToken;
+  const latestRound = tournament.rounds[tournament.rounds.length - 1];
+  const myMatch = latestRound?.matches.find(
+    (match) => !!myEntrantId && match.entrantIds.includes(myEntrantId),
+  );
+  const statusLabel =
+    tournament.status === 'REGISTRATION'
+      ? `${tournament.entrants.length} registered`
+      : tournament.status === 'RUNNING'
+        ? `round ${tournament.rounds.length} in play`
+        : 'finished';
+
+  return (
+    <>
+      <p className="muted">
+        {tournament.name} · code {tournament.code} · {statusLabel}
+      </p>
+      {tournament.status === 'REGISTRATION' ? (
+        <ul className="players-list">
+          {tournament.entrants.map((entrant) => (
+            <li key={entrant.entrantId}>{entrant.displayName}</li>
+          ))}
+        </ul>
+      ) : (
+        <TournamentBracket tournament={tournament} myEntrantId={myEntrantId} />
+      )}
+      <div className="row">
+        {tournament.status === 'REGISTRATION' && !myEntrantId ? (
+          <button
+            className="btn primary"
+            disabled={busy}
+            onClick={() =>
+              run(
+                registerForTournament(tournament.code, displayName, account?.accountToken),
+                keepCredentials,
+              )
+            }
+          >
+            Register as {displayName}
+          </button>
+        ) : null}
+        {tournament.status === 'REGISTRATION' && organizerToken ? (
+          <button
+            className="btn primary"
+            disabled={busy || tournament.entrants.length < MIN_PLAYERS}
+            onClick={() => run(startTournament(tournament.code, organizerToken), setTournament)}
+          >
+            Start Tournament
+          </button>
+        ) : null}
+        {tournament.status === 'RUNNING' &&
+        entrantToken &&
+        myMatch?.roomCode &&
+        !myMatch.advancedEntrantIds ? (
+          <button className="btn primary" onClick={() => onPlay(tournament.code, entrantToken)}>
+            Play My Match
+          </button>
+        ) : null}
+        <button className="btn" onClick={() => setTournament(undefined)}>
+          Close
+        </button>
+      </div>
+      {tournament.status === 'RUNNING' && myEntrantId && !myMatch ? (
+        <p className="muted">You are out of this tournament.</p>
+      ) : null}
+      {error ? <p className="muted">{error}</p> : null}
+    </>
+  );
+};
+
+const AccountPanel = () => {
+  const account = useAppStore((s) => s.account);
+  const setAccount = useAppStore((s) => s.setAccount);
+  const [username, setUsername] = useState('');
+  const [secret, setSecret] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [history, setHistory] = useState<PlayerMatchHistory | undefined>(undefined);
+
+  useEffect(() => {
+    setHistory(undefined);
+    if (!account) {
+      return;
+    }
+    let cancelled = false;
+    fetchMatchHistory(account.playerId)
+      .then((result) => {
+        if (!cancelled) {
+          setHistory(result);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [account]);
+
+  const submit = (action: typeof signInAccount) => {
+    setBusy(true);
+    setError(undefined);
+    action(username.trim(), secret)
+      .then((result) => {
+        setSecret('');
+        setAccount(result);
+      })
+      .catch((reason: unknown) => setError(reason instanceof Error ? reason.message : 'request failed'))
+      .finally(() => setBusy(false));
+  };
+
+  if (account) {
+    return (
+      <section className="home-action-card account-panel" aria-label="Account">
+        <div className="row">
+          <h3>{account.username}</h3>
+          <button className="btn" onClick={() => setAccount(undefined)}>
+            Sign Out
+          </button>
+        </div>
+        {history ? (
+          <>
+            <p className="muted">
+              {history.totals.wins} wins in {history.totals.matches} matches
+            </p>
+            <ul className="players-list">
+              {history.matches.map((match) => (
+                <li key={match.matchId}>
+                  <span>
+                    {new Date(match.endedAt).toLocaleDateString()} · {match.roomCode} vs {match.opponents}
+                  </span>
+                  <strong>{match.won ? 'Won' : 'Lost'}</strong>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="muted">Loading match history...</p>
+        )}
+      </section>
+    );
+  }
+
+  const canSubmit = !busy && username.trim().length >= 3 && secret.length >= 8;
+  return (
+    <section className="home-action-card account-panel" aria-label="Account">
+      <h3>Account (optional)</h3>
+      <p className="muted">Sign in to keep your wins across rooms.</p>
+      <label>
+        Username
+        <input value={username} maxLength={20} onChange={(event) => setUsername(event.target.value)} />
+      </label>
+      <label>
+        Password
+        <input
+          type="password"
+          value={secret}
+          maxLength={128}
+          onChange={(event) => setSecret(event.target.value)}
+        />
+      </label>
+      <div className="row">
+        <button className="btn" disabled={!canSubmit} onClick={() => submit(signInAccount)}>
+          Sign In
+        </button>
+        <button className="btn" disabled={!canSubmit} onClick={() => submit(registerAccount)}>
+          Create Account
+        </button>
+      </div>
+      {error ? <p className="muted">{error}</p> : null}
+    </section>
+  );
+};
+
 export const App = () => {
   const apiRef = useRef<SocketApi | null>(null);
   const finishCelebrationRef = useRef<string | undefined>(undefined);
   const [mobileStatsOpen, setMobileStatsOpen] = useState(false);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('NORMAL');
+  const [kickTargetUserId, setKickTargetUserId] = useState('');
+  const [createPublic, setCreatePublic] = useState(false);
 
   const socketStatus = useAppStore((s) => s.socketStatus);
   const rejoinState = useAppStore((s) => s.rejoinState);
@@ -98,6 +985,7 @@ export const App = () => {
   const persistedRoomCode = useAppStore((s) => s.persistedRoomCode);
   const meUserId = useAppStore((s) => s.meUserId);
   const feed = useAppStore((s) => s.feed);
+  const chat = useAppStore((s) => s.chat);
   const pingIntervalMs = useAppStore((s) => s.timeSync.pingIntervalMs);
   const rttAvg = useAppStore((s) => s.timeSync.rttAvg);
   const roomCodeInput = useAppStore((s) => s.ui.roomCodeInput);
@@ -183,13 +1071,22 @@ export const App = () => {
   const canFlip = gameState?.status === 'IN_GAME' && isMyTurn && !slapActive;
 
   const isHost = roomState?.hostUserId === meUserId;
+  const isSpectator = roomState?.spectators.some((spectator) => spectator.userId === meUserId) ?? false;
+  const chatPanel = (
+    <ChatPanel
+      onSend={(text) => apiRef.current?.sendChat(text)}
+      onMute={(userId, muted) => apiRef.current?.muteChat(userId, muted)}
+    />
+  );
 
   useEffect(() => {
     if (gameState?.status !== 'FINISHED') {
       finishCelebrationRef.current = undefined;
       return;
     }
-    if (!meUserId || gameState.winnerUserId !== meUserId) {
+    const myTeamId = gameState.players.find((player) => player.userId === meUserId)?.teamId;
+    const myTeamWon = myTeamId !== undefined && gameState.winnerTeamId === myTeamId;
+    if (!meUserId || (gameState.winnerUserId !== meUserId && !myTeamWon)) {
       return;
     }
     const celebrationKey = `${gameState.winnerUserId}:${gameState.version}`;
@@ -198,7 +1095,14 @@ export const App = () => {
     }
     finishCelebrationRef.current = celebrationKey;
     playWinnerCelebrationSound();
-  }, [gameState?.status, gameState?.version, gameState?.winnerUserId, meUserId]);
+  }, [
+    gameState?.players,
+    gameState?.status,
+    gameState?.version,
+    gameState?.winnerTeamId,
+    gameState?.winnerUserId,
+    meUserId,
+  ]);
 
   useEffect(() => {
     const inActiveGame = roomState?.status === 'IN_GAME' && gameState?.status === 'IN_GAME';
@@ -227,7 +1131,7 @@ export const App = () => {
   }, [canCreateRoom, clearRoom, normalizedDisplayName]);
 
   const submitSlap = useCallback(() => {
-    if (!gameState || gameState.status !== 'IN_GAME') {
+    if (!gameState || gameState.status !== 'IN_GAME' || isSpectator) {
       return;
     }
     const activeEventId =
@@ -239,21 +1143,57 @@ export const App = () => {
     }
     const eventId = activeEventId ?? createClientEventId();
     apiRef.current?.slap(eventId, isActionWindow ? selectedGesture : undefined);
-  }, [gameState, isActionWindow, selectedGesture, submittedSlapEventId]);
+  }, [gameState, isActionWindow, isSpectator, selectedGesture, submittedSlapEventId]);
 
   const submitCreateRoom = useCallback(() => {
     if (!canCreateRoom) {
       return;
     }
-    apiRef.current?.createRoom(normalizedDisplayName);
-  }, [canCreateRoom, normalizedDisplayName]);
+    apiRef.current?.createRoom(normalizedDisplayName, createPublic);
+  }, [canCreateRoom, createPublic, normalizedDisplayName]);
+
+  const watchPublicRooms = useCallback(() => apiRef.current?.watchPublicRooms(), []);
+
+  const joinPublicRoom = useCallback(
+    (roomCode: string) => apiRef.current?.joinRoom(roomCode, normalizedDisplayName),
+    [normalizedDisplayName],
+  );
+
+  const queueQuickMatch = useCallback(
+    (size: number) => apiRef.current?.queueQuickMatch(normalizedDisplayName, size),
+    [normalizedDisplayName],
+  );
+
+  const cancelQuickMatch = useCallback(() => apiRef.current?.cancelQuickMatch(), []);
+
+  const watchTournament = useCallback((code: string) => apiRef.current?.watchTournament(code), []);
+
+  const joinTournamentMatch = useCallback(
+    (code: string, token: string) => apiRef.current?.joinTournamentMatch(code, token),
+    [],
+  );
 
   const submitJoinRoom = useCallback(() => {
     if (!canJoinRoom) {
       return;
     }
-    apiRef.current?.joinRoom(normalizedRoomCode, normalizedDisplayName, meUserId);
-  }, [canJoinRoom, meUserId, normalizedDisplayName, normalizedRoomCode]);
+    apiRef.current?.joinRoom(
+      normalizedRoomCode,
+      normalizedDisplayName,
+      sessionTokenFor(normalizedRoomCode),
+    );
+  }, [canJoinRoom, normalizedDisplayName, normalizedRoomCode]);
+
+  const submitSpectateRoom = useCallback(() => {
+    if (!canJoinRoom) {
+      return;
+    }
+    apiRef.current?.spectateRoom(
+      normalizedRoomCode,
+      normalizedDisplayName,
+      sessionTokenFor(normalizedRoomCode),
+    );
+  }, [canJoinRoom, normalizedDisplayName, normalizedRoomCode]);
 
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
@@ -321,6 +1261,7 @@ export const App = () => {
                 </button>
               </div>
               {!canCreateRoom ? <p className="muted">Display name must be at least 2 characters.</p> : null}
+              <AccountPanel />
             </section>
           ) : (
             <section className="home-step">
@@ -342,16 +1283,72 @@ export const App = () => {
                 >
                   Join
                 </button>
+                <button
+                  className={homeMode === 'browse' ? 'btn mode-tab active' : 'btn mode-tab'}
+                  role="tab"
+                  aria-selected={homeMode === 'browse'}
+                  onClick={() => setHomeMode('browse')}
+                >
+                  Browse
+                </button>
+                <button
+                  className={homeMode === 'quick' ? 'btn mode-tab active' : 'btn mode-tab'}
+                  role="tab"
+                  aria-selected={homeMode === 'quick'}
+                  onClick={() => setHomeMode('quick')}
+                >
+                  Quick Match
+                </button>
+                <button
+                  className={homeMode === 'tournament' ? 'btn mode-tab active' : 'btn mode-tab'}
+                  role="tab"
+                  aria-selected={homeMode === 'tournament'}
+                  onClick={() => setHomeMode('tournament')}
+                >
+                  Tournament
+                </button>
               </div>
 
               <div className={homeMode === 'create' ? 'home-action-card active' : 'home-action-card'}>
                 <h3>Create Room</h3>
-                <p className="muted">Start a private room and share the code.</p>
+                <p className="muted">Start a room and share the code.</p>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={createPublic}
+                    onChange={(event) => setCreatePublic(event.target.checked)}
+                  />
+                  List in public rooms
+                </label>
                 <button className="btn primary" disabled={!canCreateRoom} onClick={submitCreateRoom}>
                   Create Room
                 </button>
               </div>
 
+              <div className={homeMode === 'browse' ? 'home-action-card active' : 'home-action-card'}>
+                <h3>Public Rooms</h3>
+                {homeMode === 'browse' ? (
+                  <PublicRoomsPanel onWatch={watchPublicRooms} onJoin={joinPublicRoom} />
+                ) : null}
+              </div>
+
+              <div className={homeMode === 'quick' ? 'home-action-card active' : 'home-action-card'}>
+                <h3>Quick Match</h3>
+                <p className="muted">Get grouped with other waiting players into a new room.</p>
+                <QuickMatchPanel onQueue={queueQuickMatch} onCancel={cancelQuickMatch} />
+              </div>
+
+              <div className={homeMode === 'tournament' ? 'home-action-card active' : 'home-action-card'}>
+                <h3>Tournament</h3>
+                {homeMode === 'tournament' ? (
+                  <TournamentPanel
+                    displayName={normalizedDisplayName}
+                    onWatch={watchTournament}
+                    onPlay={joinTournamentMatch}
+                  />
+                ) : null}
+              </div>
+
               <div className={homeMode === 'join' ? 'home-action-card active' : 'home-action-card'}>
                 <h3>Join Room</h3>
                 <label>
@@ -368,9 +1365,14 @@ export const App = () => {
                     }}
                   />
                 </label>
-                <button className="btn" disabled={!canJoinRoom} onClick={submitJoinRoom}>
-                  Join Room
-                </button>
+                <div className="row">
+                  <button className="btn" disabled={!canJoinRoom} onClick={submitJoinRoom}>
+                    Join Room
+                  </button>
+                  <button className="btn" disabled={!canJoinRoom} onClick={submitSpectateRoom}>
+                    Watch
+                  </button>
+                </div>
                 {!canJoinRoom ? <p className="muted">{joinDisabledReason}</p> : null}
               </div>
 
@@ -396,32 +1398,163 @@ export const App = () => {
       <main className="home-shell">
         <section className="home-card">
           <h2>Lobby {roomState.roomCode}</h2>
-          <p className="muted">Host: {hostLabel}</p>
+          <p className="muted">
+            Host: {hostLabel}
+            {roomState.public ? ' · public' : ''}
+            {roomState.locked ? ' · locked' : ''}
+            {roomState.tournament
+              ? ` · tournament ${roomState.tournament.code},` +
+                ` round ${roomState.tournament.round + 1}`
+              : ''}
+          </p>
+          {roomState.startCountdownEndsAt ? (
+            <StartCountdown
+              endsAt={roomState.startCountdownEndsAt}
+              scheduled={!!roomState.quickMatch || !!roomState.tournament}
+            />
+          ) : null}
 
           <ul className="players-list">
             {roomState.players.map((player) => (
               <li key={player.userId}>
-                <span>{player.displayName}</span>
-                <span>{player.connected ? 'online' : 'offline'}</span>
+                <span>
+                  {player.displayName}
+                  {player.rating !== undefined ? (
+                    <span className="player-rating" title="Skill rating">
+                      {' '}
+                      {player.rating}
+                    </span>
+                  ) : null}
+                </span>
+                <span>
+                  {player.botDifficulty ? `bot (${player.botDifficulty.toLowerCase()})` : player.connected ? 'online' : 'offline'}
+                </span>
                 <span>{player.ready ? 'ready' : 'not ready'}</span>
                 <span className="player-actions">
                   {roomState.hostUserId === player.userId ? 'host' : null}
-                  {isHost && roomState.hostUserId !== player.userId && !player.ready ? (
+                  {isHost && roomState.hostUserId !== player.userId && (!player.ready || player.botDifficulty) ? (
                     <button
                       className="btn lobby-kick"
-                      onClick={() => apiRef.current?.kickFromLobby(player.userId)}
+                      onClick={() => apiRef.current?.kickPlayer(player.userId)}
                     >
                       Kick
                     </button>
                   ) : null}
+                  {isHost && roomState.hostUserId !== player.userId && !player.botDifficulty ? (
+                    <button
+                      className="btn lobby-kick"
+                      onClick={() => apiRef.current?.kickPlayer(player.userId, { ban: true })}
+                    >
+                      Ban
+                    </button>
+                  ) : null}
+                  {isHost &&
+                  roomState.hostUserId !== player.userId &&
+                  !player.botDifficulty &&
+                  player.connected ? (
+                    <button
+                      className="btn lobby-kick"
+                      onClick={() => apiRef.current?.transferHost(player.userId)}
+                    >
+                      Make Host
+                    </button>
+                  ) : null}
                 </span>
               </li>
             ))}
           </ul>
 
+          <RulesPanel
+            rules={roomState.rules}
+            editable={isHost}
+            onChange={(rules) => apiRef.current?.configureRoom(rules)}
+          />
+
+          {isHost ? (
+            <div className="row">
+              <select
+                value={botDifficulty}
+                aria-label="Bot difficulty"
+                onChange={(event) => setBotDifficulty(event.target.value as BotDifficulty)}
+              >
+                {BOT_DIFFICULTIES.map((difficulty) => (
+                  <option key={difficulty} value={difficulty}>
+                    {difficulty.toLowerCase()}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="btn"
+                disabled={roomState.players.length >= MAX_PLAYERS}
+                onClick={() => apiRef.current?.addBot(botDifficulty)}
+              >
+                Add Bot
+              </button>
+              <button
+                className="btn"
+                onClick={() => apiRef.current?.setRoomLock(!roomState.locked)}
+              >
+                {roomState.locked ? 'Unlock Room' : 'Lock Room'}
+              </button>
+              <button
+                className="btn"
+                onClick={() => apiRef.current?.setRoomVisibility(!roomState.public)}
+              >
+                {roomState.public ? 'Make Private' : 'Make Public'}
+              </button>
+            </div>
+          ) : null}
+
+          {roomState.bans && roomState.bans.length > 0 ? (
+            <>
+              <p className="muted">Banned</p>
+              <ul className="players-list">
+                {roomState.bans.map((ban) => (
+                  <li key={ban.userId}>
+                    <span>{ban.displayName}</span>
+                    <span className="player-actions">
+                      {isHost ? (
+                        <button
+                          className="btn lobby-kick"
+                          onClick={() => apiRef.current?.unbanPlayer(ban.userId)}
+                        >
+                          Unban
+                        </button>
+                      ) : null}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+
+          {roomState.spectators.length > 0 ? (
+            <>
+              <p className="muted">Spectators</p>
+              <ul className="players-list">
+                {roomState.spectators.map((spectator) => (
+                  <li key={spectator.userId}>
+                    <span>{spectator.displayName}</span>
+                    <span>{spectator.connected ? 'watching' : 'offline'}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+
           <div className="row">
+            {isSpectator ? (
+              <button
+                className="btn primary"
+                disabled={roomState.players.length >= MAX_PLAYERS}
+                onClick={() => apiRef.current?.takeSeat()}
+              >
+                Take Seat
+              </button>
+            ) : null}
             <button
               className="btn"
+              disabled={isSpectator}
               onClick={() => {
                 const self = roomState.players.find((player) => player.userId === meUserId);
                 apiRef.current?.setReady(!(self?.ready ?? false));
@@ -439,6 +1572,8 @@ export const App = () => {
               New Room
             </button>
           </div>
+
+          {chatPanel}
         </section>
       </main>
     );
@@ -470,8 +1605,22 @@ export const App = () => {
 
   if (gameState.status === 'FINISHED') {
     const winner = gameState.players.find((player) => player.userId === gameState.winnerUserId);
+    const winnerTeamId = gameState.winnerTeamId;
+    const myTeamId = gameState.players.find((player) => player.userId === meUserId)?.teamId;
     const standings = [...gameState.players].sort((a, b) => a.handCount - b.handCount || a.seatIndex - b.seatIndex);
-    const winnerTitle = winner?.userId === meUserId ? 'You Win!' : 'Game Over';
+    const series = roomState.series;
+    const seriesWinner = gameState.players.find((player) => player.userId === series?.winnerUserId);
+    const winnerTitle = series
+      ? seriesWinner
+        ? seriesWinner.userId === meUserId
+          ? 'You Win the Series!'
+          : 'Series Over'
+        : `Round ${series.rounds.length} Over`
+      : winner?.userId === meUserId
+        ? 'You Win!'
+        : winnerTeamId !== undefined && winnerTeamId === myTeamId
+          ? 'Your Team Wins!'
+          : 'Game Over';
     return (
       <main className="home-shell">
         <section className="home-card winner-card">
@@ -485,18 +1634,52 @@ export const App = () => {
           </div>
           <div className="winner-highlight">
             <p className="muted">Champion</p>
-            <h3>{winner?.displayName ?? gameState.winnerUserId}</h3>
+            <h3>
+              {winnerTeamId !== undefined ? `${teamName(winnerTeamId)} · ` : ''}
+              {winner?.displayName ?? gameState.winnerUserId}
+            </h3>
           </div>
           <ul className="winner-standings">
             {standings.map((player, index) => (
               <li key={player.userId}>
-                <span>{index + 1}. {player.displayName}</span>
+                <span>
+                  {index + 1}. {player.displayName}
+                  {player.teamId !== undefined ? ` (${teamName(player.teamId)})` : ''}
+                </span>
                 <strong>{player.handCount} cards</strong>
               </li>
             ))}
           </ul>
+          {roomState.matchStats ? (
+            <MatchStatsPanel players={standings} stats={roomState.matchStats} meUserId={meUserId} />
+          ) : null}
+          {series ? (
+            <ul className="winner-standings series-scoreboard" aria-label="Series scoreboard">
+              {[...gameState.players]
+                .sort(
+                  (a, b) =>
+                    (series.scores[b.userId] ?? 0) - (series.scores[a.userId] ?? 0) ||
+                    a.seatIndex - b.seatIndex,
+                )
+                .map((player) => (
+                  <li key={player.userId}>
+                    <span>{player.displayName}</span>
+                    <strong>{series.scores[player.userId] ?? 0} pts</strong>
+                  </li>
+                ))}
+            </ul>
+          ) : null}
           <div className="row">
-            <button className="btn primary" onClick={() => apiRef.current?.stopGame()}>
+            {series && !series.winnerUserId ? (
+              <button className="btn primary" disabled={!isHost} onClick={() => apiRef.current?.nextRound()}>
+                Next Round
+              </button>
+            ) : null}
+            <button
+              className={series && !series.winnerUserId ? 'btn' : 'btn primary'}
+              disabled={isSpectator}
+              onClick={() => apiRef.current?.stopGame()}
+            >
               Return to Lobby
             </button>
             <button className="btn danger" onClick={leaveToHome}>
@@ -506,6 +1689,8 @@ export const App = () => {
               New Room
             </button>
           </div>
+
+          {chatPanel}
         </section>
       </main>
     );
@@ -586,6 +1771,12 @@ export const App = () => {
               <strong>Pile</strong>
               <span>{gameState.pileCount}</span>
             </div>
+            {gameState.roundsPlayed !== undefined ? (
+              <div className="status-micro-chip">
+                <strong>Round</strong>
+                <span>{gameState.roundsPlayed + 1}</span>
+              </div>
+            ) : null}
             <div className="status-micro-chip">
               <strong>Latency</strong>
               <span>{Math.round(rttAvg)}ms</span>
@@ -612,19 +1803,42 @@ export const App = () => {
             {gameState.players.map((player) => (
               <span
                 key={player.userId}
-                className={player.userId === meUserId ? 'holders-chip me' : 'holders-chip'}
-                title={`${player.displayName}: ${player.handCount}`}
+                className={[
+                  'holders-chip',
+                  player.userId === meUserId ? 'me' : '',
+                  player.forfeited || player.eliminated ? 'out' : !player.connected ? 'away' : '',
+                  player.teamId !== undefined ? `team-${player.teamId}` : '',
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+                title={`${player.displayName}${
+                  player.teamId !== undefined ? ` (${teamName(player.teamId)})` : ''
+                }: ${player.handCount}${
+                  player.forfeited
+                    ? ' (forfeited)'
+                    : player.eliminated
+                      ? ' (eliminated)'
+                      : !player.connected
+                        ? ' (reconnecting)'
+                        : ''
+                }`}
               >
                 <span className="holder-name">{player.displayName}</span>
                 <span className="holder-count">{player.handCount}</span>
+                <FloatingEmotes messages={chat} userId={player.userId} />
               </span>
             ))}
           </section>
 
+          <EmoteBar
+            disabled={!!meUserId && !!roomState.chatMutedUserIds?.includes(meUserId)}
+            onEmote={(emote) => apiRef.current?.sendEmote(emote)}
+          />
+
           <section className="mini-stats">
             <div className="stat-pill">
-              <span className="stat-label">Your Hand</span>
-              <strong>{me?.handCount ?? 0}</strong>
+              <span className="stat-label">{isSpectator ? 'Watching' : 'Your Hand'}</span>
+              <strong>{isSpectator ? `${roomState.spectators.length} spectators` : (me?.handCount ?? 0)}</strong>
             </div>
             <div className="stat-pill">
               <span className="stat-label">Last Card Taker</span>
@@ -632,7 +1846,7 @@ export const App = () => {
             </div>
           </section>
 
-          {isActionWindow ? (
+          {isActionWindow && !isSpectator ? (
             <section className="gesture-zone" aria-label="Action selection">
               <p>Required action: {cardBadge(gameState.slapWindow.actionCard)}</p>
               <div className="gesture-grid">
@@ -650,46 +1864,57 @@ export const App = () => {
             </section>
           ) : null}
 
-          <section className="controls-zone fixed-controls">
-            <button
-              className="btn xlarge flip"
-              disabled={!canFlip}
-              onClick={() => {
-                playFlipSound();
-                apiRef.current?.flip();
-              }}
-            >
-              FLIP
-            </button>
+          {isSpectator ? (
+            <section className="control-hints" aria-live="polite">
+              <p className="muted">You are spectating. Take a free seat when the room returns to the lobby.</p>
+            </section>
+          ) : (
+            <section className="controls-zone fixed-controls">
+              <button
+                className="btn xlarge flip"
+                disabled={!canFlip}
+                onClick={() => {
+                  playFlipSound();
+                  apiRef.current?.flip();
+                }}
+              >
+                FLIP
+              </button>
 
-            <button className="btn xlarge slap" onClick={submitSlap}>
-              SLAP (Space)
-            </button>
-          </section>
+              <button className="btn xlarge slap" onClick={submitSlap}>
+                SLAP (Space)
+              </button>
+            </section>
+          )}
 
-          <section className="control-hints" aria-live="polite">
-            {!canFlip && flipDisabledReason ? <p className="muted">Flip disabled: {flipDisabledReason}</p> : null}
-            {!slapActive ? <p className="muted">No slap window open. Slapping now is a false slap penalty.</p> : null}
-            {slapActive && submittedSlapEventId === gameState.slapWindow.eventId ? (
-              <p className="muted">You already slapped this event. Extra slaps are ignored.</p>
-            ) : null}
-            {slapActive && gameState.slapWindow.reason === 'SAME_CARD' && pendingConnectedSlappers.length > 0 ? (
-              <p className="muted">
-                Same card round: waiting for every connected player to slap. Pending: {pendingConnectedSlappersLabel}.
-              </p>
-            ) : null}
-            {slapActive && gameState.slapWindow.reason === 'ACTION' && pendingConnectedSlappers.length > 0 ? (
-              <p className="muted">
-                Action round: waiting for every connected player to slap before next flip. Pending:{' '}
-                {pendingConnectedSlappersLabel}.
-              </p>
-            ) : null}
-            {isActionWindow && !selectedGesture ? (
-              <p className="muted">No action selected. Slapping now will count as wrong gesture.</p>
-            ) : null}
-          </section>
+          {isSpectator ? null : (
+            <section className="control-hints" aria-live="polite">
+              {!canFlip && flipDisabledReason ? <p className="muted">Flip disabled: {flipDisabledReason}</p> : null}
+              {!slapActive ? <p className="muted">No slap window open. Slapping now is a false slap penalty.</p> : null}
+              {slapActive && submittedSlapEventId === gameState.slapWindow.eventId ? (
+                <p className="muted">You already slapped this event. Extra slaps are ignored.</p>
+              ) : null}
+              {slapActive && gameState.slapWindow.reason === 'SAME_CARD' && pendingConnectedSlappers.length > 0 ? (
+                <p className="muted">
+                  Same card round: waiting for every connected player to slap. Pending: {pendingConnectedSlappersLabel}.
+                </p>
+              ) : null}
+              {slapActive && gameState.slapWindow.reason === 'ACTION' && pendingConnectedSlappers.length > 0 ? (
+                <p className="muted">
+                  Action round: waiting for every connected player to slap before next flip. Pending:{' '}
+                  {pendingConnectedSlappersLabel}.
+                </p>
+              ) : null}
+              {isActionWindow && !selectedGesture ? (
+                <p className="muted">No action selected. Slapping now will count as wrong gesture.</p>
+              ) : null}
+            </section>
+          )}
 
           <section className="secondary-controls">
+            {!isHost && roomState.hostMigrationDeadline ? (
+              <p className="muted">Host disconnected. Another player takes over if they stay away.</p>
+            ) : null}
             {isHost ? (
               <button className="btn danger" onClick={() => apiRef.current?.stopGame()}>
                 Stop Game
@@ -700,6 +1925,44 @@ export const App = () => {
                 Skip Slap Round
               </button>
             ) : null}
+            {isHost ? (
+              <span className="host-kick">
+                <select
+                  value={kickTargetUserId}
+                  aria-label="Player to kick"
+                  onChange={(event) => setKickTargetUserId(event.target.value)}
+                >
+                  <option value="">Kick player...</option>
+                  {roomState.players
+                    .filter((player) => player.userId !== meUserId && !player.kicked)
+                    .map((player) => (
+                      <option key={player.userId} value={player.userId}>
+                        {player.displayName}
+                      </option>
+                    ))}
+                </select>
+                <button
+                  className="btn"
+                  disabled={!kickTargetUserId}
+                  onClick={() => {
+                    apiRef.current?.kickPlayer(kickTargetUserId, { hand: 'PILE' });
+                    setKickTargetUserId('');
+                  }}
+                >
+                  Cards to Pile
+                </button>
+                <button
+                  className="btn"
+                  disabled={!kickTargetUserId}
+                  onClick={() => {
+                    apiRef.current?.kickPlayer(kickTargetUserId, { hand: 'DEAL' });
+                    setKickTargetUserId('');
+                  }}
+                >
+                  Deal Cards Out
+                </button>
+              </span>
+            ) : null}
             <button className="btn" onClick={leaveToHome}>
               Leave Room
             </button>
@@ -714,6 +1977,8 @@ export const App = () => {
               {feedCollapsed ? 'Show Feed' : 'Hide Feed'}
             </button>
           </section>
+
+          {chatPanel}
         </section>
 
       <aside className={feedCollapsed ? 'feed-drawer collapsed' : 'feed-drawer'}>
@@ -0,0 +1,39 @@
+import {
+  playerAccountSchema,
+  playerMatchHistorySchema,
+  type PlayerAccount,
+  type PlayerMatchHistory,
+} from '@slaphard/shared';
+import { serverUrl } from './socket';
+
+export const requestJson = async (path: string, init?: RequestInit): Promise<unknown> => {
+  const response = await fetch(`${serverUrl}${path}`, {
+    ...init,
+    headers: { 'content-type': 'application/json', ...init?.headers },
+  });
+  const body: unknown = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    const message =
+      body && typeof body === 'object' && 'message' in body && typeof body.message === 'string'
+        ? body.message
+        : `request failed (${response.status})`;
+    throw new Error(message);
+  }
+  return body;
+};
+
+export const registerAccount = async (username: string, secret: string): Promise<PlayerAccount> =>
+  playerAccountSchema.parse(
+    await requestJson('/players', { method: 'POST', body: JSON.stringify({ username, secret }) }),
+  );
+
+export const signInAccount = async (username: string, secret: string): Promise<PlayerAccount> =>
+  playerAccountSchema.parse(
+    await requestJson('/players/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, secret }),
+    }),
+  );
+
+export const fetchMatchHistory = async (playerId: string): Promise<PlayerMatchHistory> =>
+  playerMatchHistorySchema.parse(await requestJson(`/players/${playerId}/matches?limit=10`));
@@ -1,16 +1,22 @@
 import { io, type Socket } from 'socket.io-client';
 import {
+  applyGameStatePatch,
   clientEventsSchemas,
   serverEventsSchemas,
+  type BotDifficulty,
+  type Emote,
   type ClientEventName,
+  type GameStateView,
   type Gesture,
+  type KickedHandDisposition,
+  type RoomRules,
   type ServerEventName,
   type ServerEventPayload,
 } from '@slaphard/shared';
 import { playCheerSound, playSadSound } from './audio';
-import { getPersistedIdentity, useAppStore } from './store';
+import { clearPersistedRoom, getPersistedIdentity, useAppStore } from './store';
 
-const serverUrl = import.meta.env.VITE_SERVER_URL ?? 'http://localhost:3001';
+export const serverUrl = import.meta.env.VITE_SERVER_URL ?? 'http://localhost:3001';
 
 const parseServerPayload = <T extends ServerEventName>(
   event: T,
@@ -22,19 +28,38 @@ const parseServerPayload = <T extends ServerEventName>(
 
 export interface SocketApi {
   socket: Socket;
-  createRoom: (displayName: string) => void;
-  joinRoom: (roomCode: string, displayName: string, userId?: string) => void;
+  createRoom: (displayName: string, isPublic?: boolean) => void;
+  watchPublicRooms: () => void;
+  queueQuickMatch: (displayName: string, size: number) => void;
+  cancelQuickMatch: () => void;
+  watchTournament: (code: string) => void;
+  joinTournamentMatch: (code: string, token: string) => void;
+  joinRoom: (roomCode: string, displayName: string, sessionToken?: string) => void;
+  spectateRoom: (roomCode: string, displayName: string, sessionToken?: string) => void;
   leaveRoom: () => void;
   setReady: (ready: boolean) => void;
-  kickFromLobby: (userId: string) => void;
+  kickPlayer: (userId: string, options?: { ban?: boolean; hand?: KickedHandDisposition }) => void;
+  unbanPlayer: (userId: string) => void;
+  setRoomLock: (locked: boolean) => void;
+  setRoomVisibility: (isPublic: boolean) => void;
+  transferHost: (userId: string) => void;
+  takeSeat: () => void;
+  addBot: (difficulty: BotDifficulty) => void;
+  configureRoom: (rules: Partial<RoomRules>) => void;
   startGame: () => void;
   stopGame: () => void;
+  nextRound: () => void;
   skipSlapWindow: () => void;
   flip: () => void;
   slap: (eventId: string, gesture?: Gesture) => void;
+  sendChat: (text: string) => void;
+  sendEmote: (emote: Emote) => void;
+  muteChat: (userId: string, muted: boolean) => void;
   ping: () => void;
 }
 
+const accountToken = (): string | undefined => useAppStore.getState().account?.accountToken;
+
 const emitValidated = <T extends ClientEventName>(socket: Socket, event: T, payload: unknown): void => {
   const parsed = clientEventsSchemas[event].safeParse(payload);
   if (!parsed.success) {
@@ -58,13 +83,18 @@ export const createSocketApi = (): SocketApi => {
     const store = useAppStore.getState();
     store.setSocketStatus('connected');
     store.pushFeed('connected');
+    if (store.tournament) {
+      // Watching is per socket, so a reconnect has to ask again.
+      emitValidated(socket, 'v1:tournament.watch', { code: store.tournament.code });
+    }
     const persisted = getPersistedIdentity();
     if (persisted.roomCode && persisted.displayName) {
       store.setRejoinState('attempting');
       emitValidated(socket, 'v1:room.join', {
         roomCode: persisted.roomCode.toUpperCase(),
         displayName: persisted.displayName,
-        userId: persisted.userId,
+        sessionToken: persisted.sessionToken,
+        accountToken: store.account?.accountToken,
       });
       return;
     }
@@ -82,7 +112,12 @@ export const createSocketApi = (): SocketApi => {
       return;
     }
     const store = useAppStore.getState();
-    store.setRoomState(data.room, data.meUserId);
+    const previous = store.roomState;
+    store.setRoomState(data.room, data.meUserId, data.sessionToken);
+    if (previous?.roomId === data.room.roomId && previous.hostUserId !== data.room.hostUserId) {
+      const host = data.room.players.find((player) => player.userId === data.room.hostUserId);
+      store.pushFeed(`${host?.displayName ?? 'Someone'} is now the host.`);
+    }
   });
 
   socket.on('v1:room.kicked', (payload) => {
@@ -92,28 +127,61 @@ export const createSocketApi = (): SocketApi => {
     }
     const store = useAppStore.getState();
     store.clearRoom();
-    store.pushFeed(`You were removed from lobby ${data.roomCode} by host.`);
+    store.pushFeed(`You were removed from room ${data.roomCode} by host.`);
   });
 
-  socket.on('v1:game.state', (payload) => {
-    const data = parseServerPayload('v1:game.state', payload);
+  socket.on('v1:room.left', (payload) => {
+    const data = parseServerPayload('v1:room.left', payload);
     if (!data) {
       return;
     }
+    const store = useAppStore.getState();
+    store.clearRoom();
+    store.pushFeed(`Room ${data.roomCode} started without you and has no spectator seat left.`);
+  });
+
+  const applyGameView = (view: GameStateView): void => {
     const store = useAppStore.getState();
     const previousVersion = store.gameState?.version;
-    store.setGameState(data.snapshot);
+    store.setGameState(view);
 
-    if (!data.snapshot.slapWindow.active || data.snapshot.slapWindow.resolved) {
+    if (!view.slapWindow.active || view.slapWindow.resolved) {
       store.clearSlapSubmission();
     }
 
-    if (previousVersion !== data.snapshot.version) {
-      const slapState = data.snapshot.slapWindow.active && !data.snapshot.slapWindow.resolved ? 'open' : 'idle';
-      store.pushFeed(
-        `state v${data.snapshot.version}: turn=${data.snapshot.currentTurnSeat}, slap=${slapState}`,
-      );
+    if (previousVersion !== view.version) {
+      const slapState = view.slapWindow.active && !view.slapWindow.resolved ? 'open' : 'idle';
+      store.pushFeed(`state v${view.version}: turn=${view.currentTurnSeat}, slap=${slapState}`);
+    }
+  };
+
+  socket.on('v1:game.state', (payload) => {
+    const data = parseServerPayload('v1:game.state', payload);
+    if (!data) {
+      return;
+    }
+    applyGameView(data.snapshot);
+  });
+
+  socket.on('v1:game.delta', (payload) => {
+    const data = parseServerPayload('v1:game.delta', payload);
+    if (!data) {
+      return;
+    }
+    const current = useAppStore.getState().gameState;
+    if (!current || current.version !== data.baseVersion) {
+      emitValidated(socket, 'v1:game.resync', {});
+      return;
     }
+
+    let next: GameStateView;
+    try {
+      next = applyGameStatePatch(current, data.patch);
+    } catch {
+      emitValidated(socket, 'v1:game.resync', {});
+      return;
+    }
+    applyGameView(next);
   });
 
   socket.on('v1:game.slapWindowOpen', (payload) => {
@@ -191,11 +259,58 @@ export const createSocketApi = (): SocketApi => {
     store.pushFeed(`penalty: ${data.type} on ${data.userId.slice(0, 6)}`);
   });
 
+  socket.on('v1:rooms.list', (payload) => {
+    const data = parseServerPayload('v1:rooms.list', payload);
+    if (!data) {
+      return;
+    }
+    useAppStore.getState().setPublicRooms(data.rooms);
+  });
+
+  socket.on('v1:match.queued', (payload) => {
+    const data = parseServerPayload('v1:match.queued', payload);
+    if (!data) {
+      return;
+    }
+    useAppStore.getState().setQuickMatch(data);
+  });
+
+  socket.on('v1:tournament.state', (payload) => {
+    const data = parseServerPayload('v1:tournament.state', payload);
+    if (!data) {
+      return;
+    }
+    useAppStore.getState().setTournament(data.tournament);
+  });
+
+  socket.on('v1:chat.history', (payload) => {
+    const data = parseServerPayload('v1:chat.history', payload);
+    if (!data) {
+      return;
+    }
+    useAppStore.getState().setChatHistory(data.messages);
+  });
+
+  socket.on('v1:chat.message', (payload) => {
+    const data = parseServerPayload('v1:chat.message', payload);
+    if (!data) {
+      return;
+    }
+    useAppStore.getState().pushChat(data);
+  });
+
   socket.on('v1:pong', (payload) => {
     const data = parseServerPayload('v1:pong', payload);
     if (!data) {
       return;
     }
+    // Answered right away: the server times this round trip for its own clock sync.
+    const receivedAt = Date.now();
+    emitValidated(socket, 'v1:clock.echo', {
+      serverTime: data.serverTime,
+      receivedAt,
+      sentAt: Date.now(),
+    });
     useAppStore.getState().updateTimeSync(data.serverTime, data.clientTimeEcho);
   });
 
@@ -205,9 +320,21 @@ export const createSocketApi = (): SocketApi => {
       return;
     }
     const store = useAppStore.getState();
+    if (data.code === 'INVALID_SESSION') {
+      // Drop the stale token so the next join starts a fresh session.
+      clearPersistedRoom();
+    }
+    if (data.code === 'INVALID_CREDENTIALS') {
+      // The account token expired; play on as a guest until the player signs in again.
+      store.setAccount(undefined);
+    }
     if (
       store.rejoinState === 'attempting' &&
-      (data.code === 'ROOM_NOT_FOUND' || data.code === 'NOT_IN_LOBBY')
+      (data.code === 'ROOM_NOT_FOUND' ||
+        data.code === 'NOT_IN_LOBBY' ||
+        data.code === 'BANNED' ||
+        data.code === 'INVALID_SESSION' ||
+        data.code === 'INVALID_CREDENTIALS')
     ) {
       store.clearRoom();
       store.setRejoinState('failed', `Could not reconnect: ${data.message}`);
@@ -218,14 +345,46 @@ export const createSocketApi = (): SocketApi => {
 
   return {
     socket,
-    createRoom: (displayName: string) => emitValidated(socket, 'v1:room.create', { displayName }),
-    joinRoom: (roomCode: string, displayName: string, userId?: string) =>
-      emitValidated(socket, 'v1:room.join', { roomCode: roomCode.toUpperCase(), displayName, userId }),
+    createRoom: (displayName: string, isPublic?: boolean) =>
+      emitValidated(socket, 'v1:room.create', {
+        displayName,
+        accountToken: accountToken(),
+        ...(isPublic ? { public: true } : {}),
+      }),
+    watchPublicRooms: () => emitValidated(socket, 'v1:rooms.list', {}),
+    queueQuickMatch: (displayName: string, size: number) =>
+      emitValidated(socket, 'v1:match.queue', { displayName, size, accountToken: accountToken() }),
+    cancelQuickMatch: () => {
+      useAppStore.getState().setQuickMatch(undefined);
+      emitValidated(socket, 'v1:match.cancel', {});
+    },
+    watchTournament: (code: string) => emitValidated(socket, 'v1:tournament.watch', { code }),
+    joinTournamentMatch: (code: string, token: string) =>
+      emitValidated(socket, 'v1:tournament.join', { code, token }),
+    joinRoom: (roomCode: string, displayName: string, sessionToken?: string) =>
+      emitValidated(socket, 'v1:room.join', {
+        roomCode: roomCode.toUpperCase(),
+        displayName,
+        sessionToken,
+        accountToken: accountToken(),
+      }),
+    spectateRoom: (roomCode: string, displayName: string, sessionToken?: string) =>
+      emitValidated(socket, 'v1:room.spectate', { roomCode: roomCode.toUpperCase(), displayName, sessionToken }),
     leaveRoom: () => emitValidated(socket, 'v1:room.leave', {}),
     setReady: (ready: boolean) => emitValidated(socket, 'v1:lobby.ready', { ready }),
-    kickFromLobby: (userId: string) => emitValidated(socket, 'v1:lobby.kick', { userId }),
+    kickPlayer: (userId: string, options?: { ban?: boolean; hand?: KickedHandDisposition }) =>
+      emitValidated(socket, 'v1:lobby.kick', { userId, ...options }),
+    unbanPlayer: (userId: string) => emitValidated(socket, 'v1:lobby.unban', { userId }),
+    setRoomLock: (locked: boolean) => emitValidated(socket, 'v1:lobby.lock', { locked }),
+    setRoomVisibility: (isPublic: boolean) =>
+      emitValidated(socket, 'v1:lobby.visibility', { public: isPublic }),
+    transferHost: (userId: string) => emitValidated(socket, 'v1:lobby.transferHost', { userId }),
+    takeSeat: () => emitValidated(socket, 'v1:lobby.takeSeat', { accountToken: accountToken() }),
+    addBot: (difficulty: BotDifficulty) => emitValidated(socket, 'v1:lobby.addBot', { difficulty }),
+    configureRoom: (rules: Partial<RoomRules>) => emitValidated(socket, 'v1:lobby.configure', rules),
     startGame: () => emitValidated(socket, 'v1:lobby.start', {}),
     stopGame: () => emitValidated(socket, 'v1:game.stop', {}),
+    nextRound: () => emitValidated(socket, 'v1:game.nextRound', {}),
     skipSlapWindow: () => emitValidated(socket, 'v1:game.skipSlap', {}),
     flip: () => {
       const seq = useAppStore.getState().nextClientSeq();
@@ -247,6 +406,12 @@ export const createSocketApi = (): SocketApi => {
       });
       state.markSlapSubmitted(eventId);
     },
-    ping: () => emitValidated(socket, 'v1:ping', { clientTime: Date.now() }),
+    sendChat: (text: string) =>
+      emitValidated(socket, 'v1:chat.send', { kind: 'TEXT', text }),
+    sendEmote: (emote: Emote) =>
+      emitValidated(socket, 'v1:chat.send', { kind: 'EMOTE', emote }),
+    muteChat: (userId: string, muted: boolean) => emitValidated(socket, 'v1:chat.mute', { userId, muted }),
+    ping: () =>
+      emitValidated(socket, 'v1:ping', { clientTime: Date.now() }),
   };
 };
@@ -1,10 +1,31 @@
 import { create } from 'zustand';
-import { PING_INTERVAL_IN_GAME_MS, PING_INTERVAL_LOBBY_MS, type Gesture } from '@slaphard/shared';
-import type { RoomState, GameStateView } from '@slaphard/shared';
+import {
+  CHAT_HISTORY_LIMIT,
+  PING_INTERVAL_IN_GAME_MS,
+  PING_INTERVAL_LOBBY_MS,
+  playerAccountSchema,
+  type Gesture,
+} from '@slaphard/shared';
+import type {
+  ChatMessage,
+  RoomState,
+  GameStateView,
+  PlayerAccount,
+  PublicRoomListing,
+  Tournament,
+} from '@slaphard/shared';
 
 export type SocketStatus = 'disconnected' | 'connecting' | 'connected';
 export type RejoinState = 'idle' | 'attempting' | 'failed';
 
+/** Tokens this browser holds for the tournament it last created or registered for. */
+export interface TournamentPass {
+  code: string;
+  organizerToken?: string | undefined;
+  entrantToken?: string | undefined;
+  entrantId?: string | undefined;
+}
+
 interface TimeSyncState {
   offsetAvg: number;
   rttAvg: number;
@@ -15,7 +36,7 @@ interface TimeSyncState {
 interface UiState {
   roomCodeInput: string;
   homeStep: 'identity' | 'roomAction';
-  homeMode: 'create' | 'join';
+  homeMode: 'create' | 'join' | 'browse' | 'quick' | 'tournament';
   selectedGesture: Gesture | undefined;
   submittedSlapEventId: string | undefined;
   feedCollapsed: boolean;
@@ -32,8 +53,15 @@ interface AppState {
   lastCardTakerUserId: string | undefined;
   lastCardTakerPileTaken: number | undefined;
   displayName: string;
+  account: PlayerAccount | undefined;
   persistedRoomCode: string | undefined;
   feed: string[];
+  chat: ChatMessage[];
+  publicRooms: PublicRoomListing[];
+  /** Set while this socket waits in the quick-match queue. */
+  quickMatch: { size: number; waiting: number } | undefined;
+  tournament: Tournament | undefined;
+  tournamentPass: TournamentPass | undefined;
   clientSeq: number;
   timeSync: TimeSyncState;
   ui: UiState;
@@ -41,10 +69,11 @@ interface AppState {
   setSocketStatus: (status: SocketStatus) => void;
   setRejoinState: (state: RejoinState, error?: string) => void;
   setDisplayName: (displayName: string) => void;
+  setAccount: (account?: PlayerAccount) => void;
   setRoomCodeInput: (code: string) => void;
   setHomeStep: (step: UiState['homeStep']) => void;
   setHomeMode: (mode: UiState['homeMode']) => void;
-  setRoomState: (room: RoomState, meUserId: string) => void;
+  setRoomState: (room: RoomState, meUserId: string, sessionToken: string) => void;
   setGameState: (state: GameStateView) => void;
   setLastCardTaker: (userId?: string, pileTaken?: number) => void;
   setSelectedGesture: (gesture?: Gesture) => void;
@@ -52,15 +81,24 @@ interface AppState {
   clearSlapSubmission: () => void;
   setFeedCollapsed: (collapsed: boolean) => void;
   pushFeed: (message: string) => void;
+  setChatHistory: (messages: ChatMessage[]) => void;
+  pushChat: (message: ChatMessage) => void;
+  setPublicRooms: (rooms: PublicRoomListing[]) => void;
+  setQuickMatch: (quickMatch?: { size: number; waiting: number }) => void;
+  setTournament: (tournament?: Tournament) => void;
+  /** Merges into the held pass when it is for the same tournament, replaces it otherwise. */
+  updateTournamentPass: (pass: TournamentPass) => void;
   clearRoom: () => void;
   nextClientSeq: () => number;
   updateTimeSync: (serverTime: number, clientTimeEcho: number) => void;
 }
 
 const localDisplayNameKey = 'slaphard.displayName';
-const localUserKey = 'slaphard.userId';
+const localSessionTokenKey = 'slaphard.sessionToken';
 const localRoomCodeKey = 'slaphard.roomCode';
 const localFeedCollapsedKey = 'slaphard.feedCollapsed';
+const localAccountKey = 'slaphard.account';
+const localTournamentPassKey = 'slaphard.tournamentPass';
 
 const safeLocalStorageGet = (key: string): string | null => {
   try {
@@ -90,26 +128,26 @@ const average = (previous: number, next: number, alpha = 0.2): number =>
   previous === 0 ? next : previous * (1 - alpha) + next * alpha;
 
 export const getPersistedIdentity = (): {
-  userId: string | undefined;
+  sessionToken: string | undefined;
   roomCode: string | undefined;
   displayName: string | undefined;
 } => ({
-  userId: safeLocalStorageGet(localUserKey) ?? undefined,
+  sessionToken: safeLocalStorageGet(localSessionTokenKey) ?? undefined,
   roomCode: safeLocalStorageGet(localRoomCodeKey) ?? undefined,
   displayName: safeLocalStorageGet(localDisplayNameKey) ?? undefined,
 });
 
 export const persistIdentity = ({
-  userId,
+  sessionToken,
   roomCode,
   displayName,
 }: {
-  userId: string | undefined;
+  sessionToken: string | undefined;
   roomCode: string | undefined;
   displayName: string | undefined;
 }): void => {
-  if (userId) {
-    safeLocalStorageSet(localUserKey, userId);
+  if (sessionToken) {
+    safeLocalStorageSet(localSessionTokenKey, sessionToken);
   }
   if (roomCode) {
     safeLocalStorageSet(localRoomCodeKey, roomCode);
@@ -121,6 +159,28 @@ export const persistIdentity = ({
 
 export const clearPersistedRoom = (): void => {
   safeLocalStorageRemove(localRoomCodeKey);
+  // Session tokens are bound to one room.
+  safeLocalStorageRemove(localSessionTokenKey);
+};
+
+const persistedAccount = (): PlayerAccount | undefined => {
+  try {
+    const parsed = playerAccountSchema.safeParse(JSON.parse(safeLocalStorageGet(localAccountKey) ?? 'null'));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const persistedTournamentPass = (): TournamentPass | undefined => {
+  try {
+    const parsed: unknown = JSON.parse(safeLocalStorageGet(localTournamentPassKey) ?? 'null');
+    const valid =
+      !!parsed && typeof parsed === 'object' && 'code' in parsed && typeof parsed.code === 'string';
+    return valid ? (parsed as TournamentPass) : undefined;
+  } catch {
+    return undefined;
+  }
 };
 
 const persistedFeedCollapsed = (): boolean => {
@@ -136,6 +196,7 @@ export const useAppStore = create<AppState>((set, get) => ({
     const identity = getPersistedIdentity();
     return {
       displayName: identity.displayName ?? '',
+      account: persistedAccount(),
       persistedRoomCode: identity.roomCode,
       rejoinState: identity.roomCode && identity.displayName ? ('attempting' as const) : ('idle' as const),
     };
@@ -149,6 +210,11 @@ export const useAppStore = create<AppState>((set, get) => ({
   lastCardTakerUserId: undefined,
   lastCardTakerPileTaken: undefined,
   feed: [],
+  chat: [],
+  publicRooms: [],
+  quickMatch: undefined,
+  tournament: undefined,
+  tournamentPass: persistedTournamentPass(),
   clientSeq: 0,
   timeSync: {
     offsetAvg: 0,
@@ -170,22 +236,32 @@ export const useAppStore = create<AppState>((set, get) => ({
   setRejoinState: (rejoinState, rejoinError) => set({ rejoinState, rejoinError }),
 
   setDisplayName: (displayName) => {
-    persistIdentity({ displayName, roomCode: undefined, userId: undefined });
+    persistIdentity({ displayName, roomCode: undefined, sessionToken: undefined });
     set({ displayName });
   },
 
+  setAccount: (account) => {
+    if (account) {
+      safeLocalStorageSet(localAccountKey, JSON.stringify(account));
+    } else {
+      safeLocalStorageRemove(localAccountKey);
+    }
+    set({ account });
+  },
+
   setRoomCodeInput: (roomCodeInput) => set((state) => ({ ui: { ...state.ui, roomCodeInput } })),
 
   setHomeStep: (homeStep) => set((state) => ({ ui: { ...state.ui, homeStep } })),
 
   setHomeMode: (homeMode) => set((state) => ({ ui: { ...state.ui, homeMode } })),
 
-  setRoomState: (roomState, meUserId) => {
-    persistIdentity({ userId: meUserId, roomCode: roomState.roomCode, displayName: undefined });
+  setRoomState: (roomState, meUserId, sessionToken) => {
+    persistIdentity({ sessionToken, roomCode: roomState.roomCode, displayName: undefined });
     set((state) => ({
       roomState,
       meUserId,
       persistedRoomCode: roomState.roomCode,
+      quickMatch: undefined,
       gameState: roomState.status === 'LOBBY' ? undefined : state.gameState,
       lastGameStateAt: roomState.status === 'LOBBY' ? undefined : state.lastGameStateAt,
       lastCardTakerUserId: roomState.status === 'LOBBY' ? undefined : state.lastCardTakerUserId,
@@ -226,6 +302,26 @@ export const useAppStore = create<AppState>((set, get) => ({
       feed: [message, ...state.feed].slice(0, 24),
     })),
 
+  setChatHistory: (chat) => set({ chat }),
+
+  pushChat: (message) =>
+    set((state) => ({
+      chat: [...state.chat, message].slice(-CHAT_HISTORY_LIMIT),
+    })),
+
+  setPublicRooms: (publicRooms) => set({ publicRooms }),
+
+  setQuickMatch: (quickMatch) => set({ quickMatch }),
+
+  setTournament: (tournament) => set({ tournament }),
+
+  updateTournamentPass: (pass) => {
+    const previous = get().tournamentPass;
+    const tournamentPass = previous?.code === pass.code ? { ...previous, ...pass } : pass;
+    safeLocalStorageSet(localTournamentPassKey, JSON.stringify(tournamentPass));
+    set({ tournamentPass });
+  },
+
   clearRoom: () => {
     clearPersistedRoom();
     set((state) => ({
@@ -246,6 +342,7 @@ export const useAppStore = create<AppState>((set, get) => ({
         feedCollapsed: state.ui.feedCollapsed,
       },
       feed: [],
+      chat: [],
     }));
   },
 
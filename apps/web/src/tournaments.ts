@@ -0,0 +1,39 @@
+import {
+  tournamentCredentialsSchema,
+  tournamentSchema,
+  type Tournament,
+  type TournamentCredentials,
+} from '@slaphard/shared';
+import { requestJson } from './accounts';
+
+export const createTournament = async (settings: {
+  name: string;
+  roomSize: number;
+  advancePerRoom: number;
+}): Promise<TournamentCredentials> =>
+  tournamentCredentialsSchema.parse(
+    await requestJson('/tournaments', { method: 'POST', body: JSON.stringify(settings) }),
+  );
+
+export const fetchTournament = async (code: string): Promise<Tournament> =>
+  tournamentSchema.parse(await requestJson(`/tournaments/${code}`));
+
+export const registerForTournament = async (
+  code: string,
+  displayName: string,
+  accountToken?: string,
+): Promise<TournamentCredentials> =>
+  tournamentCredentialsSchema.parse(
+    await requestJson(`/tournaments/${code}/entrants`, {
+      method: 'POST',
+      body: JSON.stringify({ displayName, ...(accountToken ? { accountToken } : {}) }),
+    }),
+  );
+
+export const startTournament = async (code: string, token: string): Promise<Tournament> =>
+  tournamentSchema.parse(
+    await requestJson(`/tournaments/${code}/start`, {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    }),
+  );
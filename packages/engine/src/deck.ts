@@ -1,18 +1,44 @@
-import { ACTION_CARDS, ALL_CARDS, MAX_PLAYERS, MIN_PLAYERS } from '@slaphard/shared';
-import type { Card } from '@slaphard/shared';
-
-export const DEFAULT_DECK: Card[] = [
-  ...Array(2).fill('TACO'),
-  ...Array(2).fill('CAT'),
-  ...Array(2).fill('GOAT'),
-  ...Array(2).fill('CHEESE'),
-  ...Array(2).fill('PIZZA'),
-  ...Array(2).fill('GORILLA'),
-  ...Array(2).fill('NARWHAL'),
-  ...Array(1).fill('GROUNDHOG'),
-] as Card[];
-
-export const isValidDeck = (cards: Card[]): boolean => cards.every((card) => ALL_CARDS.includes(card));
+import {
+  ACTION_CARDS,
+  ALL_CARDS,
+  MAX_PLAYERS,
+  MIN_CARDS_PER_PLAYER,
+  MIN_PLAYERS,
+  MIN_TEAM_PLAYERS,
+  STANDARD_DECK_COUNTS,
+  TEAM_COUNT,
+} from '@slaphard/shared';
+import type { Card, DeckPreset, DeckSpec } from '@slaphard/shared';
+
+const FULL_SIZE_HAND = 8;
+
+export const buildDeckFromCounts = (counts: Partial<Record<Card, number>>): Card[] =>
+  ALL_CARDS.flatMap((card) => Array<Card>(counts[card] ?? 0).fill(card));
+
+export const DEFAULT_DECK: Card[] = buildDeckFromCounts(STANDARD_DECK_COUNTS);
+
+export const buildPresetDeck = (preset: DeckPreset, playerCount: number): Card[] => {
+  switch (preset) {
+    case 'STANDARD':
+      return [...DEFAULT_DECK];
+    case 'ACTION_HEAVY':
+      return [...DEFAULT_DECK, 'GORILLA', 'NARWHAL', 'GROUNDHOG', 'GROUNDHOG'];
+    case 'NO_GROUNDHOG':
+      return DEFAULT_DECK.filter((card) => card !== 'GROUNDHOG');
+    case 'FULL_SIZE': {
+      // Whole copies of the standard deck, enough for FULL_SIZE_HAND cards per player.
+      const copies = Math.max(1, Math.ceil((playerCount * FULL_SIZE_HAND) / DEFAULT_DECK.length));
+      return Array.from({ length: copies }, () => DEFAULT_DECK).flat();
+    }
+  }
+};
+
+export const buildDeckFromSpec = (spec: DeckSpec, playerCount: number): Card[] =>
+  'preset' in spec ? buildPresetDeck(spec.preset, playerCount) : buildDeckFromCounts(spec.custom);
+
+export const isValidDeck = (cards: Card[], playerCount?: number): boolean =>
+  cards.every((card) => ALL_CARDS.includes(card)) &&
+  (playerCount === undefined || cards.length >= playerCount * MIN_CARDS_PER_PLAYER);
 
 const hashSeed = (seed: string | number): number => {
   if (typeof seed === 'number') {
@@ -51,5 +77,8 @@ export const shuffleDeck = (cards: Card[], seed: string | number): Card[] => {
 
 export const validatePlayerCount = (count: number): boolean => count >= MIN_PLAYERS && count <= MAX_PLAYERS;
 
+export const validateTeamPlayerCount = (count: number): boolean =>
+  validatePlayerCount(count) && count >= MIN_TEAM_PLAYERS && count % TEAM_COUNT === 0;
+
 export const isActionCard = (card: Card): card is (typeof ACTION_CARDS)[number] =>
   (ACTION_CARDS as readonly string[]).includes(card);
@@ -1,5 +1,24 @@
 export { createInitialState } from './state';
 export { applyEvent, validateEvent } from './reducer';
-export { buildGameStateView } from './view';
-export { DEFAULT_DECK, isActionCard, shuffleDeck } from './deck';
-export type { CreateInitialStateConfig, EngineEvent, EngineEffect, EngineResult, ValidationResult } from './types';
+export { replayMatchLog } from './replay';
+export { buildGameStateView, buildSpectatorGameStateView } from './view';
+export {
+  DEFAULT_DECK,
+  buildDeckFromCounts,
+  buildDeckFromSpec,
+  buildPresetDeck,
+  isActionCard,
+  isValidDeck,
+  shuffleDeck,
+  validateTeamPlayerCount,
+} from './deck';
+export type {
+  CreateInitialStateConfig,
+  EngineEvent,
+  EngineEffect,
+  EngineResult,
+  MatchReplayLog,
+  ReplayLogEntry,
+  ReplayResult,
+  ValidationResult,
+} from './types';
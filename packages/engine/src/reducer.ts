@@ -11,8 +11,14 @@ import {
   cloneState,
   currentChantWord,
   deterministicEventId,
+  eliminationEnabled,
+  handOutWins,
+  isContender,
+  isPresentPlayer,
+  lastSideStanding,
   normalizeTurnSeat,
   pileToBottom,
+  releaseHand,
   resetSlapWindow,
   resolveReactionMs,
 } from './state';
@@ -23,6 +29,55 @@ const engineError = (code: ErrorCode, message: string): ServiceError => ({ code,
 const playerSeatByUserId = (state: GameState, userId: string): number =>
   state.players.findIndex((player) => player.userId === userId);
 
+/** Ends the game for `winnerUserId` and, in team play, their team. */
+const finishGame = (state: GameState, winnerUserId: string): EngineEffect => {
+  const winnerTeamId = state.players[playerSeatByUserId(state, winnerUserId)]?.teamId;
+  state.status = 'FINISHED';
+  state.winnerUserId = winnerUserId;
+  if (winnerTeamId !== undefined) {
+    state.winnerTeamId = winnerTeamId;
+  }
+  return {
+    type: 'GAME_FINISHED',
+    winnerUserId,
+    ...(winnerTeamId !== undefined ? { winnerTeamId } : {}),
+  };
+};
+
+/**
+ * Ends a round under elimination play once the player at `seat` has taken a pile of `pileTaken`
+ * cards. They are out if they now hold more than the card threshold or the round is a multiple of
+ * the round limit; their hand is dealt to everyone left and the last side standing wins.
+ */
+const endEliminationRound = (state: GameState, seat: number, pileTaken: number): EngineEffect[] => {
+  const taker = state.players[seat];
+  if (!taker || pileTaken === 0 || state.status !== 'IN_GAME' || !eliminationEnabled(state.config)) {
+    return [];
+  }
+
+  const round = (state.roundsPlayed ?? 0) + 1;
+  state.roundsPlayed = round;
+  const { eliminationCardThreshold, eliminationRounds } = state.config;
+  const reason =
+    eliminationCardThreshold > 0 && taker.hand.length > eliminationCardThreshold
+      ? ('CARD_THRESHOLD' as const)
+      : eliminationRounds > 0 && round % eliminationRounds === 0
+        ? ('ROUND_LIMIT' as const)
+        : undefined;
+  if (!reason) {
+    return [];
+  }
+
+  taker.eliminated = true;
+  releaseHand(state, seat, 'DEAL');
+  const effects: EngineEffect[] = [{ type: 'PLAYER_ELIMINATED', userId: taker.userId, reason, round }];
+  const winner = lastSideStanding(state);
+  if (winner) {
+    effects.push(finishGame(state, winner.userId));
+  }
+  return effects;
+};
+
 const validateFlip = (state: GameState, userId: string): ValidationResult => {
   if (state.status !== 'IN_GAME') {
     return { ok: false, code: 'NOT_IN_GAME' };
@@ -36,6 +91,14 @@ const validateFlip = (state: GameState, userId: string): ValidationResult => {
   return { ok: true };
 };
 
+const presentSlapsComplete = (state: GameState): boolean => {
+  const slappedUserIds = new Set(state.slapWindow.attempts.map((attempt) => attempt.userId));
+  return (
+    slappedUserIds.size > 0 &&
+    state.players.filter(isPresentPlayer).every((player) => slappedUserIds.has(player.userId))
+  );
+};
+
 const resolveWinnerCondition = (state: GameState, orderedUserIds: string[]): string | undefined => {
   if (orderedUserIds.length === 0) {
     return undefined;
@@ -45,7 +108,8 @@ const resolveWinnerCondition = (state: GameState, orderedUserIds: string[]): str
   if (seat === -1) {
     return undefined;
   }
-  if ((state.players[seat]?.hand.length ?? 0) === 0) {
+  const first = state.players[seat]!;
+  if (first.hand.length === 0 && handOutWins(state, first)) {
     return firstUserId;
   }
   return undefined;
@@ -63,6 +127,16 @@ const resolveSlapWindowInternal = (state: GameState): { effects: EngineEffect[]
     return { effects };
   }
   const sameCardWindow = window.reason === 'SAME_CARD';
+  const reactionMsByUserId: Record<string, number> = {};
+  for (const attempt of window.attempts) {
+    reactionMsByUserId[attempt.userId] = resolveReactionMs(
+      attempt.clientTime,
+      attempt.offsetMs,
+      window.startServerTime!,
+      state.config.minHumanMs,
+      window.slapWindowMs!,
+    );
+  }
   const validAttempts = [...window.attempts].sort((a, b) => {
     if (sameCardWindow) {
       if (a.receivedAtServerTime !== b.receivedAtServerTime) {
@@ -74,20 +148,8 @@ const resolveSlapWindowInternal = (state: GameState): { effects: EngineEffect[]
       return a.userId.localeCompare(b.userId);
     }
 
-    const r1 = resolveReactionMs(
-      a.clientTime,
-      a.offsetMs,
-      window.startServerTime!,
-      state.config.minHumanMs,
-      window.slapWindowMs!,
-    );
-    const r2 = resolveReactionMs(
-      b.clientTime,
-      b.offsetMs,
-      window.startServerTime!,
-      state.config.minHumanMs,
-      window.slapWindowMs!,
-    );
+    const r1 = reactionMsByUserId[a.userId]!;
+    const r2 = reactionMsByUserId[b.userId]!;
 
     if (r1 !== r2) {
       return r1 - r2;
@@ -102,13 +164,17 @@ const resolveSlapWindowInternal = (state: GameState): { effects: EngineEffect[]
   });
 
   const orderedUserIds = validAttempts.map((attempt) => attempt.userId);
+  const attempts = validAttempts.map((attempt) => ({
+    ...attempt,
+    reactionMs: reactionMsByUserId[attempt.userId]!,
+  }));
 
   if (orderedUserIds.length === 0) {
     const loserSeat = window.flipperSeat ?? state.currentTurnSeat;
     const loserUserId = state.players[loserSeat]!.userId;
     const pileTaken = pileToBottom(state, loserSeat);
     state.currentTurnSeat = loserSeat;
-    normalizeTurnSeat(state);
+    const knockout = endEliminationRound(state, loserSeat, pileTaken);
 
     effects.push({
       type: 'PENALTY',
@@ -123,9 +189,13 @@ const resolveSlapWindowInternal = (state: GameState): { effects: EngineEffect[]
       loserUserId,
       reason: 'NO_SLAPS',
       pileTaken,
+      reactionMsByUserId,
+      attempts,
     });
+    effects.push(...knockout);
 
     resetSlapWindow(state);
+    normalizeTurnSeat(state);
     state.version += 1;
     return { effects };
   }
@@ -133,6 +203,7 @@ const resolveSlapWindowInternal = (state: GameState): { effects: EngineEffect[]
   const winnerUserId = resolveWinnerCondition(state, orderedUserIds);
   const slapperSet = new Set(orderedUserIds);
   const nonSlappers = state.players
+    .filter(isPresentPlayer)
     .map((player) => player.userId)
     .filter((userId) => !slapperSet.has(userId));
   const loserUserId = sameCardWindow
@@ -150,17 +221,15 @@ const resolveSlapWindowInternal = (state: GameState): { effects: EngineEffect[]
     loserUserId,
     reason: slapResultReason,
     pileTaken,
+    reactionMsByUserId,
+    attempts,
   });
 
   if (winnerUserId) {
-    state.status = 'FINISHED';
-    state.winnerUserId = winnerUserId;
+    const finished = finishGame(state, winnerUserId);
     resetSlapWindow(state);
     state.version += 1;
-    effects.push({
-      type: 'GAME_FINISHED',
-      winnerUserId,
-    });
+    effects.push(finished);
     return { effects };
   }
 
@@ -168,10 +237,11 @@ const resolveSlapWindowInternal = (state: GameState): { effects: EngineEffect[]
   if (loserSeat >= 0) {
     pileToBottom(state, loserSeat);
     state.currentTurnSeat = loserSeat;
-    normalizeTurnSeat(state);
+    effects.push(...endEliminationRound(state, loserSeat, pileTaken));
   }
 
   resetSlapWindow(state);
+  normalizeTurnSeat(state);
   state.version += 1;
   return { effects };
 };
@@ -180,18 +250,22 @@ const applyPenalty = (
   state: GameState,
   seat: number,
   penaltyType: 'FALSE_SLAP' | 'WRONG_GESTURE' | 'TURN_TIMEOUT',
-): EngineEffect => {
+): EngineEffect[] => {
   const userId = state.players[seat]!.userId;
   const pileTaken = pileToBottom(state, seat);
   state.currentTurnSeat = seat;
+  const knockout = endEliminationRound(state, seat, pileTaken);
   resetSlapWindow(state);
   normalizeTurnSeat(state);
-  return {
-    type: 'PENALTY',
-    userId,
-    penaltyType,
-    pileTaken,
-  };
+  return [
+    {
+      type: 'PENALTY',
+      userId,
+      penaltyType,
+      pileTaken,
+    },
+    ...knockout,
+  ];
 };
 
 export const validateEvent = (state: GameState, event: EngineEvent): ValidationResult => {
@@ -232,6 +306,19 @@ export const validateEvent = (state: GameState, event: EngineEvent): ValidationR
   if (state.status !== 'IN_GAME') {
     return { ok: false, code: 'NOT_IN_GAME' };
   }
+  const player = state.players[playerSeatByUserId(state, event.userId)];
+  if (event.type === 'PLAYER_CONNECTION') {
+    return player ? { ok: true } : { ok: false, code: 'NOT_A_PLAYER' };
+  }
+  if (event.type === 'FORFEIT') {
+    if (!player) {
+      return { ok: false, code: 'NOT_A_PLAYER' };
+    }
+    return player.forfeited ? { ok: false, code: 'INVALID_TARGET' } : { ok: true };
+  }
+  if (player?.forfeited || player?.eliminated) {
+    return { ok: false, code: 'NOT_A_PLAYER' };
+  }
   return { ok: true };
 };
 
@@ -288,26 +375,22 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
       atServerTime: nowServerTime,
     };
 
-    if ((current.hand.length ?? 0) === 0) {
-      next.status = 'FINISHED';
-      next.winnerUserId = current.userId;
+    if (current.hand.length === 0 && handOutWins(next, current)) {
+      const finished = finishGame(next, current.userId);
       resetSlapWindow(next);
       next.chantIndex = (next.chantIndex + 1) % CHANT_ORDER.length;
       next.version += 1;
       return {
         state: next,
-        effects: [
-          {
-            type: 'GAME_FINISHED',
-            winnerUserId: current.userId,
-          },
-        ],
+        effects: [finished],
       };
     }
 
     const shouldOpenForAction = isActionCard(flipped);
     const shouldOpenForSameCard =
-      CHANT_ORDER.includes(flipped as (typeof CHANT_ORDER)[number]) && previousRevealedCard === flipped;
+      next.config.sameCardSlaps &&
+      CHANT_ORDER.includes(flipped as (typeof CHANT_ORDER)[number]) &&
+      previousRevealedCard === flipped;
     const shouldOpenForMatch = CHANT_ORDER.includes(flipped as (typeof CHANT_ORDER)[number]) && flipped === chantWord;
     if (shouldOpenForMatch || shouldOpenForAction || shouldOpenForSameCard) {
       const eventId = deterministicEventId(next.nextSlapEventNonce);
@@ -357,7 +440,7 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
       };
     }
 
-    next.currentTurnSeat = advanceSeat(next.currentTurnSeat, next.players.length);
+    next.currentTurnSeat = advanceSeat(next, next.currentTurnSeat);
     normalizeTurnSeat(next);
     next.chantIndex = (next.chantIndex + 1) % CHANT_ORDER.length;
     next.version += 1;
@@ -374,9 +457,85 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
       };
     }
 
-    const penalty = applyPenalty(next, next.currentTurnSeat, 'TURN_TIMEOUT');
+    const current = next.players[next.currentTurnSeat];
+    if (current && !isPresentPlayer(current)) {
+      // Absent players are passed over without a penalty while they are away.
+      next.currentTurnSeat = advanceSeat(next, next.currentTurnSeat);
+      normalizeTurnSeat(next);
+      next.version += 1;
+      return { state: next, effects: [] };
+    }
+
+    const effects = applyPenalty(next, next.currentTurnSeat, 'TURN_TIMEOUT');
+    next.version += 1;
+    return { state: next, effects };
+  }
+
+  if (event.type === 'PLAYER_CONNECTION') {
+    if (!validation.ok) {
+      return {
+        state,
+        effects: [],
+        error: engineError(validation.code, 'connection change rejected'),
+      };
+    }
+
+    next.players[playerSeatByUserId(next, event.userId)]!.connected = event.connected;
+    if (next.slapWindow.active && !next.slapWindow.resolved && presentSlapsComplete(next)) {
+      const result = resolveSlapWindowInternal(next);
+      return { state: next, effects: result.effects };
+    }
+
+    normalizeTurnSeat(next);
+    next.version += 1;
+    return { state: next, effects: [] };
+  }
+
+  if (event.type === 'FORFEIT') {
+    if (!validation.ok) {
+      return {
+        state,
+        effects: [],
+        error: engineError(validation.code, 'forfeit rejected'),
+      };
+    }
+
+    const forfeitingSeat = playerSeatByUserId(next, event.userId);
+    const forfeiting = next.players[forfeitingSeat]!;
+    forfeiting.forfeited = true;
+    forfeiting.connected = false;
+    const effects: EngineEffect[] = [{ type: 'PLAYER_FORFEITED', userId: event.userId }];
+
+    if (event.hand) {
+      releaseHand(next, forfeitingSeat, event.hand);
+    }
+    // Under `ALL_MEMBERS` a forfeit can also leave the forfeiting player's team with every
+    // remaining member out of cards.
+    const teamOut =
+      next.config.teamMode === 'ALL_MEMBERS'
+        ? next.players.filter(isContender).find(
+            (player) =>
+              player.teamId === forfeiting.teamId &&
+              player.hand.length === 0 &&
+              handOutWins(next, player),
+          )
+        : undefined;
+    const winner = lastSideStanding(next) ?? teamOut;
+    if (winner) {
+      effects.push(finishGame(next, winner.userId));
+      resetSlapWindow(next);
+      next.version += 1;
+      return { state: next, effects };
+    }
+
+    if (next.slapWindow.active && !next.slapWindow.resolved && presentSlapsComplete(next)) {
+      const result = resolveSlapWindowInternal(next);
+      return { state: next, effects: [...effects, ...result.effects] };
+    }
+
+    normalizeTurnSeat(next);
     next.version += 1;
-    return { state: next, effects: [penalty] };
+    return { state: next, effects };
   }
 
   if (event.type === 'RESOLVE_SLAP_WINDOW') {
@@ -405,7 +564,7 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
     next.pileCount = 0;
     delete next.pileTopCard;
     resetSlapWindow(next);
-    next.currentTurnSeat = advanceSeat(next.currentTurnSeat, next.players.length);
+    next.currentTurnSeat = advanceSeat(next, next.currentTurnSeat);
     normalizeTurnSeat(next);
     next.version += 1;
     return { state: next, effects: [] };
@@ -425,9 +584,17 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
     !activeWindow.active || activeWindow.resolved || !activeWindow.eventId || activeWindow.eventId !== event.eventId;
 
   if (invalidWindow) {
-    const penalty = applyPenalty(next, slapSeat, 'FALSE_SLAP');
+    if (!next.config.falseSlapPenalty) {
+      const code = activeWindow.active && !activeWindow.resolved ? 'INVALID_EVENT_ID' : 'NO_SLAP_WINDOW';
+      return {
+        state,
+        effects: [],
+        error: engineError(code, 'slap outside a slap window ignored'),
+      };
+    }
+    const effects = applyPenalty(next, slapSeat, 'FALSE_SLAP');
     next.version += 1;
-    return { state: next, effects: [penalty] };
+    return { state: next, effects };
   }
 
   const duplicate = activeWindow.attempts.some((attempt) => attempt.userId === event.userId);
@@ -442,9 +609,9 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
   if (activeWindow.reason === 'ACTION') {
     const expected = activeWindow.actionCard as Gesture;
     if (!event.gesture || event.gesture !== expected) {
-      const penalty = applyPenalty(next, slapSeat, 'WRONG_GESTURE');
+      const effects = applyPenalty(next, slapSeat, 'WRONG_GESTURE');
       next.version += 1;
-      return { state: next, effects: [penalty] };
+      return { state: next, effects };
     }
   }
 
@@ -460,9 +627,13 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
   });
   activeWindow.receivedSlapsCount = activeWindow.attempts.length;
 
-  if (activeWindow.receivedSlapsCount === 1 && (next.players[slapSeat]?.hand.length ?? 1) === 0) {
-    next.status = 'FINISHED';
-    next.winnerUserId = event.userId;
+  const slapper = next.players[slapSeat]!;
+  if (
+    activeWindow.receivedSlapsCount === 1 &&
+    slapper.hand.length === 0 &&
+    handOutWins(next, slapper)
+  ) {
+    const finished = finishGame(next, event.userId);
 
     const resultEventId = activeWindow.eventId;
     if (!resultEventId) {
@@ -472,6 +643,14 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
         error: engineError('INTERNAL_ERROR', 'missing slap event id'),
       };
     }
+    const reactionMs = resolveReactionMs(
+      event.clientTime,
+      event.offsetMs,
+      activeWindow.startServerTime!,
+      next.config.minHumanMs,
+      activeWindow.slapWindowMs!,
+    );
+    const attempt = { ...activeWindow.attempts[0]!, reactionMs };
     resetSlapWindow(next);
     next.version += 1;
 
@@ -485,24 +664,15 @@ export const applyEvent = (state: GameState, event: EngineEvent, nowServerTime:
           loserUserId: event.userId,
           reason: 'FIRST_VALID_SLAP_WIN',
           pileTaken: 0,
+          reactionMsByUserId: { [event.userId]: reactionMs },
+          attempts: [attempt],
         },
-        {
-          type: 'GAME_FINISHED',
-          winnerUserId: event.userId,
-        },
+        finished,
       ],
     };
   }
 
-  const requiresAllConnectedSlaps = activeWindow.reason === 'SAME_CARD' || activeWindow.reason === 'ACTION';
-  const requiredSlaps = requiresAllConnectedSlaps
-    ? Math.max(
-        1,
-        next.players.reduce((count, player) => count + (player.connected ? 1 : 0), 0),
-      )
-    : next.players.length;
-
-  if (activeWindow.receivedSlapsCount >= requiredSlaps) {
+  if (presentSlapsComplete(next)) {
     const result = resolveSlapWindowInternal(next);
     return { state: next, effects: result.effects };
   }
@@ -0,0 +1,22 @@
+import { applyEvent } from './reducer';
+import { createInitialState } from './state';
+import type { MatchReplayLog, ReplayResult } from './types';
+
+export const replayMatchLog = (log: MatchReplayLog): ReplayResult => {
+  let state = createInitialState(log.initial);
+  let appliedEntries = 0;
+  const rejectedEntries: ReplayResult['rejectedEntries'] = [];
+
+  const entries = [...log.entries].sort((a, b) => a.seq - b.seq);
+  for (const entry of entries) {
+    const result = applyEvent(state, entry.event, entry.nowServerTime);
+    if (result.error) {
+      rejectedEntries.push({ seq: entry.seq, code: result.error.code });
+      continue;
+    }
+    state = result.state;
+    appliedEntries += 1;
+  }
+
+  return { state, appliedEntries, rejectedEntries };
+};
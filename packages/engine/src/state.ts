@@ -3,11 +3,22 @@ import {
   CHANT_ORDER,
   MIN_HUMAN_MS,
   SLAP_WINDOW_MS,
+  TEAM_COUNT,
   TURN_TIMEOUT_MS,
   type Card,
+  type EnginePlayerState,
+  type GameConfig,
   type GameState,
+  type KickedHandDisposition,
 } from '@slaphard/shared';
-import { DEFAULT_DECK, isValidDeck, shuffleDeck, validatePlayerCount } from './deck';
+import {
+  DEFAULT_DECK,
+  buildDeckFromSpec,
+  isValidDeck,
+  shuffleDeck,
+  validatePlayerCount,
+  validateTeamPlayerCount,
+} from './deck';
 import type { CreateInitialStateConfig } from './types';
 
 const FIXED_HAND_PLAYER_THRESHOLD = 4;
@@ -22,7 +33,8 @@ const buildDealingDeck = (shuffledDeck: Card[], playerCount: number): Card[] =>
     return [];
   }
 
-  const targetCardCount = playerCount * FIXED_HAND_SIZE;
+  // Larger decks (e.g. the full-size preset) are dealt in full rather than truncated.
+  const targetCardCount = Math.max(shuffledDeck.length, playerCount * FIXED_HAND_SIZE);
   const dealDeck: Card[] = [];
   for (let i = 0; i < targetCardCount; i += 1) {
     dealDeck.push(shuffledDeck[i % shuffledDeck.length] as Card);
@@ -34,15 +46,43 @@ export const createInitialState = (config: CreateInitialStateConfig): GameState
   if (!validatePlayerCount(config.players.length)) {
     throw new Error('player count out of range');
   }
+  const teamMode = config.teamMode ?? 'OFF';
+  if (teamMode !== 'OFF' && !validateTeamPlayerCount(config.players.length)) {
+    throw new Error('team play needs equal teams of at least two');
+  }
+  const eliminationCardThreshold = config.eliminationCardThreshold ?? 0;
+  const eliminationRounds = config.eliminationRounds ?? 0;
+  if (
+    !Number.isInteger(eliminationCardThreshold) ||
+    !Number.isInteger(eliminationRounds) ||
+    eliminationCardThreshold < 0 ||
+    eliminationRounds < 0
+  ) {
+    throw new Error('elimination rules must be whole numbers of zero or more');
+  }
 
-  const deckSource = config.deck ?? DEFAULT_DECK;
+  if (config.deck && config.deckSpec) {
+    throw new Error('deck and deckSpec are mutually exclusive');
+  }
+  const deckSource = config.deckSpec
+    ? buildDeckFromSpec(config.deckSpec, config.players.length)
+    : (config.deck ?? DEFAULT_DECK);
   if (!isValidDeck(deckSource)) {
     throw new Error('deck contains invalid cards');
   }
 
+  const firstTurnSeat = config.firstTurnSeat ?? 0;
+  if (!Number.isInteger(firstTurnSeat) || firstTurnSeat < 0 || firstTurnSeat >= config.players.length) {
+    throw new Error('first turn seat out of range');
+  }
+
   const seed = config.seed ?? String(config.nowServerTime);
   const shuffled = config.shuffle === false ? [...deckSource] : shuffleDeck(deckSource, seed);
-  const dealingDeck = buildDealingDeck(shuffled, config.players.length);
+  const isCustomDeck = !!config.deckSpec && 'custom' in config.deckSpec;
+  const dealingDeck = isCustomDeck ? shuffled : buildDealingDeck(shuffled, config.players.length);
+  if (config.deckSpec && !isValidDeck(dealingDeck, config.players.length)) {
+    throw new Error('deck has too few cards for player count');
+  }
 
   const players = config.players.map((player, index) => ({
     userId: player.userId,
@@ -50,6 +90,7 @@ export const createInitialState = (config: CreateInitialStateConfig): GameState
     seatIndex: index,
     connected: player.connected ?? true,
     ready: player.ready ?? false,
+    ...(teamMode !== 'OFF' ? { teamId: index % TEAM_COUNT } : {}),
     hand: [] as Card[],
   }));
 
@@ -60,7 +101,7 @@ export const createInitialState = (config: CreateInitialStateConfig): GameState
   return {
     status: 'IN_GAME',
     players,
-    currentTurnSeat: 0,
+    currentTurnSeat: firstTurnSeat,
     chantIndex: 0,
     pile: [],
     pileCount: 0,
@@ -72,11 +113,17 @@ export const createInitialState = (config: CreateInitialStateConfig): GameState
     },
     version: 1,
     nextSlapEventNonce: 1,
+    ...(eliminationCardThreshold > 0 || eliminationRounds > 0 ? { roundsPlayed: 0 } : {}),
     config: {
       slapWindowMs: config.slapWindowMs ?? SLAP_WINDOW_MS,
       actionSlapWindowMs: config.actionSlapWindowMs ?? ACTION_SLAP_WINDOW_MS,
       turnTimeoutMs: config.turnTimeoutMs ?? TURN_TIMEOUT_MS,
       minHumanMs: config.minHumanMs ?? MIN_HUMAN_MS,
+      sameCardSlaps: config.sameCardSlaps ?? true,
+      falseSlapPenalty: config.falseSlapPenalty ?? true,
+      teamMode,
+      eliminationCardThreshold,
+      eliminationRounds,
     },
   };
 };
@@ -124,22 +171,95 @@ export const deterministicEventId = (nonce: number): string => {
   return `00000000-0000-4000-8000-${tail}`;
 };
 
-export const advanceSeat = (seat: number, totalPlayers: number): number => (seat + 1) % totalPlayers;
+/** Whether either elimination rule is on, which replaces going out of cards as the way to win. */
+export const eliminationEnabled = (config: GameConfig): boolean =>
+  config.eliminationCardThreshold > 0 || config.eliminationRounds > 0;
+
+/** Players still in the game: neither forfeited nor eliminated. */
+export const isContender = (player: EnginePlayerState): boolean => !player.forfeited && !player.eliminated;
+
+/** The seat after `seat`, passing over players no longer in the game. */
+export const advanceSeat = (state: GameState, seat: number): number => {
+  for (let i = 1; i <= state.players.length; i += 1) {
+    const next = (seat + i) % state.players.length;
+    const player = state.players[next];
+    if (player && isContender(player)) {
+      return next;
+    }
+  }
+  return (seat + 1) % state.players.length;
+};
+
+/** Connected contenders; only they take turns and are waited on in slap windows. */
+export const isPresentPlayer = (player: EnginePlayerState): boolean => player.connected && isContender(player);
+
+/**
+ * The first contender once every contender is on one side (a team in team play, otherwise a lone
+ * player), so the game is theirs; undefined while sides remain.
+ */
+export const lastSideStanding = (state: GameState): EnginePlayerState | undefined => {
+  const contenders = state.players.filter(isContender);
+  const sides = new Set(contenders.map((player) => player.teamId ?? player.userId));
+  return sides.size === 1 ? contenders[0] : undefined;
+};
+
+/**
+ * Whether a player who has just run out of cards wins. Under `ALL_MEMBERS` team play, every teammate
+ * still in the game must be out of cards too; until then an empty hand just skips their turns. Under
+ * elimination play only being the last side standing wins.
+ */
+export const handOutWins = (state: GameState, player: EnginePlayerState): boolean =>
+  !eliminationEnabled(state.config) &&
+  (state.config.teamMode !== 'ALL_MEMBERS' ||
+    state.players.every(
+      (other) => other.teamId !== player.teamId || !!other.forfeited || other.hand.length === 0,
+    ));
+
+/**
+ * Under elimination play nobody wins by running out, so once every contender's hand is empty the
+ * pile is dealt back out one card at a time, starting from the turn seat.
+ */
+const redealPile = (state: GameState): void => {
+  const contenders = state.players
+    .map((_, offset) => state.players[(state.currentTurnSeat + offset) % state.players.length]!)
+    .filter(isContender);
+  if (
+    !eliminationEnabled(state.config) ||
+    state.pile.length === 0 ||
+    contenders.length === 0 ||
+    contenders.some((player) => player.hand.length > 0)
+  ) {
+    return;
+  }
+
+  state.pile.forEach((card, index) => {
+    contenders[index % contenders.length]!.hand.push(card);
+  });
+  state.pile = [];
+  state.pileCount = 0;
+  delete state.pileTopCard;
+};
 
 export const normalizeTurnSeat = (state: GameState): void => {
   if (state.status !== 'IN_GAME') {
     return;
   }
-  if (state.players[state.currentTurnSeat]?.hand.length) {
+  if (state.slapWindow.active && !state.slapWindow.resolved) {
     return;
   }
-  if (state.slapWindow.active && !state.slapWindow.resolved) {
+  redealPile(state);
+
+  const current = state.players[state.currentTurnSeat];
+  const anyonePresent = state.players.some((player) => isPresentPlayer(player) && player.hand.length > 0);
+  const canTakeTurn = (player: EnginePlayerState | undefined): boolean =>
+    !!player?.hand.length && isContender(player) && (!anyonePresent || isPresentPlayer(player));
+  if (canTakeTurn(current)) {
     return;
   }
 
   for (let i = 1; i < state.players.length; i += 1) {
     const seat = (state.currentTurnSeat + i) % state.players.length;
-    if ((state.players[seat]?.hand.length ?? 0) > 0) {
+    if (canTakeTurn(state.players[seat])) {
       state.currentTurnSeat = seat;
       return;
     }
@@ -157,6 +277,41 @@ export const pileToBottom = (state: GameState, seat: number): number => {
   return pileTaken;
 };
 
+/**
+ * Empties a leaving player's hand. `PILE` slides the cards under the pile so the face-up card stays
+ * put; `DEAL` hands them out one at a time to the remaining players, starting after the seat.
+ */
+export const releaseHand = (
+  state: GameState,
+  seat: number,
+  disposition: KickedHandDisposition,
+): void => {
+  const player = state.players[seat];
+  if (!player) {
+    return;
+  }
+  const cards = player.hand;
+  const recipients = state.players
+    .map((_, offset) => state.players[(seat + 1 + offset) % state.players.length]!)
+    .filter(isContender);
+  if (disposition === 'DEAL' && recipients.length === 0) {
+    return;
+  }
+
+  player.hand = [];
+  if (disposition === 'PILE') {
+    state.pile = [...cards, ...state.pile];
+    state.pileCount = state.pile.length;
+    if (!state.pileTopCard && state.pile.length > 0) {
+      state.pileTopCard = state.pile[state.pile.length - 1];
+    }
+    return;
+  }
+  cards.forEach((card, index) => {
+    recipients[index % recipients.length]!.hand.push(card);
+  });
+};
+
 export const resolveReactionMs = (
   clientTime: number,
   offsetMs: number,
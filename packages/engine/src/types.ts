@@ -1,4 +1,14 @@
-import type { ErrorCode, GameState, Gesture, ServiceError, SlapWindowReason } from '@slaphard/shared';
+import type {
+  DeckSpec,
+  ErrorCode,
+  GameState,
+  Gesture,
+  KickedHandDisposition,
+  PenaltyType,
+  ResolvedSlapAttempt,
+  ServiceError,
+  SlapWindowReason,
+} from '@slaphard/shared';
 
 export type EngineEvent =
   | {
@@ -24,6 +34,18 @@ export type EngineEvent =
     }
   | {
       type: 'TURN_TIMEOUT';
+    }
+  | {
+      /** A seated player dropped or came back; absent players are skipped and not waited on. */
+      type: 'PLAYER_CONNECTION';
+      userId: string;
+      connected: boolean;
+    }
+  | {
+      type: 'FORFEIT';
+      userId: string;
+      /** Where the player's cards go; absent, they keep them. */
+      hand?: KickedHandDisposition;
     };
 
 export type EngineEffect =
@@ -43,16 +65,32 @@ export type EngineEffect =
       loserUserId: string;
       reason: string;
       pileTaken: number;
+      /** Estimated reaction of each slapper, as used to order the window. */
+      reactionMsByUserId: Record<string, number>;
+      /** The window's slaps in resolved order; kept for analytics once the window resets. */
+      attempts: ResolvedSlapAttempt[];
     }
   | {
       type: 'PENALTY';
       userId: string;
-      penaltyType: 'FALSE_SLAP' | 'WRONG_GESTURE' | 'TURN_TIMEOUT' | 'NO_SLAPS';
+      penaltyType: PenaltyType;
       pileTaken: number;
     }
+  | {
+      type: 'PLAYER_FORFEITED';
+      userId: string;
+    }
+  | {
+      type: 'PLAYER_ELIMINATED';
+      userId: string;
+      reason: 'CARD_THRESHOLD' | 'ROUND_LIMIT';
+      /** The round whose pile knocked the player out, counting from 1. */
+      round: number;
+    }
   | {
       type: 'GAME_FINISHED';
       winnerUserId: string;
+      winnerTeamId?: number;
     };
 
 export type ValidationResult = { ok: true } | { ok: false; code: ErrorCode };
@@ -74,10 +112,39 @@ export interface CreateInitialStateConfig {
   players: InitialPlayer[];
   seed?: string | number;
   deck?: import('@slaphard/shared').Card[];
+  /** Named preset or per-card counts; custom specs are dealt as-is rather than cycled to five per player. */
+  deckSpec?: DeckSpec;
   shuffle?: boolean;
   nowServerTime: number;
+  firstTurnSeat?: number;
   slapWindowMs?: number;
   actionSlapWindowMs?: number;
   turnTimeoutMs?: number;
   minHumanMs?: number;
+  sameCardSlaps?: boolean;
+  falseSlapPenalty?: boolean;
+  /** Team play seats alternate between two teams; needs equal teams of at least two. */
+  teamMode?: import('@slaphard/shared').TeamMode;
+  /** Elimination play knocks out pile takers over this many cards; 0 or absent is off. */
+  eliminationCardThreshold?: number;
+  /** Elimination play knocks out whoever takes the pile every this-many rounds; 0 or absent is off. */
+  eliminationRounds?: number;
+}
+
+export interface ReplayLogEntry {
+  type: 'ENGINE_EVENT';
+  seq: number;
+  nowServerTime: number;
+  event: EngineEvent;
+}
+
+export interface MatchReplayLog {
+  initial: CreateInitialStateConfig;
+  entries: ReplayLogEntry[];
+}
+
+export interface ReplayResult {
+  state: GameState;
+  appliedEntries: number;
+  rejectedEntries: Array<{ seq: number; code: ErrorCode }>;
 }
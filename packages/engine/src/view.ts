@@ -1,8 +1,6 @@
 import type { GameState, GameStateView } from '@slaphard/shared';
 
-export const buildGameStateView = (state: GameState, meUserId: string): GameStateView => {
-  const me = state.players.find((player) => player.userId === meUserId);
-
+const buildPublicView = (state: GameState): GameStateView => {
   const slapWindow = {
     active: state.slapWindow.active,
     receivedSlapsCount: state.slapWindow.receivedSlapsCount,
@@ -28,16 +26,27 @@ export const buildGameStateView = (state: GameState, meUserId: string): GameStat
       seatIndex: player.seatIndex,
       connected: player.connected,
       ready: player.ready,
+      ...(player.forfeited ? { forfeited: true } : {}),
+      ...(player.teamId !== undefined ? { teamId: player.teamId } : {}),
+      ...(player.eliminated ? { eliminated: true } : {}),
       handCount: player.hand.length,
     })),
-    meHand: me ? [...me.hand] : [],
     currentTurnSeat: state.currentTurnSeat,
     chantIndex: state.chantIndex,
     pileCount: state.pileCount,
     ...(state.pileTopCard ? { pileTopCard: state.pileTopCard } : {}),
     ...(state.lastRevealed ? { lastRevealed: { ...state.lastRevealed } } : {}),
     slapWindow,
+    ...(state.roundsPlayed !== undefined ? { roundsPlayed: state.roundsPlayed } : {}),
     ...(state.winnerUserId ? { winnerUserId: state.winnerUserId } : {}),
+    ...(state.winnerTeamId !== undefined ? { winnerTeamId: state.winnerTeamId } : {}),
     version: state.version,
   };
 };
+
+export const buildGameStateView = (state: GameState, meUserId: string): GameStateView => {
+  const me = state.players.find((player) => player.userId === meUserId);
+  return { ...buildPublicView(state), meHand: me ? [...me.hand] : [] };
+};
+
+export const buildSpectatorGameStateView = (state: GameState): GameStateView => buildPublicView(state);
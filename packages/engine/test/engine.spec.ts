@@ -1,5 +1,17 @@
+import type { Card, GameState, TeamMode } from '@slaphard/shared';
 import { describe, expect, it } from 'vitest';
-import { DEFAULT_DECK, applyEvent, createInitialState, shuffleDeck } from '../src';
+import {
+  DEFAULT_DECK,
+  applyEvent,
+  buildPresetDeck,
+  buildSpectatorGameStateView,
+  createInitialState,
+  isValidDeck,
+  replayMatchLog,
+  shuffleDeck,
+  validateTeamPlayerCount,
+} from '../src';
+import type { CreateInitialStateConfig, EngineEvent, ReplayLogEntry } from '../src';
 
 const players = [
   { userId: 'u1', displayName: 'P1' },
@@ -54,6 +66,61 @@ describe('engine', () => {
     expect(totalDealtCards).toBe(25);
   });
 
+  it('builds named deck presets', () => {
+    expect(buildPresetDeck('STANDARD', 2)).toEqual(DEFAULT_DECK);
+    expect(buildPresetDeck('NO_GROUNDHOG', 2)).not.toContain('GROUNDHOG');
+    const actionHeavy = buildPresetDeck('ACTION_HEAVY', 2);
+    const actionCount = (deck: string[]) =>
+      deck.filter((card) => ['GORILLA', 'NARWHAL', 'GROUNDHOG'].includes(card)).length;
+    expect(actionCount(actionHeavy)).toBeGreaterThan(actionCount(DEFAULT_DECK));
+  });
+
+  it('scales the full-size preset so large rooms get longer hands', () => {
+    const players8 = Array.from({ length: 8 }, (_, index) => ({
+      userId: `u${index + 1}`,
+      displayName: `P${index + 1}`,
+    }));
+    const state = createInitialState({
+      players: players8,
+      deckSpec: { preset: 'FULL_SIZE' },
+      seed: 'full-size',
+      nowServerTime: 1000,
+    });
+
+    expect(state.players.every((player) => player.hand.length >= 8)).toBe(true);
+  });
+
+  it('deals a custom deck spec as-is and enforces a minimum per player', () => {
+    const custom = {
+      TACO: 3,
+      CAT: 3,
+      GOAT: 0,
+      CHEESE: 0,
+      PIZZA: 0,
+      GORILLA: 1,
+      NARWHAL: 0,
+      GROUNDHOG: 0,
+    };
+    const state = createInitialState({
+      players: players5,
+      deckSpec: { custom: { ...custom, GOAT: 8 } },
+      seed: 'custom',
+      nowServerTime: 1000,
+    });
+    expect(state.players.reduce((sum, player) => sum + player.hand.length, 0)).toBe(15);
+
+    expect(isValidDeck(['TACO', 'CAT', 'GOAT', 'PIZZA', 'CHEESE', 'TACO'], 2)).toBe(true);
+    expect(isValidDeck(['TACO', 'CAT', 'GOAT', 'PIZZA', 'CHEESE'], 2)).toBe(false);
+    expect(() =>
+      createInitialState({
+        players: players5,
+        deckSpec: { custom },
+        seed: 'custom',
+        nowServerTime: 1000,
+      }),
+    ).toThrow('deck has too few cards for player count');
+  });
+
   it('increments chant index on every flip', () => {
     let state = createInitialState({
       players,
@@ -342,6 +409,55 @@ describe('engine', () => {
     });
   });
 
+  it('reports each slapper\'s attempt and estimated reaction with the slap result', () => {
+    let state = createInitialState({
+      players,
+      deck: ['TACO', 'CAT', 'GOAT', 'PIZZA'],
+      seed: 1,
+      shuffle: false,
+      nowServerTime: 1000,
+    });
+    state = applyEvent(state, { type: 'FLIP', userId: 'u1' }, 1010).state;
+    expect(state.slapWindow.reason).toBe('MATCH');
+    const eventId = state.slapWindow.eventId!;
+
+    state = applyEvent(
+      state,
+      {
+        type: 'SLAP',
+        userId: 'u2',
+        eventId,
+        clientSeq: 1,
+        clientTime: 1600,
+        offsetMs: -100,
+        rttMs: 10,
+      },
+      1520,
+    ).state;
+    const resolved = applyEvent(
+      state,
+      {
+        type: 'SLAP',
+        userId: 'u1',
+        eventId,
+        clientSeq: 1,
+        clientTime: 1400,
+        offsetMs: 0,
+        rttMs: 10,
+      },
+      1530,
+    );
+
+    expect(resolved.effects.find((effect) => effect.type === 'SLAP_RESULT')).toMatchObject({
+      orderedUserIds: ['u1', 'u2'],
+      reactionMsByUserId: { u1: 390, u2: 490 },
+      attempts: [
+        { userId: 'u1', clientTime: 1400, offsetMs: 0, receivedAtServerTime: 1530, reactionMs: 390 },
+        { userId: 'u2', clientTime: 1600, offsetMs: -100, receivedAtServerTime: 1520, reactionMs: 490 },
+      ],
+    });
+  });
+
   it('waits for all connected players to slap before resolving action windows', () => {
     let state = createInitialState({
       players: players3,
@@ -491,6 +607,53 @@ describe('engine', () => {
     expect(result.state.currentTurnSeat).toBe(1);
   });
 
+  it('ignores false slaps without a penalty when the variant is disabled', () => {
+    const state = createInitialState({
+      players,
+      deck: ['CAT', 'GOAT', 'CHEESE', 'PIZZA'],
+      seed: 1,
+      shuffle: false,
+      nowServerTime: 1000,
+      falseSlapPenalty: false,
+    });
+
+    const result = applyEvent(
+      state,
+      {
+        type: 'SLAP',
+        userId: 'u2',
+        eventId: '00000000-0000-4000-8000-000000000001',
+        clientSeq: 1,
+        clientTime: 1005,
+        offsetMs: 0,
+        rttMs: 20,
+      },
+      1006,
+    );
+
+    expect(result.error?.code).toBe('NO_SLAP_WINDOW');
+    expect(result.effects).toEqual([]);
+    expect(result.state).toBe(state);
+  });
+
+  it('does not open same-card windows when the variant is disabled', () => {
+    const state = createInitialState({
+      players,
+      deck: ['GOAT', 'GOAT', 'CHEESE', 'PIZZA'],
+      seed: 1,
+      shuffle: false,
+      nowServerTime: 1000,
+      sameCardSlaps: false,
+      slapWindowMs: 900,
+    });
+    expect(state.config.slapWindowMs).toBe(900);
+
+    const first = applyEvent(state, { type: 'FLIP', userId: 'u1' }, 1010);
+    const second = applyEvent(first.state, { type: 'FLIP', userId: 'u2' }, 1020);
+    expect(second.state.slapWindow.active).toBe(false);
+    expect(second.state.currentTurnSeat).toBe(0);
+  });
+
   it('rejects slap when game is finished', () => {
     const state = createInitialState({
       players,
@@ -717,4 +880,444 @@ describe('engine', () => {
     expect(nextFlip.error).toBeUndefined();
     expect(nextFlip.state.lastRevealed?.byUserId).toBe('u3');
   });
+  it('starts on the configured first turn seat', () => {
+    const state = createInitialState({
+      players: players3,
+      seed: 'first-seat',
+      nowServerTime: 1000,
+      firstTurnSeat: 2,
+    });
+    expect(state.currentTurnSeat).toBe(2);
+
+    expect(() =>
+      createInitialState({
+        players: players3,
+        seed: 'first-seat',
+        nowServerTime: 1000,
+        firstTurnSeat: 3,
+      }),
+    ).toThrow('first turn seat out of range');
+  });
+
+  it('replays a recorded log to the same final state, including connection changes', () => {
+    const initial: CreateInitialStateConfig = {
+      players,
+      deck: ['TACO', 'CAT', 'GOAT', 'CHEESE', 'PIZZA', 'GORILLA', 'CAT', 'TACO'],
+      seed: 'replay',
+      shuffle: false,
+      nowServerTime: 1000,
+      firstTurnSeat: 1,
+    };
+    let state = createInitialState(initial);
+    const entries: ReplayLogEntry[] = [];
+    const record = (event: EngineEvent, nowServerTime: number) => {
+      const result = applyEvent(state, event, nowServerTime);
+      expect(result.error).toBeUndefined();
+      entries.push({ type: 'ENGINE_EVENT', seq: entries.length, nowServerTime, event });
+      state = result.state;
+    };
+
+    record({ type: 'FLIP', userId: 'u2' }, 1010);
+    record({ type: 'FLIP', userId: 'u1' }, 1020);
+    record({ type: 'FLIP', userId: 'u2' }, 1030);
+    record({ type: 'FLIP', userId: 'u1' }, 1040);
+    record({ type: 'FLIP', userId: 'u2' }, 1050);
+    const eventId = state.slapWindow.eventId!;
+    record({ type: 'PLAYER_CONNECTION', userId: 'u2', connected: false }, 1060);
+    record(
+      {
+        type: 'SLAP',
+        userId: 'u1',
+        eventId,
+        gesture: 'GORILLA',
+        clientSeq: 1,
+        clientTime: 1200,
+        offsetMs: 0,
+        rttMs: 10,
+      },
+      1210,
+    );
+    record({ type: 'TURN_TIMEOUT' }, 7000);
+
+    const replayed = replayMatchLog({ initial, entries: [...entries].reverse() });
+    expect(replayed.rejectedEntries).toEqual([]);
+    expect(replayed.appliedEntries).toBe(entries.length);
+    expect(replayed.state).toEqual(state);
+
+    const withoutDisconnect = replayMatchLog({
+      initial,
+      entries: entries.filter((entry) => entry.event.type !== 'PLAYER_CONNECTION'),
+    });
+    expect(withoutDisconnect.rejectedEntries).toEqual([{ seq: 7, code: 'SLAP_WINDOW_ACTIVE' }]);
+    expect(withoutDisconnect.state.version).not.toBe(state.version);
+  });
+
+  it('skips a disconnected player without penalty and leaves them out of match windows', () => {
+    const initial = createInitialState({
+      players: players3,
+      deck: ['CAT', 'GOAT', 'TACO', 'CHEESE', 'PIZZA', 'GOAT'],
+      shuffle: false,
+      nowServerTime: 1000,
+      firstTurnSeat: 1,
+    });
+
+    const dropped = applyEvent(
+      initial,
+      { type: 'PLAYER_CONNECTION', userId: 'u2', connected: false },
+      1100,
+    );
+    expect(dropped.effects).toEqual([]);
+    expect(dropped.state.currentTurnSeat).toBe(2);
+
+    let everyoneAway = dropped.state;
+    for (const userId of ['u1', 'u3']) {
+      everyoneAway = applyEvent(
+        everyoneAway,
+        { type: 'PLAYER_CONNECTION', userId, connected: false },
+        1150,
+      ).state;
+    }
+    const timedOut = applyEvent(everyoneAway, { type: 'TURN_TIMEOUT' }, 1200);
+    expect(timedOut.effects).toEqual([]);
+    expect(timedOut.state.players.map((player) => player.hand.length)).toEqual([2, 2, 2]);
+
+    const matched = applyEvent(dropped.state, { type: 'FLIP', userId: 'u3' }, 1300);
+    expect(matched.state.slapWindow.reason).toBe('MATCH');
+    const slap = (state: typeof matched.state, userId: string, at: number) =>
+      applyEvent(
+        state,
+        {
+          type: 'SLAP',
+          userId,
+          eventId: state.slapWindow.eventId!,
+          clientSeq: 1,
+          clientTime: at,
+          offsetMs: 0,
+          rttMs: 0,
+        },
+        at,
+      );
+    const first = slap(matched.state, 'u3', 1400);
+    const second = slap(first.state, 'u1', 1500);
+    expect(second.effects).toContainEqual(
+      expect.objectContaining({ type: 'SLAP_RESULT', loserUserId: 'u1', reason: 'LAST_SLAPPER' }),
+    );
+  });
+
+  it('ends the game when a forfeit leaves one contender', () => {
+    const initial = createInitialState({
+      players,
+      deck: ['CAT', 'TACO', 'GOAT', 'CHEESE'],
+      shuffle: false,
+      nowServerTime: 1000,
+    });
+
+    const forfeited = applyEvent(initial, { type: 'FORFEIT', userId: 'u1' }, 1100);
+    expect(forfeited.state.status).toBe('FINISHED');
+    expect(forfeited.state.winnerUserId).toBe('u2');
+    expect(forfeited.effects).toEqual([
+      { type: 'PLAYER_FORFEITED', userId: 'u1' },
+      { type: 'GAME_FINISHED', winnerUserId: 'u2' },
+    ]);
+    expect(applyEvent(initial, { type: 'FORFEIT', userId: 'nobody' }, 1100).error?.code).toBe(
+      'NOT_A_PLAYER',
+    );
+  });
+
+  it('never hands the turn to a forfeited seat that kept its cards', () => {
+    const initial = createInitialState({
+      players: players3,
+      deck: ['CAT', 'TACO', 'GOAT', 'CHEESE', 'PIZZA', 'CAT', 'GOAT', 'PIZZA', 'TACO'],
+      shuffle: false,
+      nowServerTime: 1000,
+    });
+    const forfeited = applyEvent(initial, { type: 'FORFEIT', userId: 'u2' }, 1100).state;
+    expect(forfeited.players[1]!.hand).toHaveLength(3);
+
+    // With nobody connected, turns fall back to whoever holds cards, but only among contenders.
+    const offline = [
+      { type: 'PLAYER_CONNECTION', userId: 'u3', connected: false },
+      { type: 'PLAYER_CONNECTION', userId: 'u1', connected: false },
+    ] as const;
+    const idle = offline.reduce((state, event) => applyEvent(state, event, 1200).state, forfeited);
+    expect(idle.currentTurnSeat).toBe(0);
+
+    const flipped = applyEvent(idle, { type: 'FLIP', userId: 'u1' }, 1300).state;
+    expect(flipped.currentTurnSeat).toBe(2);
+  });
+
+  it("moves a kicked player's hand under the pile or deals it to the others", () => {
+    const initial = createInitialState({
+      players: players3,
+      deck: ['CAT', 'TACO', 'GOAT', 'CHEESE', 'PIZZA', 'CAT', 'GOAT', 'PIZZA', 'TACO'],
+      shuffle: false,
+      nowServerTime: 1000,
+    });
+    const flipped = applyEvent(initial, { type: 'FLIP', userId: 'u1' }, 1100).state;
+    expect(flipped.pile).toEqual(['CAT']);
+
+    const toPile = applyEvent(flipped, { type: 'FORFEIT', userId: 'u2', hand: 'PILE' }, 1200).state;
+    expect(toPile.players[1]?.hand).toEqual([]);
+    expect(toPile.pile).toEqual(['TACO', 'PIZZA', 'PIZZA', 'CAT']);
+    expect(toPile.pileTopCard).toBe('CAT');
+    expect(toPile.currentTurnSeat).toBe(2);
+
+    const dealt = applyEvent(flipped, { type: 'FORFEIT', userId: 'u2', hand: 'DEAL' }, 1200).state;
+    expect(dealt.players[1]?.hand).toEqual([]);
+    expect(dealt.players[2]?.hand).toEqual(['GOAT', 'CAT', 'TACO', 'TACO', 'PIZZA']);
+    expect(dealt.players[0]?.hand).toEqual(['CHEESE', 'GOAT', 'PIZZA']);
+    expect(dealt.pile).toEqual(['CAT']);
+
+    const kept = applyEvent(flipped, { type: 'FORFEIT', userId: 'u2' }, 1200).state;
+    expect(kept.players[1]?.hand).toEqual(['TACO', 'PIZZA', 'PIZZA']);
+  });
+});
+
+describe('team play', () => {
+  const players4 = Array.from({ length: 4 }, (_, index) => ({
+    userId: `u${index + 1}`,
+    displayName: `P${index + 1}`,
+  }));
+
+  const teamGame = (teamMode: TeamMode, hands: Card[][], currentTurnSeat = 0): GameState => {
+    const state = createInitialState({ players: players4, teamMode, shuffle: false, nowServerTime: 1000 });
+    hands.forEach((hand, seat) => {
+      state.players[seat]!.hand = hand;
+    });
+    state.currentTurnSeat = currentTurnSeat;
+    return state;
+  };
+
+  const slap = (userId: string, eventId: string, clientTime: number): EngineEvent => ({
+    type: 'SLAP',
+    userId,
+    eventId,
+    clientSeq: 1,
+    clientTime,
+    offsetMs: 0,
+    rttMs: 10,
+  });
+
+  it('seats alternate teams and needs equal sides of at least two', () => {
+    const players6 = Array.from({ length: 6 }, (_, index) => ({
+      userId: `u${index + 1}`,
+      displayName: `P${index + 1}`,
+    }));
+    const state = createInitialState({ players: players6, teamMode: 'ANY_MEMBER', nowServerTime: 1000 });
+
+    expect(state.players.map((player) => player.teamId)).toEqual([0, 1, 0, 1, 0, 1]);
+    expect(buildSpectatorGameStateView(state).players.map((player) => player.teamId)).toEqual([
+      0, 1, 0, 1, 0, 1,
+    ]);
+    expect(createInitialState({ players, nowServerTime: 1000 }).players[0]).not.toHaveProperty('teamId');
+    expect(validateTeamPlayerCount(4)).toBe(true);
+    expect(validateTeamPlayerCount(5)).toBe(false);
+    expect(validateTeamPlayerCount(2)).toBe(false);
+    expect(() =>
+      createInitialState({ players: players3, teamMode: 'ANY_MEMBER', nowServerTime: 1000 }),
+    ).toThrow('team play needs equal teams of at least two');
+  });
+
+  it('wins for the whole team as soon as one member runs out under ANY_MEMBER', () => {
+    const state = teamGame('ANY_MEMBER', [['GOAT', 'CAT'], ['CAT'], ['PIZZA'], ['CHEESE', 'GOAT']], 1);
+
+    const result = applyEvent(state, { type: 'FLIP', userId: 'u2' }, 1010);
+    expect(result.state).toMatchObject({ status: 'FINISHED', winnerUserId: 'u2', winnerTeamId: 1 });
+    expect(result.effects).toEqual([{ type: 'GAME_FINISHED', winnerUserId: 'u2', winnerTeamId: 1 }]);
+    expect(buildSpectatorGameStateView(result.state).winnerTeamId).toBe(1);
+  });
+
+  it('waits for every member to run out under ALL_MEMBERS, skipping members with no cards', () => {
+    let state = teamGame('ALL_MEMBERS', [['CAT'], ['GOAT', 'CAT'], ['CHEESE', 'TACO'], ['PIZZA', 'GOAT']]);
+
+    const firstOut = applyEvent(state, { type: 'FLIP', userId: 'u1' }, 1010);
+    expect(firstOut.state.status).toBe('IN_GAME');
+    expect(firstOut.effects).toEqual([]);
+    state = firstOut.state;
+    state = applyEvent(state, { type: 'FLIP', userId: 'u2' }, 1020).state;
+    state = applyEvent(state, { type: 'FLIP', userId: 'u3' }, 1030).state;
+    state = applyEvent(state, { type: 'FLIP', userId: 'u4' }, 1040).state;
+    expect(state.currentTurnSeat).toBe(1);
+
+    // u2 runs out too, but u4 still holds a card for team 1.
+    state = applyEvent(state, { type: 'FLIP', userId: 'u2' }, 1050).state;
+    expect(state.status).toBe('IN_GAME');
+    expect(state.currentTurnSeat).toBe(2);
+
+    const teamOut = applyEvent(state, { type: 'FLIP', userId: 'u3' }, 1060);
+    expect(teamOut.state).toMatchObject({ status: 'FINISHED', winnerUserId: 'u3', winnerTeamId: 0 });
+    expect(teamOut.effects).toEqual([{ type: 'GAME_FINISHED', winnerUserId: 'u3', winnerTeamId: 0 }]);
+  });
+
+  it('only lets a member with no cards win a slap window once their team is out', () => {
+    const hands: Card[][] = [[], ['TACO', 'CAT'], ['GOAT'], ['CHEESE', 'PIZZA']];
+
+    const anyMember = applyEvent(teamGame('ANY_MEMBER', hands, 1), { type: 'FLIP', userId: 'u2' }, 1000);
+    const instant = applyEvent(anyMember.state, slap('u1', anyMember.state.slapWindow.eventId!, 1100), 1100);
+    expect(instant.state).toMatchObject({ status: 'FINISHED', winnerUserId: 'u1', winnerTeamId: 0 });
+
+    let state = applyEvent(teamGame('ALL_MEMBERS', hands, 1), { type: 'FLIP', userId: 'u2' }, 1000).state;
+    const eventId = state.slapWindow.eventId!;
+    state = applyEvent(state, slap('u1', eventId, 1100), 1100).state;
+    expect(state.status).toBe('IN_GAME');
+    state = applyEvent(state, slap('u3', eventId, 1150), 1150).state;
+    state = applyEvent(state, slap('u4', eventId, 1200), 1200).state;
+    const resolved = applyEvent(state, slap('u2', eventId, 1250), 1250);
+
+    expect(resolved.state.status).toBe('IN_GAME');
+    expect(resolved.effects.find((effect) => effect.type === 'SLAP_RESULT')).toMatchObject({
+      orderedUserIds: ['u1', 'u3', 'u4', 'u2'],
+      loserUserId: 'u2',
+    });
+    expect(resolved.state.players[1]?.hand).toEqual(['CAT', 'TACO']);
+  });
+
+  it('keeps penalties on the player who earned them', () => {
+    const state = teamGame('ALL_MEMBERS', [[], ['TACO'], ['GOAT', 'CAT'], ['CHEESE']], 1);
+    state.pile = ['PIZZA'];
+    state.pileCount = 1;
+
+    const result = applyEvent(state, slap('u1', '00000000-0000-4000-8000-000000000001', 1005), 1006);
+    expect(result.effects).toEqual([
+      { type: 'PENALTY', userId: 'u1', penaltyType: 'FALSE_SLAP', pileTaken: 1 },
+    ]);
+    expect(result.state.players.map((player) => player.hand)).toEqual([
+      ['PIZZA'],
+      ['TACO'],
+      ['GOAT', 'CAT'],
+      ['CHEESE'],
+    ]);
+    expect(result.state.currentTurnSeat).toBe(0);
+  });
+
+  it('ends on forfeits once one team is left, or its remaining members are all out', () => {
+    const hands: Card[][] = [['CAT'], ['GOAT', 'TACO'], ['CHEESE'], ['PIZZA']];
+    let state = teamGame('ANY_MEMBER', hands);
+    state = applyEvent(state, { type: 'FORFEIT', userId: 'u2' }, 1100).state;
+    expect(state.status).toBe('IN_GAME');
+    const lastForfeit = applyEvent(state, { type: 'FORFEIT', userId: 'u4' }, 1200);
+    expect(lastForfeit.state).toMatchObject({ status: 'FINISHED', winnerUserId: 'u1', winnerTeamId: 0 });
+    expect(lastForfeit.effects).toContainEqual({
+      type: 'GAME_FINISHED',
+      winnerUserId: 'u1',
+      winnerTeamId: 0,
+    });
+
+    const oneOut = teamGame('ALL_MEMBERS', [[], ['GOAT'], ['CHEESE', 'TACO', 'CAT'], ['PIZZA']], 1);
+    expect(applyEvent(oneOut, { type: 'FORFEIT', userId: 'u3' }, 1100).state).toMatchObject({
+      status: 'FINISHED',
+      winnerUserId: 'u1',
+      winnerTeamId: 0,
+    });
+    const dealtIn = applyEvent(oneOut, { type: 'FORFEIT', userId: 'u3', hand: 'DEAL' }, 1100).state;
+    expect(dealtIn.status).toBe('IN_GAME');
+    expect(dealtIn.players[0]?.hand).toEqual(['TACO']);
+  });
+});
+
+describe('elimination', () => {
+  const eliminationGame = (
+    config: Pick<CreateInitialStateConfig, 'eliminationCardThreshold' | 'eliminationRounds'>,
+    hands: Card[][],
+    pile: Card[] = [],
+  ): GameState => {
+    const state = createInitialState({
+      players: players3.slice(0, hands.length),
+      shuffle: false,
+      nowServerTime: 1000,
+      ...config,
+    });
+    hands.forEach((hand, seat) => {
+      state.players[seat]!.hand = hand;
+    });
+    state.pile = pile;
+    state.pileCount = pile.length;
+    return state;
+  };
+
+  const falseSlap = (userId: string): EngineEvent => ({
+    type: 'SLAP',
+    userId,
+    eventId: '00000000-0000-4000-8000-000000000999',
+    clientSeq: 1,
+    clientTime: 1000,
+    offsetMs: 0,
+    rttMs: 10,
+  });
+
+  it('knocks out a pile taker over the card threshold and skips their seat', () => {
+    const state = eliminationGame(
+      { eliminationCardThreshold: 3 },
+      [['TACO', 'CAT'], ['GOAT', 'CHEESE'], ['PIZZA', 'GOAT']],
+      ['CAT', 'GOAT'],
+    );
+    expect(state.roundsPlayed).toBe(0);
+
+    const knockedOut = applyEvent(state, falseSlap('u1'), 1010);
+    expect(knockedOut.effects).toEqual([
+      { type: 'PENALTY', userId: 'u1', penaltyType: 'FALSE_SLAP', pileTaken: 2 },
+      { type: 'PLAYER_ELIMINATED', userId: 'u1', reason: 'CARD_THRESHOLD', round: 1 },
+    ]);
+    expect(knockedOut.state.players.map((player) => player.hand)).toEqual([
+      [],
+      ['GOAT', 'CHEESE', 'TACO', 'CAT'],
+      ['PIZZA', 'GOAT', 'CAT', 'GOAT'],
+    ]);
+    expect(knockedOut.state.currentTurnSeat).toBe(1);
+    const view = buildSpectatorGameStateView(knockedOut.state);
+    expect(view.roundsPlayed).toBe(1);
+    expect(view.players[0]).toMatchObject({ eliminated: true, handCount: 0 });
+
+    expect(applyEvent(knockedOut.state, falseSlap('u1'), 1020).error?.code).toBe('NOT_A_PLAYER');
+    const afterU2 = applyEvent(knockedOut.state, { type: 'FLIP', userId: 'u2' }, 1020);
+    const afterU3 = applyEvent(afterU2.state, { type: 'FLIP', userId: 'u3' }, 1030);
+    expect(afterU3.state.currentTurnSeat).toBe(1);
+  });
+
+  it('knocks out every nth round loser and ends with the last player standing', () => {
+    let state = eliminationGame({ eliminationRounds: 2 }, [['TACO', 'CAT'], ['GOAT', 'CHEESE']]);
+
+    const emptyPile = applyEvent(state, falseSlap('u2'), 1010);
+    expect(emptyPile.state.roundsPlayed).toBe(0);
+
+    state = emptyPile.state;
+    state.pile = ['PIZZA'];
+    state.pileCount = 1;
+    const firstRound = applyEvent(state, falseSlap('u1'), 1020);
+    expect(firstRound.effects.map((effect) => effect.type)).toEqual(['PENALTY']);
+    expect(firstRound.state.roundsPlayed).toBe(1);
+
+    state = firstRound.state;
+    state.pile = ['GORILLA'];
+    state.pileCount = 1;
+    const secondRound = applyEvent(state, falseSlap('u2'), 1030);
+    expect(secondRound.effects.slice(1)).toEqual([
+      { type: 'PLAYER_ELIMINATED', userId: 'u2', reason: 'ROUND_LIMIT', round: 2 },
+      { type: 'GAME_FINISHED', winnerUserId: 'u1' },
+    ]);
+    expect(secondRound.state).toMatchObject({ status: 'FINISHED', winnerUserId: 'u1' });
+    expect(secondRound.state.players[0]!.hand).toHaveLength(6);
+  });
+
+  it('does not end the game when a hand runs out and deals the pile back once all are empty', () => {
+    const state = eliminationGame({ eliminationRounds: 5 }, [['GOAT'], ['PIZZA']]);
+
+    const firstOut = applyEvent(state, { type: 'FLIP', userId: 'u1' }, 1010);
+    expect(firstOut.state.status).toBe('IN_GAME');
+    expect(firstOut.effects).toEqual([]);
+
+    const bothOut = applyEvent(firstOut.state, { type: 'FLIP', userId: 'u2' }, 1020);
+    expect(bothOut.state.status).toBe('IN_GAME');
+    expect(bothOut.state.players.map((player) => player.hand)).toEqual([['GOAT'], ['PIZZA']]);
+    expect(bothOut.state).toMatchObject({ pile: [], pileCount: 0, currentTurnSeat: 0 });
+  });
+
+  it('rejects negative or fractional elimination rules', () => {
+    expect(() =>
+      createInitialState({ players, eliminationCardThreshold: -1, nowServerTime: 1000 }),
+    ).toThrow('elimination rules must be whole numbers of zero or more');
+    expect(() => createInitialState({ players, eliminationRounds: 1.5, nowServerTime: 1000 })).toThrow(
+      'elimination rules must be whole numbers of zero or more',
+    );
+  });
 });
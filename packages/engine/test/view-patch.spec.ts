@@ -0,0 +1,126 @@
+import { applyGameStatePatch, diffGameStateView, type GameStateView } from '@slaphard/shared';
+import { describe, expect, it } from 'vitest';
+import { applyEvent, buildGameStateView, createInitialState } from '../src';
+import type { EngineEvent } from '../src';
+
+const players3 = [
+  { userId: 'u1', displayName: 'P1' },
+  { userId: 'u2', displayName: 'P2' },
+  { userId: 'u3', displayName: 'P3' },
+];
+
+const roundTrip = (previous: GameStateView, next: GameStateView) => {
+  const patch = diffGameStateView(previous, next);
+  expect(applyGameStatePatch(previous, patch)).toStrictEqual(next);
+  return patch;
+};
+
+const startState = () =>
+  createInitialState({
+    players: players3,
+    deck: ['CAT', 'TACO', 'GOAT', 'CHEESE', 'PIZZA', 'CAT', 'GOAT', 'PIZZA', 'TACO'],
+    shuffle: false,
+    nowServerTime: 1000,
+  });
+
+const startView = (): GameStateView => buildGameStateView(startState(), 'u1');
+
+describe('game view patches', () => {
+  it('rebuilds every view of a played game from the previous one', () => {
+    let state = startState();
+    let view = buildGameStateView(state, 'u1');
+
+    for (let step = 1; step <= 12 && state.status === 'IN_GAME'; step += 1) {
+      const window = state.slapWindow;
+      const slapper = players3.find(
+        ({ userId }) => !window.attempts.some((attempt) => attempt.userId === userId),
+      );
+      const event: EngineEvent =
+        window.active && !window.resolved && slapper
+          ? {
+              type: 'SLAP',
+              userId: slapper.userId,
+              eventId: window.eventId!,
+              clientSeq: step,
+              clientTime: 1000 + step * 100,
+              offsetMs: 0,
+              rttMs: 10,
+              ...(window.actionCard ? { gesture: window.actionCard } : {}),
+            }
+          : { type: 'FLIP', userId: state.players[state.currentTurnSeat]!.userId };
+      const result = applyEvent(state, event, 1000 + step * 100);
+      expect(result.error).toBeUndefined();
+      state = result.state;
+
+      const next = buildGameStateView(state, 'u1');
+      roundTrip(view, next);
+      view = next;
+    }
+
+    const forfeited = applyEvent(
+      state,
+      { type: 'FORFEIT', userId: 'u3', hand: 'DEAL' },
+      3000,
+    ).state;
+    roundTrip(view, buildGameStateView(forfeited, 'u1'));
+  });
+
+  it('removes keys the next view no longer has', () => {
+    const previous: GameStateView = {
+      ...startView(),
+      pileTopCard: 'GOAT',
+      lastRevealed: {
+        card: 'GOAT',
+        chantWord: 'GOAT',
+        byUserId: 'u2',
+        bySeatIndex: 1,
+        atServerTime: 1100,
+      },
+      winnerUserId: 'u2',
+    };
+    const next = startView();
+
+    const patch = roundTrip(previous, next);
+    expect(patch).toEqual(
+      expect.arrayContaining([
+        { op: 'remove', path: ['pileTopCard'] },
+        { op: 'remove', path: ['lastRevealed'] },
+        { op: 'remove', path: ['winnerUserId'] },
+      ]),
+    );
+  });
+
+  it('replaces arrays whose length changed and leaves equal ones out', () => {
+    const previous = startView();
+    const next: GameStateView = {
+      ...previous,
+      players: previous.players.slice(0, 2),
+      meHand: [...previous.meHand!, 'PIZZA'],
+      slapWindow: { ...previous.slapWindow, slappedUserIds: ['u2'] },
+    };
+
+    const patch = roundTrip(previous, next);
+    expect(patch.map((operation) => operation.path)).toEqual([
+      ['players'],
+      ['slapWindow', 'slappedUserIds'],
+      ['meHand'],
+    ]);
+    expect(roundTrip(next, { ...next, meHand: [...next.meHand!] })).toEqual([]);
+  });
+
+  it('patches player rows field by field without touching the previous view', () => {
+    const previous = startView();
+    const players = previous.players.map((player) => ({ ...player }));
+    players[1] = { ...players[1]!, handCount: 0, connected: false, forfeited: true };
+    const next: GameStateView = { ...previous, players };
+
+    const patch = roundTrip(previous, next);
+    expect(patch).toEqual([
+      { op: 'replace', path: ['players', 1, 'connected'], value: false },
+      { op: 'replace', path: ['players', 1, 'handCount'], value: 0 },
+      { op: 'replace', path: ['players', 1, 'forfeited'], value: true },
+    ]);
+    expect(previous.players[1]).toMatchObject({ handCount: 3, connected: true });
+    expect(previous.players[1]).not.toHaveProperty('forfeited');
+  });
+});
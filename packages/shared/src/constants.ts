@@ -13,4 +13,79 @@ export const PING_INTERVAL_LOBBY_MS = 10000;
 
 export const MIN_PLAYERS = 2;
 export const MAX_PLAYERS = 8;
+export const MAX_SPECTATORS = 16;
+export const BOT_DIFFICULTIES = ['EASY', 'NORMAL', 'HARD'] as const;
 export const ROOM_CODE_LENGTH = 6;
+export const PENALTY_TYPES = ['FALSE_SLAP', 'WRONG_GESTURE', 'TURN_TIMEOUT', 'NO_SLAPS'] as const;
+/**
+ * Team play seats two teams alternately. `ANY_MEMBER` ends the game when one member runs out of
+ * cards; under `ALL_MEMBERS` a team wins only once every member has.
+ */
+export const TEAM_MODES = ['OFF', 'ANY_MEMBER', 'ALL_MEMBERS'] as const;
+export const TEAM_COUNT = 2;
+/** Team play needs at least two a side, and equal sides. */
+export const MIN_TEAM_PLAYERS = 4;
+
+export const MIN_DECK_CARDS = 4;
+export const MAX_CARD_COPIES = 12;
+export const MIN_CARDS_PER_PLAYER = 3;
+export const DECK_PRESETS = ['STANDARD', 'ACTION_HEAVY', 'NO_GROUNDHOG', 'FULL_SIZE'] as const;
+export const STANDARD_DECK_COUNTS = {
+  TACO: 2,
+  CAT: 2,
+  GOAT: 2,
+  CHEESE: 2,
+  PIZZA: 2,
+  GORILLA: 2,
+  NARWHAL: 2,
+  GROUNDHOG: 1,
+} as const;
+
+export const RECONNECT_GRACE_MS = 30000;
+export const HOST_MIGRATION_MS = 15000;
+/** A quick-match room starts on its own this long after it forms, ready or not. */
+export const QUICK_MATCH_COUNTDOWN_MS = 20000;
+/** Countdown an auto-start room runs once everyone is ready; any un-ready cancels it. */
+export const AUTO_START_COUNTDOWN_MS = 5000;
+/** What auto-start does with seated players who are not ready: wait for them or leave them out. */
+export const UNREADY_PLAYER_POLICIES = ['BLOCK', 'EXCLUDE'] as const;
+
+export const TOURNAMENT_STATUSES = ['REGISTRATION', 'RUNNING', 'FINISHED'] as const;
+export const MAX_TOURNAMENT_ENTRANTS = 64;
+/** A tournament room starts on its own this long after it is seeded, ready or not. */
+export const TOURNAMENT_START_COUNTDOWN_MS = 60000;
+/** Tournaments outlive any one room: long enough for an evening of rounds. */
+export const TOURNAMENT_TTL_SECONDS = 24 * 3600;
+export const GRACE_EXPIRY_ACTIONS = ['FORFEIT', 'BOT'] as const;
+/** Where a player's cards go when the host kicks them mid-game. */
+export const KICKED_HAND_DISPOSITIONS = ['PILE', 'DEAL'] as const;
+
+export const SERIES_BEST_OF = [3, 5] as const;
+export const MAX_SERIES_POINTS = 10;
+
+export const LEADERBOARD_METRICS = ['WINS', 'WIN_RATE', 'REACTION', 'PENALTIES'] as const;
+export const LEADERBOARD_PERIODS = ['ALL_TIME', 'DAY', 'WEEK', 'MONTH'] as const;
+export const MAX_LEADERBOARD_ENTRIES = 100;
+
+export const EMOTES = ['CLAP', 'LAUGH', 'WOW', 'FIRE', 'ANGRY', 'TACO'] as const;
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+export const CHAT_HISTORY_LIMIT = 50;
+
+export const DEFAULT_ROOM_RULES = {
+  slapWindowMs: SLAP_WINDOW_MS,
+  actionSlapWindowMs: ACTION_SLAP_WINDOW_MS,
+  turnTimeoutMs: TURN_TIMEOUT_MS,
+  minHumanMs: MIN_HUMAN_MS,
+  sameCardSlaps: true,
+  falseSlapPenalty: true,
+  teamMode: 'OFF',
+  eliminationCardThreshold: 0,
+  eliminationRounds: 0,
+  deck: { preset: 'STANDARD' },
+  series: { type: 'SINGLE' },
+  reconnectGraceMs: RECONNECT_GRACE_MS,
+  graceExpiry: 'FORFEIT',
+  hostMigrationMs: HOST_MIGRATION_MS,
+  autoStart: false,
+  unreadyPlayers: 'BLOCK',
+} as const;
@@ -1,11 +1,15 @@
 export const ERROR_CODES = [
   'ROOM_NOT_FOUND',
   'ROOM_FULL',
+  'ROOM_LOCKED',
+  'BANNED',
   'INVALID_NAME',
   'INVALID_TARGET',
+  'INVALID_RULES',
   'NOT_HOST',
   'NOT_IN_LOBBY',
   'NOT_IN_GAME',
+  'NOT_A_PLAYER',
   'NOT_YOUR_TURN',
   'SLAP_WINDOW_ACTIVE',
   'NO_SLAP_WINDOW',
@@ -13,6 +17,16 @@ export const ERROR_CODES = [
   'INVALID_GESTURE',
   'ALREADY_SLAPPED',
   'RATE_LIMITED',
+  'CHAT_MUTED',
+  'INVALID_SESSION',
+  'ROOM_BUSY',
+  'USERNAME_TAKEN',
+  'INVALID_CREDENTIALS',
+  'PLAYER_NOT_FOUND',
+  'TOURNAMENT_NOT_FOUND',
+  'NOT_ORGANIZER',
+  'NOT_AN_ENTRANT',
+  'REGISTRATION_CLOSED',
   'INTERNAL_ERROR',
 ] as const;
 
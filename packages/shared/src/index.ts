@@ -1,4 +1,5 @@
 export * from './constants';
 export * from './errors';
+export * from './patch';
 export * from './schemas';
 export * from './types';
@@ -0,0 +1,71 @@
+import type { GameStateView, PatchOperation, PatchPath } from './types';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const diffValues = (previous: unknown, next: unknown, path: PatchPath, ops: PatchOperation[]): void => {
+  if (Object.is(previous, next)) {
+    return;
+  }
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    for (const key of Object.keys(previous)) {
+      if (previous[key] !== undefined && next[key] === undefined) {
+        ops.push({ op: 'remove', path: [...path, key] });
+      }
+    }
+    for (const [key, value] of Object.entries(next)) {
+      if (value !== undefined) {
+        diffValues(previous[key], value, [...path, key], ops);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(previous) && Array.isArray(next) && previous.length === next.length) {
+    // Player rows are diffed field by field; primitive lists (hands) are replaced wholesale.
+    if (next.every(isPlainObject)) {
+      next.forEach((value, index) => diffValues(previous[index], value, [...path, index], ops));
+      return;
+    }
+    if (next.every((value, index) => Object.is(value, previous[index]))) {
+      return;
+    }
+  }
+
+  ops.push({ op: 'replace', path, value: next });
+};
+
+export const diffGameStateView = (previous: GameStateView, next: GameStateView): PatchOperation[] => {
+  const ops: PatchOperation[] = [];
+  diffValues(previous, next, [], ops);
+  return ops;
+};
+
+export const applyGameStatePatch = (view: GameStateView, patch: PatchOperation[]): GameStateView => {
+  let root: unknown = structuredClone(view);
+
+  for (const operation of patch) {
+    if (operation.path.length === 0) {
+      root = operation.op === 'replace' ? structuredClone(operation.value) : undefined;
+      continue;
+    }
+
+    let container = root as Record<string | number, unknown>;
+    for (const segment of operation.path.slice(0, -1)) {
+      container = container[segment] as Record<string | number, unknown>;
+      if (typeof container !== 'object' || container === null) {
+        throw new Error(`invalid patch path: ${operation.path.join('.')}`);
+      }
+    }
+
+    const key = operation.path[operation.path.length - 1]!;
+    if (operation.op === 'remove') {
+      delete container[key];
+    } else {
+      container[key] = structuredClone(operation.value);
+    }
+  }
+
+  return root as GameStateView;
+};
@@ -1,5 +1,30 @@
 import { z } from 'zod';
-import { ACTION_CARDS, ALL_CARDS, CHANT_ORDER, MAX_PLAYERS, MIN_PLAYERS } from './constants';
+import {
+  ACTION_CARDS,
+  ALL_CARDS,
+  BOT_DIFFICULTIES,
+  CHANT_ORDER,
+  DECK_PRESETS,
+  EMOTES,
+  GRACE_EXPIRY_ACTIONS,
+  KICKED_HAND_DISPOSITIONS,
+  LEADERBOARD_METRICS,
+  LEADERBOARD_PERIODS,
+  MAX_CARD_COPIES,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_PLAYERS,
+  MAX_SERIES_POINTS,
+  MAX_SPECTATORS,
+  MIN_DECK_CARDS,
+  MIN_PLAYERS,
+  PENALTY_TYPES,
+  MAX_TOURNAMENT_ENTRANTS,
+  SERIES_BEST_OF,
+  TOURNAMENT_STATUSES,
+  TEAM_COUNT,
+  TEAM_MODES,
+  UNREADY_PLAYER_POLICIES,
+} from './constants';
 import { ERROR_CODES } from './errors';
 
 export const cardSchema = z.enum(ALL_CARDS);
@@ -7,6 +32,9 @@ export const cardSchema = z.enum(ALL_CARDS);
 export const gestureSchema = z.enum(ACTION_CARDS);
 export const roomStatusSchema = z.enum(['LOBBY', 'IN_GAME', 'FINISHED']);
 export const slapReasonSchema = z.enum(['MATCH', 'ACTION', 'SAME_CARD']);
+export const botDifficultySchema = z.enum(BOT_DIFFICULTIES);
+export const penaltyTypeSchema = z.enum(PENALTY_TYPES);
+export const emoteSchema = z.enum(EMOTES);
 
 export const displayNameSchema = z.string().trim().min(2).max(24);
 export const roomCodeSchema = z
@@ -15,16 +43,67 @@ export const roomCodeSchema = z
   .length(6)
   .regex(/^[A-Z0-9]+$/);
 
+export const sessionTokenSchema = z.string().min(1).max(512);
+
+export const usernameSchema = z
+  .string()
+  .trim()
+  .min(3)
+  .max(20)
+  .regex(/^[A-Za-z0-9_-]+$/);
+export const accountSecretSchema = z.string().min(8).max(128);
+
 export const playerSchema = z.object({
   userId: z.string().uuid(),
   displayName: displayNameSchema,
   seatIndex: z.number().int().min(0).max(MAX_PLAYERS - 1),
   connected: z.boolean(),
   ready: z.boolean(),
+  forfeited: z.boolean().optional(),
+  teamId: z.number().int().min(0).max(TEAM_COUNT - 1).optional(),
+  eliminated: z.boolean().optional(),
   handCount: z.number().int().min(0),
 });
 
-export const roomPlayerSchema = playerSchema.omit({ handCount: true });
+export const roomPlayerSchema = playerSchema
+  .omit({ handCount: true, forfeited: true, teamId: true, eliminated: true })
+  .extend({
+    botDifficulty: botDifficultySchema.optional(),
+    reconnectDeadline: z.number().int().nonnegative().optional(),
+    botStandIn: z.boolean().optional(),
+    playerId: z.string().uuid().optional(),
+    rating: z.number().int().optional(),
+    kicked: z.boolean().optional(),
+    connectedSince: z.number().int().nonnegative().optional(),
+  });
+
+export const roomSpectatorSchema = z.object({
+  userId: z.string().uuid(),
+  displayName: displayNameSchema,
+  connected: z.boolean(),
+});
+
+export const roomBanSchema = z.object({
+  userId: z.string().uuid(),
+  displayName: displayNameSchema,
+  playerId: z.string().uuid().optional(),
+  bannedAt: z.number().int().nonnegative(),
+});
+
+export const tournamentRoomLinkSchema = z.object({
+  tournamentId: z.string().uuid(),
+  code: roomCodeSchema,
+  round: z.number().int().nonnegative(),
+  match: z.number().int().nonnegative(),
+});
+
+export const publicRoomListingSchema = z.object({
+  roomCode: roomCodeSchema,
+  hostDisplayName: displayNameSchema,
+  playerCount: z.number().int().min(1).max(MAX_PLAYERS),
+  spectatorCount: z.number().int().nonnegative().max(MAX_SPECTATORS),
+  createdAt: z.number().int().nonnegative(),
+});
 
 export const slapWindowSchema = z.object({
   active: z.boolean(),
@@ -50,41 +129,325 @@ export const lastRevealedSchema = z.object({
 export const gameStateViewSchema = z.object({
   status: z.enum(['IN_GAME', 'FINISHED']),
   players: z.array(playerSchema).min(MIN_PLAYERS).max(MAX_PLAYERS),
-  meHand: z.array(cardSchema),
+  meHand: z.array(cardSchema).optional(),
   currentTurnSeat: z.number().int(),
   chantIndex: z.number().int().min(0).max(CHANT_ORDER.length - 1),
   pileCount: z.number().int().nonnegative(),
   pileTopCard: cardSchema.optional(),
   lastRevealed: lastRevealedSchema.optional(),
   slapWindow: slapWindowSchema,
+  roundsPlayed: z.number().int().nonnegative().optional(),
   winnerUserId: z.string().uuid().optional(),
+  winnerTeamId: z.number().int().min(0).max(TEAM_COUNT - 1).optional(),
   version: z.number().int().nonnegative(),
 });
 
+export const patchOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('replace'),
+    path: z.array(z.union([z.string(), z.number().int().nonnegative()])),
+    value: z.unknown(),
+  }),
+  z.object({
+    op: z.literal('remove'),
+    path: z.array(z.union([z.string(), z.number().int().nonnegative()])),
+  }),
+]);
+
+export const deckCountsSchema = z
+  .record(cardSchema, z.number().int().min(0).max(MAX_CARD_COPIES))
+  .refine((counts) => Object.values(counts).reduce((total, count) => total + count, 0) >= MIN_DECK_CARDS, {
+    message: `deck needs at least ${MIN_DECK_CARDS} cards`,
+  });
+
+export const deckSpecSchema = z.union([
+  z.object({ preset: z.enum(DECK_PRESETS) }),
+  z.object({ custom: deckCountsSchema }),
+]);
+
+export const seriesFormatSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('SINGLE') }),
+  z.object({ type: z.literal('BEST_OF'), games: z.literal(SERIES_BEST_OF) }),
+  z.object({ type: z.literal('FIRST_TO'), points: z.number().int().min(2).max(MAX_SERIES_POINTS) }),
+]);
+
+export const seriesStateSchema = z.object({
+  format: seriesFormatSchema,
+  rounds: z.array(
+    z.object({
+      round: z.number().int().positive(),
+      winnerUserId: z.string().uuid(),
+      loserUserId: z.string().uuid(),
+    }),
+  ),
+  scores: z.record(z.string().uuid(), z.number().int().nonnegative()),
+  winnerUserId: z.string().uuid().optional(),
+});
+
+export const playerMatchStatsSchema = z.object({
+  slaps: z.number().int().nonnegative(),
+  slapsWon: z.number().int().nonnegative(),
+  totalReactionMs: z.number().int().nonnegative(),
+  bestReactionMs: z.number().int().nonnegative().nullable(),
+  penalties: z.record(penaltyTypeSchema, z.number().int().nonnegative()),
+  cardsTaken: z.number().int().nonnegative(),
+});
+
+export const chatContentSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('TEXT'),
+    text: z.string().trim().min(1).max(MAX_CHAT_MESSAGE_LENGTH),
+  }),
+  z.object({ kind: z.literal('EMOTE'), emote: emoteSchema }),
+]);
+
+export const chatMessageSchema = z.intersection(
+  chatContentSchema,
+  z.object({
+    messageId: z.string().uuid(),
+    userId: z.string().uuid(),
+    displayName: displayNameSchema,
+    sentAt: z.number().int().nonnegative(),
+  }),
+);
+
+export const roomRulesSchema = z.object({
+  slapWindowMs: z.number().int().min(500).max(5000),
+  actionSlapWindowMs: z.number().int().min(800).max(8000),
+  turnTimeoutMs: z.number().int().min(2000).max(20000),
+  minHumanMs: z.number().int().min(0).max(300),
+  sameCardSlaps: z.boolean(),
+  falseSlapPenalty: z.boolean(),
+  teamMode: z.enum(TEAM_MODES),
+  eliminationCardThreshold: z.number().int().min(0).max(100),
+  eliminationRounds: z.number().int().min(0).max(50),
+  deck: deckSpecSchema,
+  series: seriesFormatSchema,
+  reconnectGraceMs: z.number().int().min(5000).max(120000),
+  graceExpiry: z.enum(GRACE_EXPIRY_ACTIONS),
+  hostMigrationMs: z.number().int().min(5000).max(120000),
+  autoStart: z.boolean(),
+  unreadyPlayers: z.enum(UNREADY_PLAYER_POLICIES),
+});
+
 export const roomSchema = z.object({
   roomId: z.string().uuid(),
   roomCode: roomCodeSchema,
   status: roomStatusSchema,
   hostUserId: z.string().uuid(),
   players: z.array(roomPlayerSchema).min(1).max(MAX_PLAYERS),
+  spectators: z.array(roomSpectatorSchema).max(MAX_SPECTATORS),
+  rules: roomRulesSchema,
+  series: seriesStateSchema.optional(),
+  matchStats: z.record(z.string().uuid(), playerMatchStatsSchema).optional(),
+  chatMutedUserIds: z.array(z.string().uuid()).optional(),
+  locked: z.boolean().optional(),
+  bans: z.array(roomBanSchema).optional(),
+  hostMigrationDeadline: z.number().int().nonnegative().optional(),
+  public: z.boolean().optional(),
+  quickMatch: z.boolean().optional(),
+  startCountdownEndsAt: z.number().int().nonnegative().optional(),
+  tournament: tournamentRoomLinkSchema.optional(),
   version: z.number().int().nonnegative(),
   createdAt: z.number().int().nonnegative(),
   updatedAt: z.number().int().nonnegative(),
 });
 
+export const tournamentNameSchema = z.string().trim().min(2).max(40);
+
+export const tournamentSettingsSchema = z
+  .object({
+    name: tournamentNameSchema,
+    roomSize: z.number().int().min(MIN_PLAYERS).max(MAX_PLAYERS),
+    advancePerRoom: z.number().int().min(1).max(MAX_PLAYERS - 1),
+  })
+  .refine((settings) => settings.advancePerRoom < settings.roomSize, {
+    message: 'each room must send fewer players through than it seats',
+    path: ['advancePerRoom'],
+  });
+
+export const tournamentRegistrationSchema = z.object({
+  displayName: displayNameSchema,
+  accountToken: sessionTokenSchema.optional(),
+});
+
+export const tournamentEntrantSchema = z.object({
+  entrantId: z.string().uuid(),
+  displayName: displayNameSchema,
+  playerId: z.string().uuid().optional(),
+  registeredAt: z.number().int().nonnegative(),
+});
+
+export const tournamentMatchSchema = z.object({
+  entrantIds: z.array(z.string().uuid()).min(1).max(MAX_PLAYERS),
+  roomId: z.string().uuid().optional(),
+  roomCode: roomCodeSchema.optional(),
+  seats: z.record(z.string().uuid(), z.string().uuid()).optional(),
+  advancedEntrantIds: z.array(z.string().uuid()).optional(),
+});
+
+export const tournamentSchema = z.object({
+  tournamentId: z.string().uuid(),
+  code: roomCodeSchema,
+  name: tournamentNameSchema,
+  status: z.enum(TOURNAMENT_STATUSES),
+  roomSize: z.number().int().min(MIN_PLAYERS).max(MAX_PLAYERS),
+  advancePerRoom: z.number().int().min(1).max(MAX_PLAYERS - 1),
+  entrants: z.array(tournamentEntrantSchema).max(MAX_TOURNAMENT_ENTRANTS),
+  rounds: z.array(z.object({ matches: z.array(tournamentMatchSchema) })),
+  championEntrantId: z.string().uuid().optional(),
+  createdAt: z.number().int().nonnegative(),
+  updatedAt: z.number().int().nonnegative(),
+});
+
+export const tournamentCredentialsSchema = z.object({
+  tournament: tournamentSchema,
+  token: sessionTokenSchema,
+  entrantId: z.string().uuid().optional(),
+});
+
+export const playerCredentialsSchema = z.object({
+  username: usernameSchema,
+  secret: accountSecretSchema,
+});
+
+export const playerAccountSchema = z.object({
+  playerId: z.string().uuid(),
+  username: usernameSchema,
+  accountToken: sessionTokenSchema,
+});
+
+export const playerMatchSchema = z.object({
+  matchId: z.string().uuid(),
+  roomCode: roomCodeSchema,
+  displayName: displayNameSchema,
+  seatIndex: z.number().int().min(0).max(MAX_PLAYERS - 1),
+  startedAt: z.number().int().nonnegative(),
+  endedAt: z.number().int().nonnegative(),
+  reason: z.string().nullable(),
+  won: z.boolean(),
+  opponents: z.number().int().nonnegative(),
+  penalties: z.number().int().nonnegative(),
+  slapsLost: z.number().int().nonnegative(),
+});
+
+export const playerMatchHistorySchema = z.object({
+  playerId: z.string().uuid(),
+  username: usernameSchema,
+  totals: z.object({
+    matches: z.number().int().nonnegative(),
+    wins: z.number().int().nonnegative(),
+  }),
+  matches: z.array(playerMatchSchema),
+});
+
+export const leaderboardMetricSchema = z.enum(LEADERBOARD_METRICS);
+export const leaderboardPeriodSchema = z.enum(LEADERBOARD_PERIODS);
+
+export const leaderboardEntrySchema = z.object({
+  rank: z.number().int().positive(),
+  playerId: z.string().uuid(),
+  username: usernameSchema,
+  matches: z.number().int().nonnegative(),
+  wins: z.number().int().nonnegative(),
+  winRate: z.number().min(0).max(1),
+  avgReactionMs: z.number().nonnegative().nullable(),
+  penaltiesPerMatch: z.number().nonnegative(),
+});
+
+export const leaderboardSchema = z.object({
+  metric: leaderboardMetricSchema,
+  period: leaderboardPeriodSchema,
+  minMatches: z.number().int().nonnegative(),
+  entries: z.array(leaderboardEntrySchema),
+});
+
+export const hallOfFameEntrySchema = z.object({
+  rank: z.number().int().positive(),
+  userId: z.string().uuid(),
+  displayName: displayNameSchema,
+  matches: z.number().int().nonnegative(),
+  wins: z.number().int().nonnegative(),
+  avgReactionMs: z.number().nonnegative().nullable(),
+});
+
+export const roomHallOfFameSchema = z.object({
+  roomCode: roomCodeSchema,
+  entries: z.array(hallOfFameEntrySchema),
+});
+
+export const matchListingSchema = z.object({
+  matchId: z.string().uuid(),
+  roomCode: roomCodeSchema,
+  startedAt: z.number().int().nonnegative(),
+  endedAt: z.number().int().nonnegative(),
+  reason: z.string().nullable(),
+  winnerUserId: z.string().uuid().nullable(),
+  players: z.array(
+    z.object({
+      userId: z.string().uuid(),
+      displayName: displayNameSchema,
+      seatIndex: z.number().int().min(0).max(MAX_PLAYERS - 1),
+      handCount: z.number().int().min(0),
+    }),
+  ),
+});
+
+export const matchListingPageSchema = z.object({
+  matches: z.array(matchListingSchema),
+  nextCursor: z.string().nullable(),
+});
+
 export const clientEventsSchemas = {
-  'v1:room.create': z.object({ displayName: displayNameSchema }),
+  'v1:room.create': z.object({
+    displayName: displayNameSchema,
+    accountToken: sessionTokenSchema.optional(),
+    public: z.boolean().optional(),
+  }),
   'v1:room.join': z.object({
     roomCode: roomCodeSchema,
     displayName: displayNameSchema,
-    userId: z.string().uuid().optional(),
+    sessionToken: sessionTokenSchema.optional(),
+    accountToken: sessionTokenSchema.optional(),
+  }),
+  'v1:room.spectate': z.object({
+    roomCode: roomCodeSchema,
+    displayName: displayNameSchema,
+    sessionToken: sessionTokenSchema.optional(),
   }),
   'v1:room.leave': z.object({}),
   'v1:lobby.ready': z.object({ ready: z.boolean() }),
-  'v1:lobby.kick': z.object({ userId: z.string().uuid() }),
+  'v1:lobby.kick': z.object({
+    userId: z.string().uuid(),
+    /** Also bar the player from rejoining for the room's lifetime. */
+    ban: z.boolean().optional(),
+    /** Mid-game only; defaults to `PILE`. */
+    hand: z.enum(KICKED_HAND_DISPOSITIONS).optional(),
+  }),
+  'v1:lobby.unban': z.object({ userId: z.string().uuid() }),
+  'v1:lobby.lock': z.object({ locked: z.boolean() }),
+  'v1:lobby.transferHost': z.object({ userId: z.string().uuid() }),
+  'v1:lobby.visibility': z.object({ public: z.boolean() }),
+  'v1:rooms.list': z.object({}),
+  'v1:match.queue': z.object({
+    displayName: displayNameSchema,
+    size: z.number().int().min(MIN_PLAYERS).max(MAX_PLAYERS),
+    accountToken: sessionTokenSchema.optional(),
+  }),
+  'v1:match.cancel': z.object({}),
+  'v1:tournament.watch': z.object({ code: roomCodeSchema }),
+  /** Seats the entrant in their current bracket room, by the token they got on registering. */
+  'v1:tournament.join': z.object({ code: roomCodeSchema, token: sessionTokenSchema }),
+  'v1:lobby.takeSeat': z.object({ accountToken: sessionTokenSchema.optional() }),
+  'v1:lobby.addBot': z.object({ difficulty: botDifficultySchema }),
+  'v1:lobby.configure': roomRulesSchema.partial(),
   'v1:lobby.start': z.object({}),
+  'v1:chat.send': chatContentSchema,
+  'v1:chat.mute': z.object({ userId: z.string().uuid(), muted: z.boolean() }),
   'v1:game.stop': z.object({}),
+  'v1:game.nextRound': z.object({}),
   'v1:game.skipSlap': z.object({}),
+  'v1:game.resync': z.object({}),
   'v1:game.flip': z.object({
     clientSeq: z.number().int().nonnegative(),
     clientTime: z.number().int().nonnegative(),
@@ -97,25 +460,48 @@ export const clientEventsSchemas = {
     offsetMs: z.number().finite(),
     rttMs: z.number().finite(),
   }),
-  'v1:ping': z.object({ clientTime: z.number().int().nonnegative() }),
+  'v1:ping': z.object({
+    clientTime: z.number().int().nonnegative(),
+  }),
+  /** Sent straight back on every `v1:pong` so the server can time the round trip itself. */
+  'v1:clock.echo': z.object({
+    serverTime: z.number().int().nonnegative(),
+    receivedAt: z.number().int().nonnegative(),
+    sentAt: z.number().int().nonnegative(),
+  }),
 } as const;
 
 export const serverEventsSchemas = {
   'v1:room.state': z.object({
     room: roomSchema,
     meUserId: z.string().uuid(),
+    sessionToken: sessionTokenSchema,
   }),
   'v1:room.kicked': z.object({
     roomCode: roomCodeSchema,
     byUserId: z.string().uuid(),
   }),
+  /** The room was left without you: an automatic start found no spectator seat for you. */
+  'v1:room.left': z.object({
+    roomCode: roomCodeSchema,
+    reason: z.enum(['NO_SEAT']),
+  }),
+  'v1:chat.message': chatMessageSchema,
+  'v1:chat.history': z.object({ messages: z.array(chatMessageSchema) }),
+  'v1:rooms.list': z.object({ rooms: z.array(publicRoomListingSchema) }),
+  'v1:match.queued': z.object({
+    size: z.number().int().min(MIN_PLAYERS).max(MAX_PLAYERS),
+    waiting: z.number().int().positive(),
+  }),
+  'v1:tournament.state': z.object({ tournament: tournamentSchema }),
   'v1:game.state': z.object({
     snapshot: gameStateViewSchema,
     serverTime: z.number().int().nonnegative(),
     version: z.number().int().nonnegative(),
   }),
   'v1:game.delta': z.object({
-    patch: z.array(z.unknown()),
+    patch: z.array(patchOperationSchema),
+    baseVersion: z.number().int().nonnegative(),
     serverTime: z.number().int().nonnegative(),
     version: z.number().int().nonnegative(),
   }),
@@ -136,7 +522,7 @@ export const serverEventsSchemas = {
   }),
   'v1:penalty': z.object({
     userId: z.string().uuid(),
-    type: z.enum(['FALSE_SLAP', 'WRONG_GESTURE', 'TURN_TIMEOUT', 'NO_SLAPS']),
+    type: penaltyTypeSchema,
     pileTaken: z.number().int().nonnegative(),
   }),
   'v1:error': z.object({
@@ -1,10 +1,37 @@
-import type { ACTION_CARDS, NORMAL_CARDS } from './constants';
+import type {
+  ACTION_CARDS,
+  BOT_DIFFICULTIES,
+  DECK_PRESETS,
+  EMOTES,
+  GRACE_EXPIRY_ACTIONS,
+  KICKED_HAND_DISPOSITIONS,
+  LEADERBOARD_METRICS,
+  LEADERBOARD_PERIODS,
+  NORMAL_CARDS,
+  PENALTY_TYPES,
+  SERIES_BEST_OF,
+  TOURNAMENT_STATUSES,
+  TEAM_MODES,
+  UNREADY_PLAYER_POLICIES,
+} from './constants';
 import type { ErrorCode } from './errors';
 
 export type NormalCard = (typeof NORMAL_CARDS)[number];
 export type ActionCard = (typeof ACTION_CARDS)[number];
 export type Card = NormalCard | ActionCard;
 export type Gesture = ActionCard;
+export type BotDifficulty = (typeof BOT_DIFFICULTIES)[number];
+export type PenaltyType = (typeof PENALTY_TYPES)[number];
+export type Emote = (typeof EMOTES)[number];
+export type LeaderboardMetric = (typeof LEADERBOARD_METRICS)[number];
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+export type DeckPreset = (typeof DECK_PRESETS)[number];
+export type GraceExpiryAction = (typeof GRACE_EXPIRY_ACTIONS)[number];
+export type KickedHandDisposition = (typeof KICKED_HAND_DISPOSITIONS)[number];
+export type TeamMode = (typeof TEAM_MODES)[number];
+export type UnreadyPlayerPolicy = (typeof UNREADY_PLAYER_POLICIES)[number];
+export type TournamentStatus = (typeof TOURNAMENT_STATUSES)[number];
+export type DeckSpec = { preset: DeckPreset } | { custom: Record<Card, number> };
 
 export type SlapWindowReason = 'MATCH' | 'ACTION' | 'SAME_CARD';
 export type GameStatus = 'LOBBY' | 'IN_GAME' | 'FINISHED';
@@ -15,6 +42,31 @@ export interface GameConfig {
   actionSlapWindowMs: number;
   turnTimeoutMs: number;
   minHumanMs: number;
+  sameCardSlaps: boolean;
+  falseSlapPenalty: boolean;
+  teamMode: TeamMode;
+  /** Elimination play: a pile taker left holding more than this many cards is out; 0 is off. */
+  eliminationCardThreshold: number;
+  /** Elimination play: whoever takes the pile to end every this-many rounds is out; 0 is off. */
+  eliminationRounds: number;
+}
+
+export type SeriesFormat =
+  | { type: 'SINGLE' }
+  | { type: 'BEST_OF'; games: (typeof SERIES_BEST_OF)[number] }
+  | { type: 'FIRST_TO'; points: number };
+
+export interface RoomRules extends GameConfig {
+  deck: DeckSpec;
+  series: SeriesFormat;
+  reconnectGraceMs: number;
+  graceExpiry: GraceExpiryAction;
+  /** How long a host may stay disconnected mid-game before another player takes over. */
+  hostMigrationMs: number;
+  /** Start on a countdown once every connected player is ready. */
+  autoStart: boolean;
+  /** Whether disconnected unready players hold up auto-start or become spectators. */
+  unreadyPlayers: UnreadyPlayerPolicy;
 }
 
 export interface SlapAttempt {
@@ -28,6 +80,11 @@ export interface SlapAttempt {
   receivedAtServerTime: number;
 }
 
+/** A slap from a resolved window, with the reaction estimate the engine ranked it by. */
+export interface ResolvedSlapAttempt extends SlapAttempt {
+  reactionMs: number;
+}
+
 export interface LastRevealed {
   card: Card;
   chantWord: NormalCard;
@@ -56,6 +113,11 @@ export interface EnginePlayerState {
   seatIndex: number;
   connected: boolean;
   ready: boolean;
+  forfeited?: boolean | undefined;
+  /** Set in team play; seats alternate between teams 0 and 1. */
+  teamId?: number | undefined;
+  /** Knocked out under elimination play: skipped for turns and slaps, hand dealt away. */
+  eliminated?: boolean | undefined;
   hand: Card[];
 }
 
@@ -65,6 +127,9 @@ export interface PublicPlayerState {
   seatIndex: number;
   connected: boolean;
   ready: boolean;
+  forfeited?: boolean | undefined;
+  teamId?: number | undefined;
+  eliminated?: boolean | undefined;
   handCount: number;
 }
 
@@ -78,7 +143,11 @@ export interface GameState {
   pileTopCard?: Card | undefined;
   lastRevealed?: LastRevealed | undefined;
   slapWindow: SlapWindowState;
+  /** Under elimination play, how many times the pile has been taken; each take ends a round. */
+  roundsPlayed?: number | undefined;
+  /** In team play, the player who went out for `winnerTeamId`. */
   winnerUserId?: string | undefined;
+  winnerTeamId?: number | undefined;
   version: number;
   nextSlapEventNonce: number;
   config: GameConfig;
@@ -87,23 +156,113 @@ export interface GameState {
 export interface GameStateView {
   status: Exclude<GameStatus, 'LOBBY'>;
   players: PublicPlayerState[];
-  meHand: Card[];
+  meHand?: Card[] | undefined;
   currentTurnSeat: number;
   chantIndex: number;
   pileCount: number;
   pileTopCard?: Card | undefined;
   lastRevealed?: LastRevealed | undefined;
   slapWindow: Omit<SlapWindowState, 'attempts' | 'flipperSeat'> & { slappedUserIds: string[] };
+  roundsPlayed?: number | undefined;
   winnerUserId?: string | undefined;
+  winnerTeamId?: number | undefined;
   version: number;
 }
 
+export type PatchPath = Array<string | number>;
+
+export type PatchOperation =
+  | { op: 'replace'; path: PatchPath; value: unknown }
+  | { op: 'remove'; path: PatchPath };
+
 export interface RoomPlayer {
   userId: string;
   displayName: string;
   seatIndex: number;
   connected: boolean;
   ready: boolean;
+  botDifficulty?: BotDifficulty | undefined;
+  /** Set while a disconnected player's reconnect grace period runs. */
+  reconnectDeadline?: number | undefined;
+  /** The bot is covering for a player whose grace period ran out; they get the seat back on rejoin. */
+  botStandIn?: boolean | undefined;
+  /** Stable account id of a signed-in player; absent for guests and bots. */
+  playerId?: string | undefined;
+  /** Skill rating of the seat's account, refreshed after every rated match. */
+  rating?: number | undefined;
+  /** Kicked mid-game: the seat stays until the room is back in the lobby, but nobody plays it. */
+  kicked?: boolean | undefined;
+  /** Start of the seat's current connection; the longest-connected player inherits the host. */
+  connectedSince?: number | undefined;
+}
+
+export interface RoomSpectator {
+  userId: string;
+  displayName: string;
+  connected: boolean;
+}
+
+/** Banned for the room's lifetime; matched on userId and, if signed in, the account. */
+export interface RoomBan {
+  userId: string;
+  displayName: string;
+  playerId?: string | undefined;
+  bannedAt: number;
+}
+
+/** An open public lobby as shown in the room browser. */
+export interface PublicRoomListing {
+  roomCode: string;
+  hostDisplayName: string;
+  playerCount: number;
+  spectatorCount: number;
+  createdAt: number;
+}
+
+export interface SeriesRound {
+  round: number;
+  winnerUserId: string;
+  loserUserId: string;
+}
+
+export interface SeriesState {
+  format: SeriesFormat;
+  rounds: SeriesRound[];
+  scores: Record<string, number>;
+  winnerUserId?: string | undefined;
+}
+
+/** One player's tallies for the current round; reset whenever a round starts. */
+export interface PlayerMatchStats {
+  slaps: number;
+  /** Slaps in windows where someone else took the pile. */
+  slapsWon: number;
+  totalReactionMs: number;
+  bestReactionMs: number | null;
+  penalties: Record<PenaltyType, number>;
+  cardsTaken: number;
+}
+
+/** Server-only anti-cheat tally for one player, carried across slap windows. */
+export interface SlapSuspicion {
+  score: number;
+  suspiciousSlaps: number;
+  /** Flagged players' slaps are ordered by server receive time instead of their timestamps. */
+  flagged: boolean;
+}
+
+export type ChatContent = { kind: 'TEXT'; text: string } | { kind: 'EMOTE'; emote: Emote };
+
+export type ChatMessage = ChatContent & {
+  messageId: string;
+  userId: string;
+  displayName: string;
+  sentAt: number;
+};
+
+export interface ActiveMatchRef {
+  matchId: string;
+  replaySeq: number;
 }
 
 export interface RoomState {
@@ -112,12 +271,178 @@ export interface RoomState {
   status: RoomStatus;
   hostUserId: string;
   players: RoomPlayer[];
+  spectators: RoomSpectator[];
+  rules: RoomRules;
+  series?: SeriesState | undefined;
+  /** Per-player stats for the current or just-finished round, keyed by userId. */
+  matchStats?: Record<string, PlayerMatchStats> | undefined;
   gameState?: GameState | undefined;
+  /** Server-only link to the persisted match, kept on the room so any instance can append to it. */
+  activeMatch?: ActiveMatchRef | undefined;
+  /** Server-only slap timing suspicion, keyed by userId. */
+  slapSuspicion?: Record<string, SlapSuspicion> | undefined;
+  /** Server-only recent chat, capped at `CHAT_HISTORY_LIMIT`; sent to sockets as they join. */
+  chat?: ChatMessage[] | undefined;
+  /** Players and spectators the host has muted in chat. */
+  chatMutedUserIds?: string[] | undefined;
+  /** A locked room turns away new players and spectators; existing sessions can still rejoin. */
+  locked?: boolean | undefined;
+  /** Only sent in the host's `v1:room.state`; other members never see who is banned. */
+  bans?: RoomBan[] | undefined;
+  /** Set while the host is disconnected mid-game; the role moves on once it passes. */
+  hostMigrationDeadline?: number | undefined;
+  /** Listed in `v1:rooms.list` while it is an open lobby. */
+  public?: boolean | undefined;
+  /** Formed by the quick-match queue. */
+  quickMatch?: boolean | undefined;
+  /** Set while a countdown to an automatic start runs. */
+  startCountdownEndsAt?: number | undefined;
+  /** The bracket match this room plays, for rooms seeded by a tournament. */
+  tournament?: TournamentRoomLink | undefined;
   version: number;
   createdAt: number;
   updatedAt: number;
 }
 
+export interface TournamentRoomLink {
+  tournamentId: string;
+  code: string;
+  /** 0-based indexes into `Tournament.rounds` and that round's `matches`. */
+  round: number;
+  match: number;
+}
+
+export interface TournamentEntrant {
+  entrantId: string;
+  displayName: string;
+  /** Account of a signed-in entrant. */
+  playerId?: string | undefined;
+  registeredAt: number;
+}
+
+/** One room of a round. A match of a single entrant is a bye and goes straight through. */
+export interface TournamentMatch {
+  entrantIds: string[];
+  roomId?: string | undefined;
+  roomCode?: string | undefined;
+  /** The room-scoped userId seated for each entrant. */
+  seats?: Record<string, string> | undefined;
+  /** Entrants going through, best placed first; set once the match is decided. */
+  advancedEntrantIds?: string[] | undefined;
+}
+
+export interface TournamentRound {
+  matches: TournamentMatch[];
+}
+
+export interface Tournament {
+  tournamentId: string;
+  code: string;
+  name: string;
+  status: TournamentStatus;
+  /** Seats per room; each round spreads its entrants evenly over the fewest rooms. */
+  roomSize: number;
+  /** Finishers each room sends to the next round; a final room sends only its winner. */
+  advancePerRoom: number;
+  entrants: TournamentEntrant[];
+  rounds: TournamentRound[];
+  championEntrantId?: string | undefined;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Returned once on creation or registration; the token proves the role from then on. */
+export interface TournamentCredentials {
+  tournament: Tournament;
+  token: string;
+  entrantId?: string | undefined;
+}
+
+export interface PlayerAccount {
+  playerId: string;
+  username: string;
+  accountToken: string;
+}
+
+export interface PlayerMatch {
+  matchId: string;
+  roomCode: string;
+  displayName: string;
+  seatIndex: number;
+  startedAt: number;
+  endedAt: number;
+  reason: string | null;
+  won: boolean;
+  opponents: number;
+  penalties: number;
+  slapsLost: number;
+}
+
+export interface PlayerMatchHistory {
+  playerId: string;
+  username: string;
+  totals: {
+    matches: number;
+    wins: number;
+  };
+  matches: PlayerMatch[];
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  username: string;
+  matches: number;
+  wins: number;
+  winRate: number;
+  /** Mean estimated slap reaction; null until the player has slapped in a recorded match. */
+  avgReactionMs: number | null;
+  penaltiesPerMatch: number;
+}
+
+export interface Leaderboard {
+  metric: LeaderboardMetric;
+  period: LeaderboardPeriod;
+  /** Completed matches a player needs before rate-based metrics rank them. */
+  minMatches: number;
+  entries: LeaderboardEntry[];
+}
+
+export interface HallOfFameEntry {
+  rank: number;
+  userId: string;
+  displayName: string;
+  matches: number;
+  wins: number;
+  avgReactionMs: number | null;
+}
+
+export interface RoomHallOfFame {
+  roomCode: string;
+  entries: HallOfFameEntry[];
+}
+
+export interface MatchListing {
+  matchId: string;
+  roomCode: string;
+  startedAt: number;
+  endedAt: number;
+  reason: string | null;
+  winnerUserId: string | null;
+  players: Array<{
+    userId: string;
+    displayName: string;
+    seatIndex: number;
+    handCount: number;
+  }>;
+}
+
+export interface MatchListingPage {
+  matches: MatchListing[];
+  /** Pass back as `cursor` for the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
 export interface ServiceError {
   code: ErrorCode;
   message: string;